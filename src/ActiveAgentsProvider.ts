@@ -4,6 +4,9 @@ import * as fs from 'fs';
 import { getMemoryBankService } from './services/memoryBankService';
 import { ProjectInfo } from './types/memoryBank';
 import { SqliteService } from './services/SqliteService';
+import { getLockStatuses } from './services/fileLockService';
+import { getAgentHealth, getHeartbeatAge } from './services/agentHeartbeatService';
+import { FileLockStatus } from './types/db';
 
 export class ActiveAgentsProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = 
@@ -288,12 +291,19 @@ export class ActiveAgentsProvider implements vscode.TreeDataProvider<vscode.Tree
                 agent.keywords,
                 agent.responsibilities
             );
-            item.description = agent.status;
+            const health = getAgentHealth(agent);
+            const heartbeatAge = getHeartbeatAge(agent);
+            const heartbeatAgo = isNaN(heartbeatAge) ? '' : ` · latido hace ${Math.max(0, Math.round(heartbeatAge / 60000))} min`;
+            item.description = health === 'late' || health === 'stale' ? `${agent.status}${heartbeatAgo}` : agent.status;
             item.tooltip = `Status: ${agent.status}\nFocus: ${agent.focus}\nSession: ${agent.sessionId}\nHeartbeat: ${agent.lastHeartbeat}`;
             // Always make it expandable to show history
             item.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
-            if (agent.status.trim().toUpperCase() === 'ACTIVE') {
+            if (health === 'active') {
                  item.iconPath = new vscode.ThemeIcon('loading~spin', new vscode.ThemeColor('testing.iconPassed'));
+            } else if (health === 'late') {
+                 item.iconPath = new vscode.ThemeIcon('watch', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+            } else if (health === 'stale') {
+                 item.iconPath = new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('problemsErrorIcon.foreground'));
             } else {
                  item.iconPath = new vscode.ThemeIcon('person');
             }
@@ -308,6 +318,7 @@ export class ActiveAgentsProvider implements vscode.TreeDataProvider<vscode.Tree
     const logs = sqlite.getOrchestratorLogs(projectId);
     const logsSection = new SectionTreeItem(`Orchestrator Logs (${logs.length})`, vscode.TreeItemCollapsibleState.Collapsed);
     logsSection.iconPath = new vscode.ThemeIcon('output');
+    logsSection.contextValue = 'orchestrator-logs';
     if (logs.length > 0) {
         logsSection.children = logs.map(log => {
              const label = `[${log.action}] ${log.taskDescription.substring(0, 50)}${log.taskDescription.length > 50 ? '...' : ''}`;
@@ -444,17 +455,15 @@ export class ActiveAgentsProvider implements vscode.TreeDataProvider<vscode.Tree
     sections.push(completedRequestsSection);
 
     // File Locks
-    const locks = sqlite.getFileLocks(projectId);
-    const locksSection = new SectionTreeItem(`Bloqueos de Archivos (${locks.length})`, vscode.TreeItemCollapsibleState.Collapsed);
+    const locks = getLockStatuses(sqlite, projectId);
+    const expiredLocks = locks.filter(lock => lock.expired).length;
+    const locksSection = new SectionTreeItem(
+        `Bloqueos de Archivos (${locks.length}${expiredLocks > 0 ? `, ${expiredLocks} expirados` : ''})`,
+        vscode.TreeItemCollapsibleState.Collapsed
+    );
     locksSection.iconPath = new vscode.ThemeIcon('lock');
     if (locks.length > 0) {
-        locksSection.children = locks.map(lock => {
-             const item = new vscode.TreeItem(lock.pattern, vscode.TreeItemCollapsibleState.None);
-             item.description = `by ${lock.claimedBy}`;
-             item.tooltip = `Claimed by: ${lock.claimedBy}\nSince: ${lock.since}`;
-             item.iconPath = new vscode.ThemeIcon('file');
-             return item;
-        });
+        locksSection.children = locks.map(lock => new FileLockTreeItem(lock));
     } else {
         locksSection.children = [new vscode.TreeItem('No hay bloqueos activos', vscode.TreeItemCollapsibleState.None)];
     }
@@ -757,6 +766,28 @@ class AgentTreeItem extends vscode.TreeItem {
     }
 }
 
+export class FileLockTreeItem extends vscode.TreeItem {
+    public readonly pattern: string;
+    public readonly projectId: string;
+    public readonly claimedBy: string;
+    public readonly expired: boolean;
+
+    constructor(lock: FileLockStatus) {
+        super(lock.pattern, vscode.TreeItemCollapsibleState.None);
+        this.pattern = lock.pattern;
+        this.projectId = lock.projectId;
+        this.claimedBy = lock.claimedBy;
+        this.expired = lock.expired;
+        this.contextValue = lock.expired ? 'file-lock-expired' : 'file-lock';
+        this.description = lock.expired ? `by ${lock.claimedBy} · expirado` : `by ${lock.claimedBy}`;
+        this.tooltip = `Claimed by: ${lock.claimedBy}\nSince: ${lock.since}` +
+            (lock.expiresAt ? `\n${lock.expired ? 'Expired' : 'Expires'}: ${new Date(lock.expiresAt).toLocaleString()}` : '');
+        this.iconPath = lock.expired ?
+            new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground')) :
+            new vscode.ThemeIcon('file');
+    }
+}
+
 export class ExternalRequestTreeItem extends vscode.TreeItem {
     constructor(
         public readonly id: string,
@@ -12,10 +12,19 @@ import {
   FrameworkAnalysis,
   EndpointInfo,
   FrameworkAnalysisStatus,
+  ApiDriftItem,
+  ApiDriftKind,
+  ApiDriftReport,
+  DiProvider,
+  DiInjection,
+  DiCycle,
+  DiGraph,
   FRAMEWORK_INFO,
   COMPONENT_TYPE_INFO,
 } from './types/framework';
 import * as frameworkDetectorService from './services/frameworkDetectorService';
+import * as openApiService from './services/openApiService';
+import * as dependencyInjectionService from './services/dependencyInjectionService';
 import { getMemoryBankService, formatRelativeTime } from './services/memoryBankService';
 import { ProjectInfo } from './types/memoryBank';
 
@@ -29,9 +38,59 @@ type FrameworkItemType =
   | 'component'        // Individual component
   | 'endpoint-group'   // Endpoint mappings group
   | 'endpoint'         // Individual endpoint
+  | 'drift-group'      // OpenAPI drift check result
+  | 'drift'            // Individual drift item
+  | 'di-group'         // Dependency injection graph
+  | 'di-section'       // DI section (providers, unresolved, unused, cycles)
+  | 'di-provider'      // Registered provider (bean, injectable, token)
+  | 'di-injection'     // Injection site
+  | 'di-cycle'         // Circular injection chain
   | 'action'           // Action button
   | 'empty';           // Empty state
 
+type DiSection = 'providers' | 'unresolved' | 'unused' | 'cycles';
+
+/**
+ * DI data carried by the dependency injection items
+ */
+interface DiTreeNode {
+  section?: DiSection;
+  provider?: DiProvider;
+  injection?: DiInjection;
+  /** For injection items: 'in' lists who injects a provider, 'out' what a provider injects */
+  direction?: 'in' | 'out';
+  /** For outgoing injections: providers that satisfy it */
+  resolvedTo?: DiProvider[];
+  cycle?: DiCycle;
+}
+
+const DI_SECTIONS: Record<DiSection, { label: string; icon: string }> = {
+  providers: { label: 'Proveedores', icon: 'symbol-class' },
+  unresolved: { label: 'Sin resolver', icon: 'warning' },
+  unused: { label: 'Nunca inyectados', icon: 'circle-slash' },
+  cycles: { label: 'Ciclos', icon: 'sync' },
+};
+
+const DI_VIA_LABELS: Record<DiInjection['via'], string> = {
+  'constructor': 'constructor',
+  'field': 'campo',
+  'setter': 'setter',
+  'bean-parameter': 'parámetro @Bean',
+  'token': 'token',
+};
+
+const DRIFT_ICONS: Record<ApiDriftKind, string> = {
+  undocumented: 'question',
+  removed: 'circle-slash',
+  mismatched: 'warning',
+};
+
+const DRIFT_LABELS: Record<ApiDriftKind, string> = {
+  undocumented: 'sin documentar',
+  removed: 'no está en el código',
+  mismatched: 'discrepancia',
+};
+
 /**
  * Tree item for framework components view
  */
@@ -45,7 +104,9 @@ export class FrameworkTreeItem extends vscode.TreeItem {
     public readonly component?: FrameworkComponent,
     public readonly endpoint?: EndpointInfo,
     public readonly childComponents?: FrameworkComponent[],
-    public readonly childEndpoints?: EndpointInfo[]
+    public readonly childEndpoints?: EndpointInfo[],
+    public readonly driftItem?: ApiDriftItem,
+    public readonly diNode?: DiTreeNode
   ) {
     super(label, collapsibleState);
     this.setupItem();
@@ -71,6 +132,21 @@ export class FrameworkTreeItem extends vscode.TreeItem {
       case 'endpoint':
         this.setupEndpointItem();
         break;
+      case 'drift':
+        this.setupDriftItem();
+        break;
+      case 'di-section':
+        this.setupDiSectionItem();
+        break;
+      case 'di-provider':
+        this.setupDiProviderItem();
+        break;
+      case 'di-injection':
+        this.setupDiInjectionItem();
+        break;
+      case 'di-cycle':
+        this.setupDiCycleItem();
+        break;
       case 'action':
         this.setupActionItem();
         break;
@@ -125,6 +201,9 @@ export class FrameworkTreeItem extends vscode.TreeItem {
     if (this.component.metadata?.decorators) {
       this.tooltip.appendMarkdown(`- Decoradores: ${this.component.metadata.decorators.join(', ')}\n`);
     }
+    if (this.component.metadata?.dependencies) {
+      this.tooltip.appendMarkdown(`- Inyecta: ${this.component.metadata.dependencies.join(', ')}\n`);
+    }
     if (this.component.metadata?.basePath) {
       this.tooltip.appendMarkdown(`- Base Path: \`${this.component.metadata.basePath}\`\n`);
     }
@@ -178,6 +257,108 @@ export class FrameworkTreeItem extends vscode.TreeItem {
     };
   }
 
+  private setupDriftItem(): void {
+    if (!this.driftItem) return;
+
+    this.iconPath = new vscode.ThemeIcon(DRIFT_ICONS[this.driftItem.kind]);
+    this.description = DRIFT_LABELS[this.driftItem.kind];
+    this.tooltip = new vscode.MarkdownString();
+    this.tooltip.appendMarkdown(`**${this.driftItem.method}** \`${this.driftItem.path}\`\n\n`);
+    this.tooltip.appendMarkdown(`${this.driftItem.detail}\n`);
+    this.contextValue = 'framework-drift';
+
+    // Routes found in code open the handler, the rest open the OpenAPI document
+    const target = this.driftItem.endpoint
+      ? [this.driftItem.endpoint.filePath, this.driftItem.endpoint.line]
+      : [this.driftItem.operation?.file, this.driftItem.operation?.line];
+    this.command = {
+      command: 'memorybank.frameworks.openFile',
+      title: 'Open File',
+      arguments: target
+    };
+  }
+
+  private setupDiSectionItem(): void {
+    if (!this.diNode?.section) return;
+
+    this.iconPath = new vscode.ThemeIcon(DI_SECTIONS[this.diNode.section].icon);
+    this.contextValue = 'framework-di-section';
+  }
+
+  private setupDiProviderItem(): void {
+    const provider = this.diNode?.provider;
+    if (!provider) return;
+
+    this.iconPath = new vscode.ThemeIcon(provider.entryPoint ? 'symbol-interface' : 'symbol-class');
+    this.description = provider.scope && provider.scope !== 'singleton'
+      ? `${provider.registeredBy} · ${provider.scope}`
+      : provider.registeredBy;
+
+    this.tooltip = new vscode.MarkdownString();
+    this.tooltip.appendMarkdown(`**${provider.name}**\n\n`);
+    this.tooltip.appendMarkdown(`- Registrado por: \`${provider.registeredBy}\`\n`);
+    if (provider.scope) {
+      this.tooltip.appendMarkdown(`- Scope: ${provider.scope}\n`);
+    }
+    if (provider.providesTypes.length > 1) {
+      this.tooltip.appendMarkdown(`- Tipos: ${provider.providesTypes.join(', ')}\n`);
+    }
+    this.tooltip.appendMarkdown(`- Archivo: \`${provider.filePath}\`\n`);
+    this.tooltip.appendMarkdown(`- Línea: ${provider.line}\n`);
+
+    this.contextValue = 'framework-di-provider';
+    this.command = {
+      command: 'memorybank.frameworks.openFile',
+      title: 'Open File',
+      arguments: [provider.filePath, provider.line]
+    };
+  }
+
+  private setupDiInjectionItem(): void {
+    const injection = this.diNode?.injection;
+    if (!injection) return;
+
+    const location = `${path.basename(injection.filePath)}:${injection.line}`;
+    if (this.diNode!.direction === 'out') {
+      const resolvedTo = this.diNode!.resolvedTo || [];
+      this.iconPath = new vscode.ThemeIcon(resolvedTo.length > 0 ? 'arrow-right' : injection.external ? 'library' : 'warning');
+      this.description = resolvedTo.length > 0
+        ? `${resolvedTo.map(p => p.name).join(', ')} · ${DI_VIA_LABELS[injection.via]}`
+        : `${injection.external ? 'externo' : 'sin resolver'} · ${DI_VIA_LABELS[injection.via]}`;
+    } else {
+      this.iconPath = new vscode.ThemeIcon(this.diNode!.direction === 'in' ? 'arrow-left' : 'warning');
+      this.description = `${DI_VIA_LABELS[injection.via]} · ${location}`;
+    }
+
+    this.tooltip = new vscode.MarkdownString();
+    this.tooltip.appendMarkdown(`**${injection.consumer}** inyecta \`${injection.type}\`${injection.name ? ` como \`${injection.name}\`` : ''}\n\n`);
+    this.tooltip.appendMarkdown(`- Vía: ${DI_VIA_LABELS[injection.via]}\n`);
+    this.tooltip.appendMarkdown(`- Archivo: \`${injection.filePath}\`\n`);
+    this.tooltip.appendMarkdown(`- Línea: ${injection.line}\n`);
+
+    this.contextValue = 'framework-di-injection';
+    this.command = {
+      command: 'memorybank.frameworks.openFile',
+      title: 'Open File',
+      arguments: [injection.filePath, injection.line]
+    };
+  }
+
+  private setupDiCycleItem(): void {
+    const cycle = this.diNode?.cycle;
+    if (!cycle) return;
+
+    this.iconPath = new vscode.ThemeIcon('sync');
+    const steps = cycle.chain.length - 1;
+    this.description = `${steps} proveedor${steps !== 1 ? 'es' : ''}`;
+    this.tooltip = new vscode.MarkdownString();
+    this.tooltip.appendMarkdown(`**Ciclo de inyección**\n\n${cycle.chain.map(name => `\`${name}\``).join(' → ')}\n\n`);
+    if (cycle.injections.every(injection => injection.via === 'constructor')) {
+      this.tooltip.appendMarkdown('Todas las inyecciones son por constructor: el contenedor no puede crear estos proveedores\n');
+    }
+    this.contextValue = 'framework-di-cycle';
+  }
+
   private setupActionItem(): void {
     this.contextValue = 'framework-action';
   }
@@ -202,6 +383,8 @@ export class FrameworkComponentsProvider implements vscode.TreeDataProvider<Fram
   private analysis: FrameworkAnalysis | null = null;
   private status: FrameworkAnalysisStatus = 'none';
   private isAnalyzing: boolean = false;
+  private driftReport: ApiDriftReport | null = null;
+  private diGraph: DiGraph | null = null;
 
   constructor(logger: vscode.OutputChannel) {
     this.logger = logger;
@@ -221,6 +404,9 @@ export class FrameworkComponentsProvider implements vscode.TreeDataProvider<Fram
    */
   async setSelectedProject(project: ProjectInfo | null): Promise<void> {
     this.selectedProject = project;
+    if (this.driftReport && this.driftReport.projectId !== project?.id) {
+      this.driftReport = null;
+    }
     
     if (project) {
       await this.loadFrameworkAnalysis(project.id);
@@ -247,7 +433,7 @@ export class FrameworkComponentsProvider implements vscode.TreeDataProvider<Fram
   }
 
   /**
-   * Load framework analysis for a project
+   * Load framework analysis for a project (from frameworks.json, refreshing the changed files)
    */
   private async loadFrameworkAnalysis(projectId: string): Promise<void> {
     this.isAnalyzing = true;
@@ -257,14 +443,24 @@ export class FrameworkComponentsProvider implements vscode.TreeDataProvider<Fram
     this.logger.appendLine(`[Frameworks] Starting analysis for project: ${projectId}`);
 
     try {
-      this.analysis = await frameworkDetectorService.getFrameworkAnalysis(projectId, true); // Force refresh
+      this.analysis = await frameworkDetectorService.getFrameworkAnalysis(projectId);
       
       if (this.analysis) {
         this.logger.appendLine(`[Frameworks] Analysis result:`);
+        if (this.analysis.reusedFiles) {
+          this.logger.appendLine(`[Frameworks]   - Reused from cache: ${this.analysis.reusedFiles}/${this.analysis.fileCount} files`);
+        }
         this.logger.appendLine(`[Frameworks]   - Frameworks: ${this.analysis.frameworks.join(', ') || 'none'}`);
         this.logger.appendLine(`[Frameworks]   - Components: ${this.analysis.components.length}`);
         this.logger.appendLine(`[Frameworks]   - Endpoints: ${this.analysis.endpoints.length}`);
         
+        this.diGraph = this.analysis.providers && this.analysis.providers.length > 0
+          ? dependencyInjectionService.buildDiGraph(this.analysis)
+          : null;
+        if (this.diGraph) {
+          this.logger.appendLine(`[Frameworks]   - DI: ${this.diGraph.providers.length} providers, ${this.diGraph.edges.length} injections, ${this.diGraph.unresolved.length} unresolved, ${this.diGraph.unused.length} never injected, ${this.diGraph.cycles.length} cycles`);
+        }
+        
         if (this.analysis.frameworks.length > 0) {
           this.status = 'ready';
         } else {
@@ -273,11 +469,13 @@ export class FrameworkComponentsProvider implements vscode.TreeDataProvider<Fram
         }
       } else {
         this.status = 'no-framework';
+        this.diGraph = null;
         this.logger.appendLine(`[Frameworks] Analysis returned null for ${projectId}`);
       }
     } catch (error) {
       this.logger.appendLine(`[Frameworks] Error loading analysis: ${error}`);
       this.analysis = null;
+      this.diGraph = null;
       this.status = 'error';
     } finally {
       this.isAnalyzing = false;
@@ -292,7 +490,45 @@ export class FrameworkComponentsProvider implements vscode.TreeDataProvider<Fram
 
     frameworkDetectorService.clearAnalysisCache(this.selectedProject.id);
     await this.loadFrameworkAnalysis(this.selectedProject.id);
+
+    // Keep the drift check up to date with the new endpoints
+    if (this.driftReport) {
+      try {
+        this.checkApiDrift(this.driftReport.specFile);
+      } catch (error) {
+        this.logger.appendLine(`[Frameworks] Error re-checking OpenAPI drift: ${error}`);
+        this.driftReport = null;
+      }
+    }
+    this.refresh();
+  }
+
+  /**
+   * Compare the detected endpoints with an OpenAPI/Swagger document
+   * and show the differences in the tree
+   * @throws If the document cannot be read or parsed
+   */
+  checkApiDrift(specFile: string): ApiDriftReport | null {
+    if (!this.analysis) return null;
+
+    this.driftReport = openApiService.checkApiDrift(this.analysis, specFile);
+    this.logger.appendLine(`[Frameworks] OpenAPI drift (${path.basename(specFile)}): ${this.driftReport.items.length} differences, ${this.driftReport.documentedCount} documented, ${this.driftReport.detectedCount} detected`);
     this.refresh();
+    return this.driftReport;
+  }
+
+  /**
+   * Get the result of the last OpenAPI drift check
+   */
+  getDriftReport(): ApiDriftReport | null {
+    return this.driftReport;
+  }
+
+  /**
+   * Get the dependency injection graph of the current analysis
+   */
+  getDiGraph(): DiGraph | null {
+    return this.diGraph;
   }
 
   getTreeItem(element: FrameworkTreeItem): vscode.TreeItem {
@@ -324,6 +560,27 @@ export class FrameworkComponentsProvider implements vscode.TreeDataProvider<Fram
         ));
     }
 
+    // Drift group level - show differences with the OpenAPI document
+    if (element.itemType === 'drift-group' && this.driftReport) {
+      return this.driftReport.items.map(item => new FrameworkTreeItem(
+        `${item.method} ${item.path}`,
+        'drift',
+        vscode.TreeItemCollapsibleState.None,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        item
+      ));
+    }
+
+    // Dependency injection graph
+    if (element.itemType.startsWith('di-') && this.diGraph) {
+      return this.getDiChildren(element);
+    }
+
     // Endpoint group level - show endpoints
     if (element.itemType === 'endpoint-group' && element.childEndpoints) {
       return element.childEndpoints
@@ -435,6 +692,43 @@ export class FrameworkComponentsProvider implements vscode.TreeDataProvider<Fram
     };
     items.push(searchItem);
 
+    // OpenAPI drift check result
+    if (this.driftReport) {
+      const count = this.driftReport.items.length;
+      const driftItem = new FrameworkTreeItem(
+        'Drift OpenAPI',
+        'drift-group',
+        count > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+      );
+      driftItem.iconPath = new vscode.ThemeIcon(count > 0 ? 'warning' : 'pass');
+      driftItem.description = count > 0
+        ? `${count} diferencia${count !== 1 ? 's' : ''} · ${path.basename(this.driftReport.specFile)}`
+        : `sin diferencias · ${path.basename(this.driftReport.specFile)}`;
+      driftItem.tooltip = `${this.driftReport.specFile}\n${this.driftReport.documentedCount} operaciones documentadas, ${this.driftReport.detectedCount} rutas detectadas`;
+      driftItem.contextValue = 'framework-drift-group';
+      items.push(driftItem);
+    }
+
+    // Dependency injection graph (Spring, NestJS)
+    if (this.diGraph) {
+      const { providers, unresolved, cycles } = this.diGraph;
+      const problems = unresolved.length + cycles.length;
+      const diItem = new FrameworkTreeItem(
+        'Inyección de dependencias',
+        'di-group',
+        vscode.TreeItemCollapsibleState.Collapsed
+      );
+      diItem.iconPath = new vscode.ThemeIcon(problems > 0 ? 'warning' : 'type-hierarchy');
+      diItem.description = [
+        `${providers.length} proveedores`,
+        unresolved.length > 0 ? `${unresolved.length} sin resolver` : '',
+        cycles.length > 0 ? `${cycles.length} ciclo${cycles.length !== 1 ? 's' : ''}` : '',
+      ].filter(part => part).join(' · ');
+      diItem.tooltip = `${this.diGraph.edges.length} inyecciones resueltas, ${this.diGraph.externalCount} de librerías, ${this.diGraph.unused.length} proveedores nunca inyectados`;
+      diItem.contextValue = 'framework-di-group';
+      items.push(diItem);
+    }
+
     // Add framework headers
     for (const framework of this.analysis.frameworks) {
       const frameworkInfo = FRAMEWORK_INFO[framework];
@@ -453,16 +747,105 @@ export class FrameworkComponentsProvider implements vscode.TreeDataProvider<Fram
     return items;
   }
 
+  private getDiChildren(element: FrameworkTreeItem): FrameworkTreeItem[] {
+    const graph = this.diGraph!;
+    const providerItem = (provider: DiProvider) =>
+      this.createDiItem(provider.name, 'di-provider', this.getProviderInjections(provider).length > 0, { provider });
+    const byName = (a: DiProvider, b: DiProvider) => a.name.localeCompare(b.name);
+
+    switch (element.itemType) {
+      case 'di-group': {
+        const counts: Record<DiSection, number> = {
+          providers: graph.providers.length,
+          unresolved: graph.unresolved.length,
+          unused: graph.unused.length,
+          cycles: graph.cycles.length,
+        };
+        return (Object.keys(DI_SECTIONS) as DiSection[])
+          .filter(section => section === 'providers' || counts[section] > 0)
+          .map(section => {
+            const item = this.createDiItem(DI_SECTIONS[section].label, 'di-section', counts[section] > 0, { section });
+            item.description = `${counts[section]}`;
+            return item;
+          });
+      }
+
+      case 'di-section':
+        switch (element.diNode?.section) {
+          case 'providers':
+            return [...graph.providers].sort(byName).map(providerItem);
+          case 'unused':
+            return [...graph.unused].sort(byName).map(providerItem);
+          case 'unresolved':
+            return graph.unresolved.map(injection =>
+              this.createDiItem(`${injection.consumer} → ${injection.type}`, 'di-injection', false, { injection })
+            );
+          case 'cycles':
+            return graph.cycles.map(cycle => this.createDiItem(cycle.chain.join(' → '), 'di-cycle', true, { cycle }));
+        }
+        return [];
+
+      case 'di-provider':
+        return this.getProviderInjections(element.diNode!.provider!);
+
+      case 'di-cycle':
+        return element.diNode!.cycle!.injections.map(injection => {
+          const resolvedTo = graph.edges.filter(edge => edge.injection === injection).map(edge => edge.provider);
+          return this.createDiItem(`${injection.consumer} → ${injection.type}`, 'di-injection', false, { injection, direction: 'out', resolvedTo });
+        });
+    }
+
+    return [];
+  }
+
+  private createDiItem(label: string, itemType: FrameworkItemType, collapsible: boolean, diNode: DiTreeNode): FrameworkTreeItem {
+    return new FrameworkTreeItem(
+      label,
+      itemType,
+      collapsible ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      diNode
+    );
+  }
+
+  /**
+   * Injection items of a provider: who injects it (←) and what it injects (→)
+   */
+  private getProviderInjections(provider: DiProvider): FrameworkTreeItem[] {
+    const graph = this.diGraph!;
+    const item = (label: string, diNode: DiTreeNode) => this.createDiItem(label, 'di-injection', false, diNode);
+
+    const consumers = graph.edges
+      .filter(edge => edge.provider === provider)
+      .map(edge => item(`← ${edge.injection.consumer}`, { injection: edge.injection, direction: 'in' }));
+
+    const dependencies = (this.analysis?.injections || [])
+      .filter(injection => injection.consumer === provider.name && injection.filePath === provider.filePath)
+      .map(injection => item(`→ ${injection.type}`, {
+        injection,
+        direction: 'out',
+        resolvedTo: graph.edges.filter(edge => edge.injection === injection).map(edge => edge.provider),
+      }));
+
+    return [...consumers, ...dependencies];
+  }
+
   private getFrameworkChildren(framework: FrameworkType): FrameworkTreeItem[] {
     if (!this.analysis) return [];
 
     const items: FrameworkTreeItem[] = [];
     const frameworkComponents = this.analysis.components.filter(c => c.framework === framework);
     const frameworkEndpoints = this.analysis.endpoints.filter(e => {
-      // Find endpoints that belong to controllers of this framework
+      // Find endpoints that belong to controllers or route files of this framework
       const controller = frameworkComponents.find(c => 
         c.filePath === e.filePath && 
-        (c.type === 'controller' || c.type === 'view')
+        (c.type === 'controller' || c.type === 'view' || c.type === 'route')
       );
       return controller !== undefined;
     });
@@ -12,11 +12,12 @@ import {
   getFileIcon 
 } from './services/memoryBankService';
 import { FileEntry, IndexMetadata } from './types/memoryBank';
+import * as embeddingService from './services/embeddingService';
 
 /**
  * Types of tree items
  */
-type IndexedTreeItemType = 'root' | 'folder' | 'file' | 'stats' | 'empty' | 'orphan-section' | 'orphan-project';
+type IndexedTreeItemType = 'root' | 'folder' | 'file' | 'stats' | 'empty' | 'orphan-section' | 'orphan-project' | 'embedding-warning';
 
 /**
  * Node structure for hierarchical folder tree
@@ -69,6 +70,9 @@ export class IndexedFileTreeItem extends vscode.TreeItem {
       case 'orphan-project':
         this.setupOrphanProjectItem();
         break;
+      case 'embedding-warning':
+        this.setupEmbeddingWarningItem();
+        break;
     }
   }
 
@@ -133,6 +137,16 @@ export class IndexedFileTreeItem extends vscode.TreeItem {
     this.contextValue = 'memorybank-orphan-section';
   }
 
+  private setupEmbeddingWarningItem(): void {
+    this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+    this.contextValue = 'memorybank-embedding-warning';
+    this.command = {
+      command: 'workbench.action.openSettings',
+      title: 'Configurar embeddings',
+      arguments: ['memorybank.rag']
+    };
+  }
+
   private setupOrphanProjectItem(): void {
     this.iconPath = new vscode.ThemeIcon('trash');
     this.contextValue = 'memorybank-orphan-project';
@@ -169,6 +183,15 @@ export class IndexedFilesProvider implements vscode.TreeDataProvider<IndexedFile
 
   constructor(logger: vscode.OutputChannel) {
     this.logger = logger;
+
+    // Show or clear the embedding warning as soon as a query detects a change
+    // (queries are checked against the index when they are embedded)
+    embeddingService.onDidChangeCompatibility(compatibility => {
+      if (compatibility && compatibility.status !== 'ok') {
+        this.logger.appendLine(`[IndexedFiles] ${compatibility.message}`);
+      }
+      this._onDidChangeTreeData.fire();
+    });
   }
 
   /**
@@ -227,6 +250,21 @@ export class IndexedFilesProvider implements vscode.TreeDataProvider<IndexedFile
         statsItem.description = `Última indexación: ${formatRelativeTime(stats.lastIndexed)}`;
         items.push(statsItem);
 
+        // Warn when queries are embedded with a different model than the index
+        const compatibility = embeddingService.getLastCompatibility();
+        if (compatibility && compatibility.status !== 'ok') {
+          const warningItem = new IndexedFileTreeItem(
+            compatibility.status === 'dimension-mismatch'
+              ? '⚠️ Solo búsqueda léxica: el modelo de consultas necesita un índice construido con él'
+              : '⚠️ Modelo de embeddings distinto al del índice',
+            'embedding-warning',
+            vscode.TreeItemCollapsibleState.None
+          );
+          warningItem.description = `${compatibility.queryModel} (${compatibility.queryDimension}) ≠ ${compatibility.indexModel || embeddingService.DEFAULT_INDEX_MODEL} (${compatibility.indexDimension})`;
+          warningItem.tooltip = new vscode.MarkdownString(`${compatibility.message}\n\n*Click para configurar el backend de embeddings.*`);
+          items.push(warningItem);
+        }
+
         // Check for orphaned embeddings
         await this.loadOrphanedProjects();
         
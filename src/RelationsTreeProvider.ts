@@ -10,17 +10,34 @@ import {
   RelationNode,
   RelationNodeType,
   RelationsStatus,
+  ArchitectureRuleSet,
+  ArchitectureViolation,
   NODE_TYPE_ICONS,
   NODE_TYPE_LABELS,
 } from './types/relations';
 import * as relationsAnalyzerService from './services/relationsAnalyzerService';
+import * as architectureRulesService from './services/architectureRulesService';
 import { getMemoryBankService, formatRelativeTime } from './services/memoryBankService';
 import { ProjectInfo } from './types/memoryBank';
 
 /**
  * Types of items in the tree
  */
-type RelationsItemType = 'status' | 'group' | 'node' | 'action' | 'empty';
+type RelationsItemType = 'status' | 'group' | 'node' | 'action' | 'empty' | 'violations' | 'violation';
+
+/** Diagnostic severity for each rule severity */
+const VIOLATION_SEVERITY: Record<ArchitectureViolation['severity'], vscode.DiagnosticSeverity> = {
+  'error': vscode.DiagnosticSeverity.Error,
+  'warning': vscode.DiagnosticSeverity.Warning,
+  'info': vscode.DiagnosticSeverity.Information,
+};
+
+/** Theme icon for each rule severity */
+const VIOLATION_ICONS: Record<ArchitectureViolation['severity'], string> = {
+  'error': 'error',
+  'warning': 'warning',
+  'info': 'info',
+};
 
 /**
  * Tree item for relations view
@@ -33,7 +50,8 @@ export class RelationsTreeItem extends vscode.TreeItem {
     public readonly relationNode?: RelationNode,
     public readonly nodeType?: RelationNodeType,
     public readonly projectId?: string,
-    public readonly childNodes?: RelationNode[]
+    public readonly childNodes?: RelationNode[],
+    public readonly violation?: ArchitectureViolation
   ) {
     super(label, collapsibleState);
     this.setupItem();
@@ -56,6 +74,12 @@ export class RelationsTreeItem extends vscode.TreeItem {
       case 'empty':
         this.setupEmptyItem();
         break;
+      case 'violations':
+        this.contextValue = 'relations-violations';
+        break;
+      case 'violation':
+        this.setupViolationItem();
+        break;
     }
   }
 
@@ -109,6 +133,25 @@ export class RelationsTreeItem extends vscode.TreeItem {
     this.iconPath = new vscode.ThemeIcon('info');
     this.contextValue = 'relations-empty';
   }
+
+  private setupViolationItem(): void {
+    if (!this.violation) return;
+
+    this.iconPath = new vscode.ThemeIcon(VIOLATION_ICONS[this.violation.severity]);
+    this.description = this.violation.ruleId;
+    this.tooltip = new vscode.MarkdownString();
+    this.tooltip.appendMarkdown(`**${this.violation.ruleId}**\n\n`);
+    this.tooltip.appendMarkdown(`${this.violation.message}\n\n`);
+    this.tooltip.appendMarkdown(`- Archivo: \`${path.basename(this.violation.source.filePath)}\`\n`);
+    this.contextValue = 'relations-violation';
+
+    const location = this.violation.location;
+    this.command = {
+      command: 'memorybank.relations.openFile',
+      title: 'Open File',
+      arguments: location ? [location.filePath, location.line + 1] : [this.violation.source.filePath, this.violation.source.startLine]
+    };
+  }
 }
 
 /**
@@ -125,9 +168,17 @@ export class RelationsTreeProvider implements vscode.TreeDataProvider<RelationsT
   private relations: ProjectRelations | null = null;
   private status: RelationsStatus = 'none';
   private isAnalyzing: boolean = false;
+  private architectureRules: ArchitectureRuleSet | null = null;
+  private violations: ArchitectureViolation[] = [];
+  private diagnostics: vscode.DiagnosticCollection;
 
   constructor(logger: vscode.OutputChannel) {
     this.logger = logger;
+    this.diagnostics = vscode.languages.createDiagnosticCollection('memorybank-architecture');
+  }
+
+  dispose(): void {
+    this.diagnostics.dispose();
   }
 
   /**
@@ -150,6 +201,7 @@ export class RelationsTreeProvider implements vscode.TreeDataProvider<RelationsT
       this.status = 'none';
     }
     
+    await this.checkArchitecture();
     this.refresh();
   }
 
@@ -160,6 +212,72 @@ export class RelationsTreeProvider implements vscode.TreeDataProvider<RelationsT
     return this.selectedProject;
   }
 
+  /**
+   * Get the relations of the selected project (null if not analyzed)
+   */
+  getRelations(): ProjectRelations | null {
+    return this.relations;
+  }
+
+  /**
+   * Get the architecture violations found in the last check
+   */
+  getViolations(): ArchitectureViolation[] {
+    return this.violations;
+  }
+
+  /**
+   * Evaluate the project architecture rules against the current relations
+   * and publish the violations as diagnostics
+   */
+  async checkArchitecture(): Promise<ArchitectureViolation[]> {
+    this.architectureRules = null;
+    this.violations = [];
+    this.diagnostics.clear();
+
+    if (!this.selectedProject || !this.relations) {
+      return this.violations;
+    }
+
+    try {
+      this.architectureRules = await architectureRulesService.loadArchitectureRules(this.selectedProject.id);
+    } catch (error: any) {
+      this.logger.appendLine(`[Architecture] ${error.message}`);
+      vscode.window.showWarningMessage(`Reglas de arquitectura no válidas: ${error.message}`);
+      return this.violations;
+    }
+    if (!this.architectureRules) {
+      return this.violations;
+    }
+
+    this.violations = architectureRulesService.locateViolations(
+      architectureRulesService.evaluateArchitectureRules(this.relations, this.architectureRules)
+    );
+    this.logger.appendLine(`[Architecture] ${this.violations.length} violations in ${this.selectedProject.id}`);
+
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    for (const violation of this.violations) {
+      const location = violation.location!;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(location.line, 0, location.line, Number.MAX_SAFE_INTEGER),
+        violation.message,
+        VIOLATION_SEVERITY[violation.severity]
+      );
+      diagnostic.source = 'Memory Bank';
+      diagnostic.code = violation.ruleId;
+
+      if (!byFile.has(location.filePath)) {
+        byFile.set(location.filePath, []);
+      }
+      byFile.get(location.filePath)!.push(diagnostic);
+    }
+    byFile.forEach((fileDiagnostics, filePath) => {
+      this.diagnostics.set(vscode.Uri.file(filePath), fileDiagnostics);
+    });
+
+    return this.violations;
+  }
+
   /**
    * Load relations for a project
    */
@@ -239,8 +357,12 @@ export class RelationsTreeProvider implements vscode.TreeDataProvider<RelationsT
         
         this.status = 'ready';
         this.logger.appendLine(`[Relations] Analysis complete: ${this.relations.nodes.length} nodes, ${this.relations.edges.length} edges`);
+        if (this.relations.stats?.reusedFiles) {
+          this.logger.appendLine(`[Relations] Incremental: ${this.relations.stats.analyzedFiles} files re-parsed, ${this.relations.stats.reusedFiles} reused`);
+        }
       });
 
+      await this.checkArchitecture();
       vscode.window.showInformationMessage(
         `Análisis completado: ${this.relations?.nodes.length || 0} nodos, ${this.relations?.edges.length || 0} relaciones`
       );
@@ -278,6 +400,20 @@ export class RelationsTreeProvider implements vscode.TreeDataProvider<RelationsT
         ));
     }
 
+    // Violations section - one item per broken dependency
+    if (element.itemType === 'violations') {
+      return this.violations.map(violation => new RelationsTreeItem(
+        violation.target ? `${violation.source.name} → ${violation.target.name}` : violation.source.name,
+        'violation',
+        vscode.TreeItemCollapsibleState.None,
+        undefined,
+        undefined,
+        this.selectedProject?.id,
+        undefined,
+        violation
+      ));
+    }
+
     return [];
   }
 
@@ -340,6 +476,21 @@ export class RelationsTreeProvider implements vscode.TreeDataProvider<RelationsT
     };
     items.push(flowItem);
 
+    // Architecture rules section (only when the project has a rules file)
+    if (this.architectureRules) {
+      const count = this.violations.length;
+      const violationsItem = new RelationsTreeItem(
+        'Violaciones de arquitectura',
+        'violations',
+        count > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+      );
+      violationsItem.iconPath = new vscode.ThemeIcon(count > 0 ? 'shield' : 'verified');
+      violationsItem.description = count > 0
+        ? `${count} violación${count !== 1 ? 'es' : ''}`
+        : `${this.architectureRules.rules.length} reglas, sin violaciones`;
+      items.push(violationsItem);
+    }
+
     // Group nodes by type
     const nodesByType = new Map<RelationNodeType, RelationNode[]>();
     
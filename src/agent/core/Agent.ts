@@ -4,20 +4,25 @@
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 import * as openaiService from '../../services/openaiService';
 import * as ragService from '../../services/ragService';
 import * as modelPricingService from '../../services/modelPricingService';
+import * as configManager from '../../utils/configManager';
 import { getMemoryBankService } from '../../services/memoryBankService';
 import { AgentToolManager } from './AgentToolManager';
 import { ContextManager } from './ContextManager';
 import { WorkspaceManager } from './WorkspaceManager';
+import { RunCheckpointManager } from './RunCheckpointManager';
+import { RunChangesetManager } from './RunChangesetManager';
+import { buildStepDependencies, runPlanGraph, FileWriteQueue, StepAccess } from './PlanScheduler';
 import { DatabaseManager } from '../storage/DatabaseManager';
 import { AgentLogsView } from '../ui/logsView';
 import { EventsViewer } from '../ui/EventsViewer';
 import { FlowViewer } from '../ui/FlowViewer';
 import { FileSnapshotManager } from '../terminals/FileSnapshotManager';
 import { CustomCLITerminalManager } from '../terminals/CustomCLITerminalManager';
-import { PlanStep, Plan, AgentEvent } from '../types/AgentTypes';
+import { PlanStep, Plan, AgentEvent, RunCheckpoint } from '../types/AgentTypes';
 import type { ChatMessage, CompletionResult } from '../../types/openai';
 import * as promptComposer from '../../promptComposer';
 import { PLAN_TASK_PROMPT } from './AgentPrompt';
@@ -30,6 +35,8 @@ export class Agent {
     toolManager: AgentToolManager;
     workspaceManager: WorkspaceManager;
     databaseManager: DatabaseManager;
+    runCheckpoints: RunCheckpointManager;
+    runChangesets: RunChangesetManager;
     llmClient: typeof openaiService;
     logsView: AgentLogsView | null = null;
     eventsViewer: EventsViewer | null = null;
@@ -38,6 +45,8 @@ export class Agent {
     fileSnapshotManager: FileSnapshotManager;
     public sessionId: string = '';
     public projectId: string = 'memory_bank_vscode_extension';
+    // Lock patterns taken by the tools during the current run (released when it finishes)
+    private runFileLocks: Set<string> = new Set<string>();
     private eventEmitter: vscode.EventEmitter<AgentEvent> = new vscode.EventEmitter<AgentEvent>();
     public readonly onDidEmitEvent: vscode.Event<AgentEvent> = this.eventEmitter.event;
 
@@ -54,6 +63,8 @@ export class Agent {
         this.toolManager = new AgentToolManager(this);
         this.workspaceManager = new WorkspaceManager(this);
         this.databaseManager = new DatabaseManager(this);
+        this.runCheckpoints = new RunCheckpointManager(this);
+        this.runChangesets = new RunChangesetManager(this);
         this.llmClient = openaiService;
         this.terminalManager = new CustomCLITerminalManager();
         this.fileSnapshotManager = new FileSnapshotManager();
@@ -72,6 +83,29 @@ export class Agent {
         }
     }
 
+    /**
+     * Remember a lock taken during the current run
+     */
+    recordFileLock(pattern: string): void {
+        this.runFileLocks.add(pattern);
+    }
+
+    /**
+     * Release the locks taken during the run so other agents can write the files
+     */
+    private async releaseRunFileLocks(): Promise<void> {
+        if (this.runFileLocks.size === 0) return;
+
+        const patterns = Array.from(this.runFileLocks);
+        this.runFileLocks.clear();
+        try {
+            await getMemoryBankService().releaseFileLocks(this.projectId, patterns, this.name);
+            this.logger.appendLine(`Released ${patterns.length} file lock(s): ${patterns.join(', ')}`);
+        } catch (error) {
+            this.logger.appendLine(`Error releasing file locks: ${error}`);
+        }
+    }
+
     /**
      * Initialize the agent systems
      * @returns True if initialization was successful
@@ -83,6 +117,8 @@ export class Agent {
             // Initialize services in order
             await this.workspaceManager.initialize();
             await this.databaseManager.initialize();
+            await this.runCheckpoints.initialize();
+            await this.runChangesets.initialize();
             
             // Register Agent Session
             try {
@@ -224,15 +260,23 @@ export class Agent {
      * Handle user input and execute the appropriate actions
      * @param input - User input or request
      * @param context - Additional context (file, selection, etc.)
+     * @param resumeFrom - Checkpoint of an interrupted run: its plan is reused and
+     *                     execution continues from the first unfinished step
      * @returns The result of the operation
      */
-    async handleUserInput(input: string, context: any = {}): Promise<any> {
+    async handleUserInput(input: string, context: any = {}, resumeFrom?: RunCheckpoint): Promise<any> {
         try {
             // Mostrar las vistas automáticamente al iniciar una tarea
             this.showViews();
             
             // 1. Update context with current input and session data
-            this.contextManager.update(input, context);
+            // (a resumed run restores the history persisted with its checkpoint)
+            const contextRestored = resumeFrom?.contextFile
+                ? await this.contextManager.loadFromDisk(resumeFrom.contextFile)
+                : false;
+            if (!contextRestored) {
+                this.contextManager.update(input, context);
+            }
             this.logger.appendLine(`Handling user input: "${input.substring(0, 100)}${input.length > 100 ? '...' : ''}"`);
             this.logger.appendLine(`Context: ${JSON.stringify(context, null, 2)}`);
             // Informar al usuario que estamos procesando
@@ -248,7 +292,28 @@ export class Agent {
             }
             
             // 2. Plan task using LLM (now includes validation and optimization)
-            let plan = await this.planTask(input, context);
+            let plan = resumeFrom ? resumeFrom.plan : await this.planTask(input, context);
+            
+            // Checkpoint the run so it can be resumed after a crash or reload
+            if (resumeFrom) {
+                this.runCheckpoints.resumeRun(resumeFrom);
+                this.logger.appendLine(`Resuming run ${resumeFrom.runId} from step ${resumeFrom.nextStep + 1}/${plan.steps.length}`);
+                if (this.eventsViewer) {
+                    this.eventsViewer.addInfoEvent(
+                        "Reanudando ejecución",
+                        `Continuando desde el paso ${resumeFrom.nextStep + 1} de ${plan.steps.length}`,
+                        { runId: resumeFrom.runId, completedSteps: resumeFrom.nextStep }
+                    );
+                }
+            } else {
+                this.runCheckpoints.startRun(input, context, plan);
+            }
+            
+            // Record every file the run writes so the whole run can be reverted
+            const currentRun = this.runCheckpoints.getCurrentRun();
+            if (currentRun) {
+                this.runChangesets.startRun(currentRun.runId, input);
+            }
             
             // Actualizar FlowViewer con el plan generado y emitir evento
             if (this.flowViewer && plan) {
@@ -262,12 +327,13 @@ export class Agent {
             let success = true;
             let stoppedAtStep: string | null = null;
             let stopReason: string | null = null;
-            let replanCount = 0;
+            let replanCount = resumeFrom ? resumeFrom.replanCount : 0;
+            let resumeState: RunCheckpoint | null = resumeFrom || null;
             const maxReplanning = vscode.workspace.getConfiguration('memorybank.agent').get<number>('maxReplanning', 5);
             
             // Main execution loop with replanning
             while (replanCount <= maxReplanning) {
-                if (replanCount > 0) {
+                if (replanCount > 0 && !resumeState) {
                     this.logger.appendLine(`\n=== REPLANNING ATTEMPT ${replanCount} ===`);
                     
                     // Show replanning notification to user
@@ -283,7 +349,7 @@ export class Agent {
                             { 
                                 attempt: replanCount,
                                 maxAttempts: maxReplanning,
-                                previousFailures: results.filter(r => !r.success).length
+                                previousFailures: results.filter(r => r && !r.success).length
                             }
                         );
                     }
@@ -298,481 +364,58 @@ export class Agent {
                     }
                 });
                 
-                // Reset execution state for new attempt
-                results = [];
-                success = true;
+                // Reset execution state for new attempt (a resumed run keeps its checkpointed results)
+                // results[n] is the result of step n ($STEP[n]), whatever order the steps finish in
+                results = resumeState ? resumeState.results.slice(0, plan.steps.length) : [];
+                success = resumeState ? resumeState.success : true;
                 stoppedAtStep = null;
                 stopReason = null;
+                resumeState = null;
                 
-                // 4. Execute each step in the plan
-                for (let stepIndex = 0; stepIndex < plan.steps.length; stepIndex++) {
-                    const step = plan.steps[stepIndex];
-                    this.logger.appendLine(`Executing step ${stepIndex + 1}/${plan.steps.length}: ${step.description}`);
-                    this.logger.appendLine(`Step tool: ${step.tool}`);
-                    this.logger.appendLine(`Step params: ${JSON.stringify(step.params, null, 2)}`);
-
-                    // Update FlowViewer: step started + emit event
-                    if (this.flowViewer) {
-                        this.flowViewer.updateStepStatus(stepIndex, 'running');
-                    }
-                    this.emitAgentEvent('stepStart', { stepIndex, step });
-
-                    // --- INTEGRACIÓN FindFileTool ---
-                    // Detectar si el paso requiere un archivo y la ruta no existe
-                    const fileParamNames = ['filePath', 'sourcePath', 'path'];
-                    let fileParamName = fileParamNames.find(p => step.params && step.params[p]);
-                    if (fileParamName) {
-                        const filePathValue = step.params[fileParamName];
-                        if (filePathValue) {
-                            try {
-                                // Usar vscode.workspace.fs.stat en lugar de fs.promises.access
-                                const fileUri = vscode.Uri.file(filePathValue);
-                                await vscode.workspace.fs.stat(fileUri);
-                            } catch (error) {
-                                // El archivo no existe, buscar la ruta real
-                                const fileUri = vscode.Uri.file(filePathValue);
-                                const fileName = fileUri.path.split('/').pop() || '';
-                                // Usar FindFileTool para buscar la ruta real
-                                const findTool = this.toolManager.selectTool('FindFileTool');
-                                if (findTool) {
-                                    this.logger.appendLine(`Buscando ruta real para ${fileName} usando FindFileTool...`);
-                                    try {
-                                        const findResult = await findTool.run({ pattern: `**/${fileName}`, maxResults: 1 });
-                                        if (findResult && findResult.found && findResult.matches.length > 0) {
-                                            const realPath = findResult.matches[0];
-                                            this.logger.appendLine(`Ruta corregida para ${fileName}: ${realPath}`);
-                                            step.params[fileParamName] = realPath;
-                                        } else {
-                                            this.logger.appendLine(`No se encontró el archivo ${fileName} en el workspace.`);
-                                        }
-                                    } catch (findError: any) {
-                                        this.logger.appendLine(`Error al buscar archivo ${fileName}: ${findError.message}`);
-                                    }
-                                }
-                            }
+                const finishedSteps: number[] = [];
+                plan.steps.forEach((_step: PlanStep, stepIndex: number) => {
+                    if (results[stepIndex]) {
+                        finishedSteps.push(stepIndex);
+                        if (this.flowViewer) {
+                            this.flowViewer.updateStepStatus(stepIndex, 'success');
                         }
                     }
-                    
-                    // Añadir evento al visor
-                    if (this.eventsViewer) {
-                        this.eventsViewer.addInfoEvent(
-                            `Ejecutando: ${step.description}`,
-                            `Herramienta: ${step.tool}`,
-                            { 
-                                step: step,
-                                status: 'running' 
-                            }
-                        );
-                    }
-                    
-                    // Select and execute appropriate tool
-                    const tool = this.toolManager.selectTool(step.tool);
-                    
-                    this.logger.appendLine(`Tool selected: ${tool ? tool.name || 'unnamed tool' : 'null'}`);
-                    
-                    if (!tool) {
-                        this.logger.appendLine(`Warning: Tool '${step.tool}' not found`);
-                        results.push({
-                            success: false,
-                            error: `Tool '${step.tool}' not found`,
-                            step: step
-                        });
+                });
+                
+                // 4. Execute the plan as a dependency graph: steps whose dependencies
+                // have finished run in parallel, up to maxParallelSteps
+                const currentPlan: Plan = plan;
+                const dependencies = buildStepDependencies(currentPlan.steps, currentPlan.steps.map((step: PlanStep) => this.getStepAccess(step)));
+                const maxParallelSteps = vscode.workspace.getConfiguration('memorybank.agent').get<number>('maxParallelSteps', 3);
+                const writeQueue = new FileWriteQueue();
+                this.emitAgentEvent('planSchedule', { dependencies, maxParallel: maxParallelSteps, finished: finishedSteps });
+                
+                const schedule = await runPlanGraph(dependencies, async (stepIndex: number) => {
+                    const outcome = await this.executePlanStep(currentPlan, stepIndex, results, writeQueue);
+                    if (!outcome.success) {
                         success = false;
-                        stoppedAtStep = step.description;
-                        stopReason = `La herramienta '${step.tool}' no está disponible`;
-                        
-                        // Añadir evento de error al visor
-                        if (this.eventsViewer) {
-                            this.eventsViewer.addErrorEvent(
-                                `Error: Herramienta no encontrada`,
-                                `La herramienta '${step.tool}' no está disponible`
-                            );
-                        }
-                        
-                        // Detener ejecución si no se encuentra la herramienta
-                        break;
                     }
-                    
-                    try {
-                        // Verificar que los parámetros requeridos estén presentes
-                        const missingParams = this.checkRequiredParams(tool, step.params);
-                        if (missingParams.length > 0) {
-                            const errorMsg = `Faltan parámetros requeridos: ${missingParams.join(', ')}`;
-                            this.logger.appendLine(`Error: ${errorMsg}`);
-                            
-                            results.push({
-                                success: false,
-                                error: errorMsg,
-                                step: step
-                            });
-                            
-                            if (this.logsView) {
-                                this.logsView.addStepLog(step.description, step.tool, step.params, { error: errorMsg }, false);
-                            }
-                            
-                            // Añadir evento de error al visor
-                            if (this.eventsViewer) {
-                                this.eventsViewer.addErrorEvent(
-                                    `Error: Parámetros faltantes`,
-                                    errorMsg
-                                );
-                            }
-                            
-                            success = false;
-                            stoppedAtStep = step.description;
-                            stopReason = errorMsg;
-                            
-                            // Detener ejecución si faltan parámetros
-                            break;
-                        }
-                        
-                        // NUEVO: Enriquecer con RAG y reglas para herramientas relevantes
-                        await this.enrichStepWithRAG(step);
-                        
-                        // Si es una herramienta que genera código, asegurarse de que las reglas se apliquen
-                        const codeGenerationTools = ['WriteFileTool', 'FixErrorTool', 'GenerateTestTool'];
-                        if (codeGenerationTools.includes(step.tool)) {
-                            this.logger.appendLine(`Asegurando que las reglas se apliquen en la generación de código`);
-                            
-                            // Si no hay additionalContext (que contendría las reglas del RAG), intentar añadirlo
-                            if (!step.params.additionalContext || !step.params.additionalContext.includes('REGLAS APLICABLES')) {
-                                const workspacePath = this.workspaceManager.getWorkspacePath();
-                                const filePath = step.params.filePath || step.params.sourcePath;
-                                
-                                if (workspacePath && filePath) {
-                                    const rulesContext = await this.getRulesForFile(workspacePath, filePath);
-                                    if (rulesContext && rulesContext.length > 0) {
-                                        step.params.additionalContext = (step.params.additionalContext || '') + 
-                                            "\n\nREGLAS APLICABLES DEL WORKSPACE:\n\n" + rulesContext;
-                                        this.logger.appendLine(`Reglas del workspace añadidas a los parámetros para ${step.tool}`);
-                                    }
-                                }
-                            }
-                        }
-                        
-                        // Resolve variables in parameters before execution
-                        // Pasamos el array de resultados acumulados hasta ahora
-                        const resolvedParams = this.resolveVariables(step.params, results);
-                        
-                        // Registrar los parámetros ANTES y DESPUÉS de resolver variables para debugging
-                        this.logger.appendLine(`[BEFORE] Parámetros originales para ${step.tool}: ${JSON.stringify(step.params, null, 2)}`);
-                        this.logger.appendLine(`[AFTER] Parámetros resueltos para ${step.tool}: ${JSON.stringify(resolvedParams, null, 2)}`);
-                        
-                        // MOVER AQUÍ: Verificación de archivos después de resolver variables
-                        // Si hay un parámetro que parece ser una ruta de archivo, verificar que existe
-                        const fileParamNames = ['filePath', 'sourcePath', 'path'];
-                        let fileParamName = fileParamNames.find(p => resolvedParams && resolvedParams[p]);
-                        if (fileParamName) {
-                            const filePathValue = resolvedParams[fileParamName];
-                            if (filePathValue && typeof filePathValue === 'string' && !filePathValue.includes('$STEP[')) {
-                                try {
-                                    // Usar vscode.workspace.fs.stat en lugar de fs.promises.access
-                                    const fileUri = vscode.Uri.file(filePathValue);
-                                    await vscode.workspace.fs.stat(fileUri);
-                                    this.logger.appendLine(`Archivo verificado: ${filePathValue}`);
-                                } catch (error) {
-                                    // El archivo no existe, buscar la ruta real
-                                    const fileUri = vscode.Uri.file(filePathValue);
-                                    const fileName = fileUri.path.split('/').pop() || '';
-                                    // Solo buscar si fileName parece ser un nombre de archivo válido
-                                    if (fileName && !fileName.includes('$') && fileName.includes('.')) {
-                                        // Usar FindFileTool para buscar la ruta real
-                                        const findTool = this.toolManager.selectTool('FindFileTool');
-                                        if (findTool) {
-                                            this.logger.appendLine(`Buscando ruta real para ${fileName} usando FindFileTool...`);
-                                            try {
-                                                const findResult = await findTool.run({ pattern: `**/${fileName}`, maxResults: 1 });
-                                                if (findResult && findResult.found && findResult.matches.length > 0) {
-                                                    const realPath = findResult.matches[0];
-                                                    this.logger.appendLine(`Ruta corregida para ${fileName}: ${realPath}`);
-                                                    resolvedParams[fileParamName] = realPath;
-                                                } else {
-                                                    this.logger.appendLine(`No se encontró el archivo ${fileName} en el workspace.`);
-                                                }
-                                            } catch (findError: any) {
-                                                this.logger.appendLine(`Error al buscar archivo ${fileName}: ${findError.message}`);
-                                            }
-                                        }
-                                    } else {
-                                        this.logger.appendLine(`Saltando búsqueda de archivo para valor inválido: ${filePathValue}`);
-                                    }
-                                }
-                            }
-                        }
-                        
-                        // Caso especial para ExecuteCommandTool - usar nuestra terminal personalizada
-                        if (step.tool === 'ExecuteCommandTool' && resolvedParams.command) {
-                            // Capturar snapshots de archivos antes de ejecutar el comando
-                            let cmdSnapshotBeforeId: string | undefined;
-                            if (this.fileSnapshotManager) {
-                                try {
-                                    const workspacePath = this.workspaceManager.getWorkspacePath();
-                                    if (workspacePath) {
-                                        const potentialFiles = await vscode.workspace.findFiles('**/*', '**/node_modules/**');
-                                        const filePaths = potentialFiles.map(file => file.fsPath);
-                                        
-                                        cmdSnapshotBeforeId = await this.fileSnapshotManager.createSnapshot(filePaths);
-                                    }
-                                } catch (e) {
-                                    this.logger.appendLine(`Error creating snapshot before command: ${e}`);
-                                }
-                            }
-                            
-                            // Ejecutar el comando en nuestra terminal personalizada
-                            const workingDirectory = resolvedParams.workingDirectory || 
-                                                   resolvedParams.cwd || 
-                                                   this.workspaceManager.getWorkspacePath();
-                            
-                            // Crear una terminal o usar una existente
-                            const terminalId = this.terminalManager.createTerminal(
-                                'memorybank-agent',
-                                'Memory Bank Agent Terminal',
-                                workingDirectory
-                            );
-                            
-                            // Ejecutar el comando
-                            const cmdResult = await this.terminalManager.executeCommand(
-                                resolvedParams.command,
-                                terminalId,
-                                true // Capturar salida
-                            );
-                            
-                            // Capturar snapshot después de ejecutar
-                            let cmdSnapshotAfterId: string | undefined;
-                            if (this.fileSnapshotManager && cmdSnapshotBeforeId) {
-                                try {
-                                    const workspacePath = this.workspaceManager.getWorkspacePath();
-                                    if (workspacePath) {
-                                        const potentialFiles = await vscode.workspace.findFiles('**/*', '**/node_modules/**');
-                                        const filePaths = potentialFiles.map(file => file.fsPath);
-                                        
-                                        cmdSnapshotAfterId = await this.fileSnapshotManager.createSnapshot(filePaths);
-                                    }
-                                } catch (e) {
-                                    this.logger.appendLine(`Error creating snapshot after command: ${e}`);
-                                }
-                            }
-                            
-                            // Convertir el resultado a formato compatible con lo esperado
-                            const stepResult = {
-                                success: cmdResult.success,
-                                output: cmdResult.output,
-                                error: cmdResult.error,
-                                commandId: cmdResult.commandId,
-                                workingDirectory: cmdResult.workingDirectory
-                            };
-                            
-                            // Añadir evento de comando al visor
-                            if (this.eventsViewer) {
-                                this.eventsViewer.addCommandEvent(
-                                    resolvedParams.command,
-                                    cmdResult,
-                                    {
-                                        before: cmdSnapshotBeforeId,
-                                        after: cmdSnapshotAfterId
-                                    }
-                                );
-                            }
-                            
-                            // Add result to context
-                            this.contextManager.addStepResult(step, stepResult);
-                            results.push({
-                                success: true,
-                                result: stepResult,
-                                step: step
-                            });
-                            
-                            // Add to logs view if available
-                            if (this.logsView) {
-                                this.logsView.addStepLog(step.description, step.tool, step.params, stepResult, true);
-                            }
-                            
-                            // Update FlowViewer: step completed successfully + emit event
-                            if (this.flowViewer) {
-                                this.flowViewer.updateStepStatus(stepIndex, 'success', { result: stepResult });
-                            }
-                            this.emitAgentEvent('stepSuccess', { stepIndex, step, result: stepResult });
-                            
-                            this.logger.appendLine(`Command step completed: ${step.description}`);
-                            // NUEVO: Indexar resultados relevantes para aprendizaje futuro
-                            await this.indexStepResults(step, stepResult);
-                        } else {
-                            // Para otras herramientas, usar el flujo normal
-                            this.logger.appendLine(`About to execute tool.run() for ${step.tool}`);
-                            const stepResult = await tool.run(resolvedParams);
-                            this.logger.appendLine(`Tool.run() completed for ${step.tool}`);
-                            
-                            // Add result to context
-                            this.contextManager.addStepResult(step, stepResult);
-                            results.push({
-                                success: true,
-                                result: stepResult,
-                                step: step
-                            });
-                            
-                            // Add to logs view if available
-                            if (this.logsView) {
-                                this.logsView.addStepLog(step.description, step.tool, step.params, stepResult, true);
-                            }
-                            
-                            // Update FlowViewer: step completed successfully + emit event
-                            if (this.flowViewer) {
-                                this.flowViewer.updateStepStatus(stepIndex, 'success', { result: stepResult });
-                            }
-                            this.emitAgentEvent('stepSuccess', { stepIndex, step, result: stepResult });
-                            
-                            // Añadir evento específico según el tipo de herramienta
-                            if (this.eventsViewer) {
-                                if (step.tool === 'AnalyzeCodeTool' && stepResult.analysis) {
-                                    this.eventsViewer.addAnalysisEvent(
-                                        stepResult.sourcePath || 'code-snippet',
-                                        stepResult.analysis
-                                    );
-                                } else if (step.tool === 'WriteFileTool' && stepResult.filePath) {
-                                    // Añadir evento de cambio de archivo
-                                    this.eventsViewer.addFileChangeEvent(
-                                        stepResult.filePath,
-                                        stepResult.created ? 'create' : 'modify'
-                                    );
-                                } else {
-                                    // Para otras herramientas, añadir evento genérico
-                                    this.eventsViewer.addInfoEvent(
-                                        `Completado: ${step.description}`,
-                                        `Herramienta ${step.tool} ejecutada con éxito`,
-                                        { result: stepResult }
-                                    );
-                                }
-                            }
-                            
-                            this.logger.appendLine(`Step completed: ${step.description}`);
-                            // NUEVO: Indexar resultados relevantes para aprendizaje futuro
-                            await this.indexStepResults(step, stepResult);
-                        }
-                    } catch (error: any) {
-                        this.logger.appendLine(`Error executing step: ${error.message}`);
-                        
-                        // Update FlowViewer: step failed + emit event
-                        if (this.flowViewer) {
-                            this.flowViewer.updateStepStatus(stepIndex, 'error', { error: error.message });
-                        }
-                        this.emitAgentEvent('stepError', { stepIndex, step, error: error.message });
-                        
-                        // Add failure feedback to context
-                        this.contextManager.addFeedback({
-                            success: false,
-                            error: error.message,
-                            step: step
-                        });
-                        
-                        results.push({
-                            success: false,
-                            error: error.message,
-                            step: step
-                        });
-                        
-                        // Add to logs view if available
-                        if (this.logsView) {
-                            this.logsView.addStepLog(step.description, step.tool, step.params, { error: error.message }, false);
-                        }
-                        
-                        // Añadir evento de error al visor
-                        if (this.eventsViewer) {
-                            this.eventsViewer.addErrorEvent(
-                                `Error en paso: ${step.description}`,
-                                error.message
-                            );
-                        }
-                        
-                        // Verificar si este paso es crítico para el plan
-                        const isStepCritical = this.isStepCritical(step, plan);
-                        
-                        // Optional: retry with modified instructions based on error
-                        const shouldRetry = await this.shouldRetryStep(step, error);
-                        
-                        if (shouldRetry) {
-                            const modifiedStep = await this.modifyStepAfterFailure(step, error);
-                            this.logger.appendLine(`Retrying with modified step: ${modifiedStep.description}`);
-                            
-                            // Añadir evento informativo sobre reintento
-                            if (this.eventsViewer) {
-                                this.eventsViewer.addInfoEvent(
-                                    `Reintentando paso`,
-                                    `Reintentando ${step.description} con parámetros modificados`
-                                );
-                            }
-                            
-                            try {
-                                const tool = this.toolManager.selectTool(modifiedStep.tool);
-                                // Resolve variables in parameters for retry
-                                // Pasamos el array de resultados acumulados hasta ahora
-                                const resolvedParams = this.resolveVariables(modifiedStep.params, results);
-                                
-                                const retryResult = await tool.run(resolvedParams);
-                                
-                                this.contextManager.addStepResult(modifiedStep, retryResult);
-                                results.push({
-                                    success: true,
-                                    result: retryResult,
-                                    step: modifiedStep,
-                                    wasRetry: true
-                                });
-                                
-                                // Añadir evento de éxito al visor
-                                if (this.eventsViewer) {
-                                    this.eventsViewer.addInfoEvent(
-                                        `Reintento exitoso: ${modifiedStep.description}`,
-                                        `El reintento fue exitoso`,
-                                        { result: retryResult }
-                                    );
-                                }
-                            } catch (retryError: any) {
-                                this.logger.appendLine(`Retry failed: ${retryError.message}`);
-                                success = false;
-                                
-                                // Añadir evento de error al visor
-                                if (this.eventsViewer) {
-                                    this.eventsViewer.addErrorEvent(
-                                        `Fallo en reintento: ${modifiedStep.description}`,
-                                        retryError.message
-                                    );
-                                }
-                                
-                                if (isStepCritical) {
-                                    stoppedAtStep = step.description;
-                                    stopReason = `Fallo en reintento: ${retryError.message}`;
-                                    // Detener ejecución tras fallo en el reintento de un paso crítico
-                                    break;
-                                }
-                            }
-                        } else {
-                            success = false;
-                            
-                            if (isStepCritical) {
-                                stoppedAtStep = step.description;
-                                stopReason = `Error crítico: ${error.message}`;
-                                // Detener ejecución tras fallo crítico sin reintento
-                                break;
-                            }
-                        }
+                    if (outcome.stopReason && !stoppedAtStep) {
+                        stoppedAtStep = currentPlan.steps[stepIndex].description;
+                        stopReason = outcome.stopReason;
                     }
                     
-                    // Verificar si hay dependencias bloqueantes para los siguientes pasos
-                    if (!this.canContinueExecution(step, results, plan)) {
-                        this.logger.appendLine(`Deteniendo ejecución: pasos posteriores dependen del éxito de "${step.description}"`);
-                        stoppedAtStep = step.description;
-                        stopReason = "Los pasos siguientes dependen del éxito de este paso";
-                        
-                        // Añadir evento informativo al visor
-                        if (this.eventsViewer) {
-                            this.eventsViewer.addInfoEvent(
-                                `Ejecución detenida`,
-                                `Los pasos siguientes dependen del éxito de "${step.description}"`
-                            );
-                        }
-                        
-                        break;
+                    // Checkpoint the finished step ($STEP[n] results included)
+                    await this.runCheckpoints.saveProgress(currentPlan, results, replanCount, success);
+                    this.runChangesets.updateAfterState();
+                    return { stop: outcome.stopReason !== null };
+                }, {
+                    maxParallel: maxParallelSteps,
+                    finished: finishedSteps,
+                    onProgress: (running, finished) => {
+                        this.emitAgentEvent('scheduleProgress', { running, finished, total: currentPlan.steps.length, maxParallel: maxParallelSteps });
                     }
-                }
+                });
+                
+                schedule.notStarted.forEach(stepIndex => {
+                    this.emitAgentEvent('stepSkipped', { stepIndex, step: currentPlan.steps[stepIndex] });
+                });
+                // results stays indexed by step: steps that never ran are empty entries
                 
                 // Tomar snapshot después de la ejecución
                 let snapshotAfterId: string | undefined;
@@ -827,6 +470,7 @@ export class Agent {
                             // Attempt to replan
                             plan = await this.replanTask(input, plan, results, reflection, replanCount);
                             replanCount++;
+                            await this.runCheckpoints.saveProgress(plan, [], replanCount, true);
                             
                             // Continue to next iteration of the loop
                             continue;
@@ -876,6 +520,12 @@ export class Agent {
                 }
             }
             
+            const runId = this.runCheckpoints.getCurrentRun()?.runId;
+            this.runCheckpoints.finishRun(success ? 'completed' : 'failed');
+            this.runChangesets.finishRun();
+            await this.releaseRunFileLocks();
+            this.emitAgentEvent('runFinished', { runId, success });
+            
             // 7. Return aggregate result
             return {
                 success: success,
@@ -961,6 +611,11 @@ export class Agent {
             }
         } catch (error: any) {
             this.logger.appendLine(`Error in handleUserInput: ${error.message}`);
+            const runId = this.runCheckpoints.getCurrentRun()?.runId;
+            this.runCheckpoints.finishRun('failed');
+            this.runChangesets.finishRun();
+            await this.releaseRunFileLocks();
+            this.emitAgentEvent('runFinished', { runId, success: false });
             
             // Añadir evento de error al visor
             if (this.eventsViewer) {
@@ -980,6 +635,537 @@ export class Agent {
         }
     }
 
+    /**
+     * Ejecuta un paso del plan (los pasos independientes se ejecutan en paralelo)
+     * @param plan Plan en ejecución
+     * @param stepIndex Índice del paso
+     * @param results Resultados indexados por paso; se guarda el de este paso en results[stepIndex]
+     * @param writeQueue Cola que serializa las escrituras sobre un mismo archivo
+     * @returns Si el paso tuvo éxito y, si hay que detener la ejecución, el motivo
+     */
+    private async executePlanStep(
+        plan: Plan,
+        stepIndex: number,
+        results: any[],
+        writeQueue: FileWriteQueue
+    ): Promise<{ success: boolean, stopReason: string | null }> {
+        const step = plan.steps[stepIndex];
+        let success = true;
+        let releaseFiles: (() => void) | null = null;
+        this.logger.appendLine(`Executing step ${stepIndex + 1}/${plan.steps.length}: ${step.description}`);
+        this.logger.appendLine(`Step tool: ${step.tool}`);
+        this.logger.appendLine(`Step params: ${JSON.stringify(step.params, null, 2)}`);
+
+        // Update FlowViewer: step started + emit event
+        if (this.flowViewer) {
+            this.flowViewer.updateStepStatus(stepIndex, 'running');
+        }
+        this.emitAgentEvent('stepStart', { stepIndex, step });
+
+        // --- INTEGRACIÓN FindFileTool ---
+        // Detectar si el paso requiere un archivo y la ruta no existe
+        const fileParamNames = ['filePath', 'sourcePath', 'path'];
+        let fileParamName = fileParamNames.find(p => step.params && step.params[p]);
+        if (fileParamName) {
+            const filePathValue = step.params[fileParamName];
+            if (filePathValue) {
+                try {
+                    // Usar vscode.workspace.fs.stat en lugar de fs.promises.access
+                    const fileUri = vscode.Uri.file(filePathValue);
+                    await vscode.workspace.fs.stat(fileUri);
+                } catch (error) {
+                    // El archivo no existe, buscar la ruta real
+                    const fileUri = vscode.Uri.file(filePathValue);
+                    const fileName = fileUri.path.split('/').pop() || '';
+                    // Usar FindFileTool para buscar la ruta real
+                    const findTool = this.toolManager.selectTool('FindFileTool');
+                    if (findTool) {
+                        this.logger.appendLine(`Buscando ruta real para ${fileName} usando FindFileTool...`);
+                        try {
+                            const findResult = await findTool.run({ pattern: `**/${fileName}`, maxResults: 1 });
+                            if (findResult && findResult.found && findResult.matches.length > 0) {
+                                const realPath = findResult.matches[0];
+                                this.logger.appendLine(`Ruta corregida para ${fileName}: ${realPath}`);
+                                step.params[fileParamName] = realPath;
+                            } else {
+                                this.logger.appendLine(`No se encontró el archivo ${fileName} en el workspace.`);
+                            }
+                        } catch (findError: any) {
+                            this.logger.appendLine(`Error al buscar archivo ${fileName}: ${findError.message}`);
+                        }
+                    }
+                }
+            }
+        }
+        
+        // Añadir evento al visor
+        if (this.eventsViewer) {
+            this.eventsViewer.addInfoEvent(
+                `Ejecutando: ${step.description}`,
+                `Herramienta: ${step.tool}`,
+                { 
+                    step: step,
+                    status: 'running' 
+                }
+            );
+        }
+        
+        // Select and execute appropriate tool
+        const tool = this.toolManager.selectTool(step.tool);
+        
+        this.logger.appendLine(`Tool selected: ${tool ? tool.name || 'unnamed tool' : 'null'}`);
+        
+        if (!tool) {
+            this.logger.appendLine(`Warning: Tool '${step.tool}' not found`);
+            results[stepIndex] = {
+                success: false,
+                error: `Tool '${step.tool}' not found`,
+                step: step
+            };
+            
+            // Añadir evento de error al visor
+            if (this.eventsViewer) {
+                this.eventsViewer.addErrorEvent(
+                    `Error: Herramienta no encontrada`,
+                    `La herramienta '${step.tool}' no está disponible`
+                );
+            }
+            
+            // Detener ejecución si no se encuentra la herramienta
+            return { success: false, stopReason: `La herramienta '${step.tool}' no está disponible` };
+        }
+        
+        try {
+            // Verificar que los parámetros requeridos estén presentes
+            const missingParams = this.checkRequiredParams(tool, step.params);
+            if (missingParams.length > 0) {
+                const errorMsg = `Faltan parámetros requeridos: ${missingParams.join(', ')}`;
+                this.logger.appendLine(`Error: ${errorMsg}`);
+                
+                results[stepIndex] = {
+                    success: false,
+                    error: errorMsg,
+                    step: step
+                };
+                
+                if (this.logsView) {
+                    this.logsView.addStepLog(step.description, step.tool, step.params, { error: errorMsg }, false);
+                }
+                
+                // Añadir evento de error al visor
+                if (this.eventsViewer) {
+                    this.eventsViewer.addErrorEvent(
+                        `Error: Parámetros faltantes`,
+                        errorMsg
+                    );
+                }
+                
+                // Detener ejecución si faltan parámetros
+                return { success: false, stopReason: errorMsg };
+            }
+            
+            // NUEVO: Enriquecer con RAG y reglas para herramientas relevantes
+            await this.enrichStepWithRAG(step);
+            
+            // Si es una herramienta que genera código, asegurarse de que las reglas se apliquen
+            const codeGenerationTools = ['WriteFileTool', 'FixErrorTool', 'GenerateTestTool'];
+            if (codeGenerationTools.includes(step.tool)) {
+                this.logger.appendLine(`Asegurando que las reglas se apliquen en la generación de código`);
+                
+                // Si no hay additionalContext (que contendría las reglas del RAG), intentar añadirlo
+                if (!step.params.additionalContext || !step.params.additionalContext.includes('REGLAS APLICABLES')) {
+                    const workspacePath = this.workspaceManager.getWorkspacePath();
+                    const filePath = step.params.filePath || step.params.sourcePath;
+                    
+                    if (workspacePath && filePath) {
+                        const rulesContext = await this.getRulesForFile(workspacePath, filePath);
+                        if (rulesContext && rulesContext.length > 0) {
+                            step.params.additionalContext = (step.params.additionalContext || '') + 
+                                "\n\nREGLAS APLICABLES DEL WORKSPACE:\n\n" + rulesContext;
+                            this.logger.appendLine(`Reglas del workspace añadidas a los parámetros para ${step.tool}`);
+                        }
+                    }
+                }
+            }
+            
+            // Resolve variables in parameters before execution
+            // Pasamos los resultados de los pasos anteriores ($STEP[n] = results[n])
+            const resolvedParams = this.resolveVariables(step.params, results.slice(0, stepIndex));
+            
+            // Registrar los parámetros ANTES y DESPUÉS de resolver variables para debugging
+            this.logger.appendLine(`[BEFORE] Parámetros originales para ${step.tool}: ${JSON.stringify(step.params, null, 2)}`);
+            this.logger.appendLine(`[AFTER] Parámetros resueltos para ${step.tool}: ${JSON.stringify(resolvedParams, null, 2)}`);
+            
+            // MOVER AQUÍ: Verificación de archivos después de resolver variables
+            // Si hay un parámetro que parece ser una ruta de archivo, verificar que existe
+            const fileParamNames = ['filePath', 'sourcePath', 'path'];
+            let fileParamName = fileParamNames.find(p => resolvedParams && resolvedParams[p]);
+            if (fileParamName) {
+                const filePathValue = resolvedParams[fileParamName];
+                if (filePathValue && typeof filePathValue === 'string' && !filePathValue.includes('$STEP[')) {
+                    try {
+                        // Usar vscode.workspace.fs.stat en lugar de fs.promises.access
+                        const fileUri = vscode.Uri.file(filePathValue);
+                        await vscode.workspace.fs.stat(fileUri);
+                        this.logger.appendLine(`Archivo verificado: ${filePathValue}`);
+                    } catch (error) {
+                        // El archivo no existe, buscar la ruta real
+                        const fileUri = vscode.Uri.file(filePathValue);
+                        const fileName = fileUri.path.split('/').pop() || '';
+                        // Solo buscar si fileName parece ser un nombre de archivo válido
+                        if (fileName && !fileName.includes('$') && fileName.includes('.')) {
+                            // Usar FindFileTool para buscar la ruta real
+                            const findTool = this.toolManager.selectTool('FindFileTool');
+                            if (findTool) {
+                                this.logger.appendLine(`Buscando ruta real para ${fileName} usando FindFileTool...`);
+                                try {
+                                    const findResult = await findTool.run({ pattern: `**/${fileName}`, maxResults: 1 });
+                                    if (findResult && findResult.found && findResult.matches.length > 0) {
+                                        const realPath = findResult.matches[0];
+                                        this.logger.appendLine(`Ruta corregida para ${fileName}: ${realPath}`);
+                                        resolvedParams[fileParamName] = realPath;
+                                    } else {
+                                        this.logger.appendLine(`No se encontró el archivo ${fileName} en el workspace.`);
+                                    }
+                                } catch (findError: any) {
+                                    this.logger.appendLine(`Error al buscar archivo ${fileName}: ${findError.message}`);
+                                }
+                            }
+                        } else {
+                            this.logger.appendLine(`Saltando búsqueda de archivo para valor inválido: ${filePathValue}`);
+                        }
+                    }
+                }
+            }
+            
+            // Los pasos en paralelo que escriben el mismo archivo esperan su turno
+            const { writes } = this.getStepAccess({ ...step, params: resolvedParams });
+            if (writes.length > 0) {
+                releaseFiles = await writeQueue.acquire(writes);
+            }
+            
+            // Caso especial para ExecuteCommandTool - usar nuestra terminal personalizada
+            if (step.tool === 'ExecuteCommandTool' && resolvedParams.command) {
+                // Capturar snapshots de archivos antes de ejecutar el comando
+                let cmdSnapshotBeforeId: string | undefined;
+                if (this.fileSnapshotManager) {
+                    try {
+                        const workspacePath = this.workspaceManager.getWorkspacePath();
+                        if (workspacePath) {
+                            const potentialFiles = await vscode.workspace.findFiles('**/*', '**/node_modules/**');
+                            const filePaths = potentialFiles.map(file => file.fsPath);
+                            
+                            cmdSnapshotBeforeId = await this.fileSnapshotManager.createSnapshot(filePaths);
+                        }
+                    } catch (e) {
+                        this.logger.appendLine(`Error creating snapshot before command: ${e}`);
+                    }
+                }
+                
+                // Ejecutar el comando en nuestra terminal personalizada
+                const workingDirectory = resolvedParams.workingDirectory || 
+                                       resolvedParams.cwd || 
+                                       this.workspaceManager.getWorkspacePath();
+                
+                // Crear una terminal o usar una existente
+                const terminalId = this.terminalManager.createTerminal(
+                    'memorybank-agent',
+                    'Memory Bank Agent Terminal',
+                    workingDirectory
+                );
+                
+                // Ejecutar el comando
+                const cmdResult = await this.terminalManager.executeCommand(
+                    resolvedParams.command,
+                    terminalId,
+                    true // Capturar salida
+                );
+                
+                // Capturar snapshot después de ejecutar
+                let cmdSnapshotAfterId: string | undefined;
+                if (this.fileSnapshotManager && cmdSnapshotBeforeId) {
+                    try {
+                        const workspacePath = this.workspaceManager.getWorkspacePath();
+                        if (workspacePath) {
+                            const potentialFiles = await vscode.workspace.findFiles('**/*', '**/node_modules/**');
+                            const filePaths = potentialFiles.map(file => file.fsPath);
+                            
+                            cmdSnapshotAfterId = await this.fileSnapshotManager.createSnapshot(filePaths);
+                            
+                            // Registrar los archivos que tocó el comando para poder revertir la ejecución
+                            this.runChangesets.recordCommandChanges(
+                                this.fileSnapshotManager.getSnapshot(cmdSnapshotBeforeId) || [],
+                                this.fileSnapshotManager.getSnapshot(cmdSnapshotAfterId) || []
+                            );
+                        }
+                    } catch (e) {
+                        this.logger.appendLine(`Error creating snapshot after command: ${e}`);
+                    }
+                }
+                
+                // Convertir el resultado a formato compatible con lo esperado
+                const stepResult = {
+                    success: cmdResult.success,
+                    output: cmdResult.output,
+                    error: cmdResult.error,
+                    commandId: cmdResult.commandId,
+                    workingDirectory: cmdResult.workingDirectory
+                };
+                
+                // Añadir evento de comando al visor
+                if (this.eventsViewer) {
+                    this.eventsViewer.addCommandEvent(
+                        resolvedParams.command,
+                        cmdResult,
+                        {
+                            before: cmdSnapshotBeforeId,
+                            after: cmdSnapshotAfterId
+                        }
+                    );
+                }
+                
+                // Add result to context
+                this.contextManager.addStepResult(step, stepResult);
+                results[stepIndex] = {
+                    success: true,
+                    result: stepResult,
+                    step: step
+                };
+                
+                // Add to logs view if available
+                if (this.logsView) {
+                    this.logsView.addStepLog(step.description, step.tool, step.params, stepResult, true);
+                }
+                
+                // Update FlowViewer: step completed successfully + emit event
+                if (this.flowViewer) {
+                    this.flowViewer.updateStepStatus(stepIndex, 'success', { result: stepResult });
+                }
+                this.emitAgentEvent('stepSuccess', { stepIndex, step, result: stepResult });
+                
+                this.logger.appendLine(`Command step completed: ${step.description}`);
+                // NUEVO: Indexar resultados relevantes para aprendizaje futuro
+                await this.indexStepResults(step, stepResult);
+            } else {
+                // Para otras herramientas, usar el flujo normal
+                this.logger.appendLine(`About to execute tool.run() for ${step.tool}`);
+                const stepResult = await tool.run(resolvedParams);
+                this.logger.appendLine(`Tool.run() completed for ${step.tool}`);
+                
+                // Add result to context
+                this.contextManager.addStepResult(step, stepResult);
+                results[stepIndex] = {
+                    success: true,
+                    result: stepResult,
+                    step: step
+                };
+                
+                // Add to logs view if available
+                if (this.logsView) {
+                    this.logsView.addStepLog(step.description, step.tool, step.params, stepResult, true);
+                }
+                
+                // Update FlowViewer: step completed successfully + emit event
+                if (this.flowViewer) {
+                    this.flowViewer.updateStepStatus(stepIndex, 'success', { result: stepResult });
+                }
+                this.emitAgentEvent('stepSuccess', { stepIndex, step, result: stepResult });
+                
+                // Añadir evento específico según el tipo de herramienta
+                if (this.eventsViewer) {
+                    if (step.tool === 'AnalyzeCodeTool' && stepResult.analysis) {
+                        this.eventsViewer.addAnalysisEvent(
+                            stepResult.sourcePath || 'code-snippet',
+                            stepResult.analysis
+                        );
+                    } else if (step.tool === 'WriteFileTool' && stepResult.filePath) {
+                        // Añadir evento de cambio de archivo
+                        this.eventsViewer.addFileChangeEvent(
+                            stepResult.filePath,
+                            stepResult.created ? 'create' : 'modify'
+                        );
+                    } else {
+                        // Para otras herramientas, añadir evento genérico
+                        this.eventsViewer.addInfoEvent(
+                            `Completado: ${step.description}`,
+                            `Herramienta ${step.tool} ejecutada con éxito`,
+                            { result: stepResult }
+                        );
+                    }
+                }
+                
+                this.logger.appendLine(`Step completed: ${step.description}`);
+                // NUEVO: Indexar resultados relevantes para aprendizaje futuro
+                await this.indexStepResults(step, stepResult);
+            }
+        } catch (error: any) {
+            this.logger.appendLine(`Error executing step: ${error.message}`);
+            
+            // Update FlowViewer: step failed + emit event
+            if (this.flowViewer) {
+                this.flowViewer.updateStepStatus(stepIndex, 'error', { error: error.message });
+            }
+            this.emitAgentEvent('stepError', { stepIndex, step, error: error.message });
+            
+            // Add failure feedback to context
+            this.contextManager.addFeedback({
+                success: false,
+                error: error.message,
+                step: step
+            });
+            
+            results[stepIndex] = {
+                success: false,
+                error: error.message,
+                step: step
+            };
+            
+            // Add to logs view if available
+            if (this.logsView) {
+                this.logsView.addStepLog(step.description, step.tool, step.params, { error: error.message }, false);
+            }
+            
+            // Añadir evento de error al visor
+            if (this.eventsViewer) {
+                this.eventsViewer.addErrorEvent(
+                    `Error en paso: ${step.description}`,
+                    error.message
+                );
+            }
+            
+            // Verificar si este paso es crítico para el plan
+            const isStepCritical = this.isStepCritical(step, plan);
+            
+            // Optional: retry with modified instructions based on error
+            const shouldRetry = await this.shouldRetryStep(step, error);
+            
+            if (shouldRetry) {
+                const modifiedStep = await this.modifyStepAfterFailure(step, error);
+                this.logger.appendLine(`Retrying with modified step: ${modifiedStep.description}`);
+                
+                // Añadir evento informativo sobre reintento
+                if (this.eventsViewer) {
+                    this.eventsViewer.addInfoEvent(
+                        `Reintentando paso`,
+                        `Reintentando ${step.description} con parámetros modificados`
+                    );
+                }
+                
+                try {
+                    const tool = this.toolManager.selectTool(modifiedStep.tool);
+                    // Resolve variables in parameters for retry
+                    // Pasamos los resultados de los pasos anteriores
+                    const resolvedParams = this.resolveVariables(modifiedStep.params, results.slice(0, stepIndex));
+                    
+                    const retryResult = await tool.run(resolvedParams);
+                    
+                    this.contextManager.addStepResult(modifiedStep, retryResult);
+                    // El reintento sustituye al resultado fallido del paso
+                    results[stepIndex] = {
+                        success: true,
+                        result: retryResult,
+                        step: modifiedStep,
+                        wasRetry: true
+                    };
+                    
+                    // Añadir evento de éxito al visor
+                    if (this.eventsViewer) {
+                        this.eventsViewer.addInfoEvent(
+                            `Reintento exitoso: ${modifiedStep.description}`,
+                            `El reintento fue exitoso`,
+                            { result: retryResult }
+                        );
+                    }
+                } catch (retryError: any) {
+                    this.logger.appendLine(`Retry failed: ${retryError.message}`);
+                    success = false;
+                    
+                    // Añadir evento de error al visor
+                    if (this.eventsViewer) {
+                        this.eventsViewer.addErrorEvent(
+                            `Fallo en reintento: ${modifiedStep.description}`,
+                            retryError.message
+                        );
+                    }
+                    
+                    if (isStepCritical) {
+                        // Detener ejecución tras fallo en el reintento de un paso crítico
+                        return { success: false, stopReason: `Fallo en reintento: ${retryError.message}` };
+                    }
+                }
+            } else {
+                success = false;
+                
+                if (isStepCritical) {
+                    // Detener ejecución tras fallo crítico sin reintento
+                    return { success: false, stopReason: `Error crítico: ${error.message}` };
+                }
+            }
+        } finally {
+            if (releaseFiles) {
+                releaseFiles();
+            }
+        }
+        
+        // Verificar si hay dependencias bloqueantes para los siguientes pasos
+        if (!this.canContinueExecution(step, results[stepIndex], plan)) {
+            this.logger.appendLine(`Deteniendo ejecución: pasos posteriores dependen del éxito de "${step.description}"`);
+            
+            // Añadir evento informativo al visor
+            if (this.eventsViewer) {
+                this.eventsViewer.addInfoEvent(
+                    `Ejecución detenida`,
+                    `Los pasos siguientes dependen del éxito de "${step.description}"`
+                );
+            }
+            
+            return { success, stopReason: "Los pasos siguientes dependen del éxito de este paso" };
+        }
+        
+        return { success, stopReason: null };
+    }
+
+    /**
+     * Recursos que toca un paso, para decidir qué pasos pueden solaparse
+     * @param step Paso del plan
+     * @returns Archivos leídos y escritos (rutas absolutas) y si el paso debe ejecutarse solo
+     */
+    private getStepAccess(step: PlanStep): StepAccess {
+        const tool = this.toolManager.selectTool(step.tool);
+        if (!tool || tool.concurrency !== 'parallel') {
+            return { reads: [], writes: [], exclusive: true };
+        }
+
+        const access = tool.getFileAccess ? tool.getFileAccess({ ...(step.params || {}) }) : { reads: [], writes: [] };
+        // Las rutas que dependen de pasos anteriores aún no se conocen
+        const toKey = (files: string[]) => files
+            .filter(file => typeof file === 'string' && !file.includes('$'))
+            .map(file => {
+                const absolutePath = path.isAbsolute(file) ? path.normalize(file) : path.resolve(this.workspaceManager.getPrimaryWorkspacePath(), file);
+                return process.platform === 'win32' ? absolutePath.toLowerCase() : absolutePath;
+            });
+
+        return { reads: toKey(access.reads), writes: toKey(access.writes), exclusive: false };
+    }
+
+    /**
+     * Resume the last run interrupted by a crash or reload
+     * @returns The result of the resumed run
+     */
+    async resumeLastRun(): Promise<any> {
+        const checkpoint = this.runCheckpoints.getLastInterruptedRun();
+        if (!checkpoint) {
+            return {
+                success: false,
+                error: 'No interrupted run to resume'
+            };
+        }
+
+        this.emitAgentEvent('runResumed', { runId: checkpoint.runId, nextStep: checkpoint.nextStep, plan: checkpoint.plan });
+
+        return this.handleUserInput(checkpoint.input, checkpoint.context, checkpoint);
+    }
+
     /**
      * Display the logs view
      */
@@ -1166,7 +1352,7 @@ Ruta del archivo: ${context.filePath || 'Desconocido'}
 Workspace: ${workspacePath || 'Desconocido'}
 
 Herramientas disponibles:
-${availableTools.map((tool: any) => `- ${tool.name}: ${tool.description}`).join('\n')}
+${this.formatToolList(availableTools)}
 
 IMPORTANTE: CUANDO NECESITES USAR RESULTADOS DE PASOS ANTERIORES EN TUS PARÁMETROS:
 - Para usar el contenido leído por ReadFileTool, usa "$PREVIOUS_STEP.content" como valor del parámetro
@@ -1232,8 +1418,7 @@ Responde en el siguiente formato JSON:
                     this.contextManager.addItem('appliedRules', rulesApplied);
                     
                     // Usar la plantilla de PLAN_TASK_PROMPT e interpolar los campos necesarios
-                    const toolsList = availableTools.map((tool: any) => 
-                        `- ${tool.name}: ${tool.description}`).join('\n');
+                    const toolsList = this.formatToolList(availableTools);
                     
                     // Añadir instrucciones sobre cómo referenciar resultados de pasos anteriores
                     const variablesInstructions = `
@@ -1386,8 +1571,7 @@ IMPORTANTE PARA HERRAMIENTAS DE ANÁLISIS DE CÓDIGO:
             
             // Get available tools
             const availableTools = this.toolManager.getAvailableTools();
-            const toolsList = availableTools.map((tool: any) => 
-                `- ${tool.name}: ${tool.description}`).join('\n');
+            const toolsList = this.formatToolList(availableTools);
             
             // Extract issues and suggestions from validation result
             const issues = validationResult.issues || [];
@@ -1522,8 +1706,8 @@ File: ${context.filePath || 'None'}
 Language: ${context.language || 'Unknown'}
 Selected text: ${context.selection ? 'Yes (length: ' + context.selection.length + ')' : 'None'}
 
-Available tools:
-${availableTools.map((tool: any) => `- ${tool.name}: ${tool.description}`).join('\n')}
+Available tools (parameters marked with * are required):
+${this.formatToolList(availableTools)}
 
 IMPORTANT: WHEN REFERENCING RESULTS FROM PREVIOUS STEPS IN YOUR PARAMETERS:
 - To use content read by ReadFileTool, use "$PREVIOUS_STEP.content" as the parameter value
@@ -1542,10 +1726,16 @@ IMPORTANT FOR CODE ANALYSIS TOOLS:
 - Correct example: { "content": "$STEP[0].content", "sourcePath": "$STEP[0].matches[0]", "focus": "ClassName" }
 - The sourcePath parameter is MANDATORY for the tool to work correctly.
 
+IMPORTANT FOR STEP DEPENDENCIES:
+- Steps run one after another unless they declare "dependsOn"
+- "dependsOn" lists the descriptions of the earlier steps whose result or effect the step needs; the step starts as soon as those steps finish, in parallel with the others
+- Use "dependsOn": [] for a step that needs no earlier step
+
 Create a step-by-step plan to fulfill the user's request. For each step, specify:
 1. A description of the step
 2. The tool to use
 3. Parameters for the tool
+4. The earlier steps it depends on (dependsOn)
 
 Respond in the following JSON format:
 {
@@ -1557,7 +1747,8 @@ Respond in the following JSON format:
         "params": {
           "param1": "value1",
           "param2": "value2"
-        }
+        },
+        "dependsOn": ["Description of an earlier step"]
       }
     ]
   }
@@ -1565,6 +1756,21 @@ Respond in the following JSON format:
 `;
     }
 
+    /**
+     * Format the available tools for planning prompts, including their parameters
+     * so tools without hand-written instructions (e.g. MCP tools) can be called correctly
+     * @param availableTools - Tools from the tool manager
+     * @returns One line per tool
+     */
+    private formatToolList(availableTools: any[]): string {
+        return availableTools.map((tool: any) => {
+            const params = Object.entries<any>(tool.parameters || {})
+                .map(([name, def]) => `${name}${def?.required ? '*' : ''}: ${def?.type || 'any'}`)
+                .join(', ');
+            return `- ${tool.name}: ${tool.description}${params ? ` (params: ${params})` : ''}`;
+        }).join('\n');
+    }
+
     /**
      * Extrae las reglas aplicadas del prompt compuesto
      * @param composedPrompt El prompt compuesto generado
@@ -1668,8 +1874,8 @@ Respond in the following JSON format:
     async reflectOnExecution(plan: any, results: any[], stoppedAtStep: string | null, stopReason: string | null): Promise<any> {
         try {
             // Count successful and failed steps
-            const successfulSteps = results.filter(r => r.success).length;
-            const failedSteps = results.filter(r => !r.success).length;
+            const successfulSteps = results.filter(r => r && r.success).length;
+            const failedSteps = results.filter(r => r && !r.success).length;
             
             // Determine overall status
             let status = 'success';
@@ -2411,14 +2617,13 @@ Respond in the following JSON format:
     /**
      * Verifica si se puede continuar con la ejecución después de un paso
      * @param currentStep Paso actual
-     * @param results Resultados hasta ahora
+     * @param stepResult Resultado del paso actual
      * @param plan Plan completo
      * @returns true si se puede continuar con los siguientes pasos
      */
-    private canContinueExecution(currentStep: PlanStep, results: any[], plan: Plan): boolean {
-        // Si el último resultado fue un éxito, podemos continuar
-        const lastResult = results[results.length - 1];
-        if (lastResult.success) {
+    private canContinueExecution(currentStep: PlanStep, stepResult: any, plan: Plan): boolean {
+        // Si el paso terminó con éxito, podemos continuar
+        if (stepResult && stepResult.success) {
             return true;
         }
         
@@ -2557,8 +2762,8 @@ Respond in the following JSON format:
             // Realizar la consulta al vector store usando ragService
             this.logger.appendLine(`Realizando consulta RAG: ${query}`);
             
-            // Usar ragService para búsqueda semántica
-            const searchResults = await ragService.searchSimilarCode(query, { topK: contextCount });
+            // Usar ragService para búsqueda híbrida (léxica + semántica)
+            const searchResults = await ragService.hybridSearch(query, { topK: contextCount });
             
             // Preparar el contexto para incluir las reglas relevantes del workspace
             let formattedContext = 'CONTEXTO RELEVANTE DEL PROYECTO:\n\n';
@@ -2817,7 +3022,7 @@ Respond in the following JSON format:
                 messages,
                 demoTools,
                 toolCallHandler,
-                'gpt-5-mini',
+                configManager.getModelForTask(),
                 { reasoning_effort: 'medium' }
             );
             
@@ -2880,7 +3085,7 @@ Respond in the following JSON format:
 
             // Get available tools for context
             const availableTools = this.toolManager.getAvailableTools();
-            const toolDescriptions = availableTools.map((tool: any) => `- ${tool.name}: ${tool.description}`).join('\n');
+            const toolDescriptions = this.formatToolList(availableTools);
 
             // Create validation prompt
             const validationPrompt = `
@@ -3009,6 +3214,28 @@ Please analyze the plan and respond in JSON format:
         }
     }
 
+    /**
+     * Results of the steps that ran, with their index in the plan
+     * @param results - Results indexed by step (steps that never ran are empty)
+     */
+    private getExecutedResults(results: any[]): any[] {
+        const executed: any[] = [];
+        results.forEach((result, stepIndex) => {
+            if (result) {
+                executed.push({ ...result, stepIndex });
+            }
+        });
+        return executed;
+    }
+
+    /**
+     * Share of the executed steps that failed
+     */
+    private getFailureRate(results: any[]): number {
+        const executed = this.getExecutedResults(results);
+        return executed.length > 0 ? executed.filter(r => !r.success).length / executed.length : 0;
+    }
+
     /**
      * Evaluate execution results to determine if replanning is needed
      * @param originalInput - The original user input
@@ -3044,16 +3271,17 @@ EXECUTED PLAN:
 ${JSON.stringify(plan.steps, null, 2)}
 
 EXECUTION RESULTS SUMMARY:
-- Total steps: ${results.length}
-- Successful steps: ${results.filter(r => r.success).length}
-- Failed steps: ${results.filter(r => !r.success).length}
+- Total steps: ${plan.steps.length}
+- Executed steps: ${this.getExecutedResults(results).length}
+- Successful steps: ${this.getExecutedResults(results).filter(r => r.success).length}
+- Failed steps: ${this.getExecutedResults(results).filter(r => !r.success).length}
 - Status: ${reflection.status}
 ${reflection.stoppedAtStep ? `- Stopped at: ${reflection.stoppedAtStep}` : ''}
 ${reflection.stopReason ? `- Stop reason: ${reflection.stopReason}` : ''}
 
 DETAILED RESULTS:
-${JSON.stringify(results.map((r, i) => ({
-    step: i + 1,
+${JSON.stringify(this.getExecutedResults(results).map(r => ({
+    step: r.stepIndex + 1,
     success: r.success,
     tool: r.step?.tool,
     description: r.step?.description,
@@ -3098,7 +3326,7 @@ Please analyze the execution and respond in JSON format:
             } catch (parseError: any) {
                 this.logger.appendLine(`Error parsing evaluation result: ${parseError.message}`);
                 // Fallback: replan if there were many failures
-                const failureRate = results.filter(r => !r.success).length / results.length;
+                const failureRate = this.getFailureRate(results);
                 return {
                     shouldReplan: failureRate > 0.3,
                     reasoning: "Evaluation parsing failed, using simple failure rate heuristic",
@@ -3127,7 +3355,7 @@ Please analyze the execution and respond in JSON format:
         } catch (error: any) {
             this.logger.appendLine(`Error evaluating execution results: ${error.message}`);
             // Fallback logic
-            const failureRate = results.filter(r => !r.success).length / results.length;
+            const failureRate = this.getFailureRate(results);
             return {
                 shouldReplan: failureRate > 0.5,
                 reasoning: `Evaluation failed, using fallback logic. Failure rate: ${Math.round(failureRate * 100)}%`,
@@ -3157,7 +3385,7 @@ Please analyze the execution and respond in JSON format:
 
             // Get available tools
             const availableTools = this.toolManager.getAvailableTools();
-            const toolDescriptions = availableTools.map((tool: any) => `- ${tool.name}: ${tool.description}`).join('\n');
+            const toolDescriptions = this.formatToolList(availableTools);
 
             // Create replanning prompt
             const replanningPrompt = `
@@ -3171,13 +3399,13 @@ ${JSON.stringify(previousPlan.steps, null, 2)}
 
 WHAT WENT WRONG:
 - Status: ${previousReflection.status}
-- Successful steps: ${previousResults.filter((r: any) => r.success).length}/${previousResults.length}
+- Successful steps: ${this.getExecutedResults(previousResults).filter(r => r.success).length}/${previousPlan.steps.length}
 ${previousReflection.stoppedAtStep ? `- Stopped at: ${previousReflection.stoppedAtStep}` : ''}
 ${previousReflection.stopReason ? `- Reason: ${previousReflection.stopReason}` : ''}
 
 DETAILED FAILURE ANALYSIS:
-${JSON.stringify(previousResults.map((r: any, i: number) => ({
-    step: i + 1,
+${JSON.stringify(this.getExecutedResults(previousResults).map(r => ({
+    step: r.stepIndex + 1,
     success: r.success,
     tool: r.step?.tool,
     description: r.step?.description,
@@ -3201,6 +3429,11 @@ SPECIFIC RULES:
 - For analysis: Ensure all required parameters are provided
 - Add error handling and fallback steps where appropriate
 
+IMPORTANT FOR STEP DEPENDENCIES:
+- Steps run one after another unless they declare "dependsOn"
+- "dependsOn" lists the descriptions of the earlier steps whose result or effect the step needs; the step starts as soon as those steps finish, in parallel with the others
+- Use "dependsOn": [] for a step that needs no earlier step
+
 This is replanning attempt #${replanCount + 1}. Be more conservative and reliable than previous attempts.
 
 Respond in the following JSON format:
@@ -3213,7 +3446,8 @@ Respond in the following JSON format:
         "params": {
           "param1": "value1",
           "param2": "value2"
-        }
+        },
+        "dependsOn": ["Description of an earlier step"]
       }
     ],
     "replanningReason": "explanation of why this approach should work better",
@@ -3258,7 +3492,7 @@ Respond in the following JSON format:
                     attempt: replanCount + 1,
                     reason: newPlan.plan.replanningReason,
                     learningsApplied: newPlan.plan.learningsApplied || [],
-                    previousFailures: previousResults.filter((r: any) => !r.success).length
+                    previousFailures: previousResults.filter((r: any) => r && !r.success).length
                 }
             };
 
@@ -40,7 +40,7 @@ Contexto adicional:
 Solicitud del usuario:
 {{input}}
 
-Genera un plan detallado con todos los pasos necesarios para completar la solicitud. Asegúrate de que los pasos sean claros, específicos y estén en el orden correcto. Marca como críticos aquellos pasos sin los cuales el plan no puede continuar.
+Genera un plan detallado con todos los pasos necesarios para completar la solicitud. Asegúrate de que los pasos sean claros, específicos y estén en el orden correcto. Marca como críticos aquellos pasos sin los cuales el plan no puede continuar. Los pasos que no dependen entre sí se ejecutan en paralelo, así que indica en dependsOn cada paso cuyo resultado o efecto necesite otro paso.
 
 Formatea tu respuesta como un objeto JSON con la siguiente estructura:
 {
@@ -14,11 +14,17 @@ import { GenerateTestTool } from '../tools/GenerateTestTool';
 import { AnalyzeCodeTool } from '../tools/AnalyzeCodeTool';
 import { ExecuteCommandTool } from '../tools/ExecuteCommandTool';
 import { FindFileTool } from '../tools/FindFileTool';
+import { SearchCodeTool } from '../tools/SearchCodeTool';
+import { MCPProxyTool } from '../tools/MCPProxyTool';
+import { ToolConcurrency, ToolFileAccess } from '../tools/BaseTool';
+import { getMCPClientService } from '../../services/mcpClientService';
 
 export interface Tool {
     name: string;
     description?: string;
     parameters?: Record<string, any>;
+    concurrency?: ToolConcurrency;
+    getFileAccess?: (params: any) => ToolFileAccess;
     run: (params: any) => Promise<any>;
 }
 
@@ -27,6 +33,8 @@ export class AgentToolManager {
     private logger: vscode.OutputChannel;
     private tools: Map<string, Tool>;
     private initialized: boolean;
+    private mcpToolNames: Set<string> = new Set();
+    private mcpSubscription: vscode.Disposable | undefined;
 
     /**
      * Initialize the Tool Manager
@@ -50,6 +58,9 @@ export class AgentToolManager {
             // Load default tools
             await this.registerDefaultTools();
             
+            // MCP servers connect in the background; their tools are added as they appear
+            this.registerMCPTools();
+            
             this.initialized = true;
             this.logger.appendLine(`Tool Manager initialized with ${this.tools.size} tools`);
             return true;
@@ -100,7 +111,8 @@ export class AgentToolManager {
                 new GenerateTestTool(this.agent),
                 new FixErrorTool(this.agent),
                 new AnalyzeCodeTool(this.agent),
-                new FindFileTool(this.agent) // <-- Añadido aquí
+                new FindFileTool(this.agent), // <-- Añadido aquí
+                new SearchCodeTool(this.agent)
             ];
             
             // Registrar cada herramienta
@@ -115,6 +127,68 @@ export class AgentToolManager {
         }
     }
 
+    /**
+     * Remove a tool from the manager
+     * @param toolName - Name of the tool to remove
+     * @returns True if the tool was registered
+     */
+    unregisterTool(toolName: string): boolean {
+        const removed = this.tools.delete(toolName);
+        if (removed) {
+            this.logger.appendLine(`Unregistered tool: ${toolName}`);
+        }
+        return removed;
+    }
+
+    /**
+     * Register the tools of the configured MCP servers and keep them
+     * in sync with the live connections
+     */
+    registerMCPTools(): void {
+        const mcpService = getMCPClientService();
+
+        if (!this.mcpSubscription) {
+            this.mcpSubscription = mcpService.onDidChangeConnections(() => this.syncMCPTools());
+        }
+
+        mcpService.initialize()
+            .then(() => this.syncMCPTools())
+            .catch((error: any) => {
+                this.logger.appendLine(`Error connecting MCP servers: ${error.message}`);
+            });
+    }
+
+    /**
+     * Replace the registered MCP tools with the ones currently available
+     */
+    private syncMCPTools(): void {
+        const mcpTools = getMCPClientService().getTools().map(tool => new MCPProxyTool(this.agent, tool));
+        const currentNames = new Set(mcpTools.map(tool => tool.name));
+        const registeredNames = new Set<string>();
+
+        this.mcpToolNames.forEach(name => {
+            if (!currentNames.has(name)) {
+                this.unregisterTool(name);
+            }
+        });
+
+        for (const tool of mcpTools) {
+            // Never shadow a built-in tool
+            if (this.tools.has(tool.name) && !this.mcpToolNames.has(tool.name)) {
+                continue;
+            }
+            if (!this.mcpToolNames.has(tool.name)) {
+                this.registerTool(tool);
+            } else {
+                // Refresh schema/description silently
+                this.tools.set(tool.name, tool);
+            }
+            registeredNames.add(tool.name);
+        }
+
+        this.mcpToolNames = registeredNames;
+    }
+
     /**
      * Get a tool by name
      * @param toolName - Name of the tool to get
@@ -202,6 +276,9 @@ export class AgentToolManager {
      */
     dispose(): void {
         // Clean up resources if needed
+        this.mcpSubscription?.dispose();
+        this.mcpSubscription = undefined;
+        this.mcpToolNames.clear();
         this.tools.clear();
     }
 }
\ No newline at end of file
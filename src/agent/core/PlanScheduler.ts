@@ -0,0 +1,235 @@
+/**
+ * Plan Scheduler
+ * Runs the steps of a plan as a dependency graph: a step starts as soon as the
+ * steps it depends on have finished, up to a concurrency limit
+ */
+
+import { PlanStep } from './interfaces';
+
+/**
+ * Resources touched by a step, used to order steps that must not overlap
+ */
+export interface StepAccess {
+    reads: string[];
+    writes: string[];
+    exclusive: boolean; // The step runs alone (shell commands, external tools...)
+}
+
+/**
+ * Outcome reported by a step when it finishes
+ */
+export interface StepOutcome {
+    stop: boolean; // No new steps are started once a step asks to stop
+}
+
+export interface PlanGraphOptions {
+    maxParallel: number;
+    finished?: number[]; // Steps already finished (resumed runs)
+    onProgress?: (running: number[], finished: number[]) => void;
+}
+
+export interface PlanGraphResult {
+    finished: number[]; // In completion order
+    notStarted: number[];
+}
+
+// References to the results of earlier steps inside step params
+const STEP_REFERENCE = /\$STEP\[(\d+)\]/g;
+// Also the free-text references to the previous step resolved by Agent.resolveVariables
+const PREVIOUS_REFERENCE = /\$PREVIOUS_(STEP|RESULT)|contenido.*le[ií]do.*paso anterior|content.*from.*previous step|content.*of.*file/i;
+
+/**
+ * Resolve a dependsOn entry (the description of an earlier step, or its index)
+ * @returns Indexes of the matching steps, or null if nothing matches
+ */
+function resolveDependency(steps: PlanStep[], reference: any): number[] | null {
+    if (typeof reference === 'number') {
+        return reference >= 0 && reference < steps.length ? [reference] : null;
+    }
+    if (typeof reference !== 'string') {
+        return null;
+    }
+
+    const wanted = reference.trim().toLowerCase();
+    const matches: number[] = [];
+    steps.forEach((step, index) => {
+        if ((step.description || '').trim().toLowerCase() === wanted) {
+            matches.push(index);
+        }
+    });
+    return matches.length > 0 ? matches : null;
+}
+
+/**
+ * Whether two steps cannot run at the same time
+ */
+function conflicts(a: StepAccess, b: StepAccess): boolean {
+    if (a.exclusive || b.exclusive) {
+        return true;
+    }
+    return a.writes.some(file => b.reads.includes(file) || b.writes.includes(file)) ||
+        b.writes.some(file => a.reads.includes(file));
+}
+
+/**
+ * Build the dependency graph of a plan. A step depends on:
+ * - the steps named in its dependsOn (all earlier steps if a name does not match),
+ *   or the previous step if it declares no dependsOn: steps only run in parallel
+ *   when the planner says so
+ * - the steps whose results it references ($STEP[n], $PREVIOUS_STEP, "content of file"...)
+ * - earlier steps it conflicts with (same file written, exclusive tools)
+ * Only earlier steps are considered, so the graph never has cycles and the plan
+ * order is kept wherever steps are not independent
+ * @param steps - Steps of the plan
+ * @param accesses - Resources touched by each step
+ * @returns For each step, the sorted indexes of the steps it depends on
+ */
+export function buildStepDependencies(steps: PlanStep[], accesses: StepAccess[]): number[][] {
+    return steps.map((step, index) => {
+        const dependencies = new Set<number>();
+        const addDependency = (dependency: number) => {
+            if (dependency >= 0 && dependency < index) {
+                dependencies.add(dependency);
+            }
+        };
+
+        if (!step.dependsOn) {
+            addDependency(index - 1);
+        }
+        for (const reference of step.dependsOn || []) {
+            const resolved = resolveDependency(steps, reference);
+            if (resolved) {
+                resolved.forEach(addDependency);
+            } else {
+                for (let other = 0; other < index; other++) {
+                    addDependency(other);
+                }
+            }
+        }
+
+        const params = JSON.stringify(step.params || {});
+        const regex = new RegExp(STEP_REFERENCE.source, 'g');
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(params)) !== null) {
+            addDependency(parseInt(match[1], 10));
+        }
+        if (PREVIOUS_REFERENCE.test(params)) {
+            addDependency(index - 1);
+        }
+
+        for (let other = 0; other < index; other++) {
+            if (conflicts(accesses[other], accesses[index])) {
+                addDependency(other);
+            }
+        }
+
+        return Array.from(dependencies).sort((a, b) => a - b);
+    });
+}
+
+/**
+ * Execute a plan graph, starting every step whose dependencies have finished
+ * (at most maxParallel at a time). Once a step asks to stop, running steps
+ * are awaited and no new step is started
+ * @param dependencies - Output of buildStepDependencies
+ * @param executeStep - Runs one step
+ * @param options - Concurrency limit, already finished steps and progress callback
+ */
+export async function runPlanGraph(
+    dependencies: number[][],
+    executeStep: (index: number) => Promise<StepOutcome>,
+    options: PlanGraphOptions
+): Promise<PlanGraphResult> {
+    const maxParallel = Math.max(1, options.maxParallel || 1);
+    const done = new Set<number>(options.finished || []);
+    const finished: number[] = [];
+    const pending = dependencies.map((_, index) => index).filter(index => !done.has(index));
+    const running = new Map<number, Promise<void>>();
+    let stopped = false;
+    let failure: any = null;
+
+    const report = () => {
+        if (options.onProgress) {
+            options.onProgress(Array.from(running.keys()), finished.slice());
+        }
+    };
+
+    const start = (index: number) => {
+        const execution = executeStep(index)
+            .then(outcome => {
+                if (outcome.stop) {
+                    stopped = true;
+                }
+            }, error => {
+                failure = failure || error;
+                stopped = true;
+            })
+            .then(() => {
+                running.delete(index);
+                done.add(index);
+                finished.push(index);
+                report();
+            });
+        running.set(index, execution);
+    };
+
+    while (true) {
+        if (!stopped) {
+            // Plan order breaks ties, so a fully dependent plan runs exactly as before
+            for (const index of pending.slice()) {
+                if (running.size >= maxParallel) {
+                    break;
+                }
+                if (dependencies[index].every(dependency => done.has(dependency))) {
+                    pending.splice(pending.indexOf(index), 1);
+                    start(index);
+                }
+            }
+            report();
+        }
+
+        if (running.size === 0) {
+            break;
+        }
+        await Promise.race(running.values());
+    }
+
+    if (failure) {
+        throw failure;
+    }
+
+    return { finished, notStarted: pending };
+}
+
+/**
+ * Serializes the steps writing the same files once their paths are resolved
+ * (paths built from earlier results are unknown when the graph is built)
+ */
+export class FileWriteQueue {
+    private tails: Map<string, Promise<void>> = new Map();
+
+    /**
+     * Wait until no earlier step holds any of the files
+     * @param files - Normalized paths to be written
+     * @returns Function releasing the files
+     */
+    async acquire(files: string[]): Promise<() => void> {
+        const keys = Array.from(new Set(files));
+        let release: () => void = () => undefined;
+        const released = new Promise<void>(resolve => { release = resolve; });
+
+        // Queue on every file at once so two steps never wait on each other
+        const previous = keys.map(key => this.tails.get(key) || Promise.resolve());
+        keys.forEach(key => this.tails.set(key, released));
+        await Promise.all(previous);
+
+        return () => {
+            release();
+            keys.forEach(key => {
+                if (this.tails.get(key) === released) {
+                    this.tails.delete(key);
+                }
+            });
+        };
+    }
+}
@@ -0,0 +1,411 @@
+/**
+ * Run Changeset Manager
+ * Records every file written during an agent run (by tools or by commands) with
+ * its content before the run, so the whole run can be reverted afterwards
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { Agent } from './Agent';
+import { FileSnapshot } from '../terminals/FileSnapshotManager';
+import { RevertConflict, RunChangeset, RunChangesetFile } from '../types/AgentTypes';
+
+// Bump when the changeset layout changes
+const CHANGESET_VERSION = '1.0';
+
+// Number of runs whose changesets are kept on disk
+const MAX_CHANGESETS = 20;
+
+export interface RevertResult {
+    restored: string[];
+    skipped: string[];
+}
+
+export class RunChangesetManager {
+    private agent: Agent;
+    private logger: vscode.OutputChannel;
+    private changesetDir: string;
+    private current: RunChangeset | null;
+
+    /**
+     * Initialize the Run Changeset Manager
+     * @param agent - The parent agent instance
+     */
+    constructor(agent: Agent) {
+        this.agent = agent;
+        this.logger = agent.getLogger();
+        this.changesetDir = '';
+        this.current = null;
+    }
+
+    /**
+     * Initialize the changeset directory (next to the run checkpoints)
+     * @returns True if initialization was successful
+     */
+    async initialize(): Promise<boolean> {
+        try {
+            const extensionContext = this.agent.context;
+            const basePath = extensionContext.globalStorageUri ?
+                extensionContext.globalStorageUri.fsPath :
+                path.join(os.tmpdir(), 'memorybank_agent');
+            this.changesetDir = path.join(basePath, 'changesets');
+
+            if (!fs.existsSync(this.changesetDir)) {
+                fs.mkdirSync(this.changesetDir, { recursive: true });
+            }
+
+            this.logger.appendLine(`Run Changeset Manager initialized at: ${this.changesetDir}`);
+            return true;
+        } catch (error: any) {
+            this.logger.appendLine(`Error initializing Run Changeset Manager: ${error.message}`);
+            return false;
+        }
+    }
+
+    /**
+     * Start recording the changes of a run (or keep recording a resumed one)
+     * @param runId - Id of the run checkpoint
+     * @param input - User request
+     */
+    startRun(runId: string, input: string): void {
+        const existing = this.getChangeset(runId);
+        const now = new Date().toISOString();
+
+        this.current = existing ?
+            { ...existing, status: 'recording', updatedAt: now } :
+            {
+                version: CHANGESET_VERSION,
+                runId,
+                input,
+                status: 'recording',
+                files: [],
+                startedAt: now,
+                updatedAt: now
+            };
+
+        this.write(this.current);
+        if (!existing) {
+            this.prune();
+        }
+    }
+
+    /**
+     * Record the current content of a file about to be written by a tool
+     * Only the first write of each file in the run is recorded (its pre-run content)
+     * @param filePath - Absolute path of the file
+     * @param source - Tool writing the file
+     */
+    recordBeforeWrite(filePath: string, source: string): void {
+        if (!this.current || this.findFile(filePath)) {
+            return;
+        }
+
+        try {
+            const existedBefore = fs.existsSync(filePath);
+            this.addFile({
+                path: filePath,
+                existedBefore,
+                beforeHash: existedBefore ? this.storeBlob(fs.readFileSync(filePath)) : undefined,
+                source
+            });
+        } catch (error: any) {
+            this.logger.appendLine(`Error recording ${filePath} in changeset: ${error.message}`);
+        }
+    }
+
+    /**
+     * Record the files a command created, modified or deleted, from the
+     * workspace snapshots taken before and after it
+     * @param before - Snapshot taken before the command
+     * @param after - Snapshot taken after the command
+     */
+    recordCommandChanges(before: FileSnapshot[], after: FileSnapshot[]): void {
+        if (!this.current) {
+            return;
+        }
+
+        const beforeByPath = new Map(before.map(snapshot => [snapshot.path, snapshot] as [string, FileSnapshot]));
+        const afterByPath = new Map(after.map(snapshot => [snapshot.path, snapshot] as [string, FileSnapshot]));
+        const paths = new Set([...beforeByPath.keys(), ...afterByPath.keys()]);
+
+        for (const filePath of paths) {
+            const previous = beforeByPath.get(filePath);
+            const next = afterByPath.get(filePath);
+            if ((previous && next && previous.hash === next.hash) || this.findFile(filePath)) {
+                continue;
+            }
+
+            // Snapshots are read as text: binary files cannot be restored from them
+            if (previous && previous.content.includes('\uFFFD')) {
+                this.logger.appendLine(`Skipping binary file changed by a command: ${filePath}`);
+                continue;
+            }
+
+            this.addFile({
+                path: filePath,
+                existedBefore: !!previous,
+                beforeHash: previous ? this.storeBlob(Buffer.from(previous.content, 'utf8')) : undefined,
+                source: 'ExecuteCommandTool'
+            });
+        }
+    }
+
+    /**
+     * Record the current state of the files written so far, used to detect
+     * files edited by the user after the run
+     */
+    updateAfterState(): void {
+        if (!this.current || this.current.files.length === 0) {
+            return;
+        }
+
+        this.current.files = this.current.files.map(file => ({ ...file, afterHash: this.hashFile(file.path) }));
+        this.current.updatedAt = new Date().toISOString();
+        this.write(this.current);
+    }
+
+    /**
+     * Stop recording the current run
+     */
+    finishRun(): void {
+        if (!this.current) {
+            return;
+        }
+
+        this.updateAfterState();
+        this.current = { ...this.current, status: 'finished', updatedAt: new Date().toISOString() };
+        this.write(this.current);
+        this.current = null;
+    }
+
+    /**
+     * Get the changeset of a run
+     * @param runId - Id of the run
+     * @returns The changeset, or null if the run has none
+     */
+    getChangeset(runId: string): RunChangeset | null {
+        const filePath = path.join(this.changesetDir, runId, 'changeset.json');
+        if (!this.changesetDir || !fs.existsSync(filePath)) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error: any) {
+            this.logger.appendLine(`Error reading changeset ${runId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Load every changeset on disk, most recent first
+     */
+    listChangesets(): RunChangeset[] {
+        if (!this.changesetDir || !fs.existsSync(this.changesetDir)) {
+            return [];
+        }
+
+        return fs.readdirSync(this.changesetDir)
+            .map(runId => this.getChangeset(runId))
+            .filter((changeset): changeset is RunChangeset => changeset !== null)
+            .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    }
+
+    /**
+     * Whether a run is still being recorded (it cannot be reverted yet)
+     */
+    isRecording(runId: string): boolean {
+        return this.current !== null && this.current.runId === runId;
+    }
+
+    /**
+     * Find the files changed since the run finished (edited, deleted or
+     * recreated by the user or by a later run)
+     * @param changeset - Changeset of the run
+     */
+    findConflicts(changeset: RunChangeset): RevertConflict[] {
+        const conflicts: RevertConflict[] = [];
+
+        for (const file of changeset.files) {
+            const currentHash = this.hashFile(file.path);
+            const beforeHash = file.existedBefore ? file.beforeHash : null;
+            // Files without a recorded final state, or already back to their
+            // pre-run content, cannot conflict
+            if (file.afterHash === undefined || currentHash === file.afterHash || currentHash === beforeHash) {
+                continue;
+            }
+
+            conflicts.push({
+                path: file.path,
+                reason: currentHash === null ? 'deleted' : file.afterHash === null ? 'created' : 'modified'
+            });
+        }
+
+        return conflicts;
+    }
+
+    /**
+     * Restore the pre-run content of every file of a run (files created by
+     * the run are deleted)
+     * @param runId - Run to revert
+     * @param skipConflicts - Keep the files changed since the run instead of overwriting them
+     * @returns Restored and skipped files
+     */
+    revert(runId: string, skipConflicts: boolean): RevertResult {
+        const changeset = this.getChangeset(runId);
+        if (!changeset) {
+            throw new Error(`No changeset found for run ${runId}`);
+        }
+        if (this.isRecording(runId)) {
+            throw new Error('The run is still in progress');
+        }
+        if (changeset.status === 'reverted') {
+            throw new Error('The run has already been reverted');
+        }
+
+        const conflicting = new Set(this.findConflicts(changeset).map(conflict => conflict.path));
+        const result: RevertResult = { restored: [], skipped: [] };
+
+        for (const file of changeset.files) {
+            if (skipConflicts && conflicting.has(file.path)) {
+                result.skipped.push(file.path);
+                continue;
+            }
+
+            try {
+                if (file.existedBefore && file.beforeHash) {
+                    fs.mkdirSync(path.dirname(file.path), { recursive: true });
+                    fs.writeFileSync(file.path, fs.readFileSync(this.getBlobPath(runId, file.beforeHash)));
+                } else if (fs.existsSync(file.path)) {
+                    fs.unlinkSync(file.path);
+                }
+                result.restored.push(file.path);
+            } catch (error: any) {
+                this.logger.appendLine(`Error reverting ${file.path}: ${error.message}`);
+                result.skipped.push(file.path);
+            }
+        }
+
+        const now = new Date().toISOString();
+        this.write({ ...changeset, status: 'reverted', revertedAt: now, updatedAt: now, revertSkipped: result.skipped });
+        this.logger.appendLine(`Run ${runId} reverted: ${result.restored.length} file(s) restored, ${result.skipped.length} skipped`);
+        return result;
+    }
+
+    /**
+     * Get the content of a file before the run (for diffs)
+     * @param runId - Id of the run
+     * @param file - File of the changeset
+     * @returns The pre-run content, or an empty string if the run created the file
+     */
+    getBeforeContent(runId: string, file: RunChangesetFile): string {
+        return file.existedBefore && file.beforeHash ?
+            fs.readFileSync(this.getBlobPath(runId, file.beforeHash), 'utf8') :
+            '';
+    }
+
+    private findFile(filePath: string): RunChangesetFile | undefined {
+        return this.current?.files.find(file => file.path === filePath);
+    }
+
+    private addFile(file: RunChangesetFile): void {
+        if (!this.current) {
+            return;
+        }
+        this.current.files.push(file);
+        this.current.updatedAt = new Date().toISOString();
+        this.write(this.current);
+    }
+
+    /**
+     * Hash of a file on disk, or null if it does not exist
+     */
+    private hashFile(filePath: string): string | null {
+        try {
+            return fs.existsSync(filePath) ? this.hash(fs.readFileSync(filePath)) : null;
+        } catch (error: any) {
+            this.logger.appendLine(`Error hashing ${filePath}: ${error.message}`);
+            return null;
+        }
+    }
+
+    private hash(content: Buffer): string {
+        return crypto.createHash('sha256').update(content).digest('hex');
+    }
+
+    /**
+     * Store a pre-run content in the blobs of the current run
+     * @returns Hash of the content (name of the blob)
+     */
+    private storeBlob(content: Buffer): string {
+        const hash = this.hash(content);
+        if (this.current) {
+            const blobPath = this.getBlobPath(this.current.runId, hash);
+            if (!fs.existsSync(blobPath)) {
+                fs.mkdirSync(path.dirname(blobPath), { recursive: true });
+                fs.writeFileSync(blobPath, content);
+            }
+        }
+        return hash;
+    }
+
+    private getBlobPath(runId: string, hash: string): string {
+        return path.join(this.changesetDir, runId, 'blobs', hash);
+    }
+
+    /**
+     * Write a changeset atomically (temporary file + rename)
+     */
+    private write(changeset: RunChangeset): void {
+        if (!this.changesetDir) {
+            return;
+        }
+
+        const runDir = path.join(this.changesetDir, changeset.runId);
+        const filePath = path.join(runDir, 'changeset.json');
+        const tempPath = `${filePath}.tmp`;
+        try {
+            fs.mkdirSync(runDir, { recursive: true });
+            fs.writeFileSync(tempPath, JSON.stringify(changeset, null, 2));
+            fs.renameSync(tempPath, filePath);
+        } catch (error: any) {
+            this.logger.appendLine(`Error writing changeset ${changeset.runId}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Remove the oldest changesets (with their blobs) beyond MAX_CHANGESETS
+     */
+    private prune(): void {
+        for (const changeset of this.listChangesets().slice(MAX_CHANGESETS)) {
+            try {
+                this.deleteDirectory(path.join(this.changesetDir, changeset.runId));
+            } catch (error: any) {
+                this.logger.appendLine(`Error pruning changeset ${changeset.runId}: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Delete a directory recursively
+     * @param dirPath - Path to directory
+     */
+    private deleteDirectory(dirPath: string): void {
+        if (fs.existsSync(dirPath)) {
+            fs.readdirSync(dirPath).forEach(file => {
+                const curPath = path.join(dirPath, file);
+
+                if (fs.lstatSync(curPath).isDirectory()) {
+                    this.deleteDirectory(curPath);
+                } else {
+                    fs.unlinkSync(curPath);
+                }
+            });
+
+            fs.rmdirSync(dirPath);
+        }
+    }
+}
@@ -0,0 +1,331 @@
+/**
+ * Run Checkpoint Manager
+ * Checkpoints every agent run (plan + completed step results) to disk so an
+ * interrupted run can be resumed after a crash or a window reload
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { Agent } from './Agent';
+import { Plan, RunCheckpoint, RunCheckpointStatus } from '../types/AgentTypes';
+
+// Bump when the checkpoint layout changes (older checkpoints are not resumed)
+const CHECKPOINT_VERSION = '1.1';
+
+// Number of checkpoint files kept on disk
+const MAX_CHECKPOINTS = 20;
+
+// How often a running run refreshes updatedAt, and how old that heartbeat can
+// get before the run is considered dead even if its owner pid exists
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const HEARTBEAT_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+export class RunCheckpointManager {
+    private agent: Agent;
+    private logger: vscode.OutputChannel;
+    private checkpointDir: string;
+    private current: RunCheckpoint | null;
+    private saving: Promise<void>;
+    private heartbeat: NodeJS.Timeout | undefined;
+
+    /**
+     * Initialize the Run Checkpoint Manager
+     * @param agent - The parent agent instance
+     */
+    constructor(agent: Agent) {
+        this.agent = agent;
+        this.logger = agent.getLogger();
+        this.checkpointDir = '';
+        this.current = null;
+        this.saving = Promise.resolve();
+    }
+
+    /**
+     * Initialize the checkpoint directory
+     * Checkpoints live in the extension global storage (not in the per-session
+     * workspace) so they survive a reload
+     * @returns True if initialization was successful
+     */
+    async initialize(): Promise<boolean> {
+        try {
+            const extensionContext = this.agent.context;
+            const basePath = extensionContext.globalStorageUri ?
+                extensionContext.globalStorageUri.fsPath :
+                path.join(os.tmpdir(), 'memorybank_agent');
+            this.checkpointDir = path.join(basePath, 'checkpoints');
+
+            if (!fs.existsSync(this.checkpointDir)) {
+                fs.mkdirSync(this.checkpointDir, { recursive: true });
+            }
+
+            this.logger.appendLine(`Run Checkpoint Manager initialized at: ${this.checkpointDir}`);
+            return true;
+        } catch (error: any) {
+            this.logger.appendLine(`Error initializing Run Checkpoint Manager: ${error.message}`);
+            return false;
+        }
+    }
+
+    /**
+     * Start checkpointing a new run
+     * @param input - User request
+     * @param context - Context passed to handleUserInput
+     * @param plan - Plan to execute
+     * @returns The checkpoint of the run
+     */
+    startRun(input: string, context: Record<string, any>, plan: Plan): RunCheckpoint {
+        const now = new Date().toISOString();
+
+        this.current = {
+            version: CHECKPOINT_VERSION,
+            runId: `run_${Date.now()}`,
+            input,
+            context,
+            plan,
+            results: [],
+            nextStep: 0,
+            success: true,
+            replanCount: 0,
+            status: 'running',
+            workspaceFolder: this.getWorkspaceFolder(),
+            ownerPid: process.pid,
+            startedAt: now,
+            updatedAt: now
+        };
+
+        this.write(this.current);
+        this.prune();
+        this.startHeartbeat();
+        return this.current;
+    }
+
+    /**
+     * Continue checkpointing an interrupted run
+     * @param checkpoint - Checkpoint loaded from disk
+     */
+    resumeRun(checkpoint: RunCheckpoint): void {
+        this.current = { ...checkpoint, status: 'running', ownerPid: process.pid, updatedAt: new Date().toISOString() };
+        this.write(this.current);
+        this.startHeartbeat();
+    }
+
+    /**
+     * Checkpoint the progress of the current run
+     * Steps running in parallel finish concurrently, so saves are queued
+     * @param plan - Current plan (changes when the task is replanned)
+     * @param results - Result of each finished step, indexed by step ($STEP[n] references)
+     * @param replanCount - Number of replanning attempts so far
+     * @param success - Whether every finished step succeeded
+     */
+    saveProgress(plan: Plan, results: any[], replanCount: number, success: boolean): Promise<void> {
+        this.saving = this.saving
+            .then(() => this.writeProgress(plan, results.slice(), replanCount, success))
+            .catch((error: any) => {
+                this.logger.appendLine(`Error saving checkpoint progress: ${error.message}`);
+            });
+        return this.saving;
+    }
+
+    /**
+     * Write the progress of the current run (see saveProgress)
+     */
+    private async writeProgress(plan: Plan, results: any[], replanCount: number, success: boolean): Promise<void> {
+        if (!this.current) {
+            return;
+        }
+
+        let nextStep = 0;
+        while (nextStep < plan.steps.length && results[nextStep]) {
+            nextStep++;
+        }
+
+        // Persist the conversation history so the resumed run keeps its context
+        const previousContextFile = this.current.contextFile;
+        const contextFile = await this.agent.contextManager.persistToDisk();
+        if (contextFile && previousContextFile && previousContextFile !== contextFile) {
+            try {
+                fs.unlinkSync(previousContextFile);
+            } catch (error) {
+                // The previous context file may already be gone
+            }
+        }
+
+        this.current = {
+            ...this.current,
+            plan,
+            results,
+            nextStep,
+            replanCount,
+            success,
+            contextFile: contextFile || previousContextFile,
+            updatedAt: new Date().toISOString()
+        };
+        this.write(this.current);
+    }
+
+    /**
+     * Mark the current run as finished (it will not be offered for resume)
+     * @param status - Final status of the run
+     */
+    finishRun(status: Exclude<RunCheckpointStatus, 'running'>): void {
+        if (!this.current) {
+            return;
+        }
+
+        this.stopHeartbeat();
+        this.current = { ...this.current, status, updatedAt: new Date().toISOString() };
+        this.write(this.current);
+        this.current = null;
+    }
+
+    /**
+     * Refresh updatedAt periodically so other windows see the run is alive
+     * (queued with the progress saves so both never write at once)
+     */
+    private startHeartbeat(): void {
+        this.stopHeartbeat();
+        this.heartbeat = setInterval(() => {
+            this.saving = this.saving.then(() => {
+                if (this.current) {
+                    this.current = { ...this.current, updatedAt: new Date().toISOString() };
+                    this.write(this.current);
+                }
+            });
+        }, HEARTBEAT_INTERVAL_MS);
+    }
+
+    private stopHeartbeat(): void {
+        if (this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = undefined;
+        }
+    }
+
+    /**
+     * Get the checkpoint of the run in progress
+     */
+    getCurrentRun(): RunCheckpoint | null {
+        return this.current;
+    }
+
+    /**
+     * Get the most recent run of this workspace that did not finish (interrupted
+     * by a crash or reload). Runs still alive in another window are skipped
+     * @returns The checkpoint, or null if there is nothing to resume
+     */
+    getLastInterruptedRun(): RunCheckpoint | null {
+        const workspaceFolder = this.getWorkspaceFolder();
+        const checkpoints = this.listCheckpoints()
+            .filter(checkpoint =>
+                checkpoint.status === 'running' &&
+                checkpoint.version === CHECKPOINT_VERSION &&
+                checkpoint.runId !== this.current?.runId &&
+                checkpoint.workspaceFolder === workspaceFolder &&
+                !this.isRunAlive(checkpoint)
+            );
+        return checkpoints.length > 0 ? checkpoints[0] : null;
+    }
+
+    /**
+     * Whether a running checkpoint belongs to a live process that keeps
+     * refreshing its heartbeat (a run in another window of the same workspace)
+     */
+    private isRunAlive(checkpoint: RunCheckpoint): boolean {
+        if (!checkpoint.ownerPid) {
+            return false;
+        }
+
+        const heartbeatAge = Date.now() - new Date(checkpoint.updatedAt).getTime();
+        if (!(heartbeatAge < HEARTBEAT_TIMEOUT_MS)) {
+            return false;
+        }
+
+        try {
+            // Signal 0 only checks that the process exists
+            process.kill(checkpoint.ownerPid, 0);
+            return true;
+        } catch (error: any) {
+            // EPERM: the process exists but belongs to another user
+            return error.code === 'EPERM';
+        }
+    }
+
+    /**
+     * Folder of the workspace the runs belong to
+     */
+    private getWorkspaceFolder(): string | undefined {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        return workspaceFolders && workspaceFolders.length > 0 ? workspaceFolders[0].uri.fsPath : undefined;
+    }
+
+    /**
+     * Discard an interrupted run so it is not offered again
+     * @param runId - Run to discard
+     */
+    discardRun(runId: string): void {
+        const checkpoint = this.listCheckpoints().find(c => c.runId === runId);
+        if (checkpoint) {
+            this.write({ ...checkpoint, status: 'failed', updatedAt: new Date().toISOString() });
+        }
+    }
+
+    /**
+     * Load every checkpoint on disk, most recent first
+     */
+    private listCheckpoints(): RunCheckpoint[] {
+        if (!this.checkpointDir || !fs.existsSync(this.checkpointDir)) {
+            return [];
+        }
+
+        const checkpoints: RunCheckpoint[] = [];
+        for (const file of fs.readdirSync(this.checkpointDir)) {
+            if (!file.endsWith('.json')) {
+                continue;
+            }
+            try {
+                checkpoints.push(JSON.parse(fs.readFileSync(path.join(this.checkpointDir, file), 'utf8')));
+            } catch (error: any) {
+                this.logger.appendLine(`Skipping unreadable checkpoint ${file}: ${error.message}`);
+            }
+        }
+
+        return checkpoints.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    /**
+     * Write a checkpoint atomically (temporary file + rename), so a crash
+     * while writing never leaves a truncated checkpoint
+     */
+    private write(checkpoint: RunCheckpoint): void {
+        if (!this.checkpointDir) {
+            return;
+        }
+
+        const filePath = path.join(this.checkpointDir, `${checkpoint.runId}.json`);
+        const tempPath = `${filePath}.tmp`;
+        try {
+            fs.writeFileSync(tempPath, JSON.stringify(checkpoint, null, 2));
+            fs.renameSync(tempPath, filePath);
+        } catch (error: any) {
+            this.logger.appendLine(`Error writing checkpoint ${checkpoint.runId}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Remove the oldest checkpoints (and their context files) beyond MAX_CHECKPOINTS
+     */
+    private prune(): void {
+        for (const checkpoint of this.listCheckpoints().slice(MAX_CHECKPOINTS)) {
+            try {
+                fs.unlinkSync(path.join(this.checkpointDir, `${checkpoint.runId}.json`));
+                if (checkpoint.contextFile && fs.existsSync(checkpoint.contextFile)) {
+                    fs.unlinkSync(checkpoint.contextFile);
+                }
+            } catch (error: any) {
+                this.logger.appendLine(`Error pruning checkpoint ${checkpoint.runId}: ${error.message}`);
+            }
+        }
+    }
+}
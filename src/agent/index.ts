@@ -18,6 +18,7 @@ import { FixErrorTool } from './tools/FixErrorTool';
 import { GenerateTestTool } from './tools/GenerateTestTool';
 import { AnalyzeCodeTool } from './tools/AnalyzeCodeTool';
 import { ExecuteCommandTool } from './tools/ExecuteCommandTool';
+import { MCPProxyTool } from './tools/MCPProxyTool';
 
 // Export the Agent classes
 export {
@@ -36,7 +37,8 @@ export {
     FixErrorTool,
     GenerateTestTool,
     AnalyzeCodeTool,
-    ExecuteCommandTool
+    ExecuteCommandTool,
+    MCPProxyTool
 };
     
 /**
@@ -29,6 +29,7 @@ export class AnalyzeCodeTool extends BaseTool {
         super(agent);
         this.name = 'AnalyzeCodeTool';
         this.description = 'Analyzes code for problems and suggests improvements';
+        this.concurrency = 'parallel';
         this.parameters = {
             sourcePath: {
                 description: 'Path to the source file to analyze',
@@ -707,6 +708,11 @@ Responde en formato JSON con la siguiente estructura:
      * @returns Nombre del modelo
      */
     determineAppropriateModel(codeLength: number, detailLevel: string): string {
+        // Otros proveedores (Azure, Anthropic, local) usan el modelo configurado para análisis
+        if (configManager.getProviderForTask('analysis') !== 'openai') {
+            return configManager.getModelForTask('analysis');
+        }
+
         // Obtener modelo de configuración o usar uno por defecto
         const configuredModel = configManager.getOpenAIModel();
         if (configuredModel) {
@@ -19,12 +19,27 @@ export interface ToolParameters {
     [key: string]: ToolParameter;
 }
 
+/**
+ * Whether plan steps using a tool may run alongside other steps
+ * ('exclusive' tools run alone)
+ */
+export type ToolConcurrency = 'parallel' | 'exclusive';
+
+/**
+ * Files read and written by a tool call
+ */
+export interface ToolFileAccess {
+    reads: string[];
+    writes: string[];
+}
+
 export abstract class BaseTool {
     protected agent: Agent;
     protected logger: vscode.OutputChannel;
     name: string;
     description: string;
     parameters: ToolParameters;
+    concurrency: ToolConcurrency;
 
     /**
      * Initialize a new Tool instance
@@ -36,6 +51,8 @@ export abstract class BaseTool {
         this.name = this.constructor.name;
         this.description = '';
         this.parameters = {};
+        // Tools are assumed to touch anything unless they declare otherwise
+        this.concurrency = 'exclusive';
     }
 
     /**
@@ -88,6 +105,20 @@ export abstract class BaseTool {
         }
     }
 
+    /**
+     * Files read and written by a call, so that parallel plan steps touching
+     * the same file are serialized
+     * @param params - Parameters for the tool (unresolved paths are ignored)
+     * @returns Paths as given in the parameters
+     */
+    getFileAccess(params: Record<string, any>): ToolFileAccess {
+        const filePath = params.filePath || params.sourcePath || params.path;
+        return {
+            reads: typeof filePath === 'string' ? [filePath] : [],
+            writes: []
+        };
+    }
+
     /**
      * Actual implementation of the tool (to be overridden by subclasses)
      * @param params - Parameters for the tool
@@ -129,6 +160,15 @@ export abstract class BaseTool {
         }
     }
 
+    /**
+     * Record the content of a file before the tool writes it, so the whole
+     * agent run can be reverted
+     * @param filePath - Absolute path of the file about to be written
+     */
+    protected recordFileWrite(filePath: string): void {
+        this.agent.runChangesets?.recordBeforeWrite(filePath, this.name);
+    }
+
     /**
      * Normalize a file path to an absolute path
      * @param filePath - File path (relative or absolute)
@@ -18,6 +18,7 @@ export class FindFileTool extends BaseTool {
         super(agent);
         this.name = 'FindFileTool';
         this.description = 'Finds the real path(s) of a file in the workspace using a filename or glob pattern.';
+        this.concurrency = 'parallel';
         this.parameters = {
             pattern: {
                 description: 'Filename or glob pattern to search for (e.g. boletas.component.ts or **/boletas.component.ts)',
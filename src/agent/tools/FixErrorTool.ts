@@ -5,7 +5,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { BaseTool } from './BaseTool';
+import { BaseTool, ToolFileAccess } from './BaseTool';
 import * as ragService from '../../services/ragService';
 import * as openaiService from '../../services/openaiService';
 import * as configManager from '../../utils/configManager';
@@ -25,6 +25,7 @@ export class FixErrorTool extends BaseTool {
         super(agent);
         this.name = 'FixErrorTool';
         this.description = 'Fixes errors in code';
+        this.concurrency = 'parallel';
         this.parameters = {
             sourcePath: {
                 description: 'Path to the source file with error',
@@ -71,6 +72,18 @@ export class FixErrorTool extends BaseTool {
         };
     }
 
+    /**
+     * The fixed file (only written when applyFix is set)
+     */
+    getFileAccess(params: Record<string, any>): ToolFileAccess {
+        const sourcePath = params.sourcePath || params.path;
+        const files = typeof sourcePath === 'string' ? [sourcePath] : [];
+        return {
+            reads: files,
+            writes: params.applyFix ? files : []
+        };
+    }
+
     /**
      * Fix an error in a source file
      * @param params - Tool parameters
@@ -232,11 +245,13 @@ export class FixErrorTool extends BaseTool {
                 // Save backup if requested
                 if (saveBackup) {
                     const backupPath = `${normalizedSourcePath}.backup.${Date.now()}`;
+                    this.recordFileWrite(backupPath);
                     fs.writeFileSync(backupPath, sourceContent);
                     this.logger.appendLine(`Backup saved to: ${backupPath}`);
                 }
                 
                 // Write fixed code to file
+                this.recordFileWrite(normalizedSourcePath);
                 fs.writeFileSync(normalizedSourcePath, solution.fixedCode);
                 this.logger.appendLine(`Fixed code written to: ${normalizedSourcePath}`);
                 
@@ -383,9 +398,8 @@ Provide ONLY the corrected code without any explanations or markdown formatting.
                 content: prompt
             };
             
-            // Obtener el modelo configurado o usar uno predeterminado
-            const configuredModel = configManager.getOpenAIModel();
-            const modelToUse = configuredModel || "gpt-5-mini";
+            // Obtener el modelo configurado para el proveedor por defecto
+            const modelToUse = configManager.getModelForTask();
             
             // Usamos el método chatCompletion del servicio de OpenAI
             const completion = await openaiService.chatCompletion(
@@ -437,7 +451,7 @@ Provide ONLY the corrected code without any explanations or markdown formatting.
                 content: prompt
             };
             
-            const modelToUse = configManager.getOpenAIModel() || "gpt-5-mini";
+            const modelToUse = configManager.getModelForTask();
             
             const completion = await openaiService.chatCompletion(
                 [systemMessage, userMessage], 
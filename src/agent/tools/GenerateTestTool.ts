@@ -5,7 +5,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { BaseTool } from './BaseTool';
+import { BaseTool, ToolFileAccess } from './BaseTool';
 import * as ragService from '../../services/ragService';
 import * as openaiService from '../../services/openaiService';
 import * as configManager from '../../utils/configManager';
@@ -17,6 +17,7 @@ export class GenerateTestTool extends BaseTool {
         super(agent);
         this.name = 'GenerateTestTool';
         this.description = 'Generates test files for source code';
+        this.concurrency = 'parallel';
         this.parameters = {
             sourcePath: {
                 description: 'Path to the source file',
@@ -56,6 +57,20 @@ describe('{{className}}', () => {
 `;
     }
 
+    /**
+     * The source file and the generated test file
+     */
+    getFileAccess(params: Record<string, any>): ToolFileAccess {
+        const sourcePath = params.sourcePath || params.path;
+        if (typeof sourcePath !== 'string') {
+            return { reads: [], writes: [] };
+        }
+        return {
+            reads: [sourcePath],
+            writes: [typeof params.testPath === 'string' ? params.testPath : this.getDefaultTestPath(sourcePath)]
+        };
+    }
+
     /**
      * Generate a test file for a given source file
      * @param params - Tool parameters
@@ -173,6 +188,7 @@ describe('{{className}}', () => {
             }
             
             // Write test file
+            this.recordFileWrite(normalizedTestPath);
             fs.writeFileSync(normalizedTestPath, generatedTest);
             this.logger.appendLine(`Test file written to: ${normalizedTestPath}`);
             
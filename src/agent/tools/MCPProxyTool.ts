@@ -0,0 +1,131 @@
+/**
+ * MCPProxyTool
+ * Wraps a tool exposed by a configured MCP server so the planner can use it like any built-in tool
+ */
+
+import { BaseTool, ToolParameters } from './BaseTool';
+import { Agent } from '../core/Agent';
+import { getMCPClientService } from '../../services/mcpClientService';
+import { MCPTool } from '../../types/mcp';
+
+interface MCPProxyToolResult {
+    success: boolean;
+    server: string;
+    tool: string;
+    /** Text blocks of the result joined together */
+    content: string;
+    /** Raw content blocks returned by the server */
+    blocks: any[];
+    structuredContent?: any;
+}
+
+/**
+ * Build the agent tool name for an MCP tool (mcp__<server>__<tool>)
+ */
+export function getMCPToolName(serverId: string, toolName: string): string {
+    const sanitize = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return `mcp__${sanitize(serverId)}__${sanitize(toolName)}`;
+}
+
+/**
+ * Convert a JSON Schema (MCP `inputSchema`) into ToolParameters
+ * @param inputSchema - JSON Schema of the tool arguments
+ * @returns Parameters in the format used by BaseTool
+ */
+export function schemaToToolParameters(inputSchema?: Record<string, any>): ToolParameters {
+    const parameters: ToolParameters = {};
+    if (!inputSchema || typeof inputSchema.properties !== 'object') {
+        return parameters;
+    }
+
+    const required: string[] = Array.isArray(inputSchema.required) ? inputSchema.required : [];
+
+    for (const [name, schema] of Object.entries<any>(inputSchema.properties)) {
+        let type = 'any';
+        if (Array.isArray(schema?.type)) {
+            type = schema.type.join(' | ');
+        } else if (schema?.type) {
+            type = schema.type === 'array' && schema.items?.type ? `${schema.items.type}[]` : schema.type;
+        } else if (Array.isArray(schema?.anyOf || schema?.oneOf)) {
+            type = (schema.anyOf || schema.oneOf).map((s: any) => s?.type || 'any').join(' | ');
+        }
+
+        let description = schema?.description || schema?.title || '';
+        if (Array.isArray(schema?.enum)) {
+            description += `${description ? ' ' : ''}(one of: ${schema.enum.join(', ')})`;
+        }
+
+        parameters[name] = {
+            type,
+            description,
+            required: required.includes(name),
+            ...(schema?.default !== undefined ? { default: schema.default } : {})
+        };
+    }
+
+    return parameters;
+}
+
+export class MCPProxyTool extends BaseTool {
+    readonly serverId: string;
+    readonly mcpToolName: string;
+    private inputSchema?: Record<string, any>;
+
+    constructor(agent: Agent, tool: MCPTool) {
+        super(agent);
+        this.serverId = tool.server;
+        this.mcpToolName = tool.name;
+        this.inputSchema = tool.inputSchema;
+        this.name = getMCPToolName(tool.server, tool.name);
+        this.description = `[MCP ${tool.server}] ${tool.description || tool.name}`;
+        this.parameters = schemaToToolParameters(tool.inputSchema);
+    }
+
+    /**
+     * Call the tool on its MCP server
+     * @param params - Tool arguments
+     * @returns Text content and raw blocks returned by the server
+     */
+    protected async run_impl(params: Record<string, any>): Promise<MCPProxyToolResult> {
+        const args = this.buildArguments(params);
+        const result = await getMCPClientService().callTool(this.serverId, this.mcpToolName, args);
+
+        const blocks = result?.content || [];
+        const content = blocks
+            .filter(block => block.type === 'text' && typeof block.text === 'string')
+            .map(block => block.text)
+            .join('\n');
+
+        if (result?.isError) {
+            throw new Error(content || `MCP tool ${this.mcpToolName} returned an error`);
+        }
+
+        return {
+            success: true,
+            server: this.serverId,
+            tool: this.mcpToolName,
+            content,
+            blocks,
+            structuredContent: result?.structuredContent
+        };
+    }
+
+    /**
+     * BaseTool normalization adds aliases (filePath, sourcePath...) to params;
+     * only forward the properties the server declared unless it accepts extra ones
+     */
+    private buildArguments(params: Record<string, any>): Record<string, any> {
+        const properties = this.inputSchema?.properties;
+        if (!properties || this.inputSchema?.additionalProperties === true) {
+            return params;
+        }
+
+        const args: Record<string, any> = {};
+        for (const name of Object.keys(properties)) {
+            if (params[name] !== undefined) {
+                args[name] = params[name];
+            }
+        }
+        return args;
+    }
+}
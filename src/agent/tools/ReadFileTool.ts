@@ -23,6 +23,7 @@ export class ReadFileTool extends BaseTool {
         super(agent);
         this.name = 'ReadFileTool';
         this.description = 'Reads content from a file';
+        this.concurrency = 'parallel';
         this.parameters = {
             filePath: {
                 description: 'Path to the file to read',
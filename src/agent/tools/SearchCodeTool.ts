@@ -0,0 +1,107 @@
+/**
+ * SearchCodeTool
+ * Tool for searching the indexed code of the Memory Bank (BM25 + vector search)
+ */
+
+import { BaseTool } from './BaseTool';
+import { Agent } from '../core/Agent';
+import * as ragService from '../../services/ragService';
+
+interface SearchCodeResult {
+    query: string;
+    mode: ragService.SearchMode;
+    results: ragService.SearchResult[];
+    found: boolean;
+}
+
+const SEARCH_MODES: ragService.SearchMode[] = ['hybrid', 'vector', 'lexical'];
+
+export class SearchCodeTool extends BaseTool {
+    constructor(agent: Agent) {
+        super(agent);
+        this.name = 'SearchCodeTool';
+        this.description = 'Searches the indexed project code by exact identifiers (class names, error codes) and by meaning, returning the matching code fragments with file and line range.';
+        this.concurrency = 'parallel';
+        this.parameters = {
+            query: {
+                description: 'Search query: identifiers, error codes or a natural language description',
+                type: 'string',
+                required: true
+            },
+            topK: {
+                description: 'Maximum number of fragments to return (default: 10)',
+                type: 'number',
+                required: false,
+                default: 10
+            },
+            languages: {
+                description: 'Only fragments in these languages (array or comma-separated, e.g. "typescript,python")',
+                type: 'array',
+                required: false
+            },
+            chunkTypes: {
+                description: 'Only fragments of these types (array or comma-separated, e.g. "class,function")',
+                type: 'array',
+                required: false
+            },
+            pathGlob: {
+                description: 'Only fragments whose file path matches this glob (e.g. src/services/**)',
+                type: 'string',
+                required: false
+            },
+            mode: {
+                description: 'Retrieval mode: hybrid, vector or lexical (default: hybrid)',
+                type: 'string',
+                required: false,
+                default: 'hybrid'
+            },
+            projectId: {
+                description: 'Memory Bank project to search (default: the configured project)',
+                type: 'string',
+                required: false
+            }
+        };
+    }
+
+    /**
+     * Search the indexed code
+     * @param params - Tool parameters
+     * @returns Matching code fragments, best first
+     */
+    async run_impl(params: Record<string, any>): Promise<SearchCodeResult> {
+        const { query, topK = 10, pathGlob, projectId } = params;
+        const mode: ragService.SearchMode = SEARCH_MODES.includes(params.mode) ? params.mode : 'hybrid';
+
+        try {
+            const results = await ragService.hybridSearch(query, {
+                topK,
+                projectId,
+                languages: this.toList(params.languages),
+                chunkTypes: this.toList(params.chunkTypes),
+                pathGlob,
+                mode
+            });
+
+            this.logger.appendLine(`SearchCodeTool: ${results.length} fragments found for "${query}" (${mode})`);
+
+            return {
+                query,
+                mode,
+                results,
+                found: results.length > 0
+            };
+        } catch (error: any) {
+            throw new Error(`Error searching code: ${error.message}`);
+        }
+    }
+
+    /**
+     * Accept both arrays and comma-separated strings for list parameters
+     */
+    private toList(value: any): string[] | undefined {
+        if (!value) return undefined;
+        const list = Array.isArray(value) ? value : String(value).split(',');
+        const items = list.map((item: any) => String(item).trim()).filter((item: string) => item.length > 0);
+        return items.length > 0 ? items : undefined;
+    }
+}
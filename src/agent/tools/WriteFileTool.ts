@@ -5,7 +5,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { BaseTool } from './BaseTool';
+import { BaseTool, ToolFileAccess } from './BaseTool';
 import { Agent } from '../core/Agent';
 import { getMemoryBankService } from '../../services/memoryBankService';
 
@@ -25,6 +25,7 @@ export class WriteFileTool extends BaseTool {
         super(agent);
         this.name = 'WriteFileTool';
         this.description = 'Writes content to a file';
+        this.concurrency = 'parallel';
         this.parameters = {
             filePath: {
                 description: 'Path to the file to write',
@@ -51,6 +52,17 @@ export class WriteFileTool extends BaseTool {
         };
     }
 
+    /**
+     * The written file
+     */
+    getFileAccess(params: Record<string, any>): ToolFileAccess {
+        const filePath = params.filePath || params.path;
+        return {
+            reads: [],
+            writes: typeof filePath === 'string' ? [filePath] : []
+        };
+    }
+
     /**
      * Write content to file
      * @param params - Tool parameters
@@ -63,23 +75,27 @@ export class WriteFileTool extends BaseTool {
             // Normalizar la ruta del archivo
             const normalizedFilePath = this.normalizePath(filePath);
             
-            // Check for locks
+            // Lock the file for this agent (kept until the run finishes)
             try {
                 const service = getMemoryBankService();
                 if (service && this.agent.projectId) {
-                    const isLocked = await service.checkFileLock(this.agent.projectId, normalizedFilePath, this.agent.name);
-                    if (isLocked) {
-                        throw new Error(`File is locked by another agent. Cannot write to: ${normalizedFilePath}`);
+                    const lock = await service.acquireFileLock(this.agent.projectId, normalizedFilePath, this.agent.name);
+                    if (lock && lock.blockedBy) {
+                        throw new Error(`File is locked by another agent (${lock.blockedBy.claimedBy}, pattern "${lock.blockedBy.pattern}"). Cannot write to: ${normalizedFilePath}`);
+                    }
+                    if (lock && lock.pattern) {
+                        this.agent.recordFileLock(lock.pattern);
+                    }
+                    if (lock && !lock.acquired) {
+                        this.logger.appendLine(`Warning: Could not lock ${normalizedFilePath} in agentboard.db`);
                     }
                 }
             } catch (lockError: any) {
-                // If checking lock fails (e.g. board not found), we should probably warn but proceed or fail depending on strictness.
-                // For now, if explicit lock logic fails, we assume it's locked to be safe, OR we just log and proceed if it's just a read error?
-                // The requirement is strict locking.
+                // Only an active lock of another agent blocks the write; board errors are logged
                 if (lockError.message.includes('File is locked')) {
                     throw lockError;
                 }
-                this.logger.appendLine(`Warning: Could not check file lock: ${lockError.message}`);
+                this.logger.appendLine(`Warning: Could not lock file: ${lockError.message}`);
             }
 
             this.logger.appendLine(`Attempting to write to file: ${normalizedFilePath}`);
@@ -100,6 +116,7 @@ export class WriteFileTool extends BaseTool {
             }
             
             // Perform the write operation
+            this.recordFileWrite(normalizedFilePath);
             if (mode === 'append' && fileExists) {
                 this.logger.appendLine(`Appending to file: ${normalizedFilePath}`);
                 fs.appendFileSync(normalizedFilePath, content, { encoding: encoding as BufferEncoding });
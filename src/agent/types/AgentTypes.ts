@@ -5,6 +5,7 @@
 
 // Importar tipos desde interfaces.ts para compatibilidad
 export { PlanStep, Plan } from '../core/interfaces';
+import { Plan } from '../core/interfaces';
 
 // Promesas tipadas para funciones asíncronas
 export type AsyncResult<T> = Promise<T>;
@@ -29,4 +30,67 @@ export interface ToolDefinition {
   name: string;
   description: string;
   parameters: Record<string, any>;
-} 
\ No newline at end of file
+} 
+// Estado de una ejecución guardada en disco
+export type RunCheckpointStatus = 'running' | 'completed' | 'failed';
+
+// Checkpoint de una ejecución del agente (plan + resultados de los pasos completados)
+export interface RunCheckpoint {
+  version: string;
+  runId: string;
+  input: string;
+  context: Record<string, any>;
+  plan: Plan;
+  // Resultado de cada paso terminado, indexado por paso como $STEP[n] (null si no terminó)
+  results: any[];
+  // Índice del primer paso sin terminar (con pasos en paralelo puede haber pasos posteriores terminados)
+  nextStep: number;
+  // Si todos los pasos terminados hasta ahora tuvieron éxito
+  success: boolean;
+  replanCount: number;
+  status: RunCheckpointStatus;
+  // Historial del ContextManager persistido con persistToDisk
+  contextFile?: string;
+  workspaceFolder?: string;
+  // Proceso (extension host) que ejecuta la ejecución; mientras corre renueva updatedAt como latido
+  ownerPid?: number;
+  startedAt: string;
+  updatedAt: string;
+}
+
+// Estado del registro de cambios de una ejecución
+export type RunChangesetStatus = 'recording' | 'finished' | 'reverted';
+
+// Archivo escrito durante una ejecución del agente
+export interface RunChangesetFile {
+  path: string;
+  // Si el archivo existía antes de la ejecución (si no, revertir lo elimina)
+  existedBefore: boolean;
+  // Hash del contenido previo guardado en blobs/ (solo si existía)
+  beforeHash?: string;
+  // Hash del contenido al terminar la ejecución (null si el archivo se eliminó)
+  afterHash?: string | null;
+  // Herramienta que lo escribió (ExecuteCommandTool para los cambios de comandos)
+  source: string;
+}
+
+// Cambios de archivos de una ejecución, para poder revertirla entera
+export interface RunChangeset {
+  version: string;
+  // Mismo runId que el checkpoint de la ejecución
+  runId: string;
+  input: string;
+  status: RunChangesetStatus;
+  files: RunChangesetFile[];
+  startedAt: string;
+  updatedAt: string;
+  revertedAt?: string;
+  // Archivos no restaurados al revertir (conflictos omitidos)
+  revertSkipped?: string[];
+}
+
+// Archivo que el usuario cambió después de la ejecución
+export interface RevertConflict {
+  path: string;
+  reason: 'modified' | 'deleted' | 'created';
+}
@@ -8,6 +8,8 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { getMemoryBankService } from '../../services/memoryBankService';
+import { getMCPClientService } from '../../services/mcpClientService';
+import { getDelegationTimelines, getDelegationResult } from '../../services/delegationService';
 
 // Interface copied/adapted from frontend types to avoid import issues if any
 interface ExternalRequest {
@@ -17,6 +19,7 @@ interface ExternalRequest {
   context: string;
   status: 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'COMPLETED' | string;
   receivedAt: string;
+  result?: string;
 }
 
 export class DashboardViewer {
@@ -29,6 +32,7 @@ export class DashboardViewer {
   private pollTimer: NodeJS.Timer | undefined;
   private lastHistoryLength: number = 0;
   private executionItems: Map<string, any> = new Map();
+  private plannerSteps: any[] = [];
   private currentProjectId: string | undefined;
 
   private constructor(extensionUri: vscode.Uri) {
@@ -113,6 +117,9 @@ export class DashboardViewer {
 
     // Subscribe to agent events
     this.setupAgentEventListeners();
+
+    // Keep the MCPs tab in sync with live connection state
+    this.setupMCPListeners();
   }
 
   /**
@@ -187,8 +194,20 @@ export class DashboardViewer {
         this.sendMCPsState();
         break;
 
+      case 'REFRESH_MCPS':
+        getMCPClientService().refresh().then(() => this.sendMCPsState());
+        break;
+
       case 'REQUEST_HISTORICO_STATE':
         this.sendHistoricoState();
+        this.sendAgentRunsState();
+        break;
+
+      case 'REVERT_AGENT_RUN':
+        if (message.data?.runId) {
+          vscode.commands.executeCommand('memorybank.agent.revertRun', message.data.runId)
+            .then(() => this.sendAgentRunsState());
+        }
         break;
 
       case 'REQUEST_EXECUTION_STATE':
@@ -216,26 +235,45 @@ export class DashboardViewer {
            vscode.commands.executeCommand('memorybank.agent.acceptTask', {
                id: message.data.requestId,
                projectId: this.currentProjectId
-           });
-           // Optimistic update or wait for file watcher? 
-           // File watcher should trigger reload eventually, but let's refresh quickly
-           setTimeout(() => this.sendDelegationState(), 500); 
+           }).then(() => this.sendDelegationState());
         }
         break;
 
       case 'REJECT_TASK':
         if (message.data && this.currentProjectId) {
            vscode.commands.executeCommand('memorybank.agent.rejectTask', {
+               id: message.data.requestId,
+               projectId: this.currentProjectId,
+               note: message.data.reason
+           }).then(() => this.sendDelegationState());
+        }
+        break;
+
+      case 'START_TASK':
+        if (message.data && this.currentProjectId) {
+           vscode.commands.executeCommand('memorybank.agent.startTask', {
                id: message.data.requestId,
                projectId: this.currentProjectId
-           });
-           setTimeout(() => this.sendDelegationState(), 500);
+           }).then(() => this.sendDelegationState());
+        }
+        break;
+
+      case 'COMPLETE_TASK':
+        if (message.data && this.currentProjectId) {
+           vscode.commands.executeCommand('memorybank.agent.completeTask', {
+               id: message.data.requestId,
+               projectId: this.currentProjectId,
+               note: message.data.result
+           }).then(() => this.sendDelegationState());
         }
         break;
 
       case 'CREATE_DELEGATION':
-        // Prompt user via chat to delegate
-        vscode.commands.executeCommand('memorybank.agent.delegateTask');
+        // Without form data the command asks for each field
+        vscode.commands.executeCommand(
+            'memorybank.agent.delegateTask',
+            message.data ? { ...message.data, fromProject: this.currentProjectId || undefined } : undefined
+        ).then(() => this.sendDelegationState());
         break;
 
       case 'TRIGGER_AGENT_ACTION':
@@ -295,36 +333,13 @@ export class DashboardViewer {
     // Generate mock data for development/testing
     const hasMockData = !this.agent; // Show mock data when no agent is active
     
+    const mcpService = getMCPClientService();
     const state = {
       mcps: {
-        connections: hasMockData ? [
-          {
-            id: 'mcp-memory-bank',
-            name: 'Memory Bank MCP',
-            status: 'connected',
-            url: 'stdio://memory-bank-mcp',
-            version: '1.0.0',
-            connectedAt: Date.now() - 300000
-          },
-          {
-            id: 'mcp-mysql',
-            name: 'MySQL MCP',
-            status: 'connected',
-            url: 'stdio://mysql-mcp',
-            version: '1.0.0',
-            connectedAt: Date.now() - 250000
-          }
-        ] : [],
-        tools: hasMockData ? [
-          { name: 'memorybank_search', description: 'Search code semantically', category: 'search' },
-          { name: 'memorybank_index_code', description: 'Index code files', category: 'indexing' },
-          { name: 'mysql_execute_sql', description: 'Execute SQL query', category: 'database' }
-        ] : [],
-        latency: hasMockData ? {
-          'mcp-memory-bank': 45,
-          'mcp-mysql': 32
-        } : {},
-        initialized: !!this.agent || hasMockData,
+        connections: mcpService.getConnections(),
+        tools: mcpService.getTools(),
+        latency: mcpService.getLatency(),
+        initialized: mcpService.isInitialized(),
       },
       historico: {
         messages: this.contextManager?.getHistory() || (hasMockData ? [
@@ -387,17 +402,28 @@ export class DashboardViewer {
    * Send MCPs state
    */
   private sendMCPsState(): void {
-    // TODO: Get MCPs state from agent/tool manager
+    const mcpService = getMCPClientService();
     this.sendToWebview({
       type: 'UPDATE_MCPS',
       data: {
-        connections: [],
-        tools: [],
-        latency: {},
+        connections: mcpService.getConnections(),
+        tools: mcpService.getTools(),
+        latency: mcpService.getLatency(),
       },
     });
   }
 
+  /**
+   * Connect configured MCP servers (first time only) and push every state change
+   */
+  private setupMCPListeners(): void {
+    const mcpService = getMCPClientService();
+    this.disposables.push(mcpService.onDidChangeConnections(() => this.sendMCPsState()));
+    mcpService.initialize().catch((error) => {
+      console.warn('[DashboardViewer] Error connecting MCP servers:', error);
+    });
+  }
+
   /**
    * Send Histórico state
    */
@@ -411,6 +437,29 @@ export class DashboardViewer {
     });
   }
 
+  /**
+   * Send the agent runs that recorded file changes (shown in the Histórico tab)
+   */
+  private sendAgentRunsState(): void {
+    const changesets = this.agent?.runChangesets;
+    if (!changesets) return;
+
+    this.sendToWebview({
+      type: 'UPDATE_AGENT_RUNS',
+      data: {
+        runs: changesets.listChangesets().map((changeset: any) => ({
+          runId: changeset.runId,
+          input: changeset.input,
+          status: changeset.status,
+          files: changeset.files.map((file: any) => vscode.workspace.asRelativePath(file.path)),
+          conflicts: changeset.status === 'finished' ? changesets.findConflicts(changeset).length : 0,
+          startedAt: changeset.startedAt,
+          revertedAt: changeset.revertedAt,
+        })),
+      },
+    });
+  }
+
   /**
    * Send Execution state
    */
@@ -446,7 +495,7 @@ export class DashboardViewer {
     this.sendToWebview({
       type: 'UPDATE_PLANNER',
       data: {
-        steps: [],
+        steps: this.plannerSteps,
         replanningHistory: [],
         phase: 'planning',
       },
@@ -558,18 +607,57 @@ export class DashboardViewer {
 
     try {
       switch (evt.type) {
+        case 'runFinished':
+          this.sendAgentRunsState();
+          break;
         case 'planUpdate': {
           const plan = evt.data?.plan;
           if (plan?.steps) {
-            this.sendToWebview({
-              type: 'UPDATE_PLANNER',
-              data: { steps: plan.steps, phase: 'planning' },
-            });
+            this.plannerSteps = plan.steps.map((step: any, index: number) => ({
+              id: `step-${index}`,
+              title: step.description,
+              description: step.tool,
+              tool: step.tool,
+              params: step.params,
+              status: 'pending',
+            }));
+            this.sendPlannerSteps('planning');
           }
           break;
         }
+        case 'planSchedule': {
+          // Dependencies computed by the scheduler (steps without them run in parallel)
+          const { dependencies, finished, maxParallel } = evt.data || {};
+          (dependencies || []).forEach((deps: number[], index: number) => {
+            if (this.plannerSteps[index]) {
+              this.plannerSteps[index].dependencies = deps.map(dep => `${dep + 1}`);
+            }
+          });
+          (finished || []).forEach((index: number) => this.setPlannerStepStatus(index, 'completed'));
+          this.sendPlannerSteps('executing');
+          this.sendToWebview({
+            type: 'UPDATE_EXECUTION',
+            data: { currentParallelCount: 0, maxParallelCount: maxParallel },
+          });
+          break;
+        }
+        case 'scheduleProgress': {
+          const { running, maxParallel } = evt.data || {};
+          this.sendToWebview({
+            type: 'UPDATE_EXECUTION',
+            data: { currentParallelCount: (running || []).length, maxParallelCount: maxParallel },
+          });
+          break;
+        }
+        case 'stepSkipped': {
+          this.setPlannerStepStatus(evt.data?.stepIndex, 'skipped');
+          this.sendPlannerSteps('executing');
+          break;
+        }
         case 'stepStart': {
           const { stepIndex, step } = evt.data || {};
+          this.setPlannerStepStatus(stepIndex, 'running');
+          this.sendPlannerSteps('executing');
           const item = {
             id: `step-${stepIndex}`,
             name: step?.tool || `Paso ${stepIndex + 1}`,
@@ -582,6 +670,8 @@ export class DashboardViewer {
         }
         case 'stepSuccess': {
           const { stepIndex, step, result } = evt.data || {};
+          this.setPlannerStepStatus(stepIndex, 'completed');
+          this.sendPlannerSteps('executing');
           const id = `step-${stepIndex}`;
           const existing = this.executionItems.get(id) || {
             id,
@@ -598,6 +688,8 @@ export class DashboardViewer {
         }
         case 'stepError': {
           const { stepIndex, step, error } = evt.data || {};
+          this.setPlannerStepStatus(stepIndex, 'failed');
+          this.sendPlannerSteps('executing');
           const id = `step-${stepIndex}`;
           const existing = this.executionItems.get(id) || {
             id,
@@ -618,6 +710,26 @@ export class DashboardViewer {
     }
   }
 
+  /**
+   * Update the status of a step shown in the Planner tab
+   */
+  private setPlannerStepStatus(stepIndex: number, status: string): void {
+    const step = this.plannerSteps[stepIndex];
+    if (step) {
+      step.status = status;
+    }
+  }
+
+  /**
+   * Send the steps of the current plan to the Planner tab
+   */
+  private sendPlannerSteps(phase: string): void {
+    this.sendToWebview({
+      type: 'UPDATE_PLANNER',
+      data: { steps: this.plannerSteps.map(step => ({ ...step })), phase },
+    });
+  }
+
   /**
    * Send message to webview
    */
@@ -652,6 +764,7 @@ export class DashboardViewer {
     this.sendInitialState();
     this.sendMCPsState();
     this.sendHistoricoState();
+    this.sendAgentRunsState();
     this.sendExecutionState();
     this.sendValidatorState();
     this.sendPlannerState();
@@ -670,16 +783,49 @@ export class DashboardViewer {
 
     const requests = projectId ? await this.parseExternalRequests(projectId) : [];
     const internalTasks = projectId ? await this.parseInternalTasks(projectId) : [];
+    const lifecycle = await this.getDelegationLifecycle(projectId, requests);
     
     this.sendToWebview({
       type: 'UPDATE_DELEGATION_REQUESTS',
       data: {
         requests: requests, // Keep backwards compatibility if needed
-        pendingTasks: internalTasks
+        pendingTasks: internalTasks,
+        ...lifecycle
       }
     });
   }
 
+  /**
+   * Requests delegated by the project, timelines of every request (received and
+   * sent) and target projects for the creation form. Only available with agentboard.db
+   */
+  private async getDelegationLifecycle(projectId: string, received: ExternalRequest[]): Promise<Record<string, any>> {
+    try {
+      const service = getMemoryBankService();
+      const sqlite = service.getSqliteService();
+      if (!sqlite || !(await sqlite.ensureInitialized())) {
+        return {};
+      }
+
+      const outgoing = sqlite.getOutgoingRequests(projectId);
+      const timelines = getDelegationTimelines(sqlite, [...sqlite.getExternalRequests(projectId), ...outgoing]);
+      const resultOf = (id: string) => timelines[id] ? getDelegationResult(timelines[id]) : undefined;
+      for (const request of received) {
+        request.result = resultOf(request.id);
+      }
+
+      const projects = (await service.getProjects()).map(p => p.id).filter(id => id !== projectId);
+      return {
+        outgoingRequests: outgoing.map(r => ({ ...r, result: resultOf(r.id) })),
+        timelines,
+        projects
+      };
+    } catch (e) {
+      console.error('[DashboardViewer] Error loading delegation lifecycle:', e);
+      return {};
+    }
+  }
+
   private async parseInternalTasks(projectId: string): Promise<any[]> {
       try {
         const service = getMemoryBankService();
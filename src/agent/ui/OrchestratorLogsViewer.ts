@@ -0,0 +1,234 @@
+/**
+ * Orchestrator Logs Viewer
+ * Provides a React-based webview for exploring the routing decisions of the
+ * orchestrator: filters, per-decision details, analytics and re-run
+ */
+
+import * as vscode from 'vscode';
+import { OrchestratorLog, OrchestratorLogFilters } from '../../types/db';
+import * as orchestratorLogService from '../../services/orchestratorLogService';
+import { getMemoryBankService } from '../../services/memoryBankService';
+
+// Logs loaded from agentboard.db (most recent first, every project)
+const MAX_LOGS = 500;
+
+export class OrchestratorLogsViewer {
+    private panel: vscode.WebviewPanel | undefined;
+    private context: vscode.ExtensionContext;
+    private logs: OrchestratorLog[] = [];
+    private filters: OrchestratorLogFilters = {};
+    private boardListener: vscode.Disposable | undefined;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+    }
+
+    /**
+     * Show the orchestrator logs viewer
+     * @param projectId - Initial project filter (every project if omitted)
+     */
+    public async show(projectId?: string): Promise<void> {
+        if (projectId !== undefined) {
+            this.filters = { ...this.filters, projectId };
+        }
+        await this.loadLogs();
+
+        if (this.panel) {
+            this.panel.reveal();
+            this.syncStateToWebview();
+            return;
+        }
+
+        // Create the webview panel
+        this.panel = vscode.window.createWebviewPanel(
+            'memorybankOrchestratorLogsViewer',
+            'Memory Bank: Orchestrator Logs',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                localResourceRoots: [
+                    vscode.Uri.joinPath(this.context.extensionUri, 'dist')
+                ],
+                retainContextWhenHidden: true
+            }
+        );
+
+        // Set initial HTML content
+        this.updateContent();
+
+        // Logs written by other agents show up without a manual refresh
+        this.boardListener = getMemoryBankService().onDidChangeAgentBoard(() => this.refresh());
+
+        // Handle panel close
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+            if (this.boardListener) {
+                this.boardListener.dispose();
+                this.boardListener = undefined;
+            }
+        }, null, this.context.subscriptions);
+
+        // Handle messages from webview
+        this.panel.webview.onDidReceiveMessage(
+            async message => {
+                switch (message.command) {
+                    case 'refresh':
+                        await this.refresh();
+                        break;
+                    case 'filter':
+                        this.filters = message.filters || {};
+                        this.syncStateToWebview();
+                        break;
+                    case 'rerun':
+                        await this.rerun(message.logId);
+                        break;
+                }
+            },
+            undefined,
+            this.context.subscriptions
+        );
+    }
+
+    /**
+     * Load the logs of every project from agentboard.db
+     */
+    private async loadLogs(): Promise<void> {
+        const sqlite = getMemoryBankService().getSqliteService();
+        if (!sqlite || !(await sqlite.ensureInitialized())) {
+            this.logs = [];
+            return;
+        }
+        this.logs = sqlite.getOrchestratorLogs(undefined, MAX_LOGS);
+    }
+
+    private async refresh(): Promise<void> {
+        await this.loadLogs();
+        this.syncStateToWebview();
+    }
+
+    /**
+     * Filtered logs, their stats and the filter options
+     */
+    private getViewState() {
+        // Project and model options come from every log, so filtering never hides them
+        const projects = Array.from(new Set(this.logs.map(log => log.projectId))).sort();
+        const models = Array.from(new Set(this.logs.map(orchestratorLogService.getLogModel))).sort();
+        const logs = orchestratorLogService.filterOrchestratorLogs(this.logs, this.filters);
+
+        return {
+            logs,
+            stats: orchestratorLogService.getOrchestratorLogStats(logs),
+            filters: this.filters,
+            options: { projects, models }
+        };
+    }
+
+    /**
+     * Send the current view state to the webview
+     */
+    private syncStateToWebview(): void {
+        if (!this.panel) return;
+
+        this.panel.webview.postMessage({ command: 'updateLogs', ...this.getViewState() });
+    }
+
+    /**
+     * Feed the task of a logged orchestration back into the agent
+     */
+    private async rerun(logId: number): Promise<void> {
+        const log = this.logs.find(l => l.id === logId);
+        if (!log) {
+            vscode.window.showWarningMessage('El registro del orquestador ya no existe');
+            return;
+        }
+        await vscode.commands.executeCommand('memorybank.agent.rerunOrchestration', log);
+    }
+
+    private updateContent(): void {
+        if (!this.panel) return;
+
+        const html = this.getHtmlContent();
+        this.panel.webview.html = html;
+    }
+
+    /**
+     * Get the HTML content for the webview
+     */
+    private getHtmlContent(): string {
+        if (!this.panel) return '';
+
+        const nonce = this.getNonce();
+        const scriptUri = this.panel.webview.asWebviewUri(
+            vscode.Uri.joinPath(this.context.extensionUri, 'dist', 'orchestrator-webview.js')
+        );
+
+        // Prepare initial state
+        const initialState = {
+            ...this.getViewState(),
+            theme: vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark ? 'dark' : 'light'
+        };
+
+        return `<!DOCTYPE html>
+<html lang="es">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${this.panel.webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}' ${this.panel.webview.cspSource}; connect-src ${this.panel.webview.cspSource};">
+    <title>Memory Bank: Orchestrator Logs</title>
+    <style>
+        body {
+            margin: 0;
+            padding: 0;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            font-family: var(--vscode-font-family);
+        }
+        .loading {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            height: 100vh;
+            font-size: 16px;
+        }
+    </style>
+</head>
+<body class="${initialState.theme === 'dark' ? 'vscode-dark' : 'vscode-light'}">
+    <div id="root"><div class="loading">Cargando registros del orquestador...</div></div>
+    <script nonce="${nonce}">
+        window.__INITIAL_STATE__ = ${JSON.stringify(initialState).replace(/</g, '\\u003c')};
+
+        (function() {
+            try {
+                const vscode = acquireVsCodeApi();
+                window.vscode = vscode;
+            } catch (error) {
+                console.error('Orchestrator Logs Viewer: Error acquiring VSCode API:', error);
+            }
+        })();
+    </script>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Generate a random nonce for CSP
+     */
+    private getNonce(): string {
+        let text = '';
+        const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+        for (let i = 0; i < 32; i++) {
+            text += possible.charAt(Math.floor(Math.random() * possible.length));
+        }
+        return text;
+    }
+
+    /**
+     * Dispose of resources
+     */
+    public dispose(): void {
+        if (this.panel) {
+            this.panel.dispose();
+        }
+    }
+}
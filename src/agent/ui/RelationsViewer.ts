@@ -5,8 +5,10 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ProjectRelations } from '../../types/relations';
+import { ProjectRelations, ImpactAnalysis, RelationsDiff, RelationsDiffStatus, EndpointTrace } from '../../types/relations';
 import * as relationsAnalyzerService from '../../services/relationsAnalyzerService';
+import * as impactAnalysisService from '../../services/impactAnalysisService';
+import * as relationsMetricsService from '../../services/relationsMetricsService';
 import { getMemoryBankService } from '../../services/memoryBankService';
 
 export class RelationsViewer {
@@ -14,6 +16,9 @@ export class RelationsViewer {
     private context: vscode.ExtensionContext;
     private currentRelations: ProjectRelations | null = null;
     private currentProjectId: string | null = null;
+    private currentImpact: ImpactAnalysis | null = null;
+    private currentDiff: RelationsDiff | null = null;
+    private currentTrace: EndpointTrace | null = null;
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
@@ -25,8 +30,17 @@ export class RelationsViewer {
     public async show(projectId?: string): Promise<void> {
         // Load relations for project
         if (projectId) {
+            if (projectId !== this.currentProjectId && this.currentImpact?.projectId !== projectId) {
+                this.currentImpact = null;
+            }
+            if (projectId !== this.currentProjectId && this.currentDiff?.projectId !== projectId) {
+                this.currentDiff = null;
+            }
+            if (projectId !== this.currentProjectId && this.currentTrace?.projectId !== projectId) {
+                this.currentTrace = null;
+            }
             this.currentProjectId = projectId;
-            this.currentRelations = await relationsAnalyzerService.loadRelations(projectId);
+            this.currentRelations = relationsMetricsService.withMetrics(await relationsAnalyzerService.loadRelations(projectId));
         }
 
         if (this.panel) {
@@ -73,7 +87,32 @@ export class RelationsViewer {
                         await this.regenerate();
                         break;
                     case 'openFile':
-                        await this.openFile(message.filePath);
+                        await this.openFile(message.filePath, message.line);
+                        break;
+                    case 'analyzeImpact':
+                        this.analyzeImpact(message.nodeId);
+                        break;
+                    case 'clearImpact':
+                        this.currentImpact = null;
+                        this.syncImpactToWebview();
+                        break;
+                    case 'clearDiff':
+                        this.currentDiff = null;
+                        this.syncDiffToWebview();
+                        break;
+                    case 'clearTrace':
+                        this.currentTrace = null;
+                        this.syncTraceToWebview();
+                        break;
+                    case 'exportGraph':
+                        if (this.currentRelations) {
+                            await vscode.commands.executeCommand('memorybank.relations.export', message.nodeId, this.currentRelations);
+                        }
+                        break;
+                    case 'exportImpact':
+                        if (this.currentImpact) {
+                            await vscode.commands.executeCommand('memorybank.relations.exportImpact', this.currentImpact);
+                        }
                         break;
                 }
             },
@@ -92,12 +131,158 @@ export class RelationsViewer {
             command: 'updateRelations',
             relations: this.currentRelations,
         });
+        this.syncImpactToWebview();
+        this.syncDiffToWebview();
+        this.syncTraceToWebview();
+    }
+
+    /**
+     * Send the current diff (or its absence) to the webview, with the status
+     * of every added, removed or changed node and edge
+     */
+    private syncDiffToWebview(): void {
+        if (!this.panel) return;
+
+        const diff = this.currentDiff;
+        if (!diff) {
+            this.panel.webview.postMessage({ command: 'showDiff', diff: null });
+            return;
+        }
+
+        const nodes: Record<string, RelationsDiffStatus> = {};
+        const edges: Record<string, RelationsDiffStatus> = {};
+        const previousTypes: Record<string, string> = {};
+        diff.addedNodes.forEach(n => { nodes[n.id] = 'added'; });
+        diff.removedNodes.forEach(n => { nodes[n.id] = 'removed'; });
+        diff.changedNodes.forEach(c => { nodes[c.node.id] = 'changed'; previousTypes[c.node.id] = c.previousType; });
+        diff.addedEdges.forEach(e => { edges[e.id] = 'added'; });
+        diff.removedEdges.forEach(e => { edges[e.id] = 'removed'; });
+        diff.changedEdges.forEach(c => { edges[c.edge.id] = 'changed'; previousTypes[c.edge.id] = c.previousType; });
+
+        this.panel.webview.postMessage({
+            command: 'showDiff',
+            diff: {
+                baseLabel: diff.baseLabel,
+                headLabel: diff.headLabel,
+                relations: diff.merged,
+                nodes,
+                edges,
+                previousTypes,
+            },
+        });
+    }
+
+    /**
+     * Show the diff between two analyses with color-coded nodes and edges
+     */
+    public async showDiff(diff: RelationsDiff): Promise<void> {
+        this.currentDiff = diff;
+        this.currentImpact = null;
+        this.currentTrace = null;
+        await this.show(diff.projectId);
+    }
+
+    /**
+     * Send the current impact analysis (or its absence) to the webview
+     */
+    private syncImpactToWebview(): void {
+        if (!this.panel) return;
+
+        this.panel.webview.postMessage({
+            command: 'showImpact',
+            impact: this.currentImpact ? {
+                rootId: this.currentImpact.root.id,
+                nodes: this.currentImpact.impacted.map(entry => ({
+                    id: entry.node.id,
+                    distance: entry.distance,
+                    category: entry.category,
+                })),
+                edgeIds: [...new Set(this.currentImpact.impacted.reduce<string[]>((ids, entry) => ids.concat(entry.edgeIds), []))],
+            } : null,
+        });
+    }
+
+    /**
+     * Show an impact analysis highlighted in the graph
+     */
+    public async showImpact(analysis: ImpactAnalysis): Promise<void> {
+        this.currentImpact = analysis;
+        this.currentDiff = null;
+        this.currentTrace = null;
+        await this.show(analysis.projectId);
+    }
+
+    /**
+     * Send the current endpoint trace (or its absence) to the webview, with the
+     * source location of every step
+     */
+    private syncTraceToWebview(): void {
+        if (!this.panel) return;
+
+        const trace = this.currentTrace;
+        this.panel.webview.postMessage({
+            command: 'showTrace',
+            trace: trace ? {
+                endpoint: {
+                    method: trace.endpoint.method,
+                    path: trace.endpoint.path,
+                    handlerName: trace.endpoint.handlerName,
+                    filePath: trace.endpoint.filePath,
+                    line: trace.endpoint.line,
+                },
+                rootId: trace.steps[0].node.id,
+                steps: trace.steps.map(step => ({
+                    id: step.node.id,
+                    layer: step.layer,
+                    depth: step.depth,
+                    parentId: step.parentId,
+                    edgeType: step.edgeType,
+                    calledFunctions: step.calledFunctions,
+                    filePath: step.node.filePath,
+                    line: step.node.startLine,
+                })),
+                edgeIds: trace.edgeIds,
+            } : null,
+        });
+    }
+
+    /**
+     * Show the downstream trace of an endpoint as a vertical flow
+     */
+    public async showTrace(trace: EndpointTrace): Promise<void> {
+        this.currentTrace = trace;
+        this.currentImpact = null;
+        this.currentDiff = null;
+        await this.show(trace.projectId);
+    }
+
+    /**
+     * Run an impact analysis for a node of the current graph (requested from the webview)
+     */
+    private analyzeImpact(nodeId: string): void {
+        if (!this.currentRelations || !nodeId) return;
+
+        try {
+            this.currentImpact = impactAnalysisService.analyzeImpact(this.currentRelations, nodeId);
+            if (this.currentDiff) {
+                this.currentDiff = null;
+                this.syncDiffToWebview();
+            }
+            if (this.currentTrace) {
+                this.currentTrace = null;
+                this.syncTraceToWebview();
+            }
+            this.syncImpactToWebview();
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Error en análisis de impacto: ${error.message}`);
+        }
     }
 
     /**
      * Update relations data
      */
     public updateRelations(relations: ProjectRelations): void {
+        relations = relationsMetricsService.withMetrics(relations)!;
         this.currentRelations = relations;
         this.currentProjectId = relations.projectId;
         
@@ -115,7 +300,7 @@ export class RelationsViewer {
     private async refresh(): Promise<void> {
         if (!this.currentProjectId) return;
 
-        this.currentRelations = await relationsAnalyzerService.loadRelations(this.currentProjectId);
+        this.currentRelations = relationsMetricsService.withMetrics(await relationsAnalyzerService.loadRelations(this.currentProjectId));
         this.syncStateToWebview();
     }
 
@@ -133,7 +318,7 @@ export class RelationsViewer {
             }, async (progress) => {
                 this.currentRelations = await relationsAnalyzerService.analyzeProject(
                     this.currentProjectId!,
-                    { useAI: true },
+                    { useAI: true, force: true },
                     (p) => {
                         progress.report({
                             message: `${p.phase}: ${p.processedNodes} nodos`
@@ -150,9 +335,9 @@ export class RelationsViewer {
     }
 
     /**
-     * Open a file in the editor
+     * Open a file in the editor (optionally at a line)
      */
-    private async openFile(filePath: string): Promise<void> {
+    private async openFile(filePath: string, line?: number): Promise<void> {
         try {
             const mbPath = getMemoryBankService().getMemoryBankPath();
             if (!mbPath) return;
@@ -162,9 +347,11 @@ export class RelationsViewer {
             const resolvedPath = path.resolve(baseDir, filePath);
 
             const doc = await vscode.workspace.openTextDocument(resolvedPath);
+            const position = new vscode.Position(Math.max(0, (line || 1) - 1), 0);
             await vscode.window.showTextDocument(doc, {
                 viewColumn: vscode.ViewColumn.Beside,
-                preview: true
+                preview: true,
+                selection: new vscode.Range(position, position)
             });
         } catch (error: any) {
             vscode.window.showWarningMessage(`No se pudo abrir el archivo: ${filePath}`);
@@ -25,9 +25,8 @@ const TabComponents: Record<TabType, React.ComponentType<any>> = {
   validator: ValidatorTab,
   planner: PlannerTab,
   // testing: TestingTab, 
-  // delegation: DelegationTab, 
   testing: () => null, // Hidden per user request
-  delegation: () => null, // Hidden per user request
+  delegation: DelegationTab,
   launcher: LauncherTab,
 };
 
@@ -38,9 +37,8 @@ const TabLabels: Record<TabType, string> = {
   validator: 'Validador',
   planner: 'Planificador',
   // testing: 'Testing',
-  // delegation: 'Delegación',
   testing: '', // Hidden
-  delegation: '', // Hidden
+  delegation: 'Delegación',
   launcher: 'Lanzador',
 };
 
@@ -66,10 +64,16 @@ export const App: React.FC = () => {
         }
         if (message.data.totalTokens) dashboard.updateHistoricoTokens(message.data.totalTokens);
         break;
+      case 'UPDATE_AGENT_RUNS':
+        if (message.data.runs) dashboard.setAgentRuns(message.data.runs);
+        break;
       case 'UPDATE_EXECUTION':
         if (message.data.executing) {
           message.data.executing.forEach((tool: any) => dashboard.addExecutionTool(tool));
         }
+        if (typeof message.data.currentParallelCount === 'number') {
+          dashboard.setExecutionParallelism(message.data.currentParallelCount, message.data.maxParallelCount);
+        }
         break;
       case 'EXECUTION_TOOL_COMPLETED':
         if (message.data) {
@@ -103,6 +107,13 @@ export const App: React.FC = () => {
               message.data.pendingTasks || dashboard.state.delegation.pendingTasks
           );
         }
+        if (message.data.outgoingRequests) {
+          dashboard.setDelegationLifecycle(
+              message.data.outgoingRequests,
+              message.data.timelines || {},
+              message.data.projects || []
+          );
+        }
         break;
       case 'SELECT_TAB_WITH_DATA':
         if (message.payload) {
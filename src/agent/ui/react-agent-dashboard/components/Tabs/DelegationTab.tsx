@@ -1,9 +1,9 @@
 /**
  * DelegationTab Component
- * Displays external requests and delegation controls
+ * Displays external requests (received and sent), their timeline and delegation controls
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { DashboardState, ExternalRequest } from '../../types';
 
 interface Props {
@@ -12,7 +12,24 @@ interface Props {
   postMessage: (message: any) => void;
 }
 
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Pendiente',
+  ACCEPTED: 'Aceptada',
+  REJECTED: 'Rechazada',
+  IN_PROGRESS: 'En curso',
+  COMPLETED: 'Completada',
+};
+
+const emptyForm = { targetProject: '', title: '', context: '', criteria: '' };
+
 const DelegationTab: React.FC<Props> = ({ state, postMessage }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [completing, setCompleting] = useState<string | null>(null);
+  const [resultSummary, setResultSummary] = useState('');
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  const { externalRequests, outgoingRequests, timelines, projects } = state.delegation;
   
   useEffect(() => {
     postMessage({ type: 'REQUEST_DELEGATION_STATE' });
@@ -36,32 +53,143 @@ const DelegationTab: React.FC<Props> = ({ state, postMessage }) => {
     });
   };
 
+  const handleStart = (request: ExternalRequest) => {
+    postMessage({
+      type: 'START_TASK',
+      data: {
+        requestId: request.id
+      }
+    });
+  };
+
+  const handleComplete = (request: ExternalRequest) => {
+    if (!resultSummary.trim()) return;
+    postMessage({
+      type: 'COMPLETE_TASK',
+      data: {
+        requestId: request.id,
+        result: resultSummary.trim()
+      }
+    });
+    setCompleting(null);
+    setResultSummary('');
+  };
+
   const handleCreateDelegation = () => {
+    // Without known projects the extension asks for each field
+    if (!projects || projects.length === 0) {
+      postMessage({
+        type: 'CREATE_DELEGATION'
+      });
+      return;
+    }
+    setShowForm(!showForm);
+  };
+
+  const handleSubmitDelegation = () => {
+    if (!form.targetProject || !form.title.trim()) return;
     postMessage({
-      type: 'CREATE_DELEGATION'
+      type: 'CREATE_DELEGATION',
+      data: {
+        targetProject: form.targetProject,
+        title: form.title.trim(),
+        context: form.context.trim(),
+        acceptanceCriteria: form.criteria.split('\n').map(c => c.trim()).filter(c => c.length > 0)
+      }
     });
+    setForm(emptyForm);
+    setShowForm(false);
   };
 
+  const toggleTimeline = (id: string) => {
+    setExpanded(prev => prev.includes(id) ? prev.filter(e => e !== id) : [...prev, id]);
+  };
+
+  const renderTimeline = (req: ExternalRequest) => {
+    const events = (timelines && timelines[req.id]) || [];
+    return (
+      <div className="request-timeline">
+        <button className="link-button" onClick={() => toggleTimeline(req.id)}>
+          {expanded.includes(req.id) ? '▾' : '▸'} Historial ({events.length})
+        </button>
+        {expanded.includes(req.id) && (
+          <ul className="timeline-list">
+            {events.map((event, index) => (
+              <li key={index} className="timeline-event">
+                <span className={`status-badge ${event.status}`}>{STATUS_LABELS[event.status] || event.status}</span>
+                <span className="timeline-date">{new Date(event.timestamp).toLocaleString()}</span>
+                <span className="timeline-actor">{event.actor}</span>
+                {event.note && <div className="timeline-note">{event.note}</div>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  const renderResult = (req: ExternalRequest) => req.result ? (
+    <div className="request-result">
+      <strong>Resultado:</strong> {req.result}
+    </div>
+  ) : null;
+
   return (
     <div className="tab-delegation">
       <div className="planner-header">
         <h2>Delegación de Tareas (A2A)</h2>
         <button className="primary-button" onClick={handleCreateDelegation}>
-          + Delegar Tarea
+          {showForm ? 'Cancelar' : '+ Delegar Tarea'}
         </button>
       </div>
 
+      {showForm && (
+        <div className="section delegation-form">
+          <h3>Nueva Petición</h3>
+          <label>
+            Proyecto destino
+            <select value={form.targetProject} onChange={(e) => setForm({ ...form, targetProject: e.target.value })}>
+              <option value="">Selecciona un proyecto...</option>
+              {projects.map(project => (
+                <option key={project} value={project}>{project}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Título
+            <input type="text" value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} />
+          </label>
+          <label>
+            Contexto
+            <textarea rows={4} value={form.context} onChange={(e) => setForm({ ...form, context: e.target.value })} />
+          </label>
+          <label>
+            Criterios de aceptación (uno por línea)
+            <textarea rows={3} value={form.criteria} onChange={(e) => setForm({ ...form, criteria: e.target.value })} />
+          </label>
+          <div className="request-actions">
+            <button
+              className="primary-button"
+              disabled={!form.targetProject || !form.title.trim()}
+              onClick={handleSubmitDelegation}
+            >
+              Enviar Petición
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="section">
         <h3>Peticiones Externas (Recibidas)</h3>
-        {(!state.delegation.externalRequests || state.delegation.externalRequests.length === 0) ? (
+        {(!externalRequests || externalRequests.length === 0) ? (
           <p className="empty-state">No hay peticiones externas pendientes</p>
         ) : (
           <div className="requests-list">
-            {state.delegation.externalRequests.map((req) => (
+            {externalRequests.map((req) => (
               <div key={req.id} className={`request-item ${req.status.toLowerCase()}`}>
                  <div className="request-header">
                     <span className="request-id">{req.id}</span>
-                    <span className={`status-badge ${req.status}`}>{req.status}</span>
+                    <span className={`status-badge ${req.status}`}>{STATUS_LABELS[req.status] || req.status}</span>
                     <span className="request-date">{new Date(req.receivedAt).toLocaleString()}</span>
                  </div>
                  <div className="request-content">
@@ -72,6 +200,7 @@ const DelegationTab: React.FC<Props> = ({ state, postMessage }) => {
                     <div className="request-context">
                         {req.context}
                     </div>
+                    {renderResult(req)}
                  </div>
                  {req.status === 'PENDING' && (
                     <div className="request-actions">
@@ -79,6 +208,60 @@ const DelegationTab: React.FC<Props> = ({ state, postMessage }) => {
                         <button className="action-button reject" onClick={() => handleReject(req)}>✗ Rechazar</button>
                     </div>
                  )}
+                 {(req.status === 'ACCEPTED' || req.status === 'IN_PROGRESS') && completing !== req.id && (
+                    <div className="request-actions">
+                        {req.status === 'ACCEPTED' && (
+                          <button className="action-button" onClick={() => handleStart(req)}>▶ Iniciar</button>
+                        )}
+                        <button className="action-button approve" onClick={() => { setCompleting(req.id); setResultSummary(''); }}>
+                          ✓ Completar
+                        </button>
+                    </div>
+                 )}
+                 {completing === req.id && (
+                    <div className="request-complete">
+                        <textarea
+                          rows={3}
+                          placeholder="Resumen del resultado (se envía al proyecto de origen)"
+                          value={resultSummary}
+                          onChange={(e) => setResultSummary(e.target.value)}
+                        />
+                        <div className="request-actions">
+                            <button className="action-button" onClick={() => setCompleting(null)}>Cancelar</button>
+                            <button className="action-button approve" disabled={!resultSummary.trim()} onClick={() => handleComplete(req)}>
+                              Marcar como completada
+                            </button>
+                        </div>
+                    </div>
+                 )}
+                 {renderTimeline(req)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="section">
+        <h3>Peticiones Enviadas</h3>
+        {(!outgoingRequests || outgoingRequests.length === 0) ? (
+          <p className="empty-state">Este proyecto no ha delegado peticiones</p>
+        ) : (
+          <div className="requests-list">
+            {outgoingRequests.map((req) => (
+              <div key={req.id} className={`request-item ${req.status.toLowerCase()}`}>
+                 <div className="request-header">
+                    <span className="request-id">{req.id}</span>
+                    <span className={`status-badge ${req.status}`}>{STATUS_LABELS[req.status] || req.status}</span>
+                    <span className="request-date">{new Date(req.receivedAt).toLocaleString()}</span>
+                 </div>
+                 <div className="request-content">
+                    <h4>{req.title}</h4>
+                    <div className="request-origin">
+                        <strong>Para:</strong> {req.projectId}
+                    </div>
+                    {renderResult(req)}
+                 </div>
+                 {renderTimeline(req)}
               </div>
             ))}
           </div>
@@ -132,6 +315,8 @@ const DelegationTab: React.FC<Props> = ({ state, postMessage }) => {
         .status-badge.PENDING { background-color: #d1d100; color: black; }
         .status-badge.ACCEPTED { background-color: var(--vscode-testing-iconPassed); color: white; }
         .status-badge.REJECTED { background-color: var(--vscode-testing-iconFailed); color: white; }
+        .status-badge.IN_PROGRESS { background-color: var(--vscode-progressBar-background); color: white; }
+        .status-badge.COMPLETED { background-color: var(--vscode-charts-green); color: white; }
         
         .request-content h4 {
             margin: 0 0 8px 0;
@@ -177,6 +362,78 @@ const DelegationTab: React.FC<Props> = ({ state, postMessage }) => {
             background-color: var(--vscode-testing-iconFailed);
             color: white;
         }
+        .action-button:disabled,
+        .primary-button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .delegation-form {
+            display: flex;
+            flex-direction: column;
+            gap: 10px;
+            margin-bottom: 20px;
+        }
+        .delegation-form label {
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+            font-size: 0.9em;
+        }
+        .delegation-form input,
+        .delegation-form select,
+        .delegation-form textarea,
+        .request-complete textarea {
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+            padding: 4px 6px;
+            font-family: inherit;
+        }
+        .request-complete {
+            margin-top: 12px;
+        }
+        .request-complete textarea {
+            width: 100%;
+            box-sizing: border-box;
+        }
+        .request-result {
+            margin-top: 8px;
+            padding: 8px;
+            border-left: 3px solid var(--vscode-testing-iconPassed);
+            white-space: pre-wrap;
+        }
+        .request-timeline {
+            margin-top: 8px;
+        }
+        .link-button {
+            background: none;
+            border: none;
+            padding: 0;
+            cursor: pointer;
+            color: var(--vscode-textLink-foreground);
+        }
+        .timeline-list {
+            list-style: none;
+            margin: 6px 0 0 0;
+            padding-left: 12px;
+            border-left: 2px solid var(--vscode-panel-border);
+        }
+        .timeline-event {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 6px;
+            font-size: 0.9em;
+        }
+        .timeline-date,
+        .timeline-actor {
+            color: var(--vscode-descriptionForeground);
+        }
+        .timeline-note {
+            flex-basis: 100%;
+            white-space: pre-wrap;
+        }
       `}</style>
     </div>
   );
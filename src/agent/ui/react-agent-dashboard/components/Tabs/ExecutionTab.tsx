@@ -48,6 +48,13 @@ const ExecutionTab: React.FC<Props> = ({ state }) => {
           <h3>Fallidas</h3>
           <div className="count">{state.execution.failed.length}</div>
         </div>
+        <div className="stat-box parallel">
+          <h3>En Paralelo</h3>
+          <div className="count">
+            {state.execution.currentParallelCount}
+            {state.execution.maxParallelCount ? ` / ${state.execution.maxParallelCount}` : ''}
+          </div>
+        </div>
       </div>
 
       {/* Executing Tools */}
@@ -1,22 +1,35 @@
 /**
  * HistoricoTab Component
- * Displays agent execution history and token usage
+ * Displays agent execution history and token usage, and lets the user
+ * revert the file changes of an agent run
  */
 
 import React from 'react';
-import { DashboardState } from '../../types';
+import { AgentRun, DashboardState } from '../../types';
 
 interface Props {
   state: DashboardState;
   dispatch: any;
+  postMessage: (message: any) => void;
 }
 
-const HistoricoTab: React.FC<Props> = ({ state }) => {
+const HistoricoTab: React.FC<Props> = ({ state, postMessage }) => {
+  const runs = state.historico.runs || [];
   const messageCount = state.historico.messages.length;
   const avgTokensPerMessage = messageCount > 0 
     ? Math.round(state.historico.totalTokens / messageCount)
     : 0;
 
+  const handleRevert = (run: AgentRun) => {
+    // The extension asks for confirmation (and shows conflicts) before reverting
+    postMessage({
+      type: 'REVERT_AGENT_RUN',
+      data: {
+        runId: run.runId
+      }
+    });
+  };
+
   return (
     <div className="tab-historico">
       <div className="stats-grid">
@@ -38,6 +51,35 @@ const HistoricoTab: React.FC<Props> = ({ state }) => {
         </div>
       </div>
 
+      <div className="messages-section">
+        <h2>Ejecuciones del Agente</h2>
+        {runs.length === 0 ? (
+          <p className="empty-state">No hay ejecuciones con cambios en archivos</p>
+        ) : (
+          <div className="messages-list">
+            {runs.map((run) => (
+              <div key={run.runId} className="message-item">
+                <div className="message-header">
+                  <span className="role">{run.input.substring(0, 80)}</span>
+                  <span className="timestamp">{new Date(run.startedAt).toLocaleString()}</span>
+                  {run.status === 'recording' && <span className="badge info">⏳ En curso</span>}
+                  {run.status === 'reverted' && <span className="badge secondary">↩ Revertida</span>}
+                  {run.status === 'finished' && run.conflicts > 0 && (
+                    <span className="badge error">⚠ {run.conflicts} editado(s) después</span>
+                  )}
+                </div>
+                <div className="message-content">
+                  {run.files.length} archivo(s): {run.files.join(', ')}
+                </div>
+                {run.status === 'finished' && run.files.length > 0 && (
+                  <button className="action-button reject" onClick={() => handleRevert(run)}>↩ Revertir</button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div className="messages-section">
         <h2>Historial de Mensajes</h2>
         {state.historico.messages.length === 0 ? (
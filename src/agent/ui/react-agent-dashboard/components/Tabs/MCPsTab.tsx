@@ -3,28 +3,47 @@
  * Displays available MCPs, their tools, connections and latency
  */
 
-import React from 'react';
-import { DashboardState } from '../../types';
+import React, { useEffect } from 'react';
+import { DashboardState, MCPConnection, MCPTool } from '../../types';
 
 interface Props {
   state: DashboardState;
   dispatch: any;
+  postMessage: (message: any) => void;
 }
 
-const MCPsTab: React.FC<Props> = ({ state }) => {
+const MCPsTab: React.FC<Props> = ({ state, postMessage }) => {
+
+  useEffect(() => {
+    postMessage({ type: 'REQUEST_MCPs_STATE' });
+  }, [postMessage]);
+
+  const handleRefresh = () => {
+    postMessage({ type: 'REFRESH_MCPS' });
+  };
+
   return (
     <div className="tab-mcps">
       <div className="section">
-        <h2>Conexiones MCP</h2>
+        <div className="planner-header">
+          <h2>Conexiones MCP</h2>
+          <button className="primary-button" onClick={handleRefresh}>
+            ↻ Reconectar
+          </button>
+        </div>
         {state.mcps.connections.length === 0 ? (
           <p className="empty-state">No hay conexiones MCP inicializadas</p>
         ) : (
           <div className="connections-grid">
-            {state.mcps.connections.map((conn: any) => (
+            {state.mcps.connections.map((conn: MCPConnection) => (
               <div key={conn.id} className="connection-card">
                 <h3>{conn.name}</h3>
                 <p>Status: <span className={`status ${conn.status}`}>{conn.status}</span></p>
-                <p>Latencia: {state.mcps.latency[conn.id] || '-'} ms</p>
+                <p className="tool-source">{conn.transport || 'stdio'} · {conn.url}</p>
+                {conn.version && <p className="tool-source">v{conn.version}</p>}
+                <p>Latencia: {state.mcps.latency[conn.id] ?? '-'} ms</p>
+                <p>Herramientas: {conn.tools ? conn.tools.length : 0}</p>
+                {conn.error && <p className="mcp-error">{conn.error}</p>}
               </div>
             ))}
           </div>
@@ -37,11 +56,11 @@ const MCPsTab: React.FC<Props> = ({ state }) => {
           <p className="empty-state">No hay herramientas disponibles</p>
         ) : (
           <div className="tools-list">
-            {state.mcps.tools.map((tool: any) => (
-              <div key={tool.id} className="tool-item">
+            {state.mcps.tools.map((tool: MCPTool) => (
+              <div key={`${tool.server}:${tool.name}`} className="tool-item">
                 <div className="tool-header">
                   <span className="tool-name">{tool.name}</span>
-                  <span className="tool-source">({tool.source})</span>
+                  <span className="tool-source"> ({tool.server})</span>
                 </div>
                 <p className="tool-description">{tool.description}</p>
               </div>
@@ -49,6 +68,30 @@ const MCPsTab: React.FC<Props> = ({ state }) => {
           </div>
         )}
       </div>
+
+      <style>{`
+        .tab-mcps .planner-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+        }
+        .tab-mcps .primary-button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 12px;
+            cursor: pointer;
+            border-radius: 2px;
+        }
+        .tab-mcps .primary-button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        .mcp-error {
+            color: var(--vscode-errorForeground);
+            font-size: 0.9em;
+            white-space: pre-wrap;
+        }
+      `}</style>
     </div>
   );
 };
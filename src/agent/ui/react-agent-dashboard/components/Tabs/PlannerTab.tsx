@@ -33,6 +33,9 @@ const PlannerTab: React.FC<Props> = ({ state }) => {
                 <div className="step-content">
                   <h4>{step.title}</h4>
                   <p>{step.description}</p>
+                  {step.dependencies && step.dependencies.length > 0 && (
+                    <p className="step-dependencies">Depende de: {step.dependencies.join(', ')}</p>
+                  )}
                   {step.tools && (
                     <div className="step-tools">
                       {step.tools.map((tool: string, tidx: number) => (
@@ -43,9 +46,10 @@ const PlannerTab: React.FC<Props> = ({ state }) => {
                 </div>
                 <div className="step-status">
                   {step.status === 'completed' && <span className="badge success">✓ Completado</span>}
-                  {step.status === 'in-progress' && <span className="badge info">⏳ En Progreso</span>}
+                  {(step.status === 'running' || step.status === 'in-progress') && <span className="badge info">⏳ En Progreso</span>}
                   {step.status === 'pending' && <span className="badge secondary">⏸ Pendiente</span>}
                   {step.status === 'failed' && <span className="badge error">✗ Falló</span>}
+                  {step.status === 'skipped' && <span className="badge secondary">⏭ Omitido</span>}
                 </div>
               </div>
             ))}
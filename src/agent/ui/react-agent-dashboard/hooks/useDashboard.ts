@@ -49,6 +49,9 @@ const initialState: DashboardState = {
   delegation: {
     externalRequests: [],
     pendingTasks: [],
+    outgoingRequests: [],
+    timelines: {},
+    projects: [],
   },
   isLoading: true,
   activeTab: 'mcps',
@@ -120,6 +123,15 @@ function dashboardReducer(state: DashboardState, action: DashboardAction): Dashb
         },
       };
 
+    case 'SET_AGENT_RUNS':
+      return {
+        ...state,
+        historico: {
+          ...state.historico,
+          runs: action.payload,
+        },
+      };
+
     case 'ADD_EXECUTION_TOOL':
       return {
         ...state,
@@ -149,6 +161,16 @@ function dashboardReducer(state: DashboardState, action: DashboardAction): Dashb
         },
       };
 
+    case 'SET_EXECUTION_PARALLELISM':
+      return {
+        ...state,
+        execution: {
+          ...state.execution,
+          currentParallelCount: action.payload.current,
+          maxParallelCount: action.payload.max ?? state.execution.maxParallelCount,
+        },
+      };
+
     case 'ADD_VALIDATOR_CHECK':
       return {
         ...state,
@@ -226,6 +248,15 @@ function dashboardReducer(state: DashboardState, action: DashboardAction): Dashb
           }
       };
 
+    case 'SET_DELEGATION_LIFECYCLE':
+      return {
+          ...state,
+          delegation: {
+              ...state.delegation,
+              ...action.payload
+          }
+      };
+
     case 'RESET_STATE':
       return initialState;
 
@@ -257,6 +288,10 @@ export const useDashboard = () => {
     dispatch({ type: 'UPDATE_HISTORICO_TOKENS', payload: tokens });
   }, []);
 
+  const setAgentRuns = useCallback((runs: any[]) => {
+    dispatch({ type: 'SET_AGENT_RUNS', payload: runs });
+  }, []);
+
   const addExecutionTool = useCallback((tool: any) => {
     dispatch({ type: 'ADD_EXECUTION_TOOL', payload: tool });
   }, []);
@@ -269,6 +304,10 @@ export const useDashboard = () => {
     dispatch({ type: 'FAIL_EXECUTION_TOOL', payload: tool });
   }, []);
 
+  const setExecutionParallelism = useCallback((current: number, max?: number) => {
+    dispatch({ type: 'SET_EXECUTION_PARALLELISM', payload: { current, max } });
+  }, []);
+
   const addValidatorCheck = useCallback((check: any) => {
     dispatch({ type: 'ADD_VALIDATOR_CHECK', payload: check });
   }, []);
@@ -317,6 +356,10 @@ export const useDashboard = () => {
     dispatch({ type: 'UPDATE_DELEGATION_REQUESTS', payload: requests, pendingTasks });
   }, []);
 
+  const setDelegationLifecycle = useCallback((outgoingRequests: any[], timelines: Record<string, any[]>, projects: string[]) => {
+    dispatch({ type: 'SET_DELEGATION_LIFECYCLE', payload: { outgoingRequests, timelines, projects } });
+  }, []);
+
   const setLauncherData = useCallback((data: { task: string; configuredMCPs?: Record<string, any> }) => {
     dispatch({ type: 'SET_LAUNCHER_DATA', payload: data });
   }, []);
@@ -337,9 +380,11 @@ export const useDashboard = () => {
     updateMCPsLatency,
     addHistoricoMessage,
     updateHistoricoTokens,
+    setAgentRuns,
     addExecutionTool,
     completeExecutionTool,
     failExecutionTool,
+    setExecutionParallelism,
     addValidatorCheck,
     updatePlannerSteps,
     addReplanningHistory,
@@ -352,6 +397,7 @@ export const useDashboard = () => {
     setTheme,
     resetState,
     updateDelegationRequests,
+    setDelegationLifecycle,
     setLauncherData,
     updateLauncherState,
     setProjectId
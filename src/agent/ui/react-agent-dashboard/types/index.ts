@@ -7,11 +7,16 @@
 // ============================================================================
 
 export interface MCPConnection {
+  id: string;
   name: string;
   status: 'connected' | 'failed' | 'idle' | 'connecting';
+  transport?: 'stdio' | 'http' | 'sse';
+  url?: string;
+  version?: string;
   error?: string;
   latency?: number;
   tools: MCPTool[];
+  connectedAt?: number;
   lastChecked?: number;
 }
 
@@ -19,6 +24,7 @@ export interface MCPTool {
   name: string;
   description: string;
   inputSchema?: Record<string, any>;
+  server?: string;
 }
 
 export interface MCPsState {
@@ -47,12 +53,23 @@ export interface Message {
   };
 }
 
+export interface AgentRun {
+  runId: string;
+  input: string;
+  status: 'recording' | 'finished' | 'reverted';
+  files: string[];
+  conflicts: number; // Files edited after the run
+  startedAt: string;
+  revertedAt?: string;
+}
+
 export interface HistoricoState {
   messages: Message[];
   totalTokens: number;
   sessionStartTime?: number;
   startTime?: number;
   sessionId: string;
+  runs?: AgentRun[];
 }
 
 // ============================================================================
@@ -79,6 +96,7 @@ export interface ExecutionState {
   failed: ExecutingTool[];
   totalExecuted: number;
   currentParallelCount: number;
+  maxParallelCount?: number;
   currentStep?: number;
 }
 
@@ -255,10 +273,12 @@ export type DashboardAction =
   | { type: 'UPDATE_HISTORICO'; payload: HistoricoState }
   | { type: 'ADD_HISTORICO_MESSAGE'; payload: Message }
   | { type: 'UPDATE_HISTORICO_TOKENS'; payload: number }
+  | { type: 'SET_AGENT_RUNS'; payload: AgentRun[] }
   | { type: 'UPDATE_EXECUTION'; payload: ExecutionState }
   | { type: 'ADD_EXECUTION_TOOL'; payload: ExecutingTool }
   | { type: 'COMPLETE_EXECUTION_TOOL'; payload: ExecutingTool }
   | { type: 'FAIL_EXECUTION_TOOL'; payload: ExecutingTool }
+  | { type: 'SET_EXECUTION_PARALLELISM'; payload: { current: number; max?: number } }
   | { type: 'UPDATE_VALIDATOR'; payload: ValidatorState }
   | { type: 'ADD_VALIDATOR_CHECK'; payload: Validation }
   | { type: 'UPDATE_PLANNER'; payload: PlannerState }
@@ -270,6 +290,7 @@ export type DashboardAction =
   | { type: 'UPDATE_TEST_COVERAGE'; payload: number }
   | { type: 'SET_CURRENT_TEST'; payload: string }
   | { type: 'UPDATE_DELEGATION_REQUESTS'; payload: ExternalRequest[]; pendingTasks: any[] }
+  | { type: 'SET_DELEGATION_LIFECYCLE'; payload: { outgoingRequests: ExternalRequest[]; timelines: Record<string, DelegationEvent[]>; projects: string[] } }
   | { type: 'SET_LAUNCHER_DATA'; payload: { task: string; configuredMCPs?: Record<string, any> } }
   | { type: 'RESET_STATE' }
   | { type: 'RESET' };
@@ -297,6 +318,15 @@ export interface ExternalRequest {
   context: string;
   status: 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'COMPLETED' | 'IN_PROGRESS';
   receivedAt: string;
+  result?: string; // Result summary attached on completion
+}
+
+export interface DelegationEvent {
+  requestId: string;
+  status: ExternalRequest['status'];
+  actor: string;
+  note?: string;
+  timestamp: string;
 }
 
 export interface PendingTask {
@@ -311,6 +341,9 @@ export interface PendingTask {
 export interface DelegationState {
   externalRequests: ExternalRequest[];
   pendingTasks: PendingTask[]; 
+  outgoingRequests: ExternalRequest[]; // Requests this project delegated to others
+  timelines: Record<string, DelegationEvent[]>;
+  projects: string[]; // Projects requests can be delegated to
 }
 
 export type TabType = 'mcps' | 'historico' | 'execution' | 'validator' | 'planner' | 'testing' | 'delegation' | 'launcher';
@@ -355,10 +388,12 @@ export type DashboardAction =
   | { type: 'UPDATE_HISTORICO'; payload: HistoricoState }
   | { type: 'ADD_HISTORICO_MESSAGE'; payload: Message }
   | { type: 'UPDATE_HISTORICO_TOKENS'; payload: number }
+  | { type: 'SET_AGENT_RUNS'; payload: AgentRun[] }
   | { type: 'UPDATE_EXECUTION'; payload: ExecutionState }
   | { type: 'ADD_EXECUTION_TOOL'; payload: ExecutingTool }
   | { type: 'COMPLETE_EXECUTION_TOOL'; payload: ExecutingTool }
   | { type: 'FAIL_EXECUTION_TOOL'; payload: ExecutingTool }
+  | { type: 'SET_EXECUTION_PARALLELISM'; payload: { current: number; max?: number } }
   | { type: 'UPDATE_VALIDATOR'; payload: ValidatorState }
   | { type: 'ADD_VALIDATOR_CHECK'; payload: Validation }
   | { type: 'UPDATE_PLANNER'; payload: PlannerState }
@@ -370,6 +405,7 @@ export type DashboardAction =
   | { type: 'UPDATE_TEST_COVERAGE'; payload: number }
   | { type: 'SET_CURRENT_TEST'; payload: string }
   | { type: 'UPDATE_DELEGATION_REQUESTS'; payload: ExternalRequest[]; pendingTasks: any[] }
+  | { type: 'SET_DELEGATION_LIFECYCLE'; payload: { outgoingRequests: ExternalRequest[]; timelines: Record<string, DelegationEvent[]>; projects: string[] } }
   | { type: 'SET_LAUNCHER_DATA'; payload: { task: string; configuredMCPs?: Record<string, any> } }
   | { type: 'UPDATE_LAUNCHER_STATE'; payload: any }
   | { type: 'SET_PROJECT_ID'; payload: string }
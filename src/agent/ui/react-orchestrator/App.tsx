@@ -0,0 +1,77 @@
+/**
+ * Main App component for Orchestrator Logs Explorer
+ * Filterable list of routing decisions with details and analytics
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useOrchestratorLogs } from './hooks/useOrchestratorLogs';
+import FiltersBar from './components/FiltersBar';
+import StatsPanel from './components/StatsPanel';
+import LogDetails from './components/LogDetails';
+import { ACTION_LABELS, ACTION_COLORS } from './types';
+
+const App: React.FC = () => {
+  const { logs, stats, filters, options, updateFilters, requestRefresh, rerun } = useOrchestratorLogs();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [showStats, setShowStats] = useState(false);
+
+  // Keep a valid selection when the filtered logs change
+  useEffect(() => {
+    if (!logs.some(log => log.id === selectedId)) {
+      setSelectedId(logs.length > 0 ? logs[0].id : null);
+    }
+  }, [logs, selectedId]);
+
+  const selected = logs.find(log => log.id === selectedId);
+
+  return (
+    <div className="orchestrator-app">
+      <FiltersBar
+        filters={filters}
+        options={options}
+        showStats={showStats}
+        onChange={updateFilters}
+        onToggleStats={() => setShowStats(!showStats)}
+        onRefresh={requestRefresh}
+      />
+
+      {showStats && (
+        <StatsPanel stats={stats} onSelectProject={(projectId) => updateFilters({ ...filters, projectId })} />
+      )}
+
+      <div className="orchestrator-content">
+        <div className="log-list">
+          {logs.length === 0 ? (
+            <div className="empty-state">No hay registros del orquestador para estos filtros</div>
+          ) : (
+            logs.map(log => (
+              <div
+                key={log.id}
+                className={`log-item ${log.id === selectedId ? 'selected' : ''}`}
+                onClick={() => setSelectedId(log.id)}
+              >
+                <div className="log-item-header">
+                  <span className="action-dot" style={{ backgroundColor: ACTION_COLORS[log.action] }} title={ACTION_LABELS[log.action]} />
+                  <span className={log.success ? 'result success' : 'result failure'}>{log.success ? '✓' : '✗'}</span>
+                  <span className="muted">{log.projectId}</span>
+                  <span className="muted log-date">{new Date(log.timestamp).toLocaleString()}</span>
+                </div>
+                <div className="log-item-task">{log.taskDescription}</div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="log-detail-pane">
+          {selected ? (
+            <LogDetails log={selected} onRerun={rerun} />
+          ) : (
+            <div className="empty-state">Selecciona un registro para ver la decisión</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default App;
@@ -0,0 +1,72 @@
+/**
+ * Filters bar component
+ * Filters the logs by project, action, result and model
+ */
+
+import React from 'react';
+import { LogFilters, FilterOptions, OrchestratorAction, ACTION_LABELS } from '../types';
+
+interface FiltersBarProps {
+  filters: LogFilters;
+  options: FilterOptions;
+  showStats: boolean;
+  onChange: (filters: LogFilters) => void;
+  onToggleStats: () => void;
+  onRefresh: () => void;
+}
+
+export const FiltersBar: React.FC<FiltersBarProps> = ({ filters, options, showStats, onChange, onToggleStats, onRefresh }) => {
+  const successValue = filters.success === undefined ? '' : filters.success ? 'success' : 'failure';
+
+  return (
+    <div className="filters-bar">
+      <select
+        value={filters.projectId || ''}
+        onChange={(e) => onChange({ ...filters, projectId: e.target.value || undefined })}
+      >
+        <option value="">Todos los proyectos</option>
+        {options.projects.map(project => (
+          <option key={project} value={project}>{project}</option>
+        ))}
+      </select>
+
+      <select
+        value={filters.action || ''}
+        onChange={(e) => onChange({ ...filters, action: (e.target.value || undefined) as OrchestratorAction | undefined })}
+      >
+        <option value="">Todas las acciones</option>
+        {(Object.keys(ACTION_LABELS) as OrchestratorAction[]).map(action => (
+          <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+        ))}
+      </select>
+
+      <select
+        value={successValue}
+        onChange={(e) => onChange({ ...filters, success: e.target.value === '' ? undefined : e.target.value === 'success' })}
+      >
+        <option value="">Cualquier resultado</option>
+        <option value="success">Correctos</option>
+        <option value="failure">Fallidos</option>
+      </select>
+
+      <select
+        value={filters.modelUsed || ''}
+        onChange={(e) => onChange({ ...filters, modelUsed: e.target.value || undefined })}
+      >
+        <option value="">Todos los modelos</option>
+        {options.models.map(model => (
+          <option key={model} value={model}>{model}</option>
+        ))}
+      </select>
+
+      <div className="filters-actions">
+        <button className={showStats ? 'active' : ''} onClick={onToggleStats} title="Estadísticas de los registros filtrados">
+          📊 Estadísticas
+        </button>
+        <button onClick={onRefresh} title="Recargar desde agentboard.db">⟳</button>
+      </div>
+    </div>
+  );
+};
+
+export default FiltersBar;
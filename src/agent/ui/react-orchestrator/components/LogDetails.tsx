@@ -0,0 +1,79 @@
+/**
+ * Log details component
+ * Shows one orchestrator decision: responsibilities, delegations, searches
+ * and suggested imports, with the re-run action
+ */
+
+import React from 'react';
+import { OrchestratorLog, ACTION_LABELS, ACTION_COLORS } from '../types';
+
+interface LogDetailsProps {
+  log: OrchestratorLog;
+  onRerun: (logId: number) => void;
+}
+
+const ListSection: React.FC<{ title: string; items: string[]; code?: boolean }> = ({ title, items, code }) => {
+  if (!items || items.length === 0) return null;
+  return (
+    <section>
+      <h3>{title} ({items.length})</h3>
+      <ul>
+        {items.map((item, index) => (
+          <li key={index}>{code ? <code>{item}</code> : item}</li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export const LogDetails: React.FC<LogDetailsProps> = ({ log, onRerun }) => {
+  return (
+    <div className="log-details">
+      <div className="log-details-header">
+        <span className="action-badge" style={{ backgroundColor: ACTION_COLORS[log.action] }}>
+          {ACTION_LABELS[log.action] || log.action}
+        </span>
+        <span className={log.success ? 'result success' : 'result failure'}>
+          {log.success ? '✓ Correcto' : '✗ Fallido'}
+        </span>
+        <span className="muted">{log.projectId} · {log.modelUsed || 'unknown'} · {new Date(log.timestamp).toLocaleString()}</span>
+        <button className="primary-button" onClick={() => onRerun(log.id)} title="Lanzar de nuevo la tarea con el agente">
+          ▶ Volver a ejecutar
+        </button>
+      </div>
+
+      <p className="task-description">{log.taskDescription}</p>
+
+      {log.warning && <div className="warning">⚠️ {log.warning}</div>}
+
+      <ListSection title="Mis responsabilidades" items={log.myResponsibilities} />
+
+      {log.delegations && log.delegations.length > 0 && (
+        <section>
+          <h3>Delegaciones ({log.delegations.length})</h3>
+          {log.delegations.map((delegation, index) => (
+            <div key={index} className="delegation">
+              <div className="delegation-title">
+                <strong>{delegation.taskTitle}</strong> → {delegation.targetProject}
+              </div>
+              <div>{delegation.taskDescription}</div>
+              {delegation.reasoning && <div className="muted">{delegation.reasoning}</div>}
+            </div>
+          ))}
+        </section>
+      )}
+
+      <ListSection title="Búsquedas realizadas" items={log.searchesPerformed} code />
+      <ListSection title="Imports sugeridos" items={log.suggestedImports} code />
+
+      {log.architectureNotes && (
+        <section>
+          <h3>Notas de arquitectura</h3>
+          <p className="notes">{log.architectureNotes}</p>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default LogDetails;
@@ -0,0 +1,115 @@
+/**
+ * Stats panel component
+ * Aggregates the filtered logs: actions, delegation rate per project,
+ * delegation targets, models and failure reasons
+ */
+
+import React from 'react';
+import { LogStats, OrchestratorAction, ACTION_LABELS, ACTION_COLORS } from '../types';
+
+interface StatsPanelProps {
+  stats: LogStats | null;
+  onSelectProject: (projectId: string) => void;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const StatsPanel: React.FC<StatsPanelProps> = ({ stats, onSelectProject }) => {
+  if (!stats || stats.total === 0) {
+    return <div className="stats-panel empty-state">Sin registros para calcular estadísticas</div>;
+  }
+
+  return (
+    <div className="stats-panel">
+      <div className="stats-summary">
+        <div className="stat-card">
+          <span className="stat-value">{stats.total}</span>
+          <span className="stat-label">Decisiones</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-value">{percent(stats.successRate)}</span>
+          <span className="stat-label">Éxito</span>
+        </div>
+        {(Object.keys(ACTION_LABELS) as OrchestratorAction[]).map(action => (
+          <div key={action} className="stat-card">
+            <span className="stat-value" style={{ color: ACTION_COLORS[action] }}>{stats.byAction[action]}</span>
+            <span className="stat-label">{ACTION_LABELS[action]}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="stats-grid">
+        <section>
+          <h3>Tasa de delegación por proyecto</h3>
+          <table>
+            <tbody>
+              {stats.byProject.map(entry => (
+                <tr key={entry.projectId} className="clickable" onClick={() => onSelectProject(entry.projectId)}>
+                  <td>{entry.projectId}</td>
+                  <td className="bar-cell">
+                    <div className="bar" style={{ width: percent(entry.delegationRate) }} />
+                  </td>
+                  <td className="numeric">{percent(entry.delegationRate)}</td>
+                  <td className="numeric muted">{entry.delegated}/{entry.total}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section>
+          <h3>Proyectos que reciben delegaciones</h3>
+          {stats.delegationTargets.length === 0 ? (
+            <p className="muted">Ninguna delegación</p>
+          ) : (
+            <table>
+              <tbody>
+                {stats.delegationTargets.map(entry => (
+                  <tr key={entry.projectId}>
+                    <td>{entry.projectId}</td>
+                    <td className="numeric">{entry.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <section>
+          <h3>Modelos</h3>
+          <table>
+            <tbody>
+              {stats.byModel.map(entry => (
+                <tr key={entry.model}>
+                  <td>{entry.model}</td>
+                  <td className="numeric">{entry.total}</td>
+                  <td className="numeric muted">{entry.failures > 0 ? `${entry.failures} fallidos` : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section>
+          <h3>Motivos de fallo</h3>
+          {stats.failureReasons.length === 0 ? (
+            <p className="muted">Sin fallos</p>
+          ) : (
+            <table>
+              <tbody>
+                {stats.failureReasons.map(entry => (
+                  <tr key={entry.reason}>
+                    <td>{entry.reason}</td>
+                    <td className="numeric">{entry.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
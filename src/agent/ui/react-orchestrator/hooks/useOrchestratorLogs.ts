@@ -0,0 +1,62 @@
+/**
+ * Hook for managing orchestrator logs data
+ * Filtering and stats are computed by the extension: changing a filter asks for a new state
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { OrchestratorLog, LogFilters, LogStats, FilterOptions, VSCodeMessage } from '../types';
+
+export function useOrchestratorLogs() {
+  const initial = window.__INITIAL_STATE__ || {};
+  const [logs, setLogs] = useState<OrchestratorLog[]>(initial.logs || []);
+  const [stats, setStats] = useState<LogStats | null>(initial.stats || null);
+  const [filters, setFilters] = useState<LogFilters>(initial.filters || {});
+  const [options, setOptions] = useState<FilterOptions>(initial.options || { projects: [], models: [] });
+
+  // Listen for messages from VS Code
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent<VSCodeMessage>) => {
+      const message = event.data;
+      if (message.command === 'updateLogs') {
+        setLogs(message.logs || []);
+        setStats(message.stats || null);
+        setFilters(message.filters || {});
+        setOptions(message.options || { projects: [], models: [] });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  // Send message to VS Code
+  const postMessage = useCallback((message: any) => {
+    if (window.vscode) {
+      window.vscode.postMessage(message);
+    }
+  }, []);
+
+  const updateFilters = useCallback((next: LogFilters) => {
+    setFilters(next);
+    postMessage({ command: 'filter', filters: next });
+  }, [postMessage]);
+
+  const requestRefresh = useCallback(() => {
+    postMessage({ command: 'refresh' });
+  }, [postMessage]);
+
+  // Feed the task of a logged orchestration back into the agent
+  const rerun = useCallback((logId: number) => {
+    postMessage({ command: 'rerun', logId });
+  }, [postMessage]);
+
+  return {
+    logs,
+    stats,
+    filters,
+    options,
+    updateFilters,
+    requestRefresh,
+    rerun,
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Entry point for Orchestrator Logs Webview
+ */
+
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import App from './App';
+import './styles/orchestrator.css';
+
+const container = document.getElementById('root');
+if (container) {
+  const root = createRoot(container);
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+} else {
+  console.error('Orchestrator Logs: Root element not found');
+}
@@ -0,0 +1,70 @@
+/**
+ * Types for React Orchestrator Logs Webview
+ */
+
+export type OrchestratorAction = 'proceed' | 'delegate' | 'mixed';
+
+export interface OrchestratorDelegation {
+  targetProject: string;
+  taskTitle: string;
+  taskDescription: string;
+  reasoning: string;
+}
+
+export interface OrchestratorLog {
+  id: number;
+  projectId: string;
+  taskDescription: string;
+  action: OrchestratorAction;
+  myResponsibilities: string[];
+  delegations: OrchestratorDelegation[];
+  suggestedImports: string[];
+  architectureNotes: string;
+  searchesPerformed: string[];
+  warning?: string;
+  success: boolean;
+  modelUsed: string;
+  timestamp: string;
+}
+
+export interface LogFilters {
+  projectId?: string;
+  action?: OrchestratorAction;
+  success?: boolean;
+  modelUsed?: string;
+}
+
+export interface LogStats {
+  total: number;
+  successRate: number;
+  byAction: Record<OrchestratorAction, number>;
+  byModel: { model: string; total: number; failures: number }[];
+  byProject: { projectId: string; total: number; delegated: number; delegationRate: number }[];
+  delegationTargets: { projectId: string; count: number }[];
+  failureReasons: { reason: string; count: number }[];
+}
+
+export interface FilterOptions {
+  projects: string[];
+  models: string[];
+}
+
+export interface VSCodeMessage {
+  command: string;
+  [key: string]: any;
+}
+
+export const ACTION_LABELS: Record<OrchestratorAction, string> = {
+  proceed: 'Ejecutar',
+  delegate: 'Delegar',
+  mixed: 'Mixto',
+};
+
+export const ACTION_COLORS: Record<OrchestratorAction, string> = {
+  proceed: '#4CAF50',
+  delegate: '#2196F3',
+  mixed: '#FF9800',
+};
+
+// Note: Window interface is already extended in other webview modules
+// We use 'any' type for __INITIAL_STATE__ to avoid conflicts
@@ -24,7 +24,11 @@ import RelationNodeComponent from './components/RelationNodeComponent';
 import GroupNodeComponent from './components/GroupNodeComponent';
 import Toolbar from './components/Toolbar';
 import NodeDetails from './components/NodeDetails';
-import { NODE_TYPE_COLORS, FlowNode, FlowEdge, RelationNode, RelationEdge, NodeGroup } from './types';
+import ImpactPanel from './components/ImpactPanel';
+import MetricsPanel from './components/MetricsPanel';
+import DiffPanel from './components/DiffPanel';
+import TracePanel from './components/TracePanel';
+import { NODE_TYPE_COLORS, DIFF_STATUS_COLORS, DiffStatus, FlowNode, FlowEdge, RelationNode, RelationEdge, NodeGroup } from './types';
 
 // Custom node types
 const nodeTypes = {
@@ -227,12 +231,47 @@ const EDGE_DEFAULT_COLOR = 'var(--vscode-textLink-foreground)';
 function convertEdges(
   edges: { id: string; source: string; target: string; type: string; label?: string }[],
   highlightedEdgeIds: Set<string> = new Set(),
-  hasSelection: boolean = false  // Whether there's an active node selection
+  hasSelection: boolean = false,  // Whether there's an active node selection
+  diffStatuses?: Record<string, DiffStatus>  // Status of each edge in the diff being shown
 ): FlowEdge[] {
   return edges.map(edge => {
     const isHighlighted = highlightedEdgeIds.has(edge.id);
     // Dim edges that are not highlighted when there's a selection
     const isDimmed = hasSelection && !isHighlighted;
+
+    const diffStatus = diffStatuses?.[edge.id];
+    if (diffStatuses && !isHighlighted) {
+      const diffColor = diffStatus ? DIFF_STATUS_COLORS[diffStatus] : EDGE_DEFAULT_COLOR;
+      return {
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        label: edge.label,
+        type: 'smoothstep',
+        animated: diffStatus === 'added',
+        markerEnd: {
+          type: MarkerType.ArrowClosed,
+          width: 15,
+          height: 15,
+          color: diffStatus ? diffColor : undefined,
+        },
+        style: {
+          stroke: diffColor,
+          strokeWidth: diffStatus ? 2.5 : 1.5,
+          strokeDasharray: diffStatus === 'removed' ? '6 4' : undefined,
+          opacity: isDimmed ? 0.1 : (diffStatus ? 1 : 0.3),
+        },
+        labelStyle: {
+          fontSize: 10,
+          fill: 'var(--vscode-descriptionForeground)',
+          opacity: isDimmed ? 0.1 : 1,
+        },
+        labelBgStyle: {
+          fill: 'var(--vscode-editor-background)',
+        },
+        zIndex: diffStatus ? 500 : 0,
+      };
+    }
     
     return {
       id: edge.id,
@@ -280,6 +319,15 @@ const FlowContent: React.FC = () => {
     requestRefresh,
     requestRegenerate,
     openFile,
+    impact,
+    requestImpact,
+    clearImpact,
+    exportImpact,
+    exportGraph,
+    diff,
+    clearDiff,
+    trace,
+    clearTrace,
   } = useRelationsData();
 
   const { fitView } = useReactFlow();
@@ -288,6 +336,8 @@ const FlowContent: React.FC = () => {
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
   // State for grouped view mode
   const [useGroupedView, setUseGroupedView] = useState<boolean>(true);
+  // State for the metrics / hotspots panel
+  const [showMetrics, setShowMetrics] = useState<boolean>(false);
 
   // Toggle group expansion
   const toggleGroup = useCallback((groupId: string) => {
@@ -326,6 +376,73 @@ const FlowContent: React.FC = () => {
     return map;
   }, [groups]);
   
+  // Impacted node distances (rootId = 0)
+  const impactDistances = useMemo(() => {
+    const map = new Map<string, number>();
+    if (impact) {
+      map.set(impact.rootId, 0);
+      impact.nodes.forEach(n => map.set(n.id, n.distance));
+    }
+    return map;
+  }, [impact]);
+
+  // Expand the groups that contain impacted nodes so they are visible
+  React.useEffect(() => {
+    if (!impact) return;
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      for (const group of groups) {
+        if (group.nodes.some(n => impactDistances.has(n.id))) {
+          next.add(group.id);
+        }
+      }
+      return next;
+    });
+  }, [impact, groups, impactDistances]);
+
+  // Expand the groups that contain changed nodes of the diff being shown
+  React.useEffect(() => {
+    if (!diff) return;
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      for (const group of groups) {
+        if (group.nodes.some(n => diff.nodes[n.id])) {
+          next.add(group.id);
+        }
+      }
+      return next;
+    });
+  }, [diff, groups]);
+
+  // Expand the groups that contain the nodes of the endpoint trace being shown
+  React.useEffect(() => {
+    if (!trace) return;
+    const traced = new Set(trace.steps.map(step => step.id));
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      for (const group of groups) {
+        if (group.nodes.some(n => traced.has(n.id))) {
+          next.add(group.id);
+        }
+      }
+      return next;
+    });
+  }, [trace, groups]);
+
+  const nodesById = useMemo(
+    () => new Map((relations?.nodes || []).map(n => [n.id, n] as [string, RelationNode])),
+    [relations]
+  );
+
+  // Select a node from a panel, expanding its group so it is visible
+  const selectAndReveal = useCallback((nodeId: string) => {
+    const groupId = nodeToGroup.get(nodeId);
+    if (groupId) {
+      setExpandedGroups(prev => prev.has(groupId) ? prev : new Set(prev).add(groupId));
+    }
+    setSelectedNodeId(nodeId);
+  }, [nodeToGroup, setSelectedNodeId]);
+
   // Determine if we should use grouped view (only for large graphs)
   const shouldUseGroupedView = useGroupedView && nodes.length > GROUP_VIEW_THRESHOLD;
   
@@ -437,7 +554,22 @@ const FlowContent: React.FC = () => {
     const sources = new Set<string>();
     const targets = new Set<string>();
     
-    if (selectedNodeId) {
+    if (!selectedNodeId && impact) {
+      // Impact analysis: highlight every impacted node and the edges that reach the root
+      impact.nodes.forEach(n => {
+        connected.add(n.id);
+        sources.add(n.id);
+      });
+      impact.edgeIds.forEach(id => highlighted.add(id));
+    } else if (!selectedNodeId && trace) {
+      // Endpoint trace: highlight every node reached from the handler and the edges walked
+      trace.steps.forEach(step => {
+        if (step.id === trace.rootId) return;
+        connected.add(step.id);
+        targets.add(step.id);
+      });
+      trace.edgeIds.forEach(id => highlighted.add(id));
+    } else if (selectedNodeId) {
       visibleEdges.forEach(edge => {
         if (edge.source === selectedNodeId) {
           connected.add(edge.target);
@@ -458,7 +590,7 @@ const FlowContent: React.FC = () => {
       sourceNodeIds: sources,
       targetNodeIds: targets
     };
-  }, [selectedNodeId, visibleEdges]);
+  }, [selectedNodeId, visibleEdges, impact, trace]);
   
   // Apply highlight information to nodes (cheap operation, no layout recalc)
   const flowNodes = useMemo(() => {
@@ -482,10 +614,11 @@ const FlowContent: React.FC = () => {
       }
       
       // Regular relation node
-      const isThisSelected = flowNode.id === selectedNodeId;
+      const focusId = selectedNodeId ?? impact?.rootId ?? trace?.rootId ?? null;
+      const isThisSelected = flowNode.id === focusId;
       const isConnected = highlightInfo.connectedNodeIds.has(flowNode.id);
       // Dim nodes that are not selected and not connected when there's a selection
-      const shouldDim = selectedNodeId !== null && !isThisSelected && !isConnected;
+      const shouldDim = focusId !== null && !isThisSelected && !isConnected;
       
       return {
         ...flowNode,
@@ -498,14 +631,17 @@ const FlowContent: React.FC = () => {
           isSource: highlightInfo.sourceNodeIds.has(flowNode.id),
           isTarget: highlightInfo.targetNodeIds.has(flowNode.id),
           isDimmed: shouldDim,
+          impactDistance: !selectedNodeId && impact ? impactDistances.get(flowNode.id) : undefined,
+          diffStatus: diff?.nodes[flowNode.id],
+          previousType: diff?.previousTypes[flowNode.id],
         }
       };
     });
-  }, [baseFlowNodes, selectedNodeId, groupsToShow, toggleGroup, highlightInfo]);
+  }, [baseFlowNodes, selectedNodeId, groupsToShow, toggleGroup, highlightInfo, impact, impactDistances, diff, trace]);
   
   const flowEdges = useMemo(() => {
-    return convertEdges(visibleEdges, highlightInfo.highlightedEdgeIds, selectedNodeId !== null);
-  }, [visibleEdges, highlightInfo.highlightedEdgeIds, selectedNodeId]);
+    return convertEdges(visibleEdges, highlightInfo.highlightedEdgeIds, selectedNodeId !== null || impact !== null || trace !== null, diff?.edges);
+  }, [visibleEdges, highlightInfo.highlightedEdgeIds, selectedNodeId, impact, trace, diff]);
 
   // Callbacks for node changes (for dragging support)
   const onNodesChange = useCallback(() => {}, []);
@@ -573,6 +709,10 @@ const FlowContent: React.FC = () => {
         onCollapseAll={collapseAll}
         groupCount={groups.length}
         expandedCount={expandedGroups.size}
+        showMetrics={showMetrics}
+        onToggleMetrics={relations.metrics ? () => setShowMetrics(!showMetrics) : undefined}
+        cycleCount={relations.metrics?.cycles.length}
+        onExport={() => exportGraph()}
       />
       
       <div style={{ flex: 1, position: 'relative' }}>
@@ -599,7 +739,46 @@ const FlowContent: React.FC = () => {
           node={selectedNode}
           onClose={() => setSelectedNodeId(null)}
           onOpenFile={openFile}
+          onAnalyzeImpact={(nodeId) => {
+            setSelectedNodeId(null);
+            setShowMetrics(false);
+            requestImpact(nodeId);
+          }}
+          onExportSubgraph={exportGraph}
+          metrics={selectedNode ? relations.metrics?.nodes[selectedNode.id] : undefined}
         />
+
+        {showMetrics ? (
+          <MetricsPanel
+            metrics={relations.metrics}
+            nodesById={nodesById}
+            onSelectNode={selectAndReveal}
+            onClose={() => setShowMetrics(false)}
+          />
+        ) : diff ? (
+          <DiffPanel
+            diff={diff}
+            nodesById={nodesById}
+            onSelectNode={selectAndReveal}
+            onClose={clearDiff}
+          />
+        ) : trace ? (
+          <TracePanel
+            trace={trace}
+            nodesById={nodesById}
+            onSelectNode={selectAndReveal}
+            onOpenFile={openFile}
+            onClose={clearTrace}
+          />
+        ) : (
+          <ImpactPanel
+            impact={impact}
+            nodesById={nodesById}
+            onSelectNode={setSelectedNodeId}
+            onExport={exportImpact}
+            onClose={clearImpact}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,149 @@
+/**
+ * Diff panel component
+ * Summarizes the structural changes between two analyses
+ */
+
+import React from 'react';
+import { RelationNode, RelationsDiffView, DiffStatus, DIFF_STATUS_COLORS } from '../types';
+
+interface DiffPanelProps {
+  diff: RelationsDiffView | null;
+  nodesById: Map<string, RelationNode>;
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<DiffStatus, string> = {
+  added: 'Añadidos',
+  removed: 'Eliminados',
+  changed: 'Tipo cambiado',
+};
+
+const STATUS_SYMBOLS: Record<DiffStatus, string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+};
+
+export const DiffPanel: React.FC<DiffPanelProps> = ({ diff, nodesById, onSelectNode, onClose }) => {
+  if (!diff) return null;
+
+  const statuses: DiffStatus[] = ['added', 'removed', 'changed'];
+  const nodesByStatus = (status: DiffStatus) =>
+    Object.keys(diff.nodes)
+      .filter(id => diff.nodes[id] === status && nodesById.has(id))
+      .map(id => nodesById.get(id)!)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  const edgeCount = (status: DiffStatus) =>
+    Object.keys(diff.edges).filter(id => diff.edges[id] === status).length;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: '16px',
+        top: '16px',
+        width: '300px',
+        maxHeight: 'calc(100% - 120px)',
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'var(--vscode-editor-background)',
+        border: '1px solid var(--vscode-panel-border)',
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+        zIndex: 1000,
+        overflow: 'hidden',
+      }}
+    >
+      {/* Header */}
+      <div style={{ padding: '12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div style={{ fontSize: '11px', color: 'var(--vscode-descriptionForeground)', textTransform: 'uppercase' }}>
+            Diff de relaciones
+          </div>
+          <button
+            onClick={onClose}
+            title="Cerrar diff"
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              fontSize: '18px',
+              color: 'var(--vscode-foreground)',
+              opacity: 0.7,
+            }}
+          >
+            ×
+          </button>
+        </div>
+        <div style={{ fontSize: '12px', margin: '4px 0' }}>
+          <div title="Base">{diff.baseLabel}</div>
+          <div style={{ color: 'var(--vscode-descriptionForeground)' }}>↓</div>
+          <div title="Comparado">{diff.headLabel}</div>
+        </div>
+        <div style={{ display: 'flex', gap: '10px', fontSize: '12px', marginTop: '6px' }}>
+          {statuses.map(status => (
+            <span key={status} style={{ color: DIFF_STATUS_COLORS[status] }} title={`${STATUS_LABELS[status]}: nodos / relaciones`}>
+              {STATUS_SYMBOLS[status]}{nodesByStatus(status).length} / {edgeCount(status)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Changed nodes grouped by status */}
+      <div style={{ overflowY: 'auto', padding: '8px' }}>
+        {statuses.every(status => nodesByStatus(status).length === 0) && (
+          <div style={{ fontSize: '12px', padding: '8px', color: 'var(--vscode-descriptionForeground)' }}>
+            Sin cambios en los nodos{edgeCount('added') + edgeCount('removed') + edgeCount('changed') > 0 ? ' (solo en relaciones)' : ''}
+          </div>
+        )}
+        {statuses.map(status => {
+          const nodes = nodesByStatus(status);
+          if (nodes.length === 0) return null;
+          return (
+            <div key={status} style={{ marginBottom: '8px' }}>
+              <div
+                style={{
+                  fontSize: '11px',
+                  color: 'var(--vscode-descriptionForeground)',
+                  textTransform: 'uppercase',
+                  margin: '4px 8px',
+                }}
+              >
+                {STATUS_LABELS[status]} ({nodes.length})
+              </div>
+              {nodes.map(node => (
+                <div
+                  key={node.id}
+                  onClick={() => onSelectNode(node.id)}
+                  title={node.filePath}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    padding: '4px 8px',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontSize: '12px',
+                  }}
+                >
+                  <span style={{ color: DIFF_STATUS_COLORS[status], fontWeight: 'bold', width: '10px' }}>
+                    {STATUS_SYMBOLS[status]}
+                  </span>
+                  <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {node.name}
+                  </span>
+                  <span style={{ fontSize: '10px', color: 'var(--vscode-descriptionForeground)' }}>
+                    {status === 'changed' ? `${diff.previousTypes[node.id]} → ${node.type}` : node.type}
+                  </span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DiffPanel;
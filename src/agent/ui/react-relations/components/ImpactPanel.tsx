@@ -0,0 +1,140 @@
+/**
+ * Impact analysis panel component
+ * Lists the nodes that depend (transitively) on the changed node, ranked by distance
+ */
+
+import React from 'react';
+import { RelationNode, ImpactHighlight, NODE_TYPE_COLORS } from '../types';
+
+interface ImpactPanelProps {
+  impact: ImpactHighlight | null;
+  nodesById: Map<string, RelationNode>;
+  onSelectNode: (nodeId: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  controller: 'Controllers',
+  service: 'Services',
+  test: 'Tests',
+  other: 'Otros',
+};
+
+export const ImpactPanel: React.FC<ImpactPanelProps> = ({ impact, nodesById, onSelectNode, onExport, onClose }) => {
+  if (!impact) return null;
+
+  const root = nodesById.get(impact.rootId);
+  const counts: Record<string, number> = { controller: 0, service: 0, test: 0, other: 0 };
+  impact.nodes.forEach(n => { counts[n.category]++; });
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    borderRadius: '4px',
+    border: '1px solid var(--vscode-button-border)',
+    background: 'var(--vscode-button-secondaryBackground)',
+    color: 'var(--vscode-button-secondaryForeground)',
+    cursor: 'pointer',
+    fontSize: '11px',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: '16px',
+        top: '16px',
+        width: '280px',
+        maxHeight: 'calc(100% - 120px)',
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'var(--vscode-editor-background)',
+        border: '1px solid var(--vscode-panel-border)',
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+        zIndex: 1000,
+        overflow: 'hidden',
+      }}
+    >
+      {/* Header */}
+      <div style={{ padding: '12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ fontSize: '11px', color: 'var(--vscode-descriptionForeground)', textTransform: 'uppercase' }}>
+          Análisis de impacto
+        </div>
+        <div style={{ fontWeight: 'bold', fontSize: '14px', margin: '4px 0' }}>
+          {root ? root.name : impact.rootId}
+        </div>
+        <div style={{ fontSize: '12px', color: 'var(--vscode-descriptionForeground)' }}>
+          {impact.nodes.length} nodos impactados ·{' '}
+          {Object.keys(CATEGORY_LABELS)
+            .filter(category => counts[category] > 0)
+            .map(category => `${counts[category]} ${CATEGORY_LABELS[category].toLowerCase()}`)
+            .join(', ') || 'ninguno'}
+        </div>
+        <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+          <button onClick={onExport} style={buttonStyle}>📝 Exportar Markdown</button>
+          <button onClick={onClose} style={buttonStyle}>× Limpiar</button>
+        </div>
+      </div>
+
+      {/* Impacted nodes ranked by distance */}
+      <div style={{ overflowY: 'auto', padding: '8px' }}>
+        {impact.nodes.length === 0 && (
+          <div style={{ fontSize: '12px', padding: '8px', color: 'var(--vscode-descriptionForeground)' }}>
+            Ningún nodo depende de este elemento
+          </div>
+        )}
+        {impact.nodes.map(entry => {
+          const node = nodesById.get(entry.id);
+          if (!node) return null;
+          return (
+            <div
+              key={entry.id}
+              onClick={() => onSelectNode(entry.id)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '4px 8px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '12px',
+              }}
+              title={node.filePath}
+            >
+              <span
+                style={{
+                  minWidth: '22px',
+                  textAlign: 'center',
+                  fontSize: '10px',
+                  fontWeight: 'bold',
+                  borderRadius: '8px',
+                  background: 'var(--vscode-badge-background)',
+                  color: 'var(--vscode-badge-foreground)',
+                }}
+              >
+                {entry.distance}
+              </span>
+              <span
+                style={{
+                  width: '8px',
+                  height: '8px',
+                  borderRadius: '50%',
+                  background: NODE_TYPE_COLORS[node.type] || NODE_TYPE_COLORS.unknown,
+                }}
+              />
+              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {node.name}
+              </span>
+              <span style={{ fontSize: '10px', color: 'var(--vscode-descriptionForeground)' }}>
+                {entry.category === 'other' ? node.type : entry.category}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ImpactPanel;
@@ -0,0 +1,218 @@
+/**
+ * Metrics panel component
+ * Summarizes dependency cycles and lists the coupling hotspots of the graph
+ */
+
+import React, { useMemo, useState } from 'react';
+import { RelationNode, RelationsMetrics, NodeMetrics, NODE_TYPE_COLORS } from '../types';
+
+interface MetricsPanelProps {
+  metrics: RelationsMetrics | undefined;
+  nodesById: Map<string, RelationNode>;
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+type SortKey = 'fanIn' | 'fanOut' | 'instability' | 'centrality';
+
+const COLUMNS: { key: SortKey; label: string; title: string }[] = [
+  { key: 'fanIn', label: 'In', title: 'Fan-in: nodos que dependen de este' },
+  { key: 'fanOut', label: 'Out', title: 'Fan-out: nodos de los que depende' },
+  { key: 'instability', label: 'Inest.', title: 'Inestabilidad: 0 = estable, 1 = inestable' },
+  { key: 'centrality', label: 'Centr.', title: 'Centralidad (betweenness normalizada)' },
+];
+
+// Rows shown in the hotspots list
+const MAX_HOTSPOTS = 50;
+
+const formatMetric = (key: SortKey, value: number) =>
+  key === 'instability' ? value.toFixed(2) : key === 'centrality' ? value.toFixed(3) : String(value);
+
+export const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics, nodesById, onSelectNode, onClose }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('centrality');
+  const [ascending, setAscending] = useState(false);
+
+  const entries = useMemo(
+    () => Object.keys(metrics?.nodes || {})
+      .filter(id => nodesById.has(id))
+      .map(id => ({ node: nodesById.get(id)!, metrics: metrics!.nodes[id] as NodeMetrics })),
+    [metrics, nodesById]
+  );
+
+  const hotspots = useMemo(
+    () => entries
+      .slice()
+      .sort((a, b) => {
+        const diff = a.metrics[sortKey] - b.metrics[sortKey];
+        return (ascending ? diff : -diff) || a.node.name.localeCompare(b.node.name);
+      })
+      .slice(0, MAX_HOTSPOTS),
+    [entries, sortKey, ascending]
+  );
+
+  if (!metrics) return null;
+
+  const nodesInCycles = metrics.cycles.reduce((total, cycle) => total + cycle.length, 0);
+  const coupled = entries.filter(e => e.metrics.fanIn + e.metrics.fanOut > 0);
+  const averageInstability = coupled.length > 0
+    ? coupled.reduce((total, e) => total + e.metrics.instability, 0) / coupled.length
+    : 0;
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(false);
+    }
+  };
+
+  const sectionTitleStyle: React.CSSProperties = {
+    fontSize: '11px',
+    color: 'var(--vscode-descriptionForeground)',
+    textTransform: 'uppercase',
+    margin: '8px 8px 4px',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: '16px',
+        top: '16px',
+        width: '360px',
+        maxHeight: 'calc(100% - 120px)',
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'var(--vscode-editor-background)',
+        border: '1px solid var(--vscode-panel-border)',
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+        zIndex: 1001,
+        overflow: 'hidden',
+      }}
+    >
+      {/* Header */}
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'flex-start',
+          padding: '12px 16px',
+          borderBottom: '1px solid var(--vscode-panel-border)',
+        }}
+      >
+        <div>
+          <div style={{ fontWeight: 'bold', fontSize: '14px', marginBottom: '4px' }}>Métricas del grafo</div>
+          <div style={{ fontSize: '12px', color: 'var(--vscode-descriptionForeground)' }}>
+            {metrics.cycles.length} ciclo{metrics.cycles.length !== 1 ? 's' : ''} ({nodesInCycles} nodos) ·
+            inestabilidad media {averageInstability.toFixed(2)}
+            {metrics.sampledCentrality && ' · centralidad estimada'}
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+            fontSize: '18px',
+            color: 'var(--vscode-foreground)',
+            opacity: 0.7,
+          }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ overflowY: 'auto', padding: '0 8px 8px' }}>
+        {/* Dependency cycles */}
+        {metrics.cycles.length > 0 && (
+          <>
+            <div style={sectionTitleStyle}>Ciclos de dependencias</div>
+            {metrics.cycles.map((cycle, index) => (
+              <div
+                key={index}
+                style={{ fontSize: '12px', padding: '4px 8px', lineHeight: '1.5' }}
+              >
+                <span style={{ color: 'var(--vscode-errorForeground)', marginRight: '6px' }}>⟳ #{index + 1}</span>
+                {cycle.map((id, i) => (
+                  <React.Fragment key={id}>
+                    {i > 0 && ', '}
+                    <span
+                      onClick={() => onSelectNode(id)}
+                      style={{ cursor: 'pointer', textDecoration: 'underline dotted' }}
+                    >
+                      {nodesById.get(id)?.name || id}
+                    </span>
+                  </React.Fragment>
+                ))}
+              </div>
+            ))}
+          </>
+        )}
+
+        {/* Hotspots */}
+        <div style={sectionTitleStyle}>Hotspots</div>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+          <thead>
+            <tr style={{ color: 'var(--vscode-descriptionForeground)', fontSize: '11px' }}>
+              <th style={{ textAlign: 'left', padding: '4px 8px', fontWeight: 'normal' }}>Nodo</th>
+              {COLUMNS.map(column => (
+                <th
+                  key={column.key}
+                  title={column.title}
+                  onClick={() => handleSort(column.key)}
+                  style={{
+                    textAlign: 'right',
+                    padding: '4px',
+                    cursor: 'pointer',
+                    fontWeight: sortKey === column.key ? 'bold' : 'normal',
+                    color: sortKey === column.key ? 'var(--vscode-foreground)' : undefined,
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {column.label}{sortKey === column.key ? (ascending ? ' ▲' : ' ▼') : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {hotspots.map(({ node, metrics: nodeMetrics }) => (
+              <tr
+                key={node.id}
+                onClick={() => onSelectNode(node.id)}
+                style={{ cursor: 'pointer' }}
+                title={node.filePath}
+              >
+                <td style={{ padding: '3px 8px', maxWidth: '150px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  <span
+                    style={{
+                      display: 'inline-block',
+                      width: '8px',
+                      height: '8px',
+                      borderRadius: '50%',
+                      marginRight: '6px',
+                      background: NODE_TYPE_COLORS[node.type] || NODE_TYPE_COLORS.unknown,
+                    }}
+                  />
+                  {node.name}
+                  {nodeMetrics.cycleId !== undefined && (
+                    <span style={{ color: 'var(--vscode-errorForeground)', marginLeft: '4px' }} title={`Ciclo #${nodeMetrics.cycleId + 1}`}>⟳</span>
+                  )}
+                </td>
+                {COLUMNS.map(column => (
+                  <td key={column.key} style={{ textAlign: 'right', padding: '3px 4px', fontFamily: 'monospace' }}>
+                    {formatMetric(column.key, nodeMetrics[column.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default MetricsPanel;
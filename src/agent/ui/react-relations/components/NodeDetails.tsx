@@ -3,15 +3,18 @@
  */
 
 import React from 'react';
-import { RelationNode, NODE_TYPE_COLORS } from '../types';
+import { RelationNode, NodeMetrics, NODE_TYPE_COLORS } from '../types';
 
 interface NodeDetailsProps {
   node: RelationNode | null;
   onClose: () => void;
   onOpenFile: (filePath: string) => void;
+  onAnalyzeImpact?: (nodeId: string) => void;
+  onExportSubgraph?: (nodeId: string) => void;
+  metrics?: NodeMetrics;
 }
 
-export const NodeDetails: React.FC<NodeDetailsProps> = ({ node, onClose, onOpenFile }) => {
+export const NodeDetails: React.FC<NodeDetailsProps> = ({ node, onClose, onOpenFile, onAnalyzeImpact, onExportSubgraph, metrics }) => {
   if (!node) return null;
 
   const color = NODE_TYPE_COLORS[node.type] || NODE_TYPE_COLORS.unknown;
@@ -121,8 +124,73 @@ export const NodeDetails: React.FC<NodeDetailsProps> = ({ node, onClose, onOpenF
           >
             📄 {node.filePath.split('/').pop()}
           </button>
+          {onAnalyzeImpact && (
+            <button
+              onClick={() => onAnalyzeImpact(node.id)}
+              title="¿Qué se rompe si cambio este nodo?"
+              style={{
+                marginTop: '6px',
+                background: 'var(--vscode-button-background)',
+                border: 'none',
+                borderRadius: '4px',
+                padding: '6px 10px',
+                cursor: 'pointer',
+                fontSize: '12px',
+                color: 'var(--vscode-button-foreground)',
+                width: '100%',
+              }}
+            >
+              ⚡ Analizar impacto
+            </button>
+          )}
+          {onExportSubgraph && (
+            <button
+              onClick={() => onExportSubgraph(node.id)}
+              title="Exportar este nodo y sus vecinos a DOT, Mermaid, GraphML o CSV"
+              style={{
+                marginTop: '6px',
+                background: 'var(--vscode-button-secondaryBackground)',
+                border: '1px solid var(--vscode-button-border)',
+                borderRadius: '4px',
+                padding: '6px 10px',
+                cursor: 'pointer',
+                fontSize: '12px',
+                color: 'var(--vscode-button-secondaryForeground)',
+                width: '100%',
+              }}
+            >
+              ⇩ Exportar subgrafo
+            </button>
+          )}
         </div>
 
+        {/* Coupling metrics */}
+        {metrics && (
+          <div style={{ marginBottom: '16px' }}>
+            <div
+              style={{
+                fontSize: '11px',
+                color: 'var(--vscode-descriptionForeground)',
+                marginBottom: '4px',
+                textTransform: 'uppercase',
+              }}
+            >
+              Métricas
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px', fontSize: '12px' }}>
+              <span title="Nodos que dependen de este">Fan-in: <strong>{metrics.fanIn}</strong></span>
+              <span title="Nodos de los que depende">Fan-out: <strong>{metrics.fanOut}</strong></span>
+              <span title="0 = estable, 1 = inestable">Inestabilidad: <strong>{metrics.instability.toFixed(2)}</strong></span>
+              <span title="Betweenness normalizada">Centralidad: <strong>{metrics.centrality.toFixed(3)}</strong></span>
+            </div>
+            {metrics.cycleId !== undefined && (
+              <div style={{ marginTop: '6px', fontSize: '12px', color: 'var(--vscode-errorForeground)' }}>
+                ⟳ Forma parte del ciclo #{metrics.cycleId + 1}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Functions */}
         {node.functions.length > 0 && (
           <div>
@@ -4,7 +4,7 @@
 
 import React, { memo } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
-import { RelationNode, NODE_TYPE_COLORS } from '../types';
+import { RelationNode, DiffStatus, NODE_TYPE_COLORS, DIFF_STATUS_COLORS } from '../types';
 
 interface RelationNodeData {
   node: RelationNode;
@@ -13,6 +13,9 @@ interface RelationNodeData {
   isSource?: boolean;       // Is source of selected (selected imports this)
   isTarget?: boolean;       // Is target of selected (this imports selected)
   isDimmed?: boolean;       // Not related to selection - make semi-transparent
+  impactDistance?: number;  // Hops to the changed node in an impact analysis
+  diffStatus?: DiffStatus;  // Added / removed / changed in the diff being shown
+  previousType?: string;    // Type in the base analysis (changed nodes)
   onClick?: (node: RelationNode) => void;
 }
 
@@ -24,7 +27,7 @@ const SELECTED_COLOR = '#f0c040';
 const SELECTED_GLOW = 'rgba(240, 192, 64, 0.5)';
 
 const RelationNodeComponent: React.FC<NodeProps<RelationNodeData>> = ({ data, selected }) => {
-  const { node, onClick, isSelected, isHighlighted, isSource, isTarget, isDimmed } = data;
+  const { node, onClick, isSelected, isHighlighted, isSource, isTarget, isDimmed, impactDistance, diffStatus, previousType } = data;
   const color = NODE_TYPE_COLORS[node.type] || NODE_TYPE_COLORS.unknown;
   
   // Use isSelected from data (more reliable than React Flow's selected prop)
@@ -52,6 +55,11 @@ const RelationNodeComponent: React.FC<NodeProps<RelationNodeData>> = ({ data, se
     borderColor = HIGHLIGHT_COLOR;
     boxShadow = `0 0 10px ${HIGHLIGHT_GLOW}`;
     backgroundColor = 'rgba(201, 162, 39, 0.08)';
+  } else if (diffStatus) {
+    // Part of the diff being shown - status color
+    borderColor = DIFF_STATUS_COLORS[diffStatus];
+    boxShadow = `0 0 10px ${DIFF_STATUS_COLORS[diffStatus]}66`;
+    opacity = diffStatus === 'removed' ? 0.7 : 1;
   } else if (isDimmed) {
     // Not related - make semi-transparent
     opacity = 0.25;
@@ -105,6 +113,32 @@ const RelationNodeComponent: React.FC<NodeProps<RelationNodeData>> = ({ data, se
         >
           {node.type}
         </span>
+        {impactDistance !== undefined && impactDistance > 0 && (
+          <span
+            title="Distancia al nodo modificado"
+            style={{
+              marginLeft: 'auto',
+              fontSize: '10px',
+              fontWeight: 'bold',
+              color: HIGHLIGHT_COLOR,
+            }}
+          >
+            ⚡{impactDistance}
+          </span>
+        )}
+        {diffStatus && (
+          <span
+            title={diffStatus === 'changed' ? `Tipo anterior: ${previousType}` : diffStatus === 'added' ? 'Añadido' : 'Eliminado'}
+            style={{
+              marginLeft: 'auto',
+              fontSize: '10px',
+              fontWeight: 'bold',
+              color: DIFF_STATUS_COLORS[diffStatus],
+            }}
+          >
+            {diffStatus === 'added' ? '+ nuevo' : diffStatus === 'removed' ? '− eliminado' : `~ ${previousType}`}
+          </span>
+        )}
       </div>
 
       {/* Name */}
@@ -115,6 +149,7 @@ const RelationNodeComponent: React.FC<NodeProps<RelationNodeData>> = ({ data, se
           color: 'var(--vscode-foreground)',
           marginBottom: '4px',
           wordBreak: 'break-word',
+          textDecoration: diffStatus === 'removed' ? 'line-through' : undefined,
         }}
       >
         {node.name}
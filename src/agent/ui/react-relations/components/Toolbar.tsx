@@ -21,6 +21,11 @@ interface ToolbarProps {
   onCollapseAll?: () => void;
   groupCount?: number;
   expandedCount?: number;
+  // Metrics panel
+  showMetrics?: boolean;
+  onToggleMetrics?: () => void;
+  cycleCount?: number;
+  onExport?: () => void;
 }
 
 export const Toolbar: React.FC<ToolbarProps> = ({
@@ -38,6 +43,10 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   onCollapseAll,
   groupCount,
   expandedCount,
+  showMetrics,
+  onToggleMetrics,
+  cycleCount,
+  onExport,
 }) => {
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -172,6 +181,29 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
       {/* Actions */}
       <div style={{ display: 'flex', gap: '8px' }}>
+        {onToggleMetrics && (
+          <button
+            onClick={onToggleMetrics}
+            title={showMetrics ? 'Ocultar métricas' : 'Métricas y hotspots'}
+            style={{
+              padding: '6px 12px',
+              borderRadius: '4px',
+              border: showMetrics
+                ? '2px solid var(--vscode-button-background)'
+                : '1px solid var(--vscode-button-border)',
+              background: showMetrics
+                ? 'var(--vscode-button-background)'
+                : 'var(--vscode-button-secondaryBackground)',
+              color: showMetrics
+                ? 'var(--vscode-button-foreground)'
+                : 'var(--vscode-button-secondaryForeground)',
+              cursor: 'pointer',
+              fontSize: '12px',
+            }}
+          >
+            📈 Métricas{cycleCount ? ` (${cycleCount} ciclo${cycleCount !== 1 ? 's' : ''})` : ''}
+          </button>
+        )}
         <button
           onClick={onFitView}
           title="Ajustar vista"
@@ -187,6 +219,23 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         >
           ⊞ Ajustar
         </button>
+        {onExport && (
+          <button
+            onClick={onExport}
+            title="Exportar a DOT, Mermaid, GraphML o CSV"
+            style={{
+              padding: '6px 12px',
+              borderRadius: '4px',
+              border: '1px solid var(--vscode-button-border)',
+              background: 'var(--vscode-button-secondaryBackground)',
+              color: 'var(--vscode-button-secondaryForeground)',
+              cursor: 'pointer',
+              fontSize: '12px',
+            }}
+          >
+            ⇩ Exportar
+          </button>
+        )}
         <button
           onClick={onRefresh}
           title="Refrescar"
@@ -0,0 +1,185 @@
+/**
+ * Endpoint trace panel component
+ * Shows the downstream flow of an endpoint (controller -> services -> repositories -> entities)
+ * as a vertical list of layers with clickable source locations
+ */
+
+import React from 'react';
+import { RelationNode, EndpointTraceView, TraceLayer, TraceStep, NODE_TYPE_COLORS } from '../types';
+
+interface TracePanelProps {
+  trace: EndpointTraceView | null;
+  nodesById: Map<string, RelationNode>;
+  onSelectNode: (nodeId: string) => void;
+  onOpenFile: (filePath: string, line?: number) => void;
+  onClose: () => void;
+}
+
+const LAYERS: TraceLayer[] = ['controller', 'service', 'repository', 'entity', 'other'];
+
+const LAYER_LABELS: Record<TraceLayer, string> = {
+  controller: 'Controller',
+  service: 'Services',
+  repository: 'Repositories',
+  entity: 'Entidades',
+  other: 'Otros',
+};
+
+const METHOD_COLORS: Record<string, string> = {
+  GET: '#4CAF50',
+  POST: '#2196F3',
+  PUT: '#FF9800',
+  PATCH: '#FFC107',
+  DELETE: '#F44336',
+};
+
+const fileName = (filePath: string) => filePath.replace(/\\/g, '/').split('/').pop() || filePath;
+
+export const TracePanel: React.FC<TracePanelProps> = ({ trace, nodesById, onSelectNode, onOpenFile, onClose }) => {
+  if (!trace) return null;
+
+  const { endpoint } = trace;
+  const layers = LAYERS
+    .map(layer => ({ layer, steps: trace.steps.filter(step => step.layer === layer && nodesById.has(step.id)) }))
+    .filter(group => group.steps.length > 0);
+
+  const renderStep = (step: TraceStep) => {
+    const node = nodesById.get(step.id)!;
+    const parent = step.parentId ? nodesById.get(step.parentId) : undefined;
+    return (
+      <div
+        key={step.id}
+        onClick={() => onSelectNode(step.id)}
+        style={{
+          padding: '6px 8px',
+          margin: '4px 0',
+          borderRadius: '4px',
+          borderLeft: `3px solid ${NODE_TYPE_COLORS[node.type] || NODE_TYPE_COLORS.unknown}`,
+          background: 'var(--vscode-editorWidget-background)',
+          cursor: 'pointer',
+          fontSize: '12px',
+        }}
+        title={parent ? `${parent.name} → ${node.name}${step.edgeType ? ` (${step.edgeType})` : ''}` : node.name}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <span style={{ flex: 1, fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {node.name}
+          </span>
+          <span style={{ fontSize: '10px', color: 'var(--vscode-descriptionForeground)' }}>{node.type}</span>
+        </div>
+        {step.calledFunctions && step.calledFunctions.length > 0 && (
+          <div style={{ fontSize: '11px', fontFamily: 'var(--vscode-editor-font-family)', marginTop: '2px' }}>
+            {step.calledFunctions.map(fn => `${fn}()`).join(', ')}
+          </div>
+        )}
+        <div
+          onClick={(event) => {
+            event.stopPropagation();
+            onOpenFile(step.filePath, step.line);
+          }}
+          style={{
+            fontSize: '11px',
+            marginTop: '2px',
+            color: 'var(--vscode-textLink-foreground)',
+            cursor: 'pointer',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}
+          title={step.filePath}
+        >
+          {fileName(step.filePath)}{step.line ? `:${step.line}` : ''}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: '16px',
+        top: '16px',
+        width: '300px',
+        maxHeight: 'calc(100% - 120px)',
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'var(--vscode-editor-background)',
+        border: '1px solid var(--vscode-panel-border)',
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+        zIndex: 1000,
+        overflow: 'hidden',
+      }}
+    >
+      {/* Header */}
+      <div style={{ padding: '12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div style={{ fontSize: '11px', color: 'var(--vscode-descriptionForeground)', textTransform: 'uppercase' }}>
+            Traza de endpoint
+          </div>
+          <button
+            onClick={onClose}
+            title="Cerrar traza"
+            style={{
+              background: 'none',
+              border: 'none',
+              cursor: 'pointer',
+              fontSize: '18px',
+              color: 'var(--vscode-foreground)',
+              opacity: 0.7,
+            }}
+          >
+            ×
+          </button>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', margin: '4px 0' }}>
+          <span
+            style={{
+              padding: '1px 6px',
+              borderRadius: '4px',
+              fontSize: '10px',
+              fontWeight: 'bold',
+              color: '#fff',
+              background: METHOD_COLORS[endpoint.method] || NODE_TYPE_COLORS.unknown,
+            }}
+          >
+            {endpoint.method}
+          </span>
+          <span style={{ fontWeight: 'bold', fontSize: '13px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {endpoint.path}
+          </span>
+        </div>
+        <div
+          onClick={() => onOpenFile(endpoint.filePath, endpoint.line)}
+          style={{ fontSize: '11px', color: 'var(--vscode-textLink-foreground)', cursor: 'pointer' }}
+          title={endpoint.filePath}
+        >
+          {endpoint.handlerName} · {fileName(endpoint.filePath)}:{endpoint.line}
+        </div>
+      </div>
+
+      {/* Vertical flow, one block per layer */}
+      <div style={{ overflowY: 'auto', padding: '8px 12px' }}>
+        {trace.steps.length <= 1 && (
+          <div style={{ fontSize: '12px', padding: '4px 0', color: 'var(--vscode-descriptionForeground)' }}>
+            El handler no tiene dependencias en el grafo de relaciones
+          </div>
+        )}
+        {layers.map((group, index) => (
+          <div key={group.layer}>
+            {index > 0 && (
+              <div style={{ textAlign: 'center', color: 'var(--vscode-descriptionForeground)', fontSize: '14px' }}>↓</div>
+            )}
+            <div style={{ fontSize: '10px', color: 'var(--vscode-descriptionForeground)', textTransform: 'uppercase', marginTop: '4px' }}>
+              {LAYER_LABELS[group.layer]} ({group.steps.length})
+            </div>
+            {group.steps.map(renderStep)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TracePanel;
@@ -3,7 +3,7 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { ProjectRelations, VSCodeMessage } from '../types';
+import { ProjectRelations, VSCodeMessage, ImpactHighlight, RelationsDiffView, EndpointTraceView } from '../types';
 
 export function useRelationsData() {
   const [relations, setRelations] = useState<ProjectRelations | null>(
@@ -11,6 +11,9 @@ export function useRelationsData() {
   );
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [filterType, setFilterType] = useState<string | null>(null);
+  const [impact, setImpact] = useState<ImpactHighlight | null>(null);
+  const [diff, setDiff] = useState<RelationsDiffView | null>(null);
+  const [trace, setTrace] = useState<EndpointTraceView | null>(null);
 
   // Listen for messages from VS Code
   useEffect(() => {
@@ -31,6 +34,15 @@ export function useRelationsData() {
         case 'clearSelection':
           setSelectedNodeId(null);
           break;
+        case 'showImpact':
+          setImpact(message.impact || null);
+          break;
+        case 'showDiff':
+          setDiff(message.diff || null);
+          break;
+        case 'showTrace':
+          setTrace(message.trace || null);
+          break;
       }
     };
 
@@ -62,30 +74,62 @@ export function useRelationsData() {
     postMessage({ command: 'regenerate' });
   }, [postMessage]);
 
-  // Open file in editor
-  const openFile = useCallback((filePath: string) => {
-    postMessage({ command: 'openFile', filePath });
+  // Open file in editor (optionally at a line)
+  const openFile = useCallback((filePath: string, line?: number) => {
+    postMessage({ command: 'openFile', filePath, line });
+  }, [postMessage]);
+
+  // Impact analysis
+  const requestImpact = useCallback((nodeId: string) => {
+    postMessage({ command: 'analyzeImpact', nodeId });
+  }, [postMessage]);
+
+  const clearImpact = useCallback(() => {
+    setImpact(null);
+    postMessage({ command: 'clearImpact' });
+  }, [postMessage]);
+
+  const exportImpact = useCallback(() => {
+    postMessage({ command: 'exportImpact' });
+  }, [postMessage]);
+
+  const clearDiff = useCallback(() => {
+    setDiff(null);
+    postMessage({ command: 'clearDiff' });
+  }, [postMessage]);
+
+  const clearTrace = useCallback(() => {
+    setTrace(null);
+    postMessage({ command: 'clearTrace' });
+  }, [postMessage]);
+
+  // Export the graph (or the subgraph around a node) to DOT, Mermaid, GraphML or CSV
+  const exportGraph = useCallback((nodeId?: string) => {
+    postMessage({ command: 'exportGraph', nodeId });
   }, [postMessage]);
 
+  // While a diff is shown, the graph is the merged one (head + removed elements)
+  const shownRelations = diff?.relations || relations;
+
   // Get filtered nodes
-  const filteredNodes = relations?.nodes.filter(node => 
+  const filteredNodes = shownRelations?.nodes.filter(node => 
     !filterType || node.type === filterType
   ) || [];
 
   // Get filtered edges (only edges where both source and target are in filtered nodes)
   const filteredNodeIds = new Set(filteredNodes.map(n => n.id));
-  const filteredEdges = relations?.edges.filter(edge =>
+  const filteredEdges = shownRelations?.edges.filter(edge =>
     filteredNodeIds.has(edge.source) && filteredNodeIds.has(edge.target)
   ) || [];
 
   // Get selected node
-  const selectedNode = relations?.nodes.find(n => n.id === selectedNodeId) || null;
+  const selectedNode = shownRelations?.nodes.find(n => n.id === selectedNodeId) || null;
 
   // Get node types for filter
-  const nodeTypes = [...new Set(relations?.nodes.map(n => n.type) || [])].sort();
+  const nodeTypes = [...new Set(shownRelations?.nodes.map(n => n.type) || [])].sort();
 
   return {
-    relations,
+    relations: shownRelations,
     nodes: filteredNodes,
     edges: filteredEdges,
     selectedNode,
@@ -97,5 +141,14 @@ export function useRelationsData() {
     requestRefresh,
     requestRegenerate,
     openFile,
+    impact,
+    requestImpact,
+    clearImpact,
+    exportImpact,
+    exportGraph,
+    diff,
+    clearDiff,
+    trace,
+    clearTrace,
   };
 }
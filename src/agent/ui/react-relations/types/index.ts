@@ -18,6 +18,51 @@ export interface RelationEdge {
   target: string;
   type: string;
   label?: string;
+  sourceFunctions?: string[];
+  targetFunctions?: string[];
+}
+
+// Impact analysis sent by the extension ("what breaks if I change this node")
+export interface ImpactHighlight {
+  rootId: string;
+  nodes: { id: string; distance: number; category: 'controller' | 'service' | 'test' | 'other' }[];
+  edgeIds: string[];
+}
+
+// Endpoint trace sent by the extension (handler -> services -> repositories -> entities)
+export type TraceLayer = 'controller' | 'service' | 'repository' | 'entity' | 'other';
+
+export interface TraceStep {
+  id: string;
+  layer: TraceLayer;
+  depth: number;
+  parentId?: string;
+  edgeType?: string;
+  calledFunctions?: string[];
+  filePath: string;
+  line?: number;
+}
+
+export interface EndpointTraceView {
+  endpoint: { method: string; path: string; handlerName: string; filePath: string; line: number };
+  rootId: string;
+  steps: TraceStep[];
+  edgeIds: string[];
+}
+
+// Coupling metrics computed by the analyzer (see src/types/relations.ts)
+export interface NodeMetrics {
+  fanIn: number;
+  fanOut: number;
+  instability: number;
+  centrality: number;
+  cycleId?: number;
+}
+
+export interface RelationsMetrics {
+  nodes: Record<string, NodeMetrics>;
+  cycles: string[][];
+  sampledCentrality?: boolean;
 }
 
 export interface ProjectRelations {
@@ -31,10 +76,32 @@ export interface ProjectRelations {
     totalNodes: number;
     totalEdges: number;
     analyzedFiles: number;
+    cycleCount?: number;
     analysisTimeMs: number;
   };
+  metrics?: RelationsMetrics;
 }
 
+// Diff between two analyses sent by the extension
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+export interface RelationsDiffView {
+  baseLabel: string;
+  headLabel: string;
+  // Head graph plus removed nodes and edges
+  relations: ProjectRelations;
+  nodes: Record<string, DiffStatus>;
+  edges: Record<string, DiffStatus>;
+  // Previous type of changed nodes and edges
+  previousTypes: Record<string, string>;
+}
+
+export const DIFF_STATUS_COLORS: Record<DiffStatus, string> = {
+  added: '#4CAF50',
+  removed: '#F44336',
+  changed: '#FFC107',
+};
+
 export interface FlowNode {
   id: string;
   type: string;
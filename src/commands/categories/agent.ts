@@ -5,7 +5,30 @@ import { CommandRegistration } from '../types';
 import { createCommandRegistration } from '../utils';
 import { getGlobalAgent } from '../../extension';
 import { getMemoryBankService } from '../../services/memoryBankService';
-import { ExternalRequestTreeItem } from '../../ActiveAgentsProvider';
+import { ExternalRequestTreeItem, FileLockTreeItem } from '../../ActiveAgentsProvider';
+import { createDelegation, transitionDelegation } from '../../services/delegationService';
+import { DelegationStatus, OrchestratorLog } from '../../types/db';
+
+/**
+ * External request as passed by the tree view or the dashboard. The dashboard
+ * may attach the note of the transition (rejection reason, result summary)
+ */
+interface ExternalRequestItem {
+    id: string;
+    projectId: string;
+    note?: string;
+}
+
+/**
+ * Request created from the dashboard form
+ */
+interface DelegationFormData {
+    fromProject?: string; // Defaults to the project of the agent
+    targetProject: string;
+    title: string;
+    context?: string;
+    acceptanceCriteria?: string[];
+}
 
 export const agentCommands: CommandRegistration[] = [
     createCommandRegistration('memorybank.createAgent', async () => {
@@ -320,7 +343,145 @@ export const agentCommands: CommandRegistration[] = [
         }
     }),
 
-    createCommandRegistration('memorybank.agent.acceptTask', async (item: ExternalRequestTreeItem) => {
+    createCommandRegistration('memorybank.agent.resumeLastRun', async () => {
+        const agent = getGlobalAgent();
+        if (!agent) {
+            vscode.window.showWarningMessage('No agent instance found');
+            return;
+        }
+
+        const checkpoint = agent.runCheckpoints.getLastInterruptedRun();
+        if (!checkpoint) {
+            vscode.window.showInformationMessage('No hay ninguna ejecución interrumpida para reanudar');
+            return;
+        }
+
+        const totalSteps = checkpoint.plan.steps.length;
+        const resume = 'Reanudar';
+        const discard = 'Descartar';
+        const choice = await vscode.window.showInformationMessage(
+            `Reanudar "${checkpoint.input.substring(0, 80)}${checkpoint.input.length > 80 ? '...' : ''}" desde el paso ${checkpoint.nextStep + 1} de ${totalSteps}?`,
+            { modal: true, detail: `${checkpoint.nextStep} paso(s) completados · última actualización ${new Date(checkpoint.updatedAt).toLocaleString()}` },
+            resume,
+            discard
+        );
+
+        if (choice === discard) {
+            agent.runCheckpoints.discardRun(checkpoint.runId);
+            return;
+        }
+        if (choice !== resume) {
+            return;
+        }
+
+        try {
+            const result = await agent.resumeLastRun();
+            if (!result.success && result.error) {
+                vscode.window.showErrorMessage(`Error: ${result.error}`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to resume run: ${error}`);
+        }
+    }),
+
+    createCommandRegistration('memorybank.agent.revertRun', async (runId?: string) => {
+        const agent = getGlobalAgent();
+        if (!agent) {
+            vscode.window.showWarningMessage('No agent instance found');
+            return;
+        }
+
+        if (!runId) {
+            const revertable = agent.runChangesets.listChangesets()
+                .filter(changeset => changeset.status === 'finished' && changeset.files.length > 0);
+            if (revertable.length === 0) {
+                vscode.window.showInformationMessage('No hay ejecuciones del agente que revertir');
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                revertable.map(changeset => ({
+                    label: changeset.input.substring(0, 80),
+                    description: new Date(changeset.startedAt).toLocaleString(),
+                    detail: `${changeset.files.length} archivo(s): ${changeset.files.map(file => path.basename(file.path)).join(', ')}`,
+                    runId: changeset.runId
+                })),
+                { placeHolder: 'Selecciona la ejecución a revertir' }
+            );
+            if (!picked) {
+                return;
+            }
+            runId = picked.runId;
+        }
+
+        const changeset = agent.runChangesets.getChangeset(runId);
+        if (!changeset) {
+            vscode.window.showErrorMessage(`No se encontraron cambios registrados para la ejecución ${runId}`);
+            return;
+        }
+        if (changeset.status !== 'finished') {
+            vscode.window.showWarningMessage(changeset.status === 'reverted' ?
+                'Esta ejecución ya fue revertida' :
+                'La ejecución sigue en curso y todavía no se puede revertir');
+            return;
+        }
+
+        const revertAll = 'Revertir todo';
+        const skipConflicts = 'Omitir conflictos';
+        const showDiffs = 'Ver diferencias';
+        let skip = false;
+
+        // Files edited after the run would lose those edits: ask before overwriting them
+        const conflicts = agent.runChangesets.findConflicts(changeset);
+        const reasons = { modified: 'modificado', deleted: 'eliminado', created: 'creado de nuevo' };
+        while (true) {
+            const detail = conflicts.length > 0 ?
+                `${conflicts.length} archivo(s) cambiaron después de la ejecución:\n` +
+                conflicts.map(conflict => `• ${vscode.workspace.asRelativePath(conflict.path)} (${reasons[conflict.reason]})`).join('\n') :
+                changeset.files.map(file => `• ${vscode.workspace.asRelativePath(file.path)}`).join('\n');
+            const choice = await vscode.window.showWarningMessage(
+                `¿Revertir los ${changeset.files.length} archivo(s) modificados por "${changeset.input.substring(0, 80)}"?`,
+                { modal: true, detail },
+                ...(conflicts.length > 0 ? [revertAll, skipConflicts, showDiffs] : [revertAll])
+            );
+
+            if (choice === showDiffs) {
+                for (const conflict of conflicts) {
+                    const file = changeset.files.find(f => f.path === conflict.path);
+                    if (file) {
+                        const current = fs.existsSync(file.path) ? fs.readFileSync(file.path, 'utf8') : '';
+                        agent.fileSnapshotManager.showContentDiff(
+                            file.path,
+                            agent.runChangesets.getBeforeContent(changeset.runId, file),
+                            current,
+                            'Antes de la ejecución ↔ Actual'
+                        );
+                    }
+                }
+                continue;
+            }
+            if (choice !== revertAll && choice !== skipConflicts) {
+                return;
+            }
+            skip = choice === skipConflicts;
+            break;
+        }
+
+        try {
+            const result = agent.runChangesets.revert(changeset.runId, skip);
+            const message = `Ejecución revertida: ${result.restored.length} archivo(s) restaurados` +
+                (result.skipped.length > 0 ? `, ${result.skipped.length} omitidos` : '');
+            if (result.skipped.length > 0) {
+                vscode.window.showWarningMessage(message);
+            } else {
+                vscode.window.showInformationMessage(message);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Error al revertir la ejecución: ${error.message}`);
+        }
+    }),
+
+    createCommandRegistration('memorybank.agent.acceptTask', async (item: ExternalRequestTreeItem | ExternalRequestItem) => {
         if (!item || !item.id) { 
              vscode.window.showErrorMessage('Invalid task item');
              return;
@@ -328,23 +489,189 @@ export const agentCommands: CommandRegistration[] = [
         await updateExternalRequestStatus(item, 'ACCEPTED');
     }),
 
-    createCommandRegistration('memorybank.agent.rejectTask', async (item: ExternalRequestTreeItem) => {
+    createCommandRegistration('memorybank.agent.rejectTask', async (item: ExternalRequestTreeItem | ExternalRequestItem) => {
         if (!item || !item.id) { 
              vscode.window.showErrorMessage('Invalid task item');
              return;
         }
-        await updateExternalRequestStatus(item, 'REJECTED');
+
+        let reason = 'note' in item ? item.note : undefined;
+        if (reason === undefined) {
+            reason = await vscode.window.showInputBox({
+                prompt: 'Motivo del rechazo (opcional, se notifica al proyecto de origen)',
+                placeHolder: 'p. ej. "Fuera del alcance de este proyecto"'
+            });
+            if (reason === undefined) return;
+        }
+        await updateExternalRequestStatus(item, 'REJECTED', reason);
     }),
 
-    createCommandRegistration('memorybank.agent.delegateTask', async () => {
-        const option = await vscode.window.showInformationMessage(
-            'Para delegar una tarea, usa el chat con el comando @agent delegate ...',
-            'Abrir Chat'
-        );
-        
-        if (option === 'Abrir Chat') {
-            vscode.commands.executeCommand('memorybank.ask');
+    createCommandRegistration('memorybank.agent.startTask', async (item: ExternalRequestTreeItem | ExternalRequestItem) => {
+        if (!item || !item.id) {
+             vscode.window.showErrorMessage('Invalid task item');
+             return;
+        }
+        await updateExternalRequestStatus(item, 'IN_PROGRESS');
+    }),
+
+    createCommandRegistration('memorybank.agent.completeTask', async (item: ExternalRequestTreeItem | ExternalRequestItem) => {
+        if (!item || !item.id) {
+             vscode.window.showErrorMessage('Invalid task item');
+             return;
+        }
+
+        // The result summary is what the originating project gets back
+        let result = 'note' in item ? item.note : undefined;
+        if (!result || !result.trim()) {
+            result = await vscode.window.showInputBox({
+                prompt: 'Resumen del resultado (se envía al proyecto de origen)',
+                placeHolder: 'p. ej. "Endpoint /users/export añadido en la API v2"',
+                validateInput: value => value.trim() ? null : 'El resumen del resultado es obligatorio'
+            });
+            if (!result) return;
+        }
+        await updateExternalRequestStatus(item, 'COMPLETED', result);
+    }),
+
+    createCommandRegistration('memorybank.agent.forceReleaseLock', async (item: FileLockTreeItem) => {
+        if (!item || !item.pattern || !item.projectId) {
+            vscode.window.showErrorMessage('Invalid lock item');
+            return;
+        }
+
+        // Locks of live agents protect work in progress: ask before breaking them
+        if (!item.expired) {
+            const release = 'Liberar';
+            const choice = await vscode.window.showWarningMessage(
+                `El bloqueo de "${item.pattern}" pertenece a ${item.claimedBy} y sigue activo. ¿Liberarlo de todos modos?`,
+                { modal: true },
+                release
+            );
+            if (choice !== release) {
+                return;
+            }
         }
+
+        const sqlite = getMemoryBankService().getSqliteService();
+        if (!sqlite || !(await sqlite.releaseFileLock(item.pattern, item.projectId, item.claimedBy))) {
+            vscode.window.showErrorMessage(`No se pudo liberar el bloqueo de "${item.pattern}"`);
+            return;
+        }
+
+        await sqlite.addMessage(item.projectId, `Lock on ${item.pattern} held by ${item.claimedBy} force-released from VS Code`);
+        vscode.window.showInformationMessage(`Bloqueo de "${item.pattern}" liberado`);
+        vscode.commands.executeCommand('memorybank.refresh');
+    }),
+
+    createCommandRegistration('memorybank.agent.delegateTask', async (data?: DelegationFormData) => {
+        const service = getMemoryBankService();
+        const sqlite = service.getSqliteService();
+        if (!sqlite || !(await sqlite.ensureInitialized())) {
+            vscode.window.showErrorMessage('agentboard.db no está disponible; no se puede delegar la tarea');
+            return;
+        }
+
+        const agent = getGlobalAgent(false);
+        const fromProject = data?.fromProject || agent?.projectId;
+        if (!fromProject) {
+            vscode.window.showErrorMessage('No hay un proyecto de Memory Bank activo desde el que delegar');
+            return;
+        }
+
+        // Without form data (command palette, tree view) ask for each field
+        if (!data) {
+            const projects = (await service.getProjects()).filter(p => p.id !== fromProject);
+            if (projects.length === 0) {
+                vscode.window.showErrorMessage('No available projects to delegate to.');
+                return;
+            }
+
+            const target = await vscode.window.showQuickPick(
+                projects.map(p => ({ label: p.id, description: `${p.docCount} documentos` })),
+                { placeHolder: 'Proyecto al que delegar la tarea' }
+            );
+            if (!target) return;
+
+            const title = await vscode.window.showInputBox({ prompt: 'Título de la petición' });
+            if (!title) return;
+
+            const context = await vscode.window.showInputBox({ prompt: 'Contexto de la petición (opcional)' });
+            if (context === undefined) return;
+
+            const criteria = await vscode.window.showInputBox({
+                prompt: 'Criterios de aceptación separados por ";" (opcional)',
+                placeHolder: 'p. ej. "Devuelve CSV; Respeta los permisos del usuario"'
+            });
+            if (criteria === undefined) return;
+
+            data = { targetProject: target.label, title, context, acceptanceCriteria: criteria.split(';') };
+        }
+
+        const result = await createDelegation(sqlite, {
+            fromProject,
+            targetProject: data.targetProject,
+            title: data.title,
+            context: data.context || '',
+            acceptanceCriteria: data.acceptanceCriteria || [],
+            actor: agent?.name || 'vscode'
+        });
+
+        if (!result.success) {
+            vscode.window.showErrorMessage(`No se pudo delegar la tarea: ${result.error}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Petición ${result.request.id} enviada a ${data.targetProject}`);
+        vscode.commands.executeCommand('memorybank.agents.refresh');
+    }),
+
+    createCommandRegistration('memorybank.agent.rerunOrchestration', async (log?: OrchestratorLog) => {
+        const agent = getGlobalAgent();
+        if (!agent) {
+             vscode.window.showErrorMessage('Agent system is not initialized.');
+             return;
+        }
+
+        // Without a log (command palette) pick one of the recent orchestrations
+        if (!log) {
+            const sqlite = getMemoryBankService().getSqliteService();
+            const logs = sqlite && await sqlite.ensureInitialized() ? sqlite.getOrchestratorLogs(undefined, 30) : [];
+            if (logs.length === 0) {
+                vscode.window.showInformationMessage('No hay registros del orquestador');
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                logs.map(l => ({
+                    label: l.taskDescription,
+                    description: `${l.projectId} · ${l.action}${l.success ? '' : ' · fallido'}`,
+                    detail: new Date(l.timestamp).toLocaleString(),
+                    log: l
+                })),
+                { placeHolder: 'Orquestación a ejecutar de nuevo', matchOnDescription: true }
+            );
+            if (!picked) return;
+            log = picked.log;
+        }
+
+        const taskDescription = log.taskDescription;
+        vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Volviendo a ejecutar la orquestación...',
+            cancellable: false
+        }, async () => {
+            try {
+                agent.showLogsView();
+
+                const result = await agent.handleUserInput(`Task: ${taskDescription}`, { rerunOf: log.id, projectId: log.projectId });
+                if (result.success) {
+                    vscode.window.showInformationMessage('Orquestación ejecutada de nuevo. Revisa los logs del agente.');
+                } else {
+                    vscode.window.showErrorMessage(`Agent Error: ${result.error}`);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to launch agent: ${error}`);
+            }
+        });
     }),
 
     createCommandRegistration('memorybank.agent.launchTask', async () => {
@@ -420,14 +747,21 @@ export const agentCommands: CommandRegistration[] = [
     })
 ]; 
 
-async function updateExternalRequestStatus(item: ExternalRequestTreeItem, newStatus: string) {
+async function updateExternalRequestStatus(item: ExternalRequestItem, newStatus: DelegationStatus, note?: string) {
     const service = getMemoryBankService();
+    let savedToDb = false;
     
-    // Update SQLite
+    // Update SQLite: the transition is validated, added to the timeline and mirrored to the originating project
     try {
         const sqlite = service.getSqliteService();
-        if (sqlite) {
-            sqlite.updateExternalRequestStatus(item.id, newStatus);
+        if (sqlite && await sqlite.ensureInitialized()) {
+            const agent = getGlobalAgent(false);
+            const result = await transitionDelegation(sqlite, item.id, newStatus, agent?.name || 'vscode', note);
+            if (!result.success) {
+                vscode.window.showErrorMessage(`No se pudo actualizar la tarea ${item.id}: ${result.error}`);
+                return;
+            }
+            savedToDb = true;
         }
     } catch (e) {
         console.error('Failed to update SQLite external request status:', e);
@@ -439,9 +773,15 @@ async function updateExternalRequestStatus(item: ExternalRequestTreeItem, newSta
         return;
     }
 
+    // agentBoard.md is a legacy mirror: without it the database update is enough
     const boardPath = path.join(mbPath, 'projects', item.projectId, 'docs', 'agentBoard.md');
     if (!fs.existsSync(boardPath)) {
-        vscode.window.showErrorMessage(`Agent board not found at ${boardPath}`);
+        if (savedToDb) {
+            vscode.window.showInformationMessage(`Task ${item.id} marked as ${newStatus}`);
+            vscode.commands.executeCommand('memorybank.agents.refresh');
+        } else {
+            vscode.window.showErrorMessage(`Agent board not found at ${boardPath}`);
+        }
         return;
     }
 
@@ -480,6 +820,9 @@ async function updateExternalRequestStatus(item: ExternalRequestTreeItem, newSta
         if (updated) {
             const newContent = newLines.join('\n');
             fs.writeFileSync(boardPath, newContent, 'utf-8');
+        }
+
+        if (updated || savedToDb) {
             vscode.window.showInformationMessage(`Task ${item.id} marked as ${newStatus}`);
             vscode.commands.executeCommand('memorybank.agents.refresh');
         } else {
@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { CommandRegistration } from '../types';
 import { createCommandRegistration } from '../utils';
+import * as ragService from '../../services/ragService';
+import { getMemoryBankService } from '../../services/memoryBankService';
 
 export const ragCommands: CommandRegistration[] = [
     createCommandRegistration('memorybank.rag.initialize', async () => {
@@ -32,17 +35,99 @@ export const ragCommands: CommandRegistration[] = [
 
     createCommandRegistration('memorybank.search', async () => {
         try {
-            const query = await vscode.window.showInputBox({
-                prompt: 'Enter your search query',
-                placeHolder: 'What are you looking for?'
+            const input = await vscode.window.showInputBox({
+                prompt: 'Buscar en el código indexado (filtros opcionales: lang:typescript type:class path:src/** mode:lexical)',
+                placeHolder: 'UserRepository, ERR_TIMEOUT, "cómo se valida el token"...'
             });
 
-            if (!query) return;
+            if (!input) return;
 
-            // Implementar lógica de búsqueda
-            vscode.window.showInformationMessage(`Searching for: ${query}`);
+            const { query, options } = parseSearchInput(input);
+            if (!query) {
+                vscode.window.showWarningMessage('Escribe algo que buscar además de los filtros');
+                return;
+            }
+
+            const results = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Buscando "${query}"...` },
+                () => ragService.hybridSearch(query, { ...options, topK: 30 })
+            );
+
+            if (results.length === 0) {
+                vscode.window.showInformationMessage(`Sin resultados para "${query}"`);
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                results.map(result => ({
+                    label: result.name || path.basename(result.filePath),
+                    description: `${result.filePath}:${result.startLine}-${result.endLine}`,
+                    detail: `${result.chunkType} · ${result.language} · ${Math.round(result.score * 100)}%` +
+                        (result.matchedBy ? ` · ${result.matchedBy.join(' + ')}` : ''),
+                    result
+                })),
+                { placeHolder: `${results.length} fragmentos para "${query}"`, matchOnDescription: true }
+            );
+
+            if (picked) {
+                await openSearchResult(picked.result);
+            }
         } catch (error) {
             vscode.window.showErrorMessage(`Search failed: ${error}`);
         }
     })
-]; 
\ No newline at end of file
+];
+
+const SEARCH_MODES: ragService.SearchMode[] = ['hybrid', 'vector', 'lexical'];
+
+/**
+ * Separate the inline filters (lang:, type:, path:, mode:) from the query text
+ */
+function parseSearchInput(input: string): { query: string; options: ragService.HybridSearchOptions } {
+    const options: ragService.HybridSearchOptions = {};
+    const words: string[] = [];
+
+    for (const word of input.trim().split(/\s+/)) {
+        const match = word.match(/^(lang|type|path|mode):(.+)$/);
+        if (!match) {
+            words.push(word);
+            continue;
+        }
+        const [, key, value] = match;
+        if (key === 'lang') {
+            options.languages = value.split(',');
+        } else if (key === 'type') {
+            options.chunkTypes = value.split(',');
+        } else if (key === 'path') {
+            options.pathGlob = value;
+        } else if (SEARCH_MODES.includes(value as ragService.SearchMode)) {
+            options.mode = value as ragService.SearchMode;
+        }
+    }
+
+    return { query: words.join(' '), options };
+}
+
+/**
+ * Open a search result at its first line. Indexed paths are relative to the
+ * parent directory of the Memory Bank (where the indexer was run)
+ */
+async function openSearchResult(result: ragService.SearchResult): Promise<void> {
+    let filePath = result.filePath;
+    const mbPath = getMemoryBankService().getMemoryBankPath();
+    if (!path.isAbsolute(filePath) && mbPath) {
+        filePath = path.resolve(path.dirname(mbPath), filePath);
+    }
+
+    try {
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        const line = Math.max(0, (result.startLine || 1) - 1);
+        const position = new vscode.Position(line, 0);
+        await vscode.window.showTextDocument(doc, {
+            preview: true,
+            selection: new vscode.Range(position, position)
+        });
+    } catch (error) {
+        vscode.window.showWarningMessage(`Archivo no encontrado: ${result.filePath}`);
+    }
+}
@@ -8,13 +8,26 @@ import * as vscode from 'vscode';
 // Import Memory Bank providers
 import { ActiveAgentsProvider, ExternalRequestTreeItem } from './ActiveAgentsProvider';
 import { RelationsViewer } from './agent/ui/RelationsViewer';
-import { FrameworkComponentsProvider } from './FrameworkComponentsProvider';
+import { OrchestratorLogsViewer } from './agent/ui/OrchestratorLogsViewer';
+import { FrameworkComponentsProvider, FrameworkTreeItem } from './FrameworkComponentsProvider';
 import { IndexedFilesProvider } from './IndexedFilesProvider';
 import { MemoryBankProjectsProvider } from './MemoryBankProjectsProvider';
 import { ProjectDocsProvider } from './ProjectDocsProvider';
-import { RelationsTreeProvider } from './RelationsTreeProvider';
+import { RelationsTreeItem, RelationsTreeProvider } from './RelationsTreeProvider';
+import * as impactAnalysisService from './services/impactAnalysisService';
+import * as architectureRulesService from './services/architectureRulesService';
+import * as relationsExportService from './services/relationsExportService';
+import * as relationsHistoryService from './services/relationsHistoryService';
+import * as frameworkDetectorService from './services/frameworkDetectorService';
+import * as openApiService from './services/openApiService';
+import * as endpointTraceService from './services/endpointTraceService';
+import * as relationsAnalyzerService from './services/relationsAnalyzerService';
 import { getMemoryBankService } from './services/memoryBankService';
+import { startHeartbeatMonitor } from './services/agentHeartbeatService';
+import * as mcpClientService from './services/mcpClientService';
 import { ProjectInfo } from './types/memoryBank';
+import { EndpointInfo } from './types/framework';
+import { ImpactAnalysis, ProjectRelations, RelationNode, NODE_TYPE_LABELS } from './types/relations';
 
 // Import de WebSocket con dynamic import
 let WebSocket: any;
@@ -55,6 +68,12 @@ const activeAgentsProvider = new ActiveAgentsProvider(logger);
 // Relations viewer instance
 let relationsViewer: RelationsViewer | null = null;
 
+// Orchestrator logs explorer instance
+let orchestratorLogsViewer: OrchestratorLogsViewer | null = null;
+
+// Last impact analysis (for the Markdown export)
+let lastImpactAnalysis: ImpactAnalysis | null = null;
+
 // Global agent instance
 let agent: Agent | null = null;
 
@@ -133,6 +152,9 @@ function continueActivation(context: vscode.ExtensionContext) {
   // Initialize Relations Viewer
   relationsViewer = new RelationsViewer(context);
 
+  // Initialize Orchestrator Logs Viewer
+  orchestratorLogsViewer = new OrchestratorLogsViewer(context);
+
   // Register Memory Bank commands
   registerMemoryBankCommands(context);
 
@@ -149,13 +171,24 @@ function continueActivation(context: vscode.ExtensionContext) {
   const commandDisposables = registerAllCommands();
   context.subscriptions.push(...commandDisposables);
   
-  // Initialize OpenAI service if API key is configured
+  // Initialize LLM service if the default provider is configured
   if (configManager.isConfigComplete()) {
     openaiService.initialize();
-    logger.appendLine('OpenAI service initialized.');
+    logger.appendLine(`LLM service initialized (provider: ${configManager.getProviderForTask()}).`);
   } else {
-    logger.appendLine('OpenAI API key not configured. Use "Configure OpenAI API Key" command to set it up.');
+    const provider = configManager.getProviderForTask();
+    logger.appendLine(`LLM provider "${provider}" not configured. Missing: ${configManager.getMissingProviderSettings(provider).join(', ')}`);
   }
+
+  // Rebuild the LLM clients when provider settings change
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('memorybank.llm') || e.affectsConfiguration('memorybank.openai')) {
+        openaiService.reset();
+        logger.appendLine('LLM provider settings changed, clients will be recreated.');
+      }
+    })
+  );
   
   // Initialize agent system
   initializeAgentSystem(context).catch(error => {
@@ -165,6 +198,18 @@ function continueActivation(context: vscode.ExtensionContext) {
   // Log Memory Bank status and set up logging
   const mbService = getMemoryBankService();
   mbService.setOutputChannel(logger); // Enable logging to the OutputChannel
+  context.subscriptions.push(mbService.onDidChangeAgentBoard(() => activeAgentsProvider.refresh()));
+
+  // Reap crashed agents (and keep the heartbeat of this window's agent fresh)
+  context.subscriptions.push(startHeartbeatMonitor({
+    logger,
+    getLocalAgent: () => {
+      const agent = getGlobalAgent(false);
+      return agent && agent.projectId ? { agentId: agent.name, projectId: agent.projectId } : null;
+    },
+    onDidChangeAgents: () => activeAgentsProvider.refresh()
+  }));
+  mcpClientService.setLogger((msg: string) => logger.appendLine(msg));
   if (mbService.memoryBankExists()) {
     logger.appendLine('Memory Bank found at: ' + mbService.getMemoryBankPath());
   } else {
@@ -252,6 +297,15 @@ function registerMemoryBankCommands(context: vscode.ExtensionContext) {
     }
   }
 
+  // Open the orchestrator logs explorer (filtered by the selected project)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.orchestrator.showLogs', async () => {
+      if (orchestratorLogsViewer) {
+        await orchestratorLogsViewer.show(activeAgentsProvider.getSelectedProject()?.id);
+      }
+    })
+  );
+
   // Launch Agent for Task (from Tree View)
   context.subscriptions.push(
     vscode.commands.registerCommand('memorybank.agent.launchTaskFromTree', async (item: any) => {
@@ -610,7 +664,7 @@ function registerRelationsCommands(context: vscode.ExtensionContext) {
 
   // Open file from relations
   context.subscriptions.push(
-    vscode.commands.registerCommand('memorybank.relations.openFile', async (filePath: string) => {
+    vscode.commands.registerCommand('memorybank.relations.openFile', async (filePath: string, line?: number) => {
       try {
         const pathModule = await import('path');
         const mbPath = getMemoryBankService().getMemoryBankPath();
@@ -620,7 +674,12 @@ function registerRelationsCommands(context: vscode.ExtensionContext) {
         const resolvedPath = pathModule.resolve(baseDir, filePath);
 
         const doc = await vscode.workspace.openTextDocument(resolvedPath);
-        await vscode.window.showTextDocument(doc, { preview: true });
+        const editor = await vscode.window.showTextDocument(doc, { preview: true });
+        if (line) {
+          const position = new vscode.Position(Math.max(0, line - 1), 0);
+          editor.selection = new vscode.Selection(position, position);
+          editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenter);
+        }
       } catch (error: any) {
         logger.appendLine(`Error opening file: ${error.message}`);
         vscode.window.showWarningMessage(`Archivo no encontrado: ${filePath}`);
@@ -628,6 +687,351 @@ function registerRelationsCommands(context: vscode.ExtensionContext) {
     })
   );
 
+  // Impact analysis: what depends (transitively) on a node
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.relations.impact', async (item?: RelationsTreeItem) => {
+      const relations = relationsTreeProvider.getRelations();
+      if (!relations) {
+        vscode.window.showWarningMessage('Analiza las relaciones del proyecto primero');
+        return;
+      }
+
+      let node = item?.relationNode;
+      if (!node) {
+        const picked = await vscode.window.showQuickPick(
+          relations.nodes
+            .slice()
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(n => ({ label: n.name, description: NODE_TYPE_LABELS[n.type], detail: n.filePath, node: n })),
+          { placeHolder: 'Selecciona el nodo a modificar', matchOnDescription: true, matchOnDetail: true }
+        );
+        node = picked?.node;
+      }
+      if (node) {
+        await runImpactAnalysis(relations, node);
+      }
+    })
+  );
+
+  // Impact analysis for the file in the active editor
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.relations.impactActiveFile', async (uri?: vscode.Uri) => {
+      const relations = relationsTreeProvider.getRelations();
+      if (!relations) {
+        vscode.window.showWarningMessage('Analiza las relaciones del proyecto primero');
+        return;
+      }
+
+      const filePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+      if (!filePath) {
+        vscode.window.showWarningMessage('No hay ningún archivo activo');
+        return;
+      }
+
+      const node = impactAnalysisService.findNodeByFile(relations, filePath);
+      if (!node) {
+        vscode.window.showWarningMessage(`${path.basename(filePath)} no forma parte del grafo de relaciones de ${relations.projectId}`);
+        return;
+      }
+      await runImpactAnalysis(relations, node);
+    })
+  );
+
+  // Export an impact analysis as Markdown (to attach to PRs)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.relations.exportImpact', async (analysis?: ImpactAnalysis) => {
+      const target = analysis || lastImpactAnalysis;
+      if (!target) {
+        vscode.window.showWarningMessage('Ejecuta un análisis de impacto primero');
+        return;
+      }
+
+      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+      const fileName = `impact-${target.root.name.replace(/[^a-zA-Z0-9_-]/g, '_')}.md`;
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(workspaceRoot, fileName)),
+        filters: { 'Markdown': ['md'] }
+      });
+      if (!uri) return;
+
+      try {
+        fs.writeFileSync(uri.fsPath, impactAnalysisService.generateImpactMarkdown(target), 'utf-8');
+        const doc = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(doc, { preview: true });
+      } catch (error: any) {
+        logger.appendLine(`Error exporting impact report: ${error.message}`);
+        vscode.window.showErrorMessage(`Error exportando el informe: ${error.message}`);
+      }
+    })
+  );
+
+  // Export the relations graph (or the subgraph around a node) to DOT, Mermaid, GraphML or CSV
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.relations.export', async (item?: RelationsTreeItem | string, fromRelations?: ProjectRelations) => {
+      const relations = fromRelations || relationsTreeProvider.getRelations();
+      if (!relations) {
+        vscode.window.showWarningMessage('Analiza las relaciones del proyecto primero');
+        return;
+      }
+
+      let root: RelationNode | undefined = typeof item === 'string'
+        ? relations.nodes.find(n => n.id === item)
+        : item?.relationNode;
+
+      if (!root) {
+        const scope = await vscode.window.showQuickPick(
+          [
+            { label: 'Grafo completo', description: `${relations.nodes.length} nodos, ${relations.edges.length} relaciones`, subgraph: false },
+            { label: 'Subgrafo alrededor de un nodo...', subgraph: true }
+          ],
+          { placeHolder: 'Qué exportar' }
+        );
+        if (!scope) return;
+
+        if (scope.subgraph) {
+          const picked = await vscode.window.showQuickPick(
+            relations.nodes
+              .slice()
+              .sort((a, b) => a.name.localeCompare(b.name))
+              .map(n => ({ label: n.name, description: NODE_TYPE_LABELS[n.type], detail: n.filePath, node: n })),
+            { placeHolder: 'Nodo central del subgrafo', matchOnDescription: true, matchOnDetail: true }
+          );
+          if (!picked) return;
+          root = picked.node;
+        }
+      }
+
+      let graph = relations;
+      if (root) {
+        const direction = await vscode.window.showQuickPick(
+          [
+            { label: 'Dependencias y dependientes', value: 'both' as const },
+            { label: 'Solo dependencias', description: 'lo que usa el nodo', value: 'outgoing' as const },
+            { label: 'Solo dependientes', description: 'lo que usa al nodo', value: 'incoming' as const }
+          ],
+          { placeHolder: `Relaciones de ${root.name} a incluir` }
+        );
+        if (!direction) return;
+
+        const depth = await vscode.window.showQuickPick(
+          [
+            { label: '1 salto', value: 1 },
+            { label: '2 saltos', value: 2 },
+            { label: '3 saltos', value: 3 },
+            { label: 'Sin límite', value: undefined }
+          ],
+          { placeHolder: 'Profundidad del subgrafo' }
+        );
+        if (!depth) return;
+
+        graph = relationsExportService.extractSubgraph(relations, {
+          rootNodeId: root.id,
+          depth: depth.value,
+          direction: direction.value
+        });
+      }
+
+      const format = await vscode.window.showQuickPick(
+        [
+          { label: 'Graphviz DOT', description: '.dot', value: 'dot' as const },
+          { label: 'Mermaid flowchart', description: '.mmd', value: 'mermaid' as const },
+          { label: 'GraphML', description: '.graphml (yEd, Gephi...)', value: 'graphml' as const },
+          { label: 'CSV', description: 'listas de nodos y relaciones', value: 'csv' as const }
+        ],
+        { placeHolder: 'Formato de exportación' }
+      );
+      if (!format) return;
+
+      const extension = relationsExportService.EXPORT_FORMAT_EXTENSIONS[format.value];
+      const baseName = root
+        ? `${root.name.replace(/[^a-zA-Z0-9_-]/g, '_')}-subgraph`
+        : `${relations.projectId.replace(/[^a-zA-Z0-9_-]/g, '_')}-relations`;
+      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(workspaceRoot, `${baseName}.${extension}`)),
+        filters: { [format.label]: [extension] }
+      });
+      if (!uri) return;
+
+      try {
+        const basePath = uri.fsPath.replace(new RegExp(`\\.${extension}$`), '');
+        const written = relationsExportService.exportRelations(graph, format.value).map(file => {
+          const filePath = basePath + file.suffix;
+          fs.writeFileSync(filePath, file.content, 'utf-8');
+          return filePath;
+        });
+        logger.appendLine(`[Relations] Exported ${graph.nodes.length} nodes, ${graph.edges.length} edges to ${written.join(', ')}`);
+
+        const choice = await vscode.window.showInformationMessage(
+          `Exportados ${graph.nodes.length} nodos y ${graph.edges.length} relaciones a ${written.map(f => path.basename(f)).join(', ')}`,
+          'Abrir'
+        );
+        if (choice === 'Abrir') {
+          const doc = await vscode.workspace.openTextDocument(written[0]);
+          await vscode.window.showTextDocument(doc, { preview: true });
+        }
+      } catch (error: any) {
+        logger.appendLine(`Error exporting relations: ${error.message}`);
+        vscode.window.showErrorMessage(`Error exportando relaciones: ${error.message}`);
+      }
+    })
+  );
+
+  // Relations history: manual snapshots and diff between two analyses
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.relations.snapshot', async () => {
+      const relations = relationsTreeProvider.getRelations();
+      if (!relations) {
+        vscode.window.showWarningMessage('Analiza las relaciones del proyecto primero');
+        return;
+      }
+
+      const label = await vscode.window.showInputBox({
+        prompt: 'Etiqueta de la instantánea',
+        placeHolder: 'p.ej. antes del refactor de pagos'
+      });
+      if (label === undefined) return;
+
+      try {
+        const info = await relationsHistoryService.saveSnapshot(relations, label.trim() || 'Manual');
+        if (info) {
+          vscode.window.showInformationMessage(`Instantánea guardada: ${relationsHistoryService.describeSnapshot(info)}`);
+        }
+      } catch (error: any) {
+        logger.appendLine(`Error saving relations snapshot: ${error.message}`);
+        vscode.window.showErrorMessage(`Error guardando la instantánea: ${error.message}`);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.relations.diff', async () => {
+      const selectedProject = relationsTreeProvider.getSelectedProject();
+      if (!selectedProject) {
+        vscode.window.showWarningMessage('Selecciona un proyecto primero desde Memory Bank');
+        return;
+      }
+
+      const snapshots = relationsHistoryService.listSnapshots(selectedProject.id);
+      if (snapshots.length === 0) {
+        vscode.window.showWarningMessage('No hay análisis anteriores guardados para comparar');
+        return;
+      }
+
+      type SnapshotItem = vscode.QuickPickItem & { snapshotId?: string };
+      const snapshotItems: SnapshotItem[] = snapshots.map(info => ({
+        label: relationsHistoryService.describeSnapshot(info),
+        description: `${info.nodeCount} nodos, ${info.edgeCount} relaciones`,
+        snapshotId: info.id
+      }));
+
+      const base = await vscode.window.showQuickPick(snapshotItems, { placeHolder: 'Análisis base (antes)' });
+      if (!base) return;
+
+      const current = relationsTreeProvider.getRelations();
+      const headItems: SnapshotItem[] = snapshotItems.filter(item => item.snapshotId !== base.snapshotId);
+      if (current) {
+        headItems.unshift({
+          label: 'Análisis actual',
+          description: `${current.nodes.length} nodos, ${current.edges.length} relaciones`
+        });
+      }
+      const head = await vscode.window.showQuickPick(headItems, { placeHolder: 'Análisis a comparar (después)' });
+      if (!head) return;
+
+      const baseRelations = relationsHistoryService.loadSnapshot(selectedProject.id, base.snapshotId!);
+      const headRelations = head.snapshotId
+        ? relationsHistoryService.loadSnapshot(selectedProject.id, head.snapshotId)
+        : current;
+      if (!baseRelations || !headRelations) {
+        vscode.window.showErrorMessage('No se pudo cargar uno de los análisis');
+        return;
+      }
+
+      const diff = relationsHistoryService.diffRelations(baseRelations, headRelations, base.label, head.label);
+      const summary = `+${diff.addedNodes.length} / -${diff.removedNodes.length} nodos, ` +
+        `~${diff.changedNodes.length} cambios de tipo, ` +
+        `+${diff.addedEdges.length} / -${diff.removedEdges.length} relaciones`;
+      logger.appendLine(`[Relations] Diff ${base.label} → ${head.label}: ${summary}`);
+
+      if (relationsViewer) {
+        await relationsViewer.showDiff(diff);
+      }
+      vscode.window.showInformationMessage(`Diff de relaciones: ${summary}`);
+    })
+  );
+
+  // Architecture rules: evaluate architecture-rules.json against the relations graph
+  context.subscriptions.push(relationsTreeProvider);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.relations.checkArchitecture', async () => {
+      const relations = relationsTreeProvider.getRelations();
+      if (!relations) {
+        vscode.window.showWarningMessage('Analiza las relaciones del proyecto primero');
+        return;
+      }
+      const rulesPath = architectureRulesService.getArchitectureRulesPath(relations.projectId);
+      if (!rulesPath || !fs.existsSync(rulesPath)) {
+        const choice = await vscode.window.showInformationMessage(
+          `${relations.projectId} no tiene reglas de arquitectura`,
+          'Crear reglas'
+        );
+        if (choice === 'Crear reglas') {
+          await vscode.commands.executeCommand('memorybank.relations.editArchitectureRules');
+        }
+        return;
+      }
+
+      const violations = await relationsTreeProvider.checkArchitecture();
+      relationsTreeProvider.refresh();
+      if (violations.length === 0) {
+        vscode.window.showInformationMessage('Arquitectura OK: ninguna regla incumplida');
+      } else {
+        vscode.window.showWarningMessage(
+          `${violations.length} violación${violations.length !== 1 ? 'es' : ''} de arquitectura (ver panel Problemas)`
+        );
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.relations.editArchitectureRules', async () => {
+      const selectedProject = relationsTreeProvider.getSelectedProject();
+      if (!selectedProject) {
+        vscode.window.showWarningMessage('Selecciona un proyecto primero desde Memory Bank');
+        return;
+      }
+
+      try {
+        const rulesPath = await architectureRulesService.createDefaultArchitectureRules(selectedProject.id);
+        if (!rulesPath) return;
+        const doc = await vscode.workspace.openTextDocument(rulesPath);
+        await vscode.window.showTextDocument(doc);
+        await relationsTreeProvider.checkArchitecture();
+        relationsTreeProvider.refresh();
+      } catch (error: any) {
+        logger.appendLine(`Error opening architecture rules: ${error.message}`);
+        vscode.window.showErrorMessage(`Error abriendo las reglas: ${error.message}`);
+      }
+    })
+  );
+
+  // Re-check when the rules file is saved from the editor
+  context.subscriptions.push(
+    vscode.workspace.onDidSaveTextDocument(async (doc) => {
+      if (path.basename(doc.uri.fsPath) !== 'architecture-rules.json') return;
+      const selectedProject = relationsTreeProvider.getSelectedProject();
+      if (!selectedProject) return;
+
+      const rulesPath = architectureRulesService.getArchitectureRulesPath(selectedProject.id);
+      if (rulesPath && path.resolve(rulesPath) === path.resolve(doc.uri.fsPath)) {
+        await relationsTreeProvider.checkArchitecture();
+        relationsTreeProvider.refresh();
+      }
+    })
+  );
+
   // Sync relations and framework providers with project selection
   // When a project is selected in Memory Bank, also update other providers
   const originalSetSelectedProject = memoryBankProjectsProvider.setSelectedProject.bind(memoryBankProjectsProvider);
@@ -656,6 +1060,185 @@ function registerRelationsCommands(context: vscode.ExtensionContext) {
       await frameworkComponentsProvider.openFile(filePath, line);
     })
   );
+
+  // Generate an OpenAPI 3.1 document from the detected endpoints
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.frameworks.exportOpenApi', async () => {
+      const analysis = frameworkComponentsProvider.getAnalysis();
+      if (!analysis || analysis.endpoints.length === 0) {
+        vscode.window.showWarningMessage('No hay endpoints detectados en el proyecto seleccionado');
+        return;
+      }
+
+      const projectRoot = await getFrameworkProjectRoot(analysis.projectId);
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(projectRoot, 'openapi.generated.yaml')),
+        filters: { 'YAML': ['yaml', 'yml'], 'JSON': ['json'] }
+      });
+      if (!uri) return;
+
+      try {
+        const format: openApiService.OpenApiFormat = uri.fsPath.toLowerCase().endsWith('.json') ? 'json' : 'yaml';
+        const document = openApiService.generateOpenApiDocument(analysis);
+        fs.writeFileSync(uri.fsPath, openApiService.serializeOpenApiDocument(document, format), 'utf-8');
+        logger.appendLine(`OpenAPI document with ${Object.keys(document.paths).length} paths written to ${uri.fsPath}`);
+        const doc = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(doc, { preview: true });
+      } catch (error: any) {
+        logger.appendLine(`Error exporting OpenAPI document: ${error.message}`);
+        vscode.window.showErrorMessage(`Error generando el documento OpenAPI: ${error.message}`);
+      }
+    })
+  );
+
+  // Trace an endpoint down to services, repositories and entities (from the tree or a QuickPick)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.frameworks.traceEndpoint', async (item?: FrameworkTreeItem) => {
+      const analysis = frameworkComponentsProvider.getAnalysis();
+      if (!analysis || analysis.endpoints.length === 0) {
+        vscode.window.showWarningMessage('No hay endpoints detectados en el proyecto seleccionado');
+        return;
+      }
+
+      let endpoint = item?.endpoint;
+      if (!endpoint) {
+        const picked = await vscode.window.showQuickPick(
+          analysis.endpoints.map(e => ({
+            label: `${e.method} ${e.path}`,
+            description: e.handlerName,
+            detail: `${e.filePath}:${e.line}`,
+            endpoint: e
+          })),
+          { placeHolder: 'Selecciona el endpoint a trazar', matchOnDescription: true, matchOnDetail: true }
+        );
+        if (!picked) return;
+        endpoint = picked.endpoint;
+      }
+
+      await runEndpointTrace(analysis.projectId, endpoint);
+    })
+  );
+
+  // Compare the detected endpoints with the openapi.yaml/swagger.json of the repository
+  context.subscriptions.push(
+    vscode.commands.registerCommand('memorybank.frameworks.checkApiDrift', async () => {
+      const analysis = frameworkComponentsProvider.getAnalysis();
+      if (!analysis) {
+        vscode.window.showWarningMessage('Analiza los frameworks del proyecto primero');
+        return;
+      }
+
+      const projectRoot = await getFrameworkProjectRoot(analysis.projectId);
+      const specFiles = projectRoot ? openApiService.findSpecFiles(projectRoot) : [];
+      let specFile: string | undefined = specFiles.length === 1 ? specFiles[0] : undefined;
+
+      if (!specFile) {
+        const picks = specFiles.map(file => ({ label: path.basename(file), description: path.relative(projectRoot, file), file }));
+        picks.push({ label: '$(folder-opened) Seleccionar archivo...', description: '', file: '' });
+        const picked = await vscode.window.showQuickPick(picks, {
+          placeHolder: specFiles.length > 0
+            ? 'Documento OpenAPI con el que comparar'
+            : 'No se encontró openapi.yaml ni swagger.json en el proyecto'
+        });
+        if (!picked) return;
+
+        if (picked.file) {
+          specFile = picked.file;
+        } else {
+          const selected = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: projectRoot ? vscode.Uri.file(projectRoot) : undefined,
+            filters: { 'OpenAPI': ['yaml', 'yml', 'json'] }
+          });
+          specFile = selected?.[0]?.fsPath;
+        }
+      }
+      if (!specFile) return;
+
+      try {
+        const report = frameworkComponentsProvider.checkApiDrift(specFile);
+        if (!report) return;
+
+        if (report.items.length === 0) {
+          vscode.window.showInformationMessage(`Los ${report.detectedCount} endpoints detectados coinciden con ${path.basename(specFile)}`);
+        } else {
+          const count = (kind: string) => report.items.filter(item => item.kind === kind).length;
+          vscode.window.showWarningMessage(
+            `${path.basename(specFile)}: ${count('undocumented')} sin documentar, ${count('removed')} no encontrados en el código, ${count('mismatched')} con discrepancias`
+          );
+        }
+      } catch (error: any) {
+        logger.appendLine(`Error checking OpenAPI drift: ${error.message}`);
+        vscode.window.showErrorMessage(`Error leyendo ${path.basename(specFile)}: ${error.message}`);
+      }
+    })
+  );
+}
+
+/**
+ * Trace an endpoint through the relations graph and show the flow in the relations viewer
+ */
+async function runEndpointTrace(projectId: string, endpoint: EndpointInfo): Promise<void> {
+  try {
+    const relations = await relationsAnalyzerService.loadRelations(projectId);
+    if (!relations) {
+      vscode.window.showWarningMessage(`No hay análisis de relaciones para ${projectId}. Genera el análisis desde Code Relations`);
+      return;
+    }
+
+    const trace = endpointTraceService.traceEndpoint(relations, endpoint);
+    const counts = endpointTraceService.countByLayer(trace);
+    logger.appendLine(`[Frameworks] Trace of ${endpoint.method} ${endpoint.path}: ${trace.steps.length} nodes ` +
+      `(${counts.service} services, ${counts.repository} repositories, ${counts.entity} entities)`);
+
+    if (relationsViewer) {
+      await relationsViewer.showTrace(trace);
+    }
+  } catch (error: any) {
+    logger.appendLine(`Error tracing endpoint: ${error.message}`);
+    vscode.window.showErrorMessage(`Error trazando ${endpoint.method} ${endpoint.path}: ${error.message}`);
+  }
+}
+
+/**
+ * Source folder of a framework-analyzed project (falls back to the workspace root)
+ */
+async function getFrameworkProjectRoot(projectId: string): Promise<string> {
+  const sourcePath = await frameworkDetectorService.getProjectSourcePath(projectId);
+  if (sourcePath && fs.existsSync(sourcePath)) {
+    return sourcePath;
+  }
+  return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+}
+
+/**
+ * Run an impact analysis, highlight it in the relations viewer and offer the Markdown export
+ */
+async function runImpactAnalysis(relations: ProjectRelations, node: RelationNode): Promise<void> {
+  try {
+    const analysis = impactAnalysisService.analyzeImpact(relations, node.id);
+    lastImpactAnalysis = analysis;
+
+    const counts = impactAnalysisService.countByCategory(analysis);
+    logger.appendLine(`[Relations] Impact of ${node.name}: ${analysis.impacted.length} nodes ` +
+      `(${counts.controller} controllers, ${counts.service} services, ${counts.test} tests)`);
+
+    if (relationsViewer) {
+      await relationsViewer.showImpact(analysis);
+    }
+
+    const action = await vscode.window.showInformationMessage(
+      `Impacto de ${node.name}: ${analysis.impacted.length} nodos ` +
+      `(${counts.controller} controllers, ${counts.service} services, ${counts.test} tests)`,
+      'Exportar Markdown'
+    );
+    if (action === 'Exportar Markdown') {
+      await vscode.commands.executeCommand('memorybank.relations.exportImpact', analysis);
+    }
+  } catch (error: any) {
+    logger.appendLine(`Error in impact analysis: ${error.message}`);
+    vscode.window.showErrorMessage(`Error en análisis de impacto: ${error.message}`);
+  }
 }
 
 /**
@@ -742,6 +1325,20 @@ async function initializeAgentSystem(context: vscode.ExtensionContext) {
       .catch(error => {
         logger.appendLine(`Error processing autofixer.md after agent initialization: ${error.message}`);
       });
+    
+    // Offer to resume a run interrupted by a crash or reload
+    const interruptedRun = agent.runCheckpoints.getLastInterruptedRun();
+    if (interruptedRun) {
+      logger.appendLine(`Interrupted agent run found: ${interruptedRun.runId} (step ${interruptedRun.nextStep + 1}/${interruptedRun.plan.steps.length})`);
+      vscode.window.showInformationMessage(
+        `Hay una ejecución del agente interrumpida en el paso ${interruptedRun.nextStep + 1} de ${interruptedRun.plan.steps.length}`,
+        'Reanudar'
+      ).then(selection => {
+        if (selection === 'Reanudar') {
+          vscode.commands.executeCommand('memorybank.agent.resumeLastRun');
+        }
+      });
+    }
   } catch (error: any) {
     logger.appendLine(`Failed to initialize agent system: ${error.message}`);
     
@@ -953,6 +1550,9 @@ export function deactivate() {
     memoryBankWatcher.dispose();
     memoryBankWatcher = null;
   }
+
+  // Close MCP server connections (kills spawned stdio servers)
+  mcpClientService.getMCPClientService().dispose();
   
   // Limpiar recursos del agente
   const currentAgent = getGlobalAgent(false); // false para no crear el agente si no existe
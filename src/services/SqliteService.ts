@@ -2,13 +2,15 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { AgentInfo, PendingTask, ExternalRequest, FileLock, AgentMessage, OrchestratorLog } from '../types/db';
+import { AgentInfo, PendingTask, ExternalRequest, FileLock, FileLockPlan, FileLockResult, AgentMessage, OrchestratorLog, DelegationEvent } from '../types/db';
 
 // sql.js types
 interface SqlJsDatabase {
     exec(sql: string): { columns: string[]; values: any[][] }[];
     run(sql: string, params?: any[]): void;
+    getRowsModified(): number;
     prepare(sql: string): SqlJsStatement;
+    export(): Uint8Array;
     close(): void;
 }
 
@@ -23,9 +25,40 @@ interface SqlJsStatic {
     Database: new (data?: ArrayLike<number>) => SqlJsDatabase;
 }
 
+// Statement and params of a write
+type SqlStatement = [string, any[]?];
+
+// Writers of agentboard.db through this service (every VS Code window) take an
+// advisory lock file; a lock older than LOCK_STALE_MS belongs to a dead process
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 15000;
+const LOCK_RETRY_MS = 50;
+
+// Polling interval of the watcher detecting writes of other processes
+const WATCH_INTERVAL_MS = 1000;
+
+// Timeline of external requests, owned by the extension (the MCP server only knows the tasks table)
+const DELEGATION_EVENTS_TABLE = `
+    CREATE TABLE IF NOT EXISTS delegation_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        request_id TEXT NOT NULL,
+        project_id TEXT NOT NULL,
+        from_project TEXT NOT NULL,
+        status TEXT NOT NULL,
+        actor TEXT,
+        note TEXT,
+        timestamp TEXT NOT NULL
+    )
+`;
+
 export class SqliteService {
     private db: SqlJsDatabase | null = null;
+    private SQL: SqlJsStatic | null = null;
     private dbPath: string;
+    private lockPath: string;
+    private diskSignature: string = '';
+    private writing: Promise<boolean> = Promise.resolve(true);
+    private changeListeners: Array<() => void> = [];
     private logger: (msg: string) => void;
     private initPromise: Promise<void>;
     private extensionPath: string;
@@ -33,6 +66,7 @@ export class SqliteService {
     constructor(storagePath: string, logger?: (msg: string) => void, extensionPath?: string) {
         this.logger = logger || console.log;
         this.dbPath = path.join(storagePath, 'agentboard.db');
+        this.lockPath = `${this.dbPath}.lock`;
         this.extensionPath = extensionPath || '';
         
         this.logger(`[SqliteService] ========== INIT DEBUG ==========`);
@@ -79,11 +113,13 @@ export class SqliteService {
             // asm.js version doesn't need any config
             this.logger(`[SqliteService] Initializing SQL (asm.js)...`);
             SQL = await initFn();
+            this.SQL = SQL;
             this.logger(`[SqliteService] sql.js initialized successfully`);
             
             // Read the database file
-            const fileBuffer = fs.readFileSync(this.dbPath);
-            this.db = new SQL.Database(new Uint8Array(fileBuffer));
+            if (!this.reload()) {
+                throw new Error('agentboard.db could not be read');
+            }
             
             // Get tables
             const tablesResult = this.db.exec("SELECT name FROM sqlite_master WHERE type='table'");
@@ -122,10 +158,284 @@ export class SqliteService {
         return this.db !== null;
     }
 
+    /**
+     * Listen for changes written to agentboard.db by other processes (MCP server,
+     * other windows). The database is reloaded before listeners are called
+     * @returns Function removing the listener
+     */
+    public onDidChange(listener: () => void): () => void {
+        this.changeListeners.push(listener);
+        if (this.changeListeners.length === 1) {
+            fs.watchFile(this.dbPath, { interval: WATCH_INTERVAL_MS }, this.handleFileChange);
+        }
+
+        return () => {
+            this.changeListeners = this.changeListeners.filter(l => l !== listener);
+            if (this.changeListeners.length === 0) {
+                fs.unwatchFile(this.dbPath, this.handleFileChange);
+            }
+        };
+    }
+
+    private handleFileChange = (): void => {
+        if (this.refreshIfChanged()) {
+            this.changeListeners.forEach(listener => listener());
+        }
+    };
+
+    /**
+     * Size and modification time of agentboard.db, used to detect writes of
+     * other processes (empty if the file is missing)
+     */
+    private getDiskSignature(): string {
+        try {
+            const stat = fs.statSync(this.dbPath);
+            return `${stat.size}:${stat.mtime.getTime()}`;
+        } catch (e) {
+            return '';
+        }
+    }
+
+    /**
+     * Why agentboard.db cannot be read or written right now, if it cannot:
+     * another SQLite connection is in the middle of a transaction (hot journal)
+     * or has commits not yet checkpointed into the file (WAL)
+     */
+    private getBusyReason(): string | null {
+        const nonEmpty = (file: string) => {
+            try {
+                return fs.statSync(file).size > 0;
+            } catch (e) {
+                return false;
+            }
+        };
+
+        if (nonEmpty(`${this.dbPath}-journal`)) {
+            return 'another connection is writing (rollback journal present)';
+        }
+        if (nonEmpty(`${this.dbPath}-wal`)) {
+            return 'another connection has uncheckpointed changes (WAL present)';
+        }
+        return null;
+    }
+
+    /**
+     * Load agentboard.db from disk, replacing the in-memory copy
+     * The current copy is kept if the file cannot be parsed (half-written file)
+     * @returns True if the database was loaded
+     */
+    private reload(): boolean {
+        if (!this.SQL) {
+            return false;
+        }
+
+        try {
+            const signature = this.getDiskSignature();
+            const db = new this.SQL.Database(new Uint8Array(fs.readFileSync(this.dbPath)));
+            db.exec('SELECT COUNT(*) FROM sqlite_master');
+
+            if (this.db) {
+                this.db.close();
+            }
+            this.db = db;
+            this.diskSignature = signature;
+            return true;
+        } catch (e) {
+            this.logger(`[SqliteService] ERROR: Failed to reload database: ${e}`);
+            return false;
+        }
+    }
+
+    /**
+     * Reload the database if another process changed the file since it was read
+     * @returns True if the database was reloaded
+     */
+    private refreshIfChanged(): boolean {
+        const signature = this.getDiskSignature();
+        if (!this.SQL || !signature || signature === this.diskSignature || this.getBusyReason()) {
+            return false;
+        }
+
+        this.logger(`[SqliteService] agentboard.db changed on disk, reloading`);
+        return this.reload();
+    }
+
+    /**
+     * Take the advisory lock of agentboard.db, and wait for SQLite connections
+     * of other processes to finish their transactions
+     * @returns False if the lock could not be taken within LOCK_TIMEOUT_MS
+     */
+    private async acquireLock(): Promise<boolean> {
+        const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+        while (true) {
+            try {
+                const fd = fs.openSync(this.lockPath, 'wx');
+                fs.writeSync(fd, JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString() }));
+                fs.closeSync(fd);
+
+                const busyReason = this.getBusyReason();
+                if (!busyReason) {
+                    return true;
+                }
+                this.releaseLock();
+                if (Date.now() > deadline) {
+                    this.logger(`[SqliteService] agentboard.db is busy: ${busyReason}`);
+                    return false;
+                }
+            } catch (e: any) {
+                if (e.code !== 'EEXIST') {
+                    throw e;
+                }
+                this.removeStaleLock();
+                if (Date.now() > deadline) {
+                    this.logger(`[SqliteService] agentboard.db is locked by another writer: ${this.lockPath}`);
+                    return false;
+                }
+            }
+
+            await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+        }
+    }
+
+    private releaseLock(): void {
+        try {
+            fs.unlinkSync(this.lockPath);
+        } catch (e) {
+            // Already removed as stale by another process
+        }
+    }
+
+    /**
+     * Remove the lock of a writer that died while holding it
+     */
+    private removeStaleLock(): void {
+        try {
+            if (Date.now() - fs.statSync(this.lockPath).mtime.getTime() > LOCK_STALE_MS) {
+                fs.unlinkSync(this.lockPath);
+                this.logger(`[SqliteService] Removed stale lock ${this.lockPath}`);
+            }
+        } catch (e) {
+            // Released in the meantime
+        }
+    }
+
+    /**
+     * Queue a write: writes run one at a time, in call order
+     * @param operation - Description used in the logs
+     * @param statements - Statements applied in a single transaction
+     * @returns True once the change is on disk
+     */
+    private write(operation: string, statements: SqlStatement[]): Promise<boolean> {
+        return this.transaction(operation, false, db => {
+            for (const [sql, params] of statements) {
+                db.run(sql, toSqlParams(params));
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Queue a transaction whose statements depend on what it reads: it runs
+     * on top of the latest content of agentboard.db while holding the lock,
+     * so concurrent writers never overwrite each other. The database is only
+     * saved if the transaction changed rows
+     * @param fallback - Result when the transaction could not run or failed
+     * @param apply - Reads and writes through the database, inside BEGIN/COMMIT
+     */
+    private transaction<T>(operation: string, fallback: T, apply: (db: SqlJsDatabase) => T): Promise<T> {
+        const result = this.writing
+            .then(() => this.transactionThrough(operation, fallback, apply))
+            .catch((e: any) => {
+                this.logger(`[SqliteService] ERROR: ${operation} failed: ${e}`);
+                return fallback;
+            });
+        this.writing = result.then(() => true);
+        return result;
+    }
+
+    private async transactionThrough<T>(operation: string, fallback: T, apply: (db: SqlJsDatabase) => T): Promise<T> {
+        await this.initPromise;
+        if (!this.db) {
+            return fallback;
+        }
+        if (!(await this.acquireLock())) {
+            this.logger(`[SqliteService] ERROR: ${operation} not saved, agentboard.db is busy`);
+            return fallback;
+        }
+
+        try {
+            if (this.getDiskSignature() !== this.diskSignature && !this.reload()) {
+                this.logger(`[SqliteService] ERROR: ${operation} not saved, agentboard.db could not be reloaded`);
+                return fallback;
+            }
+
+            const db = this.db;
+            const changesBefore = totalChanges(db);
+            let result: T;
+            db.run('BEGIN');
+            try {
+                result = apply(db);
+                db.run('COMMIT');
+            } catch (e) {
+                db.run('ROLLBACK');
+                throw e;
+            }
+
+            if (totalChanges(db) === changesBefore) {
+                return result;
+            }
+            try {
+                this.persist();
+            } catch (e) {
+                // Drop the change from memory too, so reads keep matching the file
+                this.reload();
+                throw e;
+            }
+            return result;
+        } finally {
+            this.releaseLock();
+        }
+    }
+
+    /**
+     * Save the in-memory database to agentboard.db (must hold the lock)
+     * The new image is written to a temporary file next to it, flushed and
+     * renamed over agentboard.db: readers see either the old or the new file,
+     * never a half-written one
+     */
+    private persist(): void {
+        if (!this.db) {
+            return;
+        }
+
+        const data = Buffer.from(this.db.export());
+        const tempPath = `${this.dbPath}.${process.pid}.tmp`;
+        try {
+            const fd = fs.openSync(tempPath, 'w');
+            try {
+                fs.writeSync(fd, data, 0, data.length, 0);
+                fs.fsyncSync(fd);
+            } finally {
+                fs.closeSync(fd);
+            }
+            fs.renameSync(tempPath, this.dbPath);
+        } catch (e) {
+            try {
+                fs.unlinkSync(tempPath);
+            } catch (cleanupError) {
+                // Never created
+            }
+            throw e;
+        }
+        this.diskSignature = this.getDiskSignature();
+    }
+
     // --- Agents ---
 
     public getActiveAgents(projectId: string): AgentInfo[] {
         this.logger(`[SqliteService] getActiveAgents called with projectId: "${projectId}"`);
+        this.refreshIfChanged();
         this.logger(`[SqliteService] DB connection active: ${!!this.db}`);
         
         if (!this.db) {
@@ -147,28 +457,7 @@ export class SqliteService {
             
             const rows: AgentInfo[] = [];
             while (stmt.step()) {
-                const row = stmt.getAsObject() as any;
-                let keywords: string[] = [];
-                let responsibilities: string[] = [];
-                
-                try {
-                    if (row.keywords) keywords = JSON.parse(row.keywords);
-                } catch (e) {}
-                
-                try {
-                    if (row.responsibilities) responsibilities = JSON.parse(row.responsibilities);
-                } catch (e) {}
-
-                rows.push({
-                    id: row.id,
-                    projectId: row.project_id,
-                    status: row.status,
-                    focus: row.focus,
-                    sessionId: row.session_id,
-                    lastHeartbeat: row.last_heartbeat,
-                    keywords,
-                    responsibilities
-                });
+                rows.push(this.toAgentInfo(stmt.getAsObject()));
             }
             stmt.free();
             
@@ -181,10 +470,52 @@ export class SqliteService {
         }
     }
 
-    public updateAgent(agent: AgentInfo): void {
-        if (!this.db) return; 
+    /**
+     * Get the agents of every project (heartbeat monitor)
+     */
+    public getAllAgents(): AgentInfo[] {
+        this.refreshIfChanged();
+        if (!this.db) return [];
+        try {
+            const stmt = this.db.prepare('SELECT * FROM agents');
+            const rows: AgentInfo[] = [];
+            while (stmt.step()) {
+                rows.push(this.toAgentInfo(stmt.getAsObject()));
+            }
+            stmt.free();
+            return rows;
+        } catch (e) {
+            this.logger(`[SqliteService] ERROR querying all agents: ${e}`);
+            return [];
+        }
+    }
+
+    private toAgentInfo(row: any): AgentInfo {
+        let keywords: string[] = [];
+        let responsibilities: string[] = [];
+        
         try {
-            this.db.run(`
+            if (row.keywords) keywords = JSON.parse(row.keywords);
+        } catch (e) {}
+        
+        try {
+            if (row.responsibilities) responsibilities = JSON.parse(row.responsibilities);
+        } catch (e) {}
+
+        return {
+            id: row.id,
+            projectId: row.project_id,
+            status: row.status,
+            focus: row.focus,
+            sessionId: row.session_id,
+            lastHeartbeat: row.last_heartbeat,
+            keywords,
+            responsibilities
+        };
+    }
+
+    public updateAgent(agent: AgentInfo): Promise<boolean> {
+        return this.write('Update agent', [[`
                 INSERT OR REPLACE INTO agents (id, project_id, status, focus, session_id, last_heartbeat, keywords, responsibilities)
                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)
             `, [
@@ -196,24 +527,74 @@ export class SqliteService {
                 agent.lastHeartbeat,
                 JSON.stringify(agent.keywords || []),
                 JSON.stringify(agent.responsibilities || [])
-            ]);
-        } catch (e) {
-            console.error('Error updating agent:', e);
-        }
+            ]]]);
     }
 
-    public removeAgent(agentId: string, projectId: string): void {
-        if (!this.db) return;
-        try {
-            this.db.run('DELETE FROM agents WHERE id = ? AND project_id = ?', [agentId, projectId]);
-        } catch (e) {
-            console.error('Error removing agent:', e);
+    public updateAgentHeartbeat(agentId: string, projectId: string, timestamp: string): Promise<boolean> {
+        return this.write('Update agent heartbeat', [['UPDATE agents SET last_heartbeat = ? WHERE id = ? AND project_id = ?', [timestamp, agentId, projectId]]]);
+    }
+
+    public updateAgentStatus(agentId: string, projectId: string, status: string, message?: string): Promise<boolean> {
+        const statements: SqlStatement[] = [['UPDATE agents SET status = ? WHERE id = ? AND project_id = ?', [status, agentId, projectId]]];
+        if (message) {
+            statements.push(['INSERT INTO messages (project_id, agent_id, message, timestamp) VALUES (?, ?, ?, ?)',
+                [projectId, 'SYSTEM', message, new Date().toISOString()]]);
         }
+        return this.write('Update agent status', statements);
+    }
+
+    /**
+     * Mark an agent as stale in a single transaction: its in-progress tasks go
+     * back to the queue, its locks are released and a message is posted.
+     * Nothing is changed if the agent sent a heartbeat (or was marked stale)
+     * since it was read
+     * @param lastHeartbeat - Heartbeat of the agent when it was found expired
+     * @param requeueStatuses - Task statuses returned to PENDING
+     * @param formatMessage - Message posted, given the number of requeued tasks and released locks
+     * @returns The posted message, or null if the agent was not marked stale
+     */
+    public markAgentStale(
+        agentId: string,
+        projectId: string,
+        lastHeartbeat: string,
+        requeueStatuses: string[],
+        formatMessage: (requeued: number, released: number) => string
+    ): Promise<string | null> {
+        const placeholders = requeueStatuses.map(() => '?').join(', ');
+        return this.transaction<string | null>('Mark agent stale', null, db => {
+            db.run(`
+                UPDATE agents SET status = 'STALE'
+                WHERE id = ? AND project_id = ? AND last_heartbeat IS ? AND UPPER(TRIM(COALESCE(status, ''))) <> 'STALE'
+            `, toSqlParams([agentId, projectId, lastHeartbeat]));
+            if (db.getRowsModified() === 0) {
+                return null;
+            }
+
+            db.run(`UPDATE tasks SET status = 'PENDING', claimed_by = NULL WHERE project_id = ? AND claimed_by = ? AND status IN (${placeholders})`,
+                [projectId, agentId, ...requeueStatuses]);
+            const requeued = db.getRowsModified();
+            db.run('DELETE FROM locks WHERE agent_id = ? AND project_id = ?', [agentId, projectId]);
+            const message = formatMessage(requeued, db.getRowsModified());
+            db.run('INSERT INTO messages (project_id, agent_id, message, timestamp) VALUES (?, ?, ?, ?)',
+                [projectId, 'SYSTEM', message, new Date().toISOString()]);
+            return message;
+        });
+    }
+
+    /**
+     * Remove an agent and release its locks
+     */
+    public removeAgent(agentId: string, projectId: string): Promise<boolean> {
+        return this.write('Remove agent', [
+            ['DELETE FROM agents WHERE id = ? AND project_id = ?', [agentId, projectId]],
+            ['DELETE FROM locks WHERE agent_id = ? AND project_id = ?', [agentId, projectId]]
+        ]);
     }
 
     // --- Tasks (Merged PendingTasks + ExternalRequests) ---
 
     public getPendingTasks(projectId: string): PendingTask[] {
+        this.refreshIfChanged();
         if (!this.db) return [];
         try {
             const stmt = this.db.prepare(
@@ -243,31 +624,22 @@ export class SqliteService {
         }
     }
 
-    public addPendingTask(task: PendingTask): void {
-        if (!this.db) return;
-        try {
-            this.db.run(`
+    public addPendingTask(task: PendingTask): Promise<boolean> {
+        return this.write('Add pending task', [[`
                 INSERT OR REPLACE INTO tasks (id, project_id, title, claimed_by, from_agent, status, created_at)
                 VALUES (?, ?, ?, ?, ?, ?, ?)
-            `, [task.id, task.projectId, task.title, task.assignedTo, task.from, task.status, task.createdAt]);
-        } catch (e) {
-             console.error('Error adding pending task:', e);
-        }
+            `, [task.id, task.projectId, task.title, task.assignedTo, task.from, task.status, task.createdAt]]]);
     }
 
-    public updateTaskStatus(taskId: string, status: string): void {
-        if (!this.db) return;
-         try {
-            this.db.run('UPDATE tasks SET status = ? WHERE id = ?', [status, taskId]);
-         } catch (e) {
-             console.error('Error updating task status:', e);
-         }
+    public updateTaskStatus(taskId: string, status: string): Promise<boolean> {
+        return this.write('Update task status', [['UPDATE tasks SET status = ? WHERE id = ?', [status, taskId]]]);
     }
 
     /**
      * Get completed local tasks (not from external projects)
      */
     public getCompletedTasks(projectId: string, limit: number = 20): PendingTask[] {
+        this.refreshIfChanged();
         if (!this.db) return [];
         try {
             const stmt = this.db.prepare(
@@ -301,6 +673,7 @@ export class SqliteService {
      * Get tasks claimed/completed by a specific agent
      */
     public getAgentTasks(projectId: string, agentId: string): PendingTask[] {
+        this.refreshIfChanged();
         if (!this.db) return [];
         try {
             const stmt = this.db.prepare(
@@ -337,6 +710,7 @@ export class SqliteService {
      * @deprecated Use getPendingExternalRequests or getCompletedExternalRequests instead
      */
     public getExternalRequests(projectId: string): ExternalRequest[] {
+        this.refreshIfChanged();
         if (!this.db) return [];
         try {
             const stmt = this.db.prepare(
@@ -369,6 +743,7 @@ export class SqliteService {
      * Get pending external requests (not completed)
      */
     public getPendingExternalRequests(projectId: string): ExternalRequest[] {
+        this.refreshIfChanged();
         if (!this.db) return [];
         try {
             const stmt = this.db.prepare(
@@ -401,6 +776,7 @@ export class SqliteService {
      * Get completed external requests
      */
     public getCompletedExternalRequests(projectId: string, limit: number = 20): ExternalRequest[] {
+        this.refreshIfChanged();
         if (!this.db) return [];
         try {
             const stmt = this.db.prepare(
@@ -429,77 +805,246 @@ export class SqliteService {
         }
     }
 
-    public addExternalRequest(request: ExternalRequest): void {
-        if (!this.db) return;
-        try {
-            this.db.run(`
+    public addExternalRequest(request: ExternalRequest): Promise<boolean> {
+        return this.write('Add external request', [[`
                 INSERT OR REPLACE INTO tasks (id, project_id, title, from_project, description, status, created_at)
                 VALUES (?, ?, ?, ?, ?, ?, ?)
-            `, [request.id, request.projectId, request.title, request.fromProject, request.context, request.status, request.receivedAt]);
+            `, [request.id, request.projectId, request.title, request.fromProject, request.context, request.status, request.receivedAt]]]);
+    }
+
+    public updateExternalRequestStatus(requestId: string, status: string): Promise<boolean> {
+        return this.write('Update external request status', [['UPDATE tasks SET status = ? WHERE id = ?', [status, requestId]]]);
+    }
+
+    public getExternalRequest(requestId: string): ExternalRequest | null {
+        this.refreshIfChanged();
+        if (!this.db) return null;
+        try {
+            const stmt = this.db.prepare("SELECT * FROM tasks WHERE id = ? AND from_project IS NOT NULL AND from_project != ''");
+            stmt.bind([requestId]);
+            const request = stmt.step() ? this.toExternalRequest(stmt.getAsObject()) : null;
+            stmt.free();
+            return request;
         } catch (e) {
-             console.error('Error adding external request:', e);
+            this.logger(`[SqliteService] ERROR querying external request ${requestId}: ${e}`);
+            return null;
         }
     }
 
-    public updateExternalRequestStatus(requestId: string, status: string): void {
-        if (!this.db) return;
+    /**
+     * Get the requests a project delegated to other projects
+     */
+    public getOutgoingRequests(fromProject: string, limit: number = 50): ExternalRequest[] {
+        this.refreshIfChanged();
+        if (!this.db) return [];
         try {
-            this.db.run('UPDATE tasks SET status = ? WHERE id = ?', [status, requestId]);
+            const stmt = this.db.prepare('SELECT * FROM tasks WHERE from_project = ? ORDER BY created_at DESC LIMIT ?');
+            stmt.bind([fromProject, limit]);
+            const rows: ExternalRequest[] = [];
+            while (stmt.step()) {
+                rows.push(this.toExternalRequest(stmt.getAsObject()));
+            }
+            stmt.free();
+            return rows;
         } catch (e) {
-             console.error('Error updating external request status:', e);
+            this.logger(`[SqliteService] ERROR querying outgoing requests: ${e}`);
+            return [];
         }
     }
 
-    // --- File Locks ---
+    private toExternalRequest(r: any): ExternalRequest {
+        return {
+            id: r.id,
+            projectId: r.project_id,
+            title: r.title,
+            fromProject: r.from_project,
+            context: r.description || '',
+            status: r.status,
+            receivedAt: r.created_at
+        };
+    }
 
-    public getFileLocks(projectId: string): FileLock[] {
-        if (!this.db) return [];
+    // --- Delegation timeline ---
+
+    /**
+     * Get the timeline events of external requests, oldest first
+     */
+    public getDelegationEvents(requestIds: string[]): DelegationEvent[] {
+        this.refreshIfChanged();
+        if (!this.db || requestIds.length === 0) return [];
         try {
-            const stmt = this.db.prepare('SELECT * FROM locks WHERE project_id = ?');
-            stmt.bind([projectId]);
-            
-            const rows: FileLock[] = [];
+            // The table is created with the first delegation event
+            const tables = this.db.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='delegation_events'");
+            if (tables.length === 0) return [];
+
+            const stmt = this.db.prepare(
+                `SELECT * FROM delegation_events WHERE request_id IN (${requestIds.map(() => '?').join(', ')}) ORDER BY timestamp, id`
+            );
+            stmt.bind(requestIds);
+            const rows: DelegationEvent[] = [];
             while (stmt.step()) {
                 const r = stmt.getAsObject() as any;
                 rows.push({
-                    pattern: r.resource,
+                    id: r.id,
+                    requestId: r.request_id,
                     projectId: r.project_id,
-                    claimedBy: r.agent_id,
-                    since: r.acquired_at
+                    fromProject: r.from_project,
+                    status: r.status,
+                    actor: r.actor || '',
+                    note: r.note || undefined,
+                    timestamp: r.timestamp
                 });
             }
             stmt.free();
             return rows;
         } catch (e) {
-            this.logger(`[SqliteService] ERROR querying locks: ${e}`);
+            this.logger(`[SqliteService] ERROR querying delegation events: ${e}`);
             return [];
         }
     }
 
-    public addFileLock(lock: FileLock): void {
-        if (!this.db) return;
+    /**
+     * Create an external request with its first timeline event, and notify the target project
+     */
+    public createDelegation(request: ExternalRequest, event: DelegationEvent, message: string): Promise<boolean> {
+        return this.write('Create delegation', [
+            [DELEGATION_EVENTS_TABLE],
+            [`
+                INSERT INTO tasks (id, project_id, title, from_project, description, status, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `, [request.id, request.projectId, request.title, request.fromProject, request.context, request.status, request.receivedAt]],
+            [`
+                INSERT INTO delegation_events (request_id, project_id, from_project, status, actor, note, timestamp)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `, [event.requestId, event.projectId, event.fromProject, event.status, event.actor, event.note || null, event.timestamp]],
+            ['INSERT INTO messages (project_id, agent_id, message, timestamp) VALUES (?, ?, ?, ?)',
+                [request.projectId, 'SYSTEM', message, event.timestamp]]
+        ]);
+    }
+
+    /**
+     * Change the status of an external request, record it in the timeline and
+     * mirror it to the originating project (messages table)
+     * @param expectedStatus - The status is only changed if the request still has it
+     * @returns False if nothing was changed (the request no longer had expectedStatus, or the write failed)
+     */
+    public transitionDelegation(event: DelegationEvent, expectedStatus: string, message: string): Promise<boolean> {
+        return this.transaction('Update delegation status', false, db => {
+            db.run('UPDATE tasks SET status = ? WHERE id = ? AND status = ?', [event.status, event.requestId, expectedStatus]);
+            if (db.getRowsModified() === 0) {
+                // Already moved on (or removed) by another window or the MCP server
+                return false;
+            }
+
+            db.run(DELEGATION_EVENTS_TABLE);
+            db.run(`
+                INSERT INTO delegation_events (request_id, project_id, from_project, status, actor, note, timestamp)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `, [event.requestId, event.projectId, event.fromProject, event.status, event.actor, event.note || null, event.timestamp]);
+            db.run('INSERT INTO messages (project_id, agent_id, message, timestamp) VALUES (?, ?, ?, ?)',
+                [event.fromProject, 'SYSTEM', message, event.timestamp]);
+            return true;
+        });
+    }
+
+    // --- File Locks ---
+
+    public getFileLocks(projectId: string): FileLock[] {
+        this.refreshIfChanged();
+        if (!this.db) return [];
         try {
-            this.db.run(`
-                INSERT OR REPLACE INTO locks (resource, project_id, agent_id, acquired_at)
-                VALUES (?, ?, ?, ?)
-            `, [lock.pattern, lock.projectId, lock.claimedBy, lock.since]);
+            return queryRows(this.db, 'SELECT * FROM locks WHERE project_id = ?', [projectId]).map(toFileLock);
         } catch (e) {
-            console.error('Error adding lock:', e);
+            this.logger(`[SqliteService] ERROR querying locks: ${e}`);
+            return [];
         }
     }
 
-    public releaseFileLock(pattern: string, projectId: string): void {
-        if (!this.db) return;
-         try {
-            this.db.run('DELETE FROM locks WHERE resource = ? AND project_id = ?', [pattern, projectId]);
-         } catch (e) {
-             console.error('Error releasing lock:', e);
-         }
+    /**
+     * Take a lock in a single transaction: `plan` decides from the current
+     * locks and agents of the project, and its decision is applied before any
+     * other writer runs. Expired locks are only removed if they are unchanged,
+     * and a lock taken meanwhile on the same pattern blocks the request
+     * @param plan - Decision from the locks and agents read in the transaction
+     * @returns Null if agentboard.db could not be written
+     */
+    public acquireFileLock(
+        projectId: string,
+        plan: (locks: FileLock[], agents: AgentInfo[]) => FileLockPlan
+    ): Promise<FileLockResult | null> {
+        return this.transaction<FileLockResult | null>('Acquire lock', null, db => {
+            const decision = plan(
+                queryRows(db, 'SELECT * FROM locks WHERE project_id = ?', [projectId]).map(toFileLock),
+                queryRows(db, 'SELECT * FROM agents WHERE project_id = ?', [projectId]).map(row => this.toAgentInfo(row))
+            );
+            if (decision.blockedBy) {
+                return { acquired: false, blockedBy: decision.blockedBy, released: [] };
+            }
+
+            const { lock } = decision;
+            db.run('SAVEPOINT acquire_lock');
+            try {
+                for (const expired of decision.release) {
+                    db.run('DELETE FROM locks WHERE resource = ? AND project_id = ? AND agent_id = ? AND acquired_at IS ?',
+                        toSqlParams([expired.pattern, projectId, expired.claimedBy, expired.since]));
+                }
+                for (const pattern of decision.replace) {
+                    db.run('DELETE FROM locks WHERE resource = ? AND project_id = ? AND agent_id = ?', [pattern, projectId, lock.claimedBy]);
+                }
+
+                if (decision.refresh) {
+                    db.run('UPDATE locks SET acquired_at = ? WHERE resource = ? AND project_id = ? AND agent_id = ?',
+                        [lock.since, lock.pattern, projectId, lock.claimedBy]);
+                    if (db.getRowsModified() === 0) {
+                        throw new Error(`lock on ${lock.pattern} is no longer held by ${lock.claimedBy}`);
+                    }
+                } else {
+                    db.run('INSERT INTO locks (resource, project_id, agent_id, acquired_at) VALUES (?, ?, ?, ?)',
+                        [lock.pattern, projectId, lock.claimedBy, lock.since]);
+                }
+                db.run('RELEASE acquire_lock');
+            } catch (e: any) {
+                db.run('ROLLBACK TO acquire_lock');
+                db.run('RELEASE acquire_lock');
+                if (!/constraint/i.test(String(e && e.message))) {
+                    throw e;
+                }
+
+                // Another agent holds the same pattern
+                const [holder] = queryRows(db, 'SELECT * FROM locks WHERE resource = ? AND project_id = ?', [lock.pattern, projectId]).map(toFileLock);
+                return {
+                    acquired: false,
+                    blockedBy: holder ? { ...holder, expired: false, expiresAt: null } : undefined,
+                    released: []
+                };
+            }
+
+            return { acquired: true, pattern: decision.refresh ? undefined : lock.pattern, released: decision.release };
+        });
+    }
+
+    /**
+     * Release a lock only while the given agent still holds it
+     */
+    public releaseFileLock(pattern: string, projectId: string, agentId: string): Promise<boolean> {
+        return this.transaction('Release lock', false, db => {
+            db.run('DELETE FROM locks WHERE resource = ? AND project_id = ? AND agent_id = ?', [pattern, projectId, agentId]);
+            return db.getRowsModified() > 0;
+        });
+    }
+
+    /**
+     * Release locks only while the agent still holds them
+     */
+    public releaseAgentFileLocks(patterns: string[], projectId: string, agentId: string): Promise<boolean> {
+        return this.write('Release agent locks', patterns.map((pattern): SqlStatement =>
+            ['DELETE FROM locks WHERE resource = ? AND project_id = ? AND agent_id = ?', [pattern, projectId, agentId]]));
     }
 
     // --- Messages ---
     
     public getMessages(projectId: string, limit: number = 20): AgentMessage[] {
+        this.refreshIfChanged();
         if (!this.db) return [];
         try {
             const stmt = this.db.prepare('SELECT * FROM messages WHERE project_id = ? ORDER BY id DESC LIMIT ?');
@@ -523,18 +1068,17 @@ export class SqliteService {
         }
     }
 
-    public addMessage(projectId: string, message: string): void {
-        if (!this.db) return;
-        try {
-            const timestamp = new Date().toISOString();
-            this.db.run('INSERT INTO messages (project_id, agent_id, message, timestamp) VALUES (?, ?, ?, ?)',
-                [projectId, 'SYSTEM', message, timestamp]);
-        } catch (e) {
-             console.error('Error adding message:', e);
-        }
+    public addMessage(projectId: string, message: string): Promise<boolean> {
+        const timestamp = new Date().toISOString();
+        return this.write('Add message', [['INSERT INTO messages (project_id, agent_id, message, timestamp) VALUES (?, ?, ?, ?)',
+            [projectId, 'SYSTEM', message, timestamp]]]);
     }
 
     public close() {
+        if (this.changeListeners.length > 0) {
+            fs.unwatchFile(this.dbPath, this.handleFileChange);
+            this.changeListeners = [];
+        }
         if (this.db) {
             this.db.close();
             this.db = null;
@@ -543,14 +1087,13 @@ export class SqliteService {
 
     // --- Sync (Updated for sql.js) ---
     
-    public syncAgents(agents: AgentInfo[]) {
-        if (!this.db || agents.length === 0) return;
+    public syncAgents(agents: AgentInfo[]): Promise<boolean> {
+        if (agents.length === 0) return Promise.resolve(true);
         const projectId = agents[0].projectId;
 
-        try {
-            this.db.run('DELETE FROM agents WHERE project_id = ?', [projectId]);
-            for (const agent of agents) {
-                this.db.run(`
+        const statements: SqlStatement[] = [['DELETE FROM agents WHERE project_id = ?', [projectId]]];
+        for (const agent of agents) {
+            statements.push([`
                     INSERT INTO agents (id, project_id, status, focus, session_id, last_heartbeat, keywords, responsibilities)
                     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
                 `, [
@@ -562,61 +1105,49 @@ export class SqliteService {
                     agent.lastHeartbeat,
                     JSON.stringify(agent.keywords || []),
                     JSON.stringify(agent.responsibilities || [])
-                ]);
-            }
-        } catch (e) {
-             console.error('Error syncing agents:', e);
+                ]]);
         }
+        return this.write('Sync agents', statements);
     }
 
-    public syncPendingTasks(tasks: PendingTask[]) {
-        if (!this.db || tasks.length === 0) return;
-        try {
-            for (const task of tasks) {
-                this.db.run(`
+    public syncPendingTasks(tasks: PendingTask[]): Promise<boolean> {
+        if (tasks.length === 0) return Promise.resolve(true);
+        return this.write('Sync pending tasks', tasks.map((task): SqlStatement => [`
                     INSERT OR REPLACE INTO tasks (id, project_id, title, claimed_by, from_agent, status, created_at)
                     VALUES (?, ?, ?, ?, ?, ?, ?)
-                `, [task.id, task.projectId, task.title, task.assignedTo, task.from, task.status, task.createdAt]);
-            }
-        } catch (e) {
-            console.error('Error syncing pending tasks:', e);
-        }
+                `, [task.id, task.projectId, task.title, task.assignedTo, task.from, task.status, task.createdAt]]));
     }
 
-    public syncExternalRequests(requests: ExternalRequest[]) {
-        if (!this.db || requests.length === 0) return;
-        try {
-            for (const req of requests) {
-                this.db.run(`
+    public syncExternalRequests(requests: ExternalRequest[]): Promise<boolean> {
+        if (requests.length === 0) return Promise.resolve(true);
+        return this.write('Sync external requests', requests.map((req): SqlStatement => [`
                     INSERT OR REPLACE INTO tasks (id, project_id, title, from_project, description, status, created_at)
                     VALUES (?, ?, ?, ?, ?, ?, ?)
-                `, [req.id, req.projectId, req.title, req.fromProject, req.context, req.status, req.receivedAt]);
-            }
-        } catch (e) {
-             console.error('Error syncing external requests:', e);
-        }
+                `, [req.id, req.projectId, req.title, req.fromProject, req.context, req.status, req.receivedAt]]));
     }
 
-    public syncFileLocks(locks: FileLock[]) {
-        if (!this.db || locks.length === 0) return;
+    public syncFileLocks(locks: FileLock[]): Promise<boolean> {
+        if (locks.length === 0) return Promise.resolve(true);
         const projectId = locks[0].projectId;
 
-        try {
-            this.db.run('DELETE FROM locks WHERE project_id = ?', [projectId]);
-            for (const lock of locks) {
-                this.db.run(`
+        const statements: SqlStatement[] = [['DELETE FROM locks WHERE project_id = ?', [projectId]]];
+        for (const lock of locks) {
+            statements.push([`
                     INSERT INTO locks (resource, project_id, agent_id, acquired_at)
                     VALUES (?, ?, ?, ?)
-                `, [lock.pattern, lock.projectId, lock.claimedBy, lock.since]);
-            }
-        } catch (e) {
-             console.error('Error syncing locks:', e);
+                `, [lock.pattern, lock.projectId, lock.claimedBy, lock.since]]);
         }
+        return this.write('Sync locks', statements);
     }
 
     // --- Orchestrator Logs ---
 
-    public getOrchestratorLogs(projectId: string): OrchestratorLog[] {
+    /**
+     * Get the most recent orchestrator logs
+     * @param projectId - Project of the logs (every project if omitted)
+     */
+    public getOrchestratorLogs(projectId?: string, limit: number = 100): OrchestratorLog[] {
+        this.refreshIfChanged();
         if (!this.db) return [];
         try {
             // Check if table exists first (to avoid errors during migration period)
@@ -627,8 +1158,10 @@ export class SqliteService {
                 return [];
             }   
 
-            const stmt = this.db.prepare('SELECT * FROM orchestrator_logs WHERE project_id = ? ORDER BY timestamp DESC LIMIT 100');
-            stmt.bind([projectId]);
+            const stmt = projectId
+                ? this.db.prepare('SELECT * FROM orchestrator_logs WHERE project_id = ? ORDER BY timestamp DESC LIMIT ?')
+                : this.db.prepare('SELECT * FROM orchestrator_logs ORDER BY timestamp DESC LIMIT ?');
+            stmt.bind(projectId ? [projectId, limit] : [limit]);
             
             const rows: OrchestratorLog[] = [];
             while (stmt.step()) {
@@ -658,10 +1191,8 @@ export class SqliteService {
         }
     }
 
-    public saveOrchestratorLog(log: OrchestratorLog): void {
-        if (!this.db) return;
-        try {
-            this.db.run(`
+    public saveOrchestratorLog(log: OrchestratorLog): Promise<boolean> {
+        return this.write('Save orchestrator log', [[`
                 INSERT INTO orchestrator_logs (
                     project_id, task_description, action, my_responsibilities,
                     delegations, suggested_imports, architecture_notes,
@@ -680,9 +1211,54 @@ export class SqliteService {
                 log.success ? 1 : 0,
                 log.modelUsed,
                 log.timestamp
-            ]);
-        } catch (e) {
-             console.error('Error saving orchestrator log:', e);
+            ]]]);
+    }
+}
+
+/**
+ * sql.js cannot bind undefined or booleans: store them as NULL and 0/1
+ */
+function toSqlParams(params?: any[]): any[] {
+    return (params || []).map(value => {
+        if (value === undefined) {
+            return null;
+        }
+        if (typeof value === 'boolean') {
+            return value ? 1 : 0;
         }
+        return value;
+    });
+}
+
+/**
+ * Rows changed through the connection since it was opened
+ */
+function totalChanges(db: SqlJsDatabase): number {
+    return db.exec('SELECT total_changes()')[0].values[0][0];
+}
+
+/**
+ * Rows of a query as objects keyed by column
+ */
+function queryRows(db: SqlJsDatabase, sql: string, params: any[]): Record<string, any>[] {
+    const stmt = db.prepare(sql);
+    try {
+        stmt.bind(toSqlParams(params));
+        const rows: Record<string, any>[] = [];
+        while (stmt.step()) {
+            rows.push(stmt.getAsObject());
+        }
+        return rows;
+    } finally {
+        stmt.free();
     }
-}
\ No newline at end of file
+}
+
+function toFileLock(row: Record<string, any>): FileLock {
+    return {
+        pattern: row.resource,
+        projectId: row.project_id,
+        claimedBy: row.agent_id,
+        since: row.acquired_at
+    };
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Agent Heartbeat Service
+ * Background monitor of the agents registered in agentboard.db: agents whose
+ * heartbeat is older than the configured interval are marked STALE, their
+ * in-progress tasks go back to the queue and their locks are released
+ */
+
+import * as vscode from 'vscode';
+import { getMemoryBankService } from './memoryBankService';
+import { parseBoardTimestamp } from './fileLockService';
+import { SqliteService } from './SqliteService';
+import { AgentInfo } from '../types/db';
+
+const DEFAULT_STALE_AFTER_MINUTES = 10;
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+export const STALE_AGENT_STATUS = 'STALE';
+
+/** Task statuses of work in progress, returned to PENDING when their agent goes stale */
+const IN_PROGRESS_TASK_STATUSES = ['IN_PROGRESS', 'CLAIMED'];
+
+/**
+ * Health of an agent, from its status and the age of its heartbeat:
+ * - active: ACTIVE with a recent heartbeat
+ * - late: heartbeat older than half the stale interval (about to go stale)
+ * - stale: marked STALE by the monitor
+ * - idle: any other status
+ */
+export type AgentHealth = 'active' | 'late' | 'stale' | 'idle';
+
+export interface HeartbeatMonitorOptions {
+  logger: vscode.OutputChannel;
+  /** Agent of this window: its heartbeat is refreshed on every check */
+  getLocalAgent?: () => { agentId: string; projectId: string } | null;
+  /** Called after agents were marked stale or revived */
+  onDidChangeAgents?: () => void;
+}
+
+/**
+ * Time without heartbeat after which an agent is stale
+ */
+export function getStaleAfterMs(): number {
+  const minutes = vscode.workspace.getConfiguration('memorybank').get<number>('agents.staleAfterMinutes', DEFAULT_STALE_AFTER_MINUTES);
+  return Math.max(1, minutes) * 60 * 1000;
+}
+
+function isStale(agent: AgentInfo): boolean {
+  return (agent.status || '').trim().toUpperCase() === STALE_AGENT_STATUS;
+}
+
+/**
+ * Age of the heartbeat of an agent in milliseconds (NaN if it has none)
+ */
+export function getHeartbeatAge(agent: AgentInfo, now: number = Date.now()): number {
+  return now - parseBoardTimestamp(agent.lastHeartbeat);
+}
+
+export function getAgentHealth(agent: AgentInfo, now: number = Date.now()): AgentHealth {
+  if (isStale(agent)) {
+    return 'stale';
+  }
+  if ((agent.status || '').trim().toUpperCase() !== 'ACTIVE') {
+    return 'idle';
+  }
+  return getHeartbeatAge(agent, now) > getStaleAfterMs() / 2 ? 'late' : 'active';
+}
+
+/**
+ * Mark as stale the agents whose heartbeat expired, and bring back to ACTIVE
+ * the stale agents whose heartbeat resumed
+ * @returns The agents whose state changed
+ */
+export async function reapStaleAgents(
+  sqlite: SqliteService,
+  logger: vscode.OutputChannel,
+  now: number = Date.now()
+): Promise<AgentInfo[]> {
+  const staleAfter = getStaleAfterMs();
+  const changed: AgentInfo[] = [];
+
+  for (const agent of sqlite.getAllAgents()) {
+    const age = getHeartbeatAge(agent, now);
+    // Agents without a readable heartbeat are left alone
+    if (isNaN(age)) {
+      continue;
+    }
+
+    if (!isStale(agent) && age > staleAfter) {
+      const minutes = Math.round(age / 60000);
+      const message = await sqlite.markAgentStale(agent.id, agent.projectId, agent.lastHeartbeat, IN_PROGRESS_TASK_STATUSES,
+        (requeued, released) => `Agent ${agent.id} marked stale (no heartbeat for ${minutes} min): ` +
+          `${requeued} task(s) returned to the queue, ${released} lock(s) released`);
+
+      if (message) {
+        logger.appendLine(`[HeartbeatMonitor] ${message}`);
+        changed.push(agent);
+      }
+    } else if (isStale(agent) && age <= staleAfter) {
+      const message = `Agent ${agent.id} is back (heartbeat resumed)`;
+      if (await sqlite.updateAgentStatus(agent.id, agent.projectId, 'ACTIVE', message)) {
+        logger.appendLine(`[HeartbeatMonitor] ${message}`);
+        changed.push(agent);
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Start the background heartbeat monitor
+ * @returns Disposable stopping the monitor
+ */
+export function startHeartbeatMonitor(options: HeartbeatMonitorOptions): vscode.Disposable {
+  const { logger } = options;
+  let checking = false;
+
+  const check = async () => {
+    // A slow check (busy database) must not overlap the next one
+    if (checking) {
+      return;
+    }
+    checking = true;
+
+    try {
+      const sqlite = getMemoryBankService().getSqliteService();
+      if (!sqlite || !(await sqlite.ensureInitialized())) {
+        return;
+      }
+
+      const localAgent = options.getLocalAgent ? options.getLocalAgent() : null;
+      if (localAgent) {
+        await sqlite.updateAgentHeartbeat(localAgent.agentId, localAgent.projectId, new Date().toISOString());
+      }
+
+      const changed = await reapStaleAgents(sqlite, logger);
+      if (changed.length > 0 && options.onDidChangeAgents) {
+        options.onDidChangeAgents();
+      }
+    } catch (error: any) {
+      logger.appendLine(`[HeartbeatMonitor] Error checking agent heartbeats: ${error.message}`);
+    } finally {
+      checking = false;
+    }
+  };
+
+  const timer = setInterval(check, CHECK_INTERVAL_MS);
+  check();
+  logger.appendLine(`[HeartbeatMonitor] Started (agents go stale after ${getStaleAfterMs() / 60000} min without heartbeat)`);
+
+  return new vscode.Disposable(() => clearInterval(timer));
+}
@@ -0,0 +1,373 @@
+/**
+ * @fileoverview Architecture Rules Service
+ * Evaluates the declarative layering rules of architecture-rules.json
+ * (e.g. "controllers must not import repositories", "no cycles between modules")
+ * against the relations graph of a project
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { getMemoryBankService } from './memoryBankService';
+import { resolveNodeFilePath } from './impactAnalysisService';
+import { findStronglyConnectedComponents } from './relationsMetricsService';
+import { globToRegex } from '../utils/utils';
+import {
+  ProjectRelations,
+  RelationNode,
+  RelationEdge,
+  ArchitectureRule,
+  ArchitectureRuleSet,
+  ArchitectureNodeSelector,
+  ArchitectureViolation,
+} from '../types/relations';
+
+const RULES_FILE_NAME = 'architecture-rules.json';
+
+const RULES_VERSION = '1.0.0';
+
+const RULE_KINDS: ArchitectureRule['kind'][] = ['forbidden', 'allowed', 'no-cycles'];
+
+/** Template written by "Crear reglas de arquitectura" */
+const DEFAULT_RULE_SET: ArchitectureRuleSet = {
+  version: RULES_VERSION,
+  rules: [
+    {
+      id: 'controllers-no-repositories',
+      description: 'Los controllers acceden a datos a través de services, nunca a repositorios directamente',
+      kind: 'forbidden',
+      from: { types: ['controller', 'handler'] },
+      to: { types: ['repository', 'dao'] },
+      severity: 'error'
+    },
+    {
+      id: 'repositories-no-upper-layers',
+      description: 'La capa de datos no depende de controllers ni services',
+      kind: 'forbidden',
+      from: { types: ['repository', 'dao'] },
+      to: { types: ['controller', 'handler', 'service'] },
+      severity: 'error'
+    },
+    {
+      id: 'no-module-cycles',
+      description: 'Sin dependencias circulares entre módulos',
+      kind: 'no-cycles',
+      scope: 'module',
+      severity: 'warning'
+    }
+  ]
+};
+
+// ============================================
+// Rules File
+// ============================================
+
+/**
+ * Get the path to the architecture-rules.json file of a project
+ * (stored next to relations.json)
+ */
+export function getArchitectureRulesPath(projectId: string): string | null {
+  const mbPath = getMemoryBankService().getMemoryBankPath();
+  if (!mbPath) return null;
+  return path.join(mbPath, 'projects', projectId, RULES_FILE_NAME);
+}
+
+/**
+ * Load the rules of a project
+ * @returns null when the project has no rules file
+ * @throws if the file is not valid JSON or a rule is malformed
+ */
+export async function loadArchitectureRules(projectId: string): Promise<ArchitectureRuleSet | null> {
+  const rulesPath = getArchitectureRulesPath(projectId);
+  if (!rulesPath || !fs.existsSync(rulesPath)) {
+    return null;
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(rulesPath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid ${RULES_FILE_NAME}: ${error.message}`);
+  }
+
+  return validateRuleSet(raw);
+}
+
+/**
+ * Write the default rules template for a project (kept if it already exists)
+ * @returns Path of the rules file
+ */
+export async function createDefaultArchitectureRules(projectId: string): Promise<string | null> {
+  const rulesPath = getArchitectureRulesPath(projectId);
+  if (!rulesPath) return null;
+
+  if (!fs.existsSync(rulesPath)) {
+    fs.mkdirSync(path.dirname(rulesPath), { recursive: true });
+    fs.writeFileSync(rulesPath, JSON.stringify(DEFAULT_RULE_SET, null, 2), 'utf-8');
+  }
+  return rulesPath;
+}
+
+function validateRuleSet(raw: any): ArchitectureRuleSet {
+  if (!raw || !Array.isArray(raw.rules)) {
+    throw new Error(`Invalid ${RULES_FILE_NAME}: expected a "rules" array`);
+  }
+
+  const seen = new Set<string>();
+  raw.rules.forEach((rule: any, index: number) => {
+    const where = `rule ${rule?.id || `#${index + 1}`}`;
+    if (!rule || typeof rule.id !== 'string' || !rule.id) {
+      throw new Error(`Invalid ${RULES_FILE_NAME}: rule #${index + 1} has no id`);
+    }
+    if (seen.has(rule.id)) {
+      throw new Error(`Invalid ${RULES_FILE_NAME}: duplicated ${where}`);
+    }
+    seen.add(rule.id);
+    if (!RULE_KINDS.includes(rule.kind)) {
+      throw new Error(`Invalid ${RULES_FILE_NAME}: ${where} has unknown kind "${rule.kind}" (expected ${RULE_KINDS.join(', ')})`);
+    }
+    if (rule.kind !== 'no-cycles' && (!rule.from || !rule.to)) {
+      throw new Error(`Invalid ${RULES_FILE_NAME}: ${where} needs "from" and "to" selectors`);
+    }
+    for (const selector of [rule.from, rule.to]) {
+      if (selector?.name) {
+        try {
+          new RegExp(selector.name);
+        } catch {
+          throw new Error(`Invalid ${RULES_FILE_NAME}: ${where} has an invalid name pattern "${selector.name}"`);
+        }
+      }
+    }
+  });
+
+  return {
+    version: raw.version || RULES_VERSION,
+    rules: raw.rules as ArchitectureRule[]
+  };
+}
+
+// ============================================
+// Node Selectors
+// ============================================
+
+type NodeMatcher = (node: RelationNode) => boolean;
+
+function compileSelector(selector?: ArchitectureNodeSelector): NodeMatcher {
+  if (!selector) return () => true;
+
+  const pathRegex = selector.path ? globToRegex(selector.path) : null;
+  const nameRegex = selector.name ? new RegExp(selector.name) : null;
+
+  return (node: RelationNode) =>
+    (!selector.types || selector.types.includes(node.type)) &&
+    (!pathRegex || pathRegex.test(node.filePath.replace(/\\/g, '/'))) &&
+    (!nameRegex || nameRegex.test(node.name));
+}
+
+// ============================================
+// Graph Helpers
+// ============================================
+
+/**
+ * Shortest path between two members of the same component (breadth-first)
+ */
+function findPathWithin(from: string, to: string, adjacency: Map<string, string[]>, members: Set<string>): string[] {
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) break;
+    for (const next of adjacency.get(current) || []) {
+      if (!members.has(next) || previous.has(next)) continue;
+      previous.set(next, current);
+      queue.push(next);
+    }
+  }
+
+  const result = [to];
+  let current = to;
+  while (current !== from && previous.has(current)) {
+    current = previous.get(current)!;
+    result.unshift(current);
+  }
+  return result;
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Evaluate every enabled rule against the relations graph
+ */
+export function evaluateArchitectureRules(
+  relations: ProjectRelations,
+  ruleSet: ArchitectureRuleSet
+): ArchitectureViolation[] {
+  const nodesById = new Map(relations.nodes.map(n => [n.id, n] as [string, RelationNode]));
+  const violations: ArchitectureViolation[] = [];
+
+  for (const rule of ruleSet.rules) {
+    if (rule.enabled === false) continue;
+
+    const edges = relations.edges.filter(edge =>
+      edge.source !== edge.target &&
+      nodesById.has(edge.source) &&
+      nodesById.has(edge.target) &&
+      (!rule.edgeTypes || rule.edgeTypes.includes(edge.type))
+    );
+
+    if (rule.kind === 'no-cycles') {
+      violations.push(...findCycleViolations(rule, edges, nodesById));
+    } else {
+      violations.push(...findDependencyViolations(rule, edges, nodesById));
+    }
+  }
+
+  console.log(`[Architecture] ${violations.length} violations of ${ruleSet.rules.length} rules in ${relations.projectId}`);
+  return violations;
+}
+
+function findDependencyViolations(
+  rule: ArchitectureRule,
+  edges: RelationEdge[],
+  nodesById: Map<string, RelationNode>
+): ArchitectureViolation[] {
+  const matchesFrom = compileSelector(rule.from);
+  const matchesTo = compileSelector(rule.to);
+  const violations: ArchitectureViolation[] = [];
+
+  for (const edge of edges) {
+    const source = nodesById.get(edge.source)!;
+    const target = nodesById.get(edge.target)!;
+    if (!matchesFrom(source)) continue;
+
+    const broken = rule.kind === 'forbidden' ? matchesTo(target) : !matchesTo(target);
+    if (!broken) continue;
+
+    const reason = rule.description || (rule.kind === 'forbidden' ? 'dependencia prohibida' : 'dependencia no permitida');
+    violations.push({
+      ruleId: rule.id,
+      severity: rule.severity || 'warning',
+      message: `[${rule.id}] ${source.name} ${edge.type} ${target.name}: ${reason}`,
+      source,
+      target,
+      edge
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Report every dependency that closes a cycle, between nodes or between
+ * modules (directories) depending on the rule scope
+ */
+function findCycleViolations(
+  rule: ArchitectureRule,
+  edges: RelationEdge[],
+  nodesById: Map<string, RelationNode>
+): ArchitectureViolation[] {
+  const byModule = rule.scope === 'module';
+  const groupOf = (node: RelationNode) =>
+    byModule ? path.posix.dirname(node.filePath.replace(/\\/g, '/')) : node.id;
+  const labelOf = (group: string) =>
+    byModule ? group : nodesById.get(group)!.name;
+
+  // Group graph (deduplicated)
+  const adjacency = new Map<string, string[]>();
+  const crossing: { edge: RelationEdge; from: string; to: string }[] = [];
+  for (const edge of edges) {
+    const from = groupOf(nodesById.get(edge.source)!);
+    const to = groupOf(nodesById.get(edge.target)!);
+    if (from === to) continue;
+
+    crossing.push({ edge, from, to });
+    if (!adjacency.has(from)) adjacency.set(from, []);
+    if (!adjacency.get(from)!.includes(to)) adjacency.get(from)!.push(to);
+  }
+
+  const componentOf = new Map<string, Set<string>>();
+  for (const component of findStronglyConnectedComponents(Array.from(adjacency.keys()), adjacency)) {
+    if (component.length < 2) continue;
+    const members = new Set(component);
+    component.forEach(group => componentOf.set(group, members));
+  }
+
+  const violations: ArchitectureViolation[] = [];
+  for (const { edge, from, to } of crossing) {
+    const members = componentOf.get(from);
+    if (!members || !members.has(to)) continue;
+
+    const cycle = [from, ...findPathWithin(to, from, adjacency, members)].map(labelOf);
+    const source = nodesById.get(edge.source)!;
+    const target = nodesById.get(edge.target)!;
+    violations.push({
+      ruleId: rule.id,
+      severity: rule.severity || 'warning',
+      message: `[${rule.id}] Dependencia circular${byModule ? ' entre módulos' : ''}: ${cycle.join(' → ')}` +
+        (byModule ? ` (${source.name} → ${target.name})` : ''),
+      source,
+      target,
+      edge,
+      cycle
+    });
+  }
+
+  return violations;
+}
+
+// ============================================
+// Locations
+// ============================================
+
+/**
+ * Find the line (0-based) where a violation should be reported: the import or
+ * usage of the target in the source file, falling back to the node start
+ */
+export function locateViolation(
+  violation: ArchitectureViolation,
+  fileCache: Map<string, string[] | null> = new Map()
+): { filePath: string; line: number } {
+  const filePath = resolveNodeFilePath(violation.source.filePath);
+  const fallback = Math.max(0, (violation.source.startLine || 1) - 1);
+  if (!violation.target) {
+    return { filePath, line: fallback };
+  }
+
+  if (!fileCache.has(filePath)) {
+    try {
+      fileCache.set(filePath, fs.readFileSync(filePath, 'utf-8').split(/\r?\n/));
+    } catch {
+      fileCache.set(filePath, null);
+    }
+  }
+  const lines = fileCache.get(filePath);
+  if (!lines) {
+    return { filePath, line: fallback };
+  }
+
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const moduleName = path.basename(violation.target.filePath).replace(/\.[^.]+$/, '');
+  const nameRegex = new RegExp(`\\b${escape(violation.target.name)}\\b`);
+  const moduleRegex = new RegExp(`[/'"]${escape(moduleName)}['"./]`);
+  const importRegex = /^\s*(import|from|using|require|#include|use)\b|require\(/;
+
+  const importLine = lines.findIndex(line => importRegex.test(line) && (moduleRegex.test(line) || nameRegex.test(line)));
+  if (importLine >= 0) return { filePath, line: importLine };
+
+  const usageLine = lines.findIndex(line => nameRegex.test(line));
+  return { filePath, line: usageLine >= 0 ? usageLine : fallback };
+}
+
+/**
+ * Locate every violation, reading each source file once, and store the
+ * result on the violation so views don't hit the disk again
+ */
+export function locateViolations(violations: ArchitectureViolation[]): ArchitectureViolation[] {
+  const fileCache = new Map<string, string[] | null>();
+  for (const violation of violations) {
+    violation.location = locateViolation(violation, fileCache);
+  }
+  return violations;
+}
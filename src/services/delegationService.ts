@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Delegation Service
+ * Lifecycle of the requests a Memory Bank project delegates to another one
+ * (external requests): creation, status transitions mirrored to the
+ * originating project, result summary and timeline
+ */
+
+import { SqliteService } from './SqliteService';
+import { DelegationEvent, DelegationStatus, ExternalRequest } from '../types/db';
+
+/** Allowed status transitions of an external request */
+const TRANSITIONS: Record<DelegationStatus, DelegationStatus[]> = {
+  PENDING: ['ACCEPTED', 'REJECTED'],
+  ACCEPTED: ['IN_PROGRESS', 'COMPLETED'],
+  IN_PROGRESS: ['COMPLETED'],
+  REJECTED: [],
+  COMPLETED: []
+};
+
+/** Heading of the acceptance criteria section appended to the request description */
+const CRITERIA_HEADING = 'Acceptance criteria:';
+
+export interface DelegationInput {
+  fromProject: string;
+  targetProject: string;
+  title: string;
+  context: string;
+  acceptanceCriteria: string[];
+  actor: string;
+}
+
+export interface DelegationResult {
+  success: boolean;
+  request?: ExternalRequest;
+  error?: string;
+}
+
+export function normalizeDelegationStatus(status: string): DelegationStatus | null {
+  const normalized = (status || '').trim().toUpperCase();
+  return normalized in TRANSITIONS ? normalized as DelegationStatus : null;
+}
+
+/**
+ * Statuses an external request can move to from its current status
+ */
+export function getNextStatuses(status: string): DelegationStatus[] {
+  const current = normalizeDelegationStatus(status);
+  return current ? TRANSITIONS[current] : [];
+}
+
+/**
+ * Build the description stored in the tasks table: the context followed by
+ * the acceptance criteria, readable by the agents of the target project
+ */
+export function formatDelegationDescription(context: string, acceptanceCriteria: string[]): string {
+  const criteria = acceptanceCriteria.map(c => c.trim()).filter(c => c.length > 0);
+  if (criteria.length === 0) {
+    return context.trim();
+  }
+  return `${context.trim()}\n\n${CRITERIA_HEADING}\n${criteria.map(c => `- ${c}`).join('\n')}`;
+}
+
+/**
+ * Split a request description back into context and acceptance criteria
+ */
+export function parseDelegationDescription(description: string): { context: string; acceptanceCriteria: string[] } {
+  const text = description || '';
+  const index = text.lastIndexOf(CRITERIA_HEADING);
+  if (index === -1) {
+    return { context: text.trim(), acceptanceCriteria: [] };
+  }
+
+  const acceptanceCriteria = text.slice(index + CRITERIA_HEADING.length)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('- '))
+    .map(line => line.slice(2).trim());
+  return { context: text.slice(0, index).trim(), acceptanceCriteria };
+}
+
+/**
+ * Create an external request in the target project
+ */
+export async function createDelegation(sqlite: SqliteService, input: DelegationInput): Promise<DelegationResult> {
+  const title = input.title.trim();
+  if (!title) {
+    return { success: false, error: 'The request needs a title' };
+  }
+  if (!input.targetProject || input.targetProject === input.fromProject) {
+    return { success: false, error: 'The target project must be a different project' };
+  }
+
+  const now = new Date().toISOString();
+  const request: ExternalRequest = {
+    id: `EXT-${Date.now().toString(36).toUpperCase()}`,
+    projectId: input.targetProject,
+    title,
+    fromProject: input.fromProject,
+    context: formatDelegationDescription(input.context, input.acceptanceCriteria),
+    status: 'PENDING',
+    receivedAt: now
+  };
+  const event: DelegationEvent = {
+    requestId: request.id,
+    projectId: request.projectId,
+    fromProject: request.fromProject,
+    status: 'PENDING',
+    actor: input.actor,
+    timestamp: now
+  };
+
+  const message = `New request ${request.id} from ${request.fromProject}: ${title}`;
+  if (!(await sqlite.createDelegation(request, event, message))) {
+    return { success: false, error: 'Could not write the request to agentboard.db' };
+  }
+  return { success: true, request };
+}
+
+/**
+ * Move an external request to a new status. The change is recorded in the
+ * timeline and notified to the originating project
+ * @param note - Reason of a rejection or result summary of a completion (required)
+ */
+export async function transitionDelegation(
+  sqlite: SqliteService,
+  requestId: string,
+  status: DelegationStatus,
+  actor: string,
+  note?: string
+): Promise<DelegationResult> {
+  const request = sqlite.getExternalRequest(requestId);
+  if (!request) {
+    return { success: false, error: `Request ${requestId} not found` };
+  }
+
+  if (!getNextStatuses(request.status).includes(status)) {
+    return { success: false, error: `Request ${requestId} cannot go from ${request.status} to ${status}` };
+  }
+
+  const summary = (note || '').trim();
+  if (status === 'COMPLETED' && !summary) {
+    return { success: false, error: 'Completing a request requires a result summary' };
+  }
+
+  const event: DelegationEvent = {
+    requestId,
+    projectId: request.projectId,
+    fromProject: request.fromProject,
+    status,
+    actor,
+    note: summary || undefined,
+    timestamp: new Date().toISOString()
+  };
+  const message = `Request ${requestId} (${request.title}) delegated to ${request.projectId} is now ${status}` +
+    (summary ? `: ${summary}` : '');
+
+  if (!(await sqlite.transitionDelegation(event, request.status, message))) {
+    const current = sqlite.getExternalRequest(requestId);
+    if (!current || current.status !== request.status) {
+      return { success: false, error: `Request ${requestId} was changed meanwhile (now ${current ? current.status : 'removed'})` };
+    }
+    return { success: false, error: 'Could not write the status change to agentboard.db' };
+  }
+  return { success: true, request: { ...request, status } };
+}
+
+/**
+ * Timeline of each request, oldest event first. Requests created outside the
+ * extension (MCP server) have no creation event, so it is derived from the request
+ */
+export function getDelegationTimelines(sqlite: SqliteService, requests: ExternalRequest[]): Record<string, DelegationEvent[]> {
+  const events = sqlite.getDelegationEvents(requests.map(r => r.id));
+  const timelines: Record<string, DelegationEvent[]> = {};
+
+  for (const request of requests) {
+    const timeline = events.filter(e => e.requestId === request.id);
+    if (!timeline.some(e => e.status === 'PENDING')) {
+      timeline.unshift({
+        requestId: request.id,
+        projectId: request.projectId,
+        fromProject: request.fromProject,
+        status: 'PENDING',
+        actor: request.fromProject,
+        timestamp: request.receivedAt
+      });
+    }
+    timelines[request.id] = timeline;
+  }
+
+  return timelines;
+}
+
+/**
+ * Result summary attached when the request was completed
+ */
+export function getDelegationResult(timeline: DelegationEvent[]): string | undefined {
+  const completed = timeline.filter(e => e.status === 'COMPLETED');
+  return completed.length > 0 ? completed[completed.length - 1].note : undefined;
+}
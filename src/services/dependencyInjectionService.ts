@@ -0,0 +1,635 @@
+/**
+ * @fileoverview Dependency Injection Service
+ * Extracts providers (injectable classes, beans, tokens) and injection sites from
+ * Spring and NestJS sources, and builds the DI graph of a project: which provider
+ * is injected where, unresolved injections, providers never injected and
+ * circular injection chains
+ */
+
+import {
+  FrameworkType,
+  FrameworkAnalysis,
+  DiScope,
+  DiProvider,
+  DiInjection,
+  DiEdge,
+  DiCycle,
+  DiGraph,
+} from '../types/framework';
+import { findStronglyConnectedComponents } from './relationsMetricsService';
+
+// ============================================
+// Shared helpers
+// ============================================
+
+/** Annotation or decorator with optional arguments (one level of nested parentheses) */
+const ANNOTATION = String.raw`@[\w.]+(?:\s*\((?:[^()]|\([^()]*\))*\))?`;
+
+/**
+ * Line number (1-based) of an offset
+ */
+function lineAt(content: string, index: number): number {
+  return (content.substring(0, index).match(/\n/g) || []).length + 1;
+}
+
+/**
+ * Read the text between the parenthesis at `openIndex` and its matching one
+ * @returns The inner text and the index after the closing parenthesis
+ */
+function readParenthesized(content: string, openIndex: number): { inner: string; end: number } | null {
+  let depth = 0;
+  for (let i = openIndex; i < content.length; i++) {
+    if (content[i] === '(') depth++;
+    else if (content[i] === ')') {
+      depth--;
+      if (depth === 0) {
+        return { inner: content.substring(openIndex + 1, i), end: i + 1 };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove annotations/decorators (with their arguments, at any nesting depth) from a declaration
+ */
+function stripAnnotations(declaration: string): string {
+  let result = '';
+  let index = 0;
+  const annotation = /@[\w.]+\s*/g;
+  let match;
+  while ((match = annotation.exec(declaration)) !== null) {
+    result += declaration.substring(index, match.index);
+    index = match.index + match[0].length;
+    if (declaration[index] === '(') {
+      index = readParenthesized(declaration, index)?.end ?? declaration.length;
+    }
+    annotation.lastIndex = index;
+  }
+  return result + declaration.substring(index);
+}
+
+/**
+ * Split a parameter list on top-level commas (ignoring generics and nested calls)
+ */
+function splitParameters(params: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of params) {
+    if (char === '<' || char === '(' || char === '[' || char === '{') depth++;
+    // The '>' of an arrow function ("forwardRef(() => X)") does not close a generic
+    else if ((char === '>' && !current.endsWith('=')) || char === ')' || char === ']' || char === '}') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current);
+  return parts.map(part => part.trim()).filter(part => part.length > 0);
+}
+
+/**
+ * Parameters of the parenthesized list at `openIndex`, with the offset of each one
+ * (so injection sites point to the parameter line)
+ */
+function readParameters(content: string, openIndex: number): { params: { text: string; index: number }[]; end: number } | null {
+  const list = readParenthesized(content, openIndex);
+  if (!list) return null;
+
+  let cursor = 0;
+  const params = splitParameters(list.inner).map(text => {
+    const offset = list.inner.indexOf(text, cursor);
+    cursor = offset + text.length;
+    return { text, index: openIndex + 1 + offset };
+  });
+  return { params, end: list.end };
+}
+
+/**
+ * Simple name of a (possibly qualified or generic) type: "java.util.List<Foo>" -> "List"
+ */
+function simpleTypeName(type: string): string {
+  return type.replace(/<[\s\S]*$/, '').trim().split('.').pop() || type;
+}
+
+/**
+ * Type names of an "extends A, B" / "implements C<D>" list
+ */
+function typeList(list: string): string[] {
+  return splitParameters(list).map(simpleTypeName).filter(name => /^\w+$/.test(name));
+}
+
+/**
+ * All matches of a global regular expression
+ */
+function execAll(content: string, regex: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  const global = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`);
+  let match;
+  while ((match = global.exec(content)) !== null) {
+    matches.push(match);
+  }
+  return matches;
+}
+
+/**
+ * Type declarations of a file with the text up to the next declaration
+ */
+function findDeclarations(content: string, pattern: RegExp): { match: RegExpExecArray; body: string }[] {
+  const matches = execAll(content, pattern);
+  return matches.map((m, i) => ({
+    match: m,
+    body: content.substring(m.index + m[0].length, i + 1 < matches.length ? matches[i + 1].index : content.length),
+  }));
+}
+
+// ============================================
+// Spring (Java)
+// ============================================
+
+/** Stereotype annotations and whether the class is an entry point (not meant to be injected) */
+const SPRING_STEREOTYPES: Record<string, boolean> = {
+  'Service': false,
+  'Repository': false,
+  'Component': false,
+  'Controller': true,
+  'RestController': true,
+  'Configuration': true,
+  'ControllerAdvice': true,
+  'RestControllerAdvice': true,
+};
+
+/** Spring Data base interfaces: their sub-interfaces are registered as repositories */
+const SPRING_DATA_REPOSITORIES = /^(?:Jpa|Crud|ListCrud|PagingAndSorting|ListPagingAndSorting|Mongo|ReactiveCrud|ReactiveMongo|R2dbc|Elasticsearch|Neo4j)Repository$/;
+
+/** Wrappers whose generic argument is the injected type */
+const JAVA_WRAPPERS = new Set(['List', 'Set', 'Collection', 'Map', 'Optional', 'ObjectProvider', 'ObjectFactory', 'Provider', 'Lazy']);
+
+/** Types that are never beans of the project (values, primitives) */
+const JAVA_VALUE_TYPES = new Set([
+  'String', 'Object', 'Integer', 'Long', 'Boolean', 'Double', 'Float', 'Short', 'Byte', 'Character', 'Number',
+  'int', 'long', 'boolean', 'double', 'float', 'short', 'byte', 'char', 'Duration', 'Class',
+]);
+
+const JAVA_TYPE_DECLARATION = new RegExp(
+  String.raw`((?:${ANNOTATION}\s*)*)(?:(?:public|protected|private|abstract|final|static|sealed|non-sealed)\s+)*(class|interface)\s+(\w+)(?:\s*<[^{]*?>)?([^{;]*)\{`,
+  'g'
+);
+
+const JAVA_BEAN_METHOD = new RegExp(
+  String.raw`@Bean\b(?:\s*\(((?:[^()]|\([^()]*\))*)\))?\s*((?:${ANNOTATION}\s*)*)(?:(?:public|protected|private|static|final)\s+)*([\w.]+(?:\s*<[^>(]*>)?)\s+(\w+)\s*\(`,
+  'g'
+);
+
+/**
+ * Scope declared by Spring annotations (singleton by default)
+ */
+function springScope(annotations: string): DiScope {
+  if (/@RequestScope\b/.test(annotations)) return 'request';
+  if (/@SessionScope\b/.test(annotations)) return 'session';
+  if (/@ApplicationScope\b/.test(annotations)) return 'application';
+  const scope = annotations.match(/@Scope\s*\(\s*(?:(?:value|scopeName)\s*=\s*)?(?:"(\w+)"|[\w.]*SCOPE_(\w+))/);
+  const name = (scope?.[1] || scope?.[2] || '').toLowerCase();
+  return ['prototype', 'request', 'session', 'application'].includes(name) ? name as DiScope : 'singleton';
+}
+
+/**
+ * Root package of a qualified name ("com.acme.users.UserService" -> "com.acme")
+ */
+function rootPackage(qualifiedName: string): string {
+  return qualifiedName.split('.').slice(0, 2).join('.');
+}
+
+/**
+ * Parse a Java parameter or field declaration ("@Qualifier("a") final List<Foo> foos")
+ * @returns The injected type and name, or null for values (@Value, primitives, strings)
+ */
+function parseJavaParameter(param: string): { type: string; name: string } | null {
+  if (/@Value\b/.test(param)) return null;
+
+  const declaration = stripAnnotations(param)
+    .replace(/\bfinal\s+/g, '')
+    .trim();
+  const match = declaration.match(/^([\w.]+)(?:\s*<([\s\S]*)>)?(?:\s*\[\])*(?:\.\.\.)?\s+(\w+)$/);
+  if (!match) return null;
+
+  let type = simpleTypeName(match[1]);
+  if (JAVA_WRAPPERS.has(type) && match[2]) {
+    // Map<String, Foo> injects every Foo: the last generic argument is the bean type
+    const args = splitParameters(match[2]);
+    type = simpleTypeName(args[args.length - 1].replace(/^\?\s*extends\s+/, ''));
+  }
+  if (JAVA_VALUE_TYPES.has(type)) return null;
+  return { type, name: match[3] };
+}
+
+/**
+ * Providers and injections of a Spring source file
+ */
+function extractSpringFacts(filePath: string, content: string): { providers: DiProvider[]; injections: DiInjection[] } {
+  const providers: DiProvider[] = [];
+  const injections: DiInjection[] = [];
+
+  const ownPackage = content.match(/^\s*package\s+([\w.]+)\s*;/m)?.[1] || '';
+  const imports = new Map<string, string>();
+  for (const match of execAll(content, /^\s*import\s+(?:static\s+)?([\w.]+)\s*;/gm)) {
+    imports.set(match[1].split('.').pop()!, match[1]);
+  }
+  // Types imported from another root package are framework/library types
+  const isExternal = (type: string) => {
+    if (JAVA_VALUE_TYPES.has(type)) return true;
+    const qualified = imports.get(type);
+    return !!qualified && !!ownPackage && rootPackage(qualified) !== rootPackage(ownPackage);
+  };
+
+  const addInjection = (consumer: string, param: string, via: DiInjection['via'], index: number) => {
+    const parsed = parseJavaParameter(param);
+    if (!parsed) return;
+    injections.push({
+      consumer,
+      type: parsed.type,
+      name: parsed.name,
+      via,
+      external: isExternal(parsed.type),
+      framework: 'spring-boot',
+      filePath,
+      line: lineAt(content, index),
+    });
+  };
+
+  for (const { match, body } of findDeclarations(content, JAVA_TYPE_DECLARATION)) {
+    const annotations = match[1] || '';
+    const kind = match[2];
+    const name = match[3];
+    const clause = match[4] || '';
+    const bodyStart = match.index + match[0].length;
+
+    const extendsList = typeList(clause.match(/\bextends\s+([\s\S]+?)(?=\bimplements\b|$)/)?.[1] || '');
+    const implementsList = typeList(clause.match(/\bimplements\s+([\s\S]+)$/)?.[1] || '');
+    const stereotype = execAll(annotations, /@([\w.]+)/g)
+      .map(m => m[1].split('.').pop()!)
+      .find(annotation => annotation in SPRING_STEREOTYPES);
+    const isDataRepository = kind === 'interface' && extendsList.some(type => SPRING_DATA_REPOSITORIES.test(type));
+
+    if (!stereotype && !isDataRepository) continue;
+
+    providers.push({
+      name,
+      providesTypes: [name, ...extendsList.filter(type => !SPRING_DATA_REPOSITORIES.test(type)), ...implementsList],
+      registeredBy: stereotype ? `@${stereotype}` : extendsList.find(type => SPRING_DATA_REPOSITORIES.test(type))!,
+      entryPoint: stereotype ? SPRING_STEREOTYPES[stereotype] : false,
+      scope: springScope(annotations),
+      framework: 'spring-boot',
+      filePath,
+      line: lineAt(content, match.index + match[1].length),
+    });
+
+    if (kind === 'interface') continue;
+
+    // Constructor injection
+    let hasConstructor = false;
+    const constructorRegex = new RegExp(String.raw`\b${name}\s*\(`, 'g');
+    let ctor;
+    while ((ctor = constructorRegex.exec(body)) !== null) {
+      if (/\bnew\s+$/.test(body.substring(0, ctor.index))) continue;
+      const list = readParameters(body, ctor.index + ctor[0].length - 1);
+      if (!list || !/^\s*(?:throws[^{;]*)?\{/.test(body.substring(list.end))) continue;
+      hasConstructor = true;
+      for (const param of list.params) {
+        addInjection(name, param.text, 'constructor', bodyStart + param.index);
+      }
+    }
+
+    // Lombok generated constructors
+    if (!hasConstructor && /@(?:RequiredArgsConstructor|AllArgsConstructor)\b/.test(annotations)) {
+      const allArgs = /@AllArgsConstructor\b/.test(annotations);
+      const fieldRegex = /^[ \t]*((?:@[\w.]+(?:\([^)]*\))?\s*)*)(?:(?:private|protected|public)\s+)?((?:final\s+)?)(?!static\b|return\b)([\w.]+(?:\s*<[^;=()]*>)?)\s+(\w+)\s*;/gm;
+      let field;
+      while ((field = fieldRegex.exec(body)) !== null) {
+        if (!allArgs && !field[2]) continue;
+        addInjection(name, `${field[1]}${field[3]} ${field[4]}`, 'constructor', bodyStart + field.index);
+      }
+    }
+
+    // Field injection
+    const fieldInjection = new RegExp(
+      String.raw`@(?:Autowired|Inject|Resource)\b(?:\s*\([^)]*\))?\s*((?:${ANNOTATION}\s*)*)(?:(?:private|protected|public|final)\s+)*([\w.]+(?:\s*<[^;=()]*>)?)\s+(\w+)\s*;`,
+      'g'
+    );
+    let injected;
+    while ((injected = fieldInjection.exec(body)) !== null) {
+      addInjection(name, `${injected[1]}${injected[2]} ${injected[3]}`, 'field', bodyStart + injected.index);
+    }
+
+    // Setter injection
+    const setterInjection = /@Autowired\b(?:\s*\([^)]*\))?\s*(?:public\s+)?void\s+\w+\s*\(/g;
+    let setter;
+    while ((setter = setterInjection.exec(body)) !== null) {
+      for (const param of readParameters(body, setter.index + setter[0].length - 1)?.params || []) {
+        addInjection(name, param.text, 'setter', bodyStart + param.index);
+      }
+    }
+
+    // @Bean methods: each bean is a provider, its parameters are its dependencies
+    const beanRegex = new RegExp(JAVA_BEAN_METHOD.source, 'g');
+    let bean;
+    while ((bean = beanRegex.exec(body)) !== null) {
+      const beanName = bean[1]?.match(/["'](\w[\w.-]*)["']/)?.[1] || bean[4];
+      const returnType = simpleTypeName(bean[3]);
+      providers.push({
+        name: beanName,
+        providesTypes: [returnType],
+        registeredBy: '@Bean',
+        entryPoint: false,
+        scope: springScope(bean[2] || ''),
+        framework: 'spring-boot',
+        filePath,
+        line: lineAt(content, bodyStart + bean.index),
+      });
+
+      for (const param of readParameters(body, bean.index + bean[0].length - 1)?.params || []) {
+        addInjection(beanName, param.text, 'bean-parameter', bodyStart + param.index);
+      }
+    }
+  }
+
+  return { providers, injections };
+}
+
+// ============================================
+// NestJS (TypeScript)
+// ============================================
+
+/** Class decorators that register a provider and whether it is an entry point */
+const NEST_DECORATORS: Record<string, boolean> = {
+  'Injectable': false,
+  'Controller': true,
+  'Resolver': true,
+  'WebSocketGateway': true,
+};
+
+/** Types that are never providers */
+const TS_VALUE_TYPES = new Set(['string', 'number', 'boolean', 'any', 'unknown', 'object', 'Object', 'String', 'Number', 'Boolean']);
+
+const NEST_CLASS_DECLARATION = new RegExp(
+  String.raw`@(Injectable|Controller|Resolver|WebSocketGateway)\s*\(((?:[^()]|\([^()]*\))*)\)\s*((?:${ANNOTATION}\s*)*)(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+)(?:\s*<[^{]*?>)?([^{]*)\{`,
+  'g'
+);
+
+/**
+ * Providers and injections of a NestJS source file
+ */
+function extractNestFacts(filePath: string, content: string): { providers: DiProvider[]; injections: DiInjection[] } {
+  const providers: DiProvider[] = [];
+  const injections: DiInjection[] = [];
+
+  // Imported name -> module specifier
+  const imports = new Map<string, string>();
+  for (const match of execAll(content, /import\s+(?:type\s+)?(?:(\w+)\s*,?\s*)?(?:\{([^}]*)\})?\s*from\s*['"]([^'"]+)['"]/g)) {
+    if (match[1]) imports.set(match[1], match[3]);
+    for (const specifier of (match[2] || '').split(',')) {
+      const local = specifier.trim().split(/\s+as\s+/).pop();
+      if (local) imports.set(local, match[3]);
+    }
+  }
+  // Types imported from packages (not relative paths) are framework/library types
+  const isExternal = (type: string) => {
+    const source = imports.get(type);
+    return !!source && !source.startsWith('.') && !source.startsWith('/') && !source.startsWith('src/');
+  };
+
+  for (const { match, body } of findDeclarations(content, NEST_CLASS_DECLARATION)) {
+    const decorator = match[1];
+    const options = match[2] || '';
+    const name = match[4];
+    const clause = match[5] || '';
+    const bodyStart = match.index + match[0].length;
+
+    const scope = options.match(/scope\s*:\s*Scope\.(REQUEST|TRANSIENT)/)?.[1];
+    const extendsList = typeList(clause.match(/\bextends\s+([\s\S]+?)(?=\bimplements\b|$)/)?.[1] || '');
+
+    providers.push({
+      name,
+      // Abstract classes can be used as injection tokens
+      providesTypes: [name, ...extendsList],
+      registeredBy: `@${decorator}`,
+      entryPoint: NEST_DECORATORS[decorator],
+      scope: scope ? scope.toLowerCase() as DiScope : 'singleton',
+      framework: 'nestjs',
+      filePath,
+      line: lineAt(content, match.index),
+    });
+
+    const ctor = body.match(/\bconstructor\s*\(/);
+    if (!ctor || ctor.index === undefined) continue;
+    for (const { text: param, index } of readParameters(body, ctor.index + ctor[0].length - 1)?.params || []) {
+      const line = lineAt(content, bodyStart + index);
+
+      // @Inject(TOKEN) / @Inject(forwardRef(() => UsersService))
+      const token = param.match(/@Inject\s*\(\s*(?:forwardRef\s*\(\s*\(\s*\)\s*=>\s*(\w+)\s*\)|['"]([^'"]+)['"]|([\w.]+))\s*\)/);
+      // TypeORM/Mongoose injections are provided by their modules
+      const library = param.match(/@(InjectRepository|InjectModel|InjectConnection|InjectDataSource|InjectEntityManager)\s*\(\s*(\w*)/);
+      const declaration = stripAnnotations(param)
+        .replace(/\b(?:private|public|protected|readonly)\s+/g, '')
+        .trim()
+        .match(/^(\w+)\s*\??\s*(?::\s*([\w.]+))?/);
+      if (!declaration) continue;
+
+      let type: string;
+      let via: DiInjection['via'] = 'constructor';
+      let external: boolean;
+      if (library) {
+        type = library[2] ? `${library[1].replace('Inject', '')}<${library[2]}>` : library[1].replace('Inject', '');
+        external = true;
+      } else if (token && (token[2] || token[3])) {
+        type = token[2] || token[3].split('.').pop()!;
+        via = 'token';
+        external = !token[2] && isExternal(token[3].split('.')[0]);
+      } else {
+        type = token?.[1] || simpleTypeName(declaration[2] || '');
+        if (!type || TS_VALUE_TYPES.has(type)) continue;
+        external = isExternal(type);
+      }
+
+      injections.push({ consumer: name, type, name: declaration[1], via, external, framework: 'nestjs', filePath, line });
+    }
+  }
+
+  // Custom providers of modules: { provide: TOKEN, useFactory, inject: [A, B] }
+  const provideRegex = /\bprovide\s*:\s*(?:['"]([^'"]+)['"]|([\w.]+))/g;
+  let provide;
+  while ((provide = provideRegex.exec(content)) !== null) {
+    const token = provide[1] || provide[2].split('.').pop()!;
+    if (providers.some(p => p.name === token)) continue;
+
+    const objectStart = content.lastIndexOf('{', provide.index);
+    const objectEnd = content.indexOf('}', provide.index);
+    const definition = content.substring(objectStart, objectEnd > 0 ? objectEnd : content.length);
+    const line = lineAt(content, provide.index);
+
+    providers.push({
+      name: token,
+      providesTypes: [token],
+      registeredBy: 'provide',
+      entryPoint: false,
+      scope: /scope\s*:\s*Scope\.REQUEST/.test(definition) ? 'request' : /scope\s*:\s*Scope\.TRANSIENT/.test(definition) ? 'transient' : 'singleton',
+      framework: 'nestjs',
+      filePath,
+      line,
+    });
+
+    const inject = definition.match(/\binject\s*:\s*\[([^\]]*)\]/);
+    for (const dependency of splitParameters(inject?.[1] || '')) {
+      const type = dependency.replace(/['"]/g, '').split('.').pop()!;
+      if (!/^\w+$/.test(type)) continue;
+      injections.push({ consumer: token, type, via: 'token', external: isExternal(type), framework: 'nestjs', filePath, line });
+    }
+  }
+
+  return { providers, injections };
+}
+
+// ============================================
+// Extraction entry point
+// ============================================
+
+/**
+ * Extract the providers and injection sites of a source file
+ * (Spring for .java files, NestJS for .ts files)
+ */
+export function extractInjectionFacts(
+  filePath: string,
+  content: string,
+  frameworks: FrameworkType[]
+): { providers: DiProvider[]; injections: DiInjection[] } {
+  const lowerPath = filePath.toLowerCase();
+  if (frameworks.includes('spring-boot') && lowerPath.endsWith('.java')) {
+    return extractSpringFacts(filePath, content);
+  }
+  if (frameworks.includes('nestjs') && lowerPath.endsWith('.ts') && !lowerPath.endsWith('.d.ts')) {
+    return extractNestFacts(filePath, content);
+  }
+  return { providers: [], injections: [] };
+}
+
+/**
+ * Whether a framework has DI extraction support
+ */
+export function supportsInjectionGraph(framework: FrameworkType): boolean {
+  return framework === 'spring-boot' || framework === 'nestjs';
+}
+
+// ============================================
+// Graph
+// ============================================
+
+/**
+ * Resolve every injection against the registered providers and find
+ * unresolved injections, providers never injected and circular chains
+ */
+export function buildDiGraph(analysis: FrameworkAnalysis): DiGraph {
+  const providers = analysis.providers || [];
+  const injections = analysis.injections || [];
+
+  const byType = new Map<string, DiProvider[]>();
+  for (const provider of providers) {
+    for (const type of provider.providesTypes) {
+      if (!byType.has(type)) {
+        byType.set(type, []);
+      }
+      byType.get(type)!.push(provider);
+    }
+  }
+
+  const edges: DiEdge[] = [];
+  const unresolved: DiInjection[] = [];
+  let externalCount = 0;
+
+  for (const injection of injections) {
+    const targets = byType.get(injection.type) || [];
+    if (targets.length > 0) {
+      targets.forEach(provider => edges.push({ injection, provider }));
+    } else if (injection.external) {
+      externalCount++;
+    } else {
+      unresolved.push(injection);
+    }
+  }
+
+  const injected = new Set(edges.map(edge => edge.provider));
+  const unused = providers.filter(provider => !provider.entryPoint && !injected.has(provider));
+
+  return {
+    projectId: analysis.projectId,
+    providers,
+    edges,
+    unresolved,
+    unused,
+    cycles: findInjectionCycles(edges),
+    externalCount,
+  };
+}
+
+/**
+ * Circular injection chains: one chain per strongly connected component of
+ * the consumer -> provider graph (plus providers injecting themselves)
+ */
+function findInjectionCycles(edges: DiEdge[]): DiCycle[] {
+  const adjacency = new Map<string, string[]>();
+  const edgeByPair = new Map<string, DiEdge>();
+  for (const edge of edges) {
+    const from = edge.injection.consumer;
+    const to = edge.provider.name;
+    if (!adjacency.has(from)) {
+      adjacency.set(from, []);
+    }
+    if (!adjacency.get(from)!.includes(to)) {
+      adjacency.get(from)!.push(to);
+    }
+    if (!edgeByPair.has(`${from}\u0000${to}`)) {
+      edgeByPair.set(`${from}\u0000${to}`, edge);
+    }
+  }
+
+  const cycles: DiCycle[] = [];
+  for (const component of findStronglyConnectedComponents(Array.from(adjacency.keys()), adjacency)) {
+    const start = component[0];
+    const members = new Set(component);
+    if (component.length === 1 && !(adjacency.get(start) || []).includes(start)) continue;
+
+    // Shortest path inside the component from the start back to itself
+    const previous = new Map<string, string>();
+    const queue = [start];
+    let closing: string | null = null;
+    while (queue.length > 0 && !closing) {
+      const current = queue.shift()!;
+      for (const next of adjacency.get(current) || []) {
+        if (next === start) {
+          closing = current;
+          break;
+        }
+        if (members.has(next) && !previous.has(next)) {
+          previous.set(next, current);
+          queue.push(next);
+        }
+      }
+    }
+    if (!closing) continue;
+
+    const chain = [start];
+    for (let node: string | undefined = closing; node && node !== start; node = previous.get(node)) {
+      chain.splice(1, 0, node);
+    }
+    chain.push(start);
+
+    cycles.push({
+      chain,
+      injections: chain.slice(1).map((to, i) => edgeByPair.get(`${chain[i]}\u0000${to}`)!.injection),
+    });
+  }
+
+  return cycles.sort((a, b) => a.chain.length - b.chain.length || a.chain[0].localeCompare(b.chain[0]));
+}
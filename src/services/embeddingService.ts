@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Embedding Service
+ * Embeds RAG queries with the configured backend:
+ * - provider: the LLM provider assigned to the "embeddings" task (OpenAI, Azure, local server)
+ * - local:    an in-process CPU model run with transformers.js (ONNX), works offline
+ * - auto:     provider first, local model when the provider fails (no network, no key)
+ *
+ * The query vectors only make sense against an index built with the same model,
+ * so the service also checks the query model/dimension against the `code_chunks` table.
+ */
+
+import * as vscode from 'vscode';
+import * as openaiService from './openaiService';
+import * as configManager from '../utils/configManager';
+
+export type EmbeddingBackendId = 'provider' | 'local';
+
+export interface QueryEmbedding {
+  vector: number[];
+  backend: EmbeddingBackendId;
+  model: string;
+}
+
+export type EmbeddingCompatibilityStatus = 'ok' | 'dimension-mismatch' | 'model-mismatch';
+
+export interface EmbeddingCompatibility {
+  status: EmbeddingCompatibilityStatus;
+  indexDimension: number;
+  /** Model the index was built with, when the indexer recorded it */
+  indexModel?: string;
+  queryDimension: number;
+  queryModel: string;
+  queryBackend: EmbeddingBackendId;
+  message: string;
+}
+
+/** Model the Memory Bank indexer uses unless index-metadata.json says otherwise */
+export const DEFAULT_INDEX_MODEL = 'text-embedding-3-small';
+
+/** Default in-process model (384 dimensions, ~25 MB quantized) */
+const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+// transformers.js is loaded on demand (it ships the native ONNX Runtime binaries)
+let transformers: any = null;
+// Pipelines already loaded, by model
+const localPipelines = new Map<string, Promise<any>>();
+
+let lastCompatibility: EmbeddingCompatibility | null = null;
+const compatibilityEmitter = new vscode.EventEmitter<EmbeddingCompatibility | null>();
+
+/** Fired when the result of the index/query compatibility check changes */
+export const onDidChangeCompatibility = compatibilityEmitter.event;
+
+/**
+ * Get the configured embedding backend ('auto', 'provider' or 'local')
+ */
+function getConfiguredBackend(): 'auto' | EmbeddingBackendId {
+  const backend = configManager.getConfig('rag.embeddingBackend', 'auto');
+  return backend === 'provider' || backend === 'local' ? backend : 'auto';
+}
+
+/**
+ * Model used by a backend for query embeddings
+ */
+export function getBackendModel(backend: EmbeddingBackendId): string {
+  if (backend === 'local') {
+    return configManager.getConfig('rag.localEmbeddingModel', '') || DEFAULT_LOCAL_MODEL;
+  }
+  return configManager.getModelForTask('embeddings');
+}
+
+/**
+ * Load (once per model) a transformers.js feature-extraction pipeline
+ */
+async function getLocalPipeline(model: string): Promise<any> {
+  if (!localPipelines.has(model)) {
+    const loading = (async () => {
+      if (!transformers) {
+        transformers = await import('@huggingface/transformers');
+      }
+
+      // Offline models: only read from the configured folder, never download
+      const modelsPath = configManager.getConfig('rag.localModelsPath', '');
+      if (modelsPath) {
+        transformers.env.localModelPath = modelsPath;
+        transformers.env.allowRemoteModels = false;
+      }
+
+      console.log(`[Embeddings] Loading local model ${model}`);
+      return transformers.pipeline('feature-extraction', model, { dtype: 'q8' });
+    })();
+    // Do not cache failures: the next query retries the load
+    loading.catch(() => localPipelines.delete(model));
+    localPipelines.set(model, loading);
+  }
+  return localPipelines.get(model);
+}
+
+/**
+ * Embed a text with a specific backend
+ */
+async function embedWith(backend: EmbeddingBackendId, text: string): Promise<QueryEmbedding> {
+  const model = getBackendModel(backend);
+
+  if (backend === 'local') {
+    const extractor = await getLocalPipeline(model);
+    const output = await extractor(text, { pooling: 'mean', normalize: true });
+    return { vector: Array.from(output.data as Float32Array), backend, model };
+  }
+
+  return { vector: await openaiService.generateEmbeddings(text, model), backend, model };
+}
+
+/**
+ * Embed a RAG query with the configured backend
+ * In 'auto' mode a provider failure falls back to the local model.
+ */
+export async function embedQuery(text: string): Promise<QueryEmbedding> {
+  const configured = getConfiguredBackend();
+  if (configured !== 'auto') {
+    return embedWith(configured, text);
+  }
+
+  try {
+    return await embedWith('provider', text);
+  } catch (error) {
+    console.warn('[Embeddings] Provider embedding failed, using local model:', error instanceof Error ? error.message : error);
+    return embedWith('local', text);
+  }
+}
+
+/**
+ * Compare a query embedding with the index it will be searched against
+ * and remember the result for the Indexed Files view
+ *
+ * @param indexDimension Dimension of the `vector` column of `code_chunks`
+ * @param indexModel Model recorded by the indexer (if any)
+ */
+export function checkCompatibility(
+  query: QueryEmbedding,
+  indexDimension: number,
+  indexModel?: string
+): EmbeddingCompatibility {
+  const expectedModel = indexModel || DEFAULT_INDEX_MODEL;
+  let status: EmbeddingCompatibilityStatus = 'ok';
+  let message = `Consultas con ${query.model} (${query.vector.length} dimensiones), compatibles con el índice`;
+
+  if (query.vector.length !== indexDimension) {
+    status = 'dimension-mismatch';
+    message = `El índice usa vectores de ${indexDimension} dimensiones (${expectedModel}) y las consultas de ${query.vector.length} (${query.model}): la búsqueda vectorial está desactivada, solo se usa búsqueda léxica. ` +
+      `Para usar ${query.model} hace falta un índice construido con ese modelo (reindexar con él) o volver a ${expectedModel} para las consultas`;
+  } else if (normalizeModelName(query.model) !== normalizeModelName(expectedModel)) {
+    status = 'model-mismatch';
+    message = `El índice se construyó con ${expectedModel} y las consultas usan ${query.model}: los resultados vectoriales no serán fiables`;
+  }
+
+  const compatibility: EmbeddingCompatibility = {
+    status,
+    indexDimension,
+    indexModel,
+    queryDimension: query.vector.length,
+    queryModel: query.model,
+    queryBackend: query.backend,
+    message
+  };
+
+  const changed = !lastCompatibility || lastCompatibility.status !== status || lastCompatibility.queryModel !== query.model;
+  lastCompatibility = compatibility;
+  if (changed) {
+    if (status !== 'ok') {
+      console.warn(`[Embeddings] ${message}`);
+    }
+    compatibilityEmitter.fire(compatibility);
+  }
+
+  return compatibility;
+}
+
+/**
+ * Result of the latest compatibility check (null until a query has been embedded)
+ */
+export function getLastCompatibility(): EmbeddingCompatibility | null {
+  return lastCompatibility;
+}
+
+/**
+ * Compare model names ignoring the organization prefix and case
+ * ("Xenova/all-MiniLM-L6-v2" equals "all-minilm-l6-v2")
+ */
+function normalizeModelName(model: string): string {
+  return model.toLowerCase().split('/').pop() || '';
+}
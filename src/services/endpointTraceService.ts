@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Endpoint Trace Service
+ * Connects the framework analysis with the relations graph: starting at the
+ * node that implements an endpoint handler, walks outgoing edges to build the
+ * downstream flow (controller -> services -> repositories -> entities)
+ */
+
+import {
+  ProjectRelations,
+  RelationNode,
+  RelationEdge,
+  EndpointTrace,
+  EndpointTraceLayer,
+  EndpointTraceStep,
+} from '../types/relations';
+import { EndpointInfo } from '../types/framework';
+
+/** Default maximum number of hops from the handler */
+const DEFAULT_MAX_DEPTH = 8;
+
+/** Order of the layers in the flow */
+const LAYER_ORDER: Record<EndpointTraceLayer, number> = {
+  'controller': 0,
+  'service': 1,
+  'repository': 2,
+  'entity': 3,
+  'other': 4,
+};
+
+/**
+ * Layer of a node in the endpoint flow
+ */
+export function getTraceLayer(node: RelationNode): EndpointTraceLayer {
+  switch (node.type) {
+    case 'controller':
+    case 'handler':
+      return 'controller';
+    case 'service':
+      return 'service';
+    case 'repository':
+    case 'dao':
+      return 'repository';
+    case 'model':
+      return 'entity';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Split a handler name into class and method
+ * ("UserController@show", "users#index", "UserController.getUser", "getUser")
+ */
+function splitHandlerName(handlerName: string): { owner?: string; method: string } {
+  const parts = handlerName.split(/@|#|::|\./).filter(part => part.length > 0);
+  const method = parts.pop() || handlerName;
+  return { owner: parts.pop(), method };
+}
+
+/**
+ * Number of trailing path segments two file paths have in common
+ */
+function pathSuffixScore(a: string, b: string): number {
+  const aParts = a.replace(/\\/g, '/').toLowerCase().split('/');
+  const bParts = b.replace(/\\/g, '/').toLowerCase().split('/');
+  let score = 0;
+  while (score < aParts.length && score < bParts.length &&
+         aParts[aParts.length - 1 - score] === bParts[bParts.length - 1 - score]) {
+    score++;
+  }
+  return score;
+}
+
+/**
+ * Find the relations node that implements an endpoint handler
+ *
+ * Nodes of the endpoint file are preferred (the one whose line range contains the
+ * route, then the one declaring the handler method). Routes declared in a routes
+ * file (Laravel, Rails) are resolved by the controller named in the handler.
+ */
+export function findHandlerNode(relations: ProjectRelations, endpoint: EndpointInfo): RelationNode | null {
+  const { owner, method } = splitHandlerName(endpoint.handlerName);
+
+  // Nodes of the endpoint file (longest common path suffix)
+  let bestScore = 0;
+  let candidates: RelationNode[] = [];
+  for (const node of relations.nodes) {
+    const score = pathSuffixScore(node.filePath, endpoint.filePath);
+    const required = Math.min(2, node.filePath.replace(/\\/g, '/').split('/').length);
+    if (score < required || score < bestScore) continue;
+    if (score > bestScore) {
+      bestScore = score;
+      candidates = [];
+    }
+    candidates.push(node);
+  }
+
+  const containing = candidates.find(node =>
+    node.startLine !== undefined && node.endLine !== undefined &&
+    endpoint.line >= node.startLine && endpoint.line <= node.endLine
+  );
+  if (containing) return containing;
+
+  const declaring = candidates.find(node => node.functions.includes(method));
+  if (declaring) return declaring;
+
+  if (owner) {
+    // Rails handlers name the resource ("users#index" -> UsersController)
+    const names = [owner.toLowerCase(), `${owner}controller`.toLowerCase()];
+    const byOwner = relations.nodes.filter(node => names.includes(node.name.toLowerCase()));
+    const ownerNode = byOwner.find(node => node.functions.includes(method)) || byOwner[0];
+    if (ownerNode) return ownerNode;
+  }
+
+  return candidates[0] || null;
+}
+
+/**
+ * Walk outgoing edges from the handler node (breadth-first) and collect the
+ * nodes the endpoint reaches, layer by layer
+ *
+ * When edges record the functions involved, only the edges of the functions in
+ * scope are followed (the handler method first, then the functions it calls).
+ * Entities end the flow: their own dependencies are not walked.
+ *
+ * @param relations - Project relations graph
+ * @param endpoint - Endpoint detected by the framework analysis
+ * @param maxDepth - Maximum number of hops from the handler
+ */
+export function traceEndpoint(
+  relations: ProjectRelations,
+  endpoint: EndpointInfo,
+  maxDepth: number = DEFAULT_MAX_DEPTH
+): EndpointTrace {
+  const root = findHandlerNode(relations, endpoint);
+  if (!root) {
+    throw new Error(`No node of ${relations.projectId} implements ${endpoint.method} ${endpoint.path} (${endpoint.filePath})`);
+  }
+
+  const nodesById = new Map(relations.nodes.map(n => [n.id, n] as [string, RelationNode]));
+
+  // Adjacency: source -> outgoing edges
+  const outgoing = new Map<string, RelationEdge[]>();
+  for (const edge of relations.edges) {
+    if (!outgoing.has(edge.source)) {
+      outgoing.set(edge.source, []);
+    }
+    outgoing.get(edge.source)!.push(edge);
+  }
+
+  const rootMethod = splitHandlerName(endpoint.handlerName).method;
+  const steps = new Map<string, EndpointTraceStep>();
+  steps.set(root.id, {
+    node: root,
+    layer: getTraceLayer(root),
+    depth: 0,
+    calledFunctions: root.functions.includes(rootMethod) ? [rootMethod] : undefined,
+  });
+
+  let frontier: EndpointTraceStep[] = [steps.get(root.id)!];
+  let depth = 0;
+
+  while (frontier.length > 0 && depth < maxDepth) {
+    depth++;
+    const next: EndpointTraceStep[] = [];
+
+    for (const current of frontier) {
+      if (current.layer === 'entity') continue;
+
+      // Edges of the functions in scope; all of them when none matches (names not resolved)
+      const edges = outgoing.get(current.node.id) || [];
+      const scoped = edges.filter(edge => isInScope(edge, current.calledFunctions));
+
+      for (const edge of scoped.length > 0 ? scoped : edges) {
+        if (steps.has(edge.target)) continue;
+
+        const node = nodesById.get(edge.target);
+        if (!node) continue;
+
+        const step: EndpointTraceStep = {
+          node,
+          layer: getTraceLayer(node),
+          depth,
+          parentId: current.node.id,
+          edgeId: edge.id,
+          edgeType: edge.type,
+          calledFunctions: edge.targetFunctions && edge.targetFunctions.length > 0 ? edge.targetFunctions : undefined,
+        };
+        steps.set(node.id, step);
+        next.push(step);
+      }
+    }
+
+    frontier = next;
+  }
+
+  const ordered = Array.from(steps.values()).sort((a, b) =>
+    a.depth - b.depth ||
+    LAYER_ORDER[a.layer] - LAYER_ORDER[b.layer] ||
+    a.node.name.localeCompare(b.node.name)
+  );
+
+  return {
+    projectId: relations.projectId,
+    endpoint,
+    steps: ordered,
+    edgeIds: ordered.filter(step => step.edgeId).map(step => step.edgeId!),
+    maxDepth,
+    generatedAt: Date.now()
+  };
+}
+
+/**
+ * Whether an edge belongs to the functions being traced
+ * (edges without function information are always followed)
+ */
+function isInScope(edge: RelationEdge, functions?: string[]): boolean {
+  if (!functions || !edge.sourceFunctions || edge.sourceFunctions.length === 0) {
+    return true;
+  }
+  return edge.sourceFunctions.some(fn => functions.includes(fn));
+}
+
+/**
+ * Count the steps of a trace per layer (the handler included)
+ */
+export function countByLayer(trace: EndpointTrace): Record<EndpointTraceLayer, number> {
+  const counts: Record<EndpointTraceLayer, number> = { controller: 0, service: 0, repository: 0, entity: 0, other: 0 };
+  for (const step of trace.steps) {
+    counts[step.layer]++;
+  }
+  return counts;
+}
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview File Lock Service
+ * Lock engine on top of the locks table of agentboard.db: glob matching of lock
+ * patterns, expiry tied to the heartbeat of the holding agent, lock upgrade and
+ * force release
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SqliteService } from './SqliteService';
+import { AgentInfo, FileLock, FileLockStatus, FileLockResult } from '../types/db';
+
+const DEFAULT_LOCK_TTL_MINUTES = 30;
+
+const GLOB_CHARS = /[*?[\]{}]/;
+
+// ============================================
+// Pattern matching
+// ============================================
+
+/**
+ * Normalize a lock pattern or a file path relative to the project root
+ * ("./src\\api/" -> "src/api")
+ */
+export function normalizeLockPath(value: string): string {
+  return value
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '');
+}
+
+function isGlob(pattern: string): boolean {
+  return GLOB_CHARS.test(pattern);
+}
+
+/**
+ * Segments of a pattern before its first glob segment ("src/api/**\/*.ts" -> ["src", "api"])
+ */
+function getStaticSegments(pattern: string): string[] {
+  const segments: string[] = [];
+  for (const segment of normalizeLockPath(pattern).split('/')) {
+    if (!segment || isGlob(segment)) {
+      break;
+    }
+    segments.push(segment);
+  }
+  return segments;
+}
+
+function isSegmentPrefix(prefix: string[], segments: string[]): boolean {
+  return prefix.length <= segments.length && prefix.every((segment, index) => segment === segments[index]);
+}
+
+/**
+ * Anchored regex of a glob: "*" and "?" stay inside a path segment, "**" spans
+ * segments, "{a,b}" alternates. A pattern without "/" (e.g. "*.ts") matches
+ * the file name in any directory
+ */
+function lockGlobToRegex(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else if (char === '[' || char === ']') {
+      source += char;
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(pattern.includes('/') ? `^${source}$` : `(^|/)${source}$`);
+}
+
+/**
+ * Whether a lock pattern covers a file. A pattern without wildcards locks the
+ * file itself or everything under the directory ("src/api" locks
+ * "src/api/users.ts" but not "src/api-client/index.ts")
+ * @param filePath - Path relative to the project root
+ * @param pattern - Lock pattern
+ */
+export function matchesLockPattern(filePath: string, pattern: string): boolean {
+  const file = normalizeLockPath(filePath);
+  const normalizedPattern = normalizeLockPath(pattern);
+  if (!normalizedPattern) {
+    return false;
+  }
+
+  if (!isGlob(normalizedPattern)) {
+    return file === normalizedPattern || file.startsWith(`${normalizedPattern}/`);
+  }
+  return lockGlobToRegex(normalizedPattern).test(file);
+}
+
+/**
+ * Whether two lock patterns may cover a common file. Conservative for globs:
+ * patterns whose fixed directories are nested are considered overlapping
+ */
+export function lockPatternsOverlap(a: string, b: string): boolean {
+  const first = normalizeLockPath(a);
+  const second = normalizeLockPath(b);
+  if (!isGlob(first) && !isGlob(second)) {
+    return matchesLockPattern(first, second) || matchesLockPattern(second, first);
+  }
+
+  const firstBase = isGlob(first) ? getStaticSegments(first) : first.split('/');
+  const secondBase = isGlob(second) ? getStaticSegments(second) : second.split('/');
+  return isSegmentPrefix(firstBase, secondBase) || isSegmentPrefix(secondBase, firstBase);
+}
+
+/**
+ * Whether every file locked by `inner` is also locked by `outer`
+ * (used to upgrade a lock to a broader pattern)
+ */
+export function lockPatternCovers(outer: string, inner: string): boolean {
+  const broad = normalizeLockPath(outer);
+  const narrow = normalizeLockPath(inner);
+  if (broad === narrow || !isGlob(narrow)) {
+    return matchesLockPattern(narrow, broad);
+  }
+
+  // A glob is covered by a directory (or "dir/**") containing its fixed part
+  const directory = isGlob(broad) ? broad.replace(/\/\*\*$/, '') : broad;
+  return !isGlob(directory) && isSegmentPrefix(directory.split('/'), getStaticSegments(narrow));
+}
+
+// ============================================
+// Expiry
+// ============================================
+
+/**
+ * Time without lock or heartbeat refresh after which a lock expires
+ */
+export function getLockTtlMs(): number {
+  const minutes = vscode.workspace.getConfiguration('memorybank').get<number>('locks.ttlMinutes', DEFAULT_LOCK_TTL_MINUTES);
+  return Math.max(1, minutes) * 60 * 1000;
+}
+
+/**
+ * Parse the timestamps of agentboard.db: ISO strings (MCP server) and
+ * "YYYY-MM-DD HH:MM:SS" local times (extension)
+ * @returns Milliseconds since epoch, or NaN
+ */
+export function parseBoardTimestamp(value: string | undefined): number {
+  if (!value) {
+    return NaN;
+  }
+  const trimmed = value.trim();
+  return new Date(/^\d{4}-\d{2}-\d{2} \d/.test(trimmed) ? trimmed.replace(' ', 'T') : trimmed).getTime();
+}
+
+/**
+ * Get the locks of a project with their expiry. A lock stays alive while the
+ * lock or the heartbeat of the agent holding it is newer than the TTL
+ */
+export function getLockStatuses(sqlite: SqliteService, projectId: string, now: number = Date.now()): FileLockStatus[] {
+  return toLockStatuses(sqlite.getFileLocks(projectId), sqlite.getActiveAgents(projectId), now);
+}
+
+function toLockStatuses(locks: FileLock[], agents: AgentInfo[], now: number): FileLockStatus[] {
+  const ttl = getLockTtlMs();
+  const heartbeats = new Map<string, number>();
+  for (const agent of agents) {
+    heartbeats.set(agent.id, parseBoardTimestamp(agent.lastHeartbeat));
+  }
+
+  return locks.map(lock => {
+    const refreshes = [parseBoardTimestamp(lock.since), heartbeats.get(lock.claimedBy)]
+      .filter((time): time is number => time !== undefined && !isNaN(time));
+    if (refreshes.length === 0) {
+      return { ...lock, expired: false, expiresAt: null };
+    }
+
+    const expiresAt = Math.max(...refreshes) + ttl;
+    return { ...lock, expired: expiresAt <= now, expiresAt: new Date(expiresAt).toISOString() };
+  });
+}
+
+// ============================================
+// Locking
+// ============================================
+
+/**
+ * Path of a file relative to the project root, as used by lock patterns
+ */
+export function toLockPath(filePath: string): string {
+  return normalizeLockPath(path.isAbsolute(filePath) ? vscode.workspace.asRelativePath(filePath, false) : filePath);
+}
+
+/**
+ * Acquire a lock for an agent. Expired locks of other agents overlapping the
+ * pattern are released; locks of the agent covered by the new pattern are
+ * replaced by it (upgrade), and a lock the agent already holds is refreshed.
+ * The locks are read and written in a single transaction of agentboard.db
+ */
+export async function acquireFileLock(
+  sqlite: SqliteService,
+  projectId: string,
+  pattern: string,
+  agentId: string
+): Promise<FileLockResult> {
+  const normalizedPattern = normalizeLockPath(pattern);
+  const since = new Date().toISOString();
+
+  const result = await sqlite.acquireFileLock(projectId, (locks, agents) => {
+    const statuses = toLockStatuses(locks, agents, Date.now());
+    const overlapping = statuses.filter(lock => lock.claimedBy !== agentId && lockPatternsOverlap(lock.pattern, normalizedPattern));
+    const own = statuses.filter(lock => lock.claimedBy === agentId);
+    const covering = own.find(lock => lockPatternCovers(lock.pattern, normalizedPattern));
+
+    return {
+      lock: { pattern: covering ? covering.pattern : normalizedPattern, projectId, claimedBy: agentId, since },
+      refresh: !!covering,
+      blockedBy: overlapping.find(lock => !lock.expired),
+      release: overlapping,
+      replace: covering ?
+        [] :
+        own.filter(lock => lockPatternCovers(normalizedPattern, lock.pattern)).map(lock => lock.pattern)
+    };
+  });
+
+  return result || { acquired: false, released: [] };
+}
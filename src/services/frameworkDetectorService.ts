@@ -21,8 +21,14 @@ import {
   FrameworkAnalysis,
   EndpointInfo,
   HttpMethod,
+  FileFrameworkEvidence,
+  StoredFrameworkAnalysis,
+  DiProvider,
+  DiInjection,
   FRAMEWORK_INFO,
 } from '../types/framework';
+import { OutdatedCheckResult } from '../types/relations';
+import { extractInjectionFacts } from './dependencyInjectionService';
 
 // ============================================================================
 // Configurable Logger (allows OutputChannel logging)
@@ -138,23 +144,123 @@ const FRAMEWORK_DETECTION_RULES: FrameworkDetectionRule[] = [
     contentPatterns: [/"svelte":/, /@sveltejs/],
     priority: 80,
   },
+  // Quarkus (Java/Kotlin) - checked before Spring Boot, both use JPA annotations
+  {
+    framework: 'quarkus',
+    configFiles: ['pom.xml', 'build.gradle', 'build.gradle.kts'],
+    contentPatterns: [/io\.quarkus/, /quarkus-maven-plugin/, /quarkusPlatformVersion/],
+    priority: 105,
+  },
+  // Gin (Go)
+  {
+    framework: 'gin',
+    configFiles: ['go.mod'],
+    contentPatterns: [/github\.com\/gin-gonic\/gin/],
+    priority: 85,
+  },
+  // Echo (Go)
+  {
+    framework: 'echo',
+    configFiles: ['go.mod'],
+    contentPatterns: [/github\.com\/labstack\/echo/],
+    priority: 85,
+  },
+  // chi (Go)
+  {
+    framework: 'chi',
+    configFiles: ['go.mod'],
+    contentPatterns: [/github\.com\/go-chi\/chi/],
+    priority: 85,
+  },
+  // Axum (Rust)
+  {
+    framework: 'axum',
+    configFiles: ['Cargo.toml'],
+    contentPatterns: [/^\s*axum\s*=/m],
+    priority: 85,
+  },
+  // Actix Web (Rust)
+  {
+    framework: 'actix',
+    configFiles: ['Cargo.toml'],
+    contentPatterns: [/^\s*actix-web\s*=/m],
+    priority: 85,
+  },
+  // ASP.NET Core (C#) - project files are named after the project
+  {
+    framework: 'aspnet-core',
+    configFiles: ['*.csproj'],
+    contentPatterns: [/Sdk\s*=\s*"Microsoft\.NET\.Sdk\.Web"/, /Microsoft\.AspNetCore/],
+    priority: 90,
+  },
+  // Laravel (PHP)
+  {
+    framework: 'laravel',
+    configFiles: ['composer.json', 'artisan'],
+    contentPatterns: [/"laravel\/framework":/, /Illuminate\\Foundation/],
+    priority: 90,
+  },
+  // Ruby on Rails
+  {
+    framework: 'rails',
+    configFiles: ['Gemfile', 'routes.rb'],
+    contentPatterns: [/gem\s+['"]rails['"]/, /Rails\.application\.routes\.draw/],
+    priority: 90,
+  },
+];
+
+/**
+ * Frameworks detected from source code when their config files are not indexed
+ * (imports are more reliable than naming conventions)
+ */
+const CODE_DETECTION_RULES: { framework: FrameworkType; pattern: RegExp }[] = [
+  { framework: 'gin', pattern: /"github\.com\/gin-gonic\/gin"/ },
+  { framework: 'echo', pattern: /"github\.com\/labstack\/echo(?:\/v\d+)?"/ },
+  { framework: 'chi', pattern: /"github\.com\/go-chi\/chi(?:\/v\d+)?"/ },
+  { framework: 'axum', pattern: /\buse\s+axum::/ },
+  { framework: 'actix', pattern: /\buse\s+actix_web::/ },
+  { framework: 'aspnet-core', pattern: /\busing\s+Microsoft\.AspNetCore\.(?:Mvc|Builder|Http)\s*;/ },
+  { framework: 'laravel', pattern: /\buse\s+Illuminate\\/ },
+  { framework: 'rails', pattern: /<\s*(?:ActionController::(?:Base|API)|ActiveRecord::Base)\b|Rails\.application\.routes\.draw/ },
+  { framework: 'quarkus', pattern: /\bimport\s+io\.quarkus\./ },
 ];
 
+/**
+ * Check a file name against a detection rule config file ("pom.xml" or "*.csproj")
+ */
+function matchesConfigFile(fileName: string, configFile: string): boolean {
+  const expected = configFile.toLowerCase();
+  return expected.startsWith('*.')
+    ? fileName.endsWith(expected.substring(1))
+    : fileName === expected;
+}
+
 // ============================================================================
 // Component Extraction Patterns (per framework)
 // ============================================================================
 
 interface ComponentPattern {
+  /** Patterns with the `g` flag report every match in the file, the rest only the first */
   pattern: RegExp;
   type: FrameworkComponentType;
   nameExtractor: (match: RegExpMatchArray, content: string, filePath: string) => string;
   metadataExtractor?: (match: RegExpMatchArray, content: string) => Record<string, any>;
 }
 
+interface RouteInfo {
+  method: HttpMethod;
+  path: string;
+  handlerName: string;
+}
+
 interface EndpointPattern {
   pattern: RegExp;
-  methodExtractor: (match: RegExpMatchArray) => HttpMethod;
-  pathExtractor: (match: RegExpMatchArray) => string;
+  methodExtractor?: (match: RegExpMatchArray) => HttpMethod;
+  pathExtractor?: (match: RegExpMatchArray) => string;
+  /** Handler name; by default the first function declared after the match */
+  handlerExtractor?: (match: RegExpMatchArray, following: string) => string | undefined;
+  /** Several routes declared by a single match (method chains, resource routes) */
+  routesExtractor?: (match: RegExpMatchArray) => RouteInfo[];
 }
 
 interface FrameworkPatterns {
@@ -378,31 +484,552 @@ const FASTAPI_PATTERNS: FrameworkPatterns = {
 const FLASK_PATTERNS: FrameworkPatterns = {
   components: [
     {
-      pattern: /(\w+)\s*=\s*Blueprint\s*\(\s*['"](\w+)['"]/,
-      type: 'blueprint',
-      nameExtractor: (m) => m[2],
+      pattern: /(\w+)\s*=\s*Blueprint\s*\(\s*['"](\w+)['"]/,
+      type: 'blueprint',
+      nameExtractor: (m) => m[2],
+    },
+  ],
+  endpoints: [
+    { pattern: /@(?:\w+\.)?route\s*\(\s*["']([^"']+)["']/g, methodExtractor: () => 'GET', pathExtractor: (m) => m[1] },
+  ],
+};
+
+// Express patterns
+const EXPRESS_PATTERNS: FrameworkPatterns = {
+  components: [
+    {
+      pattern: /(?:const|let|var)\s+(\w+)\s*=\s*(?:express\.)?Router\s*\(\s*\)/,
+      type: 'route',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /(?:export\s+)?(?:const|function)\s+(\w+[Mm]iddleware)\s*[=:]/,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+  ],
+  endpoints: [],
+};
+
+// Route helpers shared by the Go, Rust, .NET, PHP and Ruby patterns
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+
+function toHttpMethod(method: string): HttpMethod {
+  const upper = method.toUpperCase() as HttpMethod;
+  return HTTP_METHODS.includes(upper) ? upper : 'GET';
+}
+
+function withLeadingSlash(routePath: string): string {
+  return routePath.startsWith('/') ? routePath : `/${routePath}`;
+}
+
+/**
+ * Name of the method declared after an annotation/attribute (Java, Kotlin, C#),
+ * skipping the other annotations in between
+ */
+function memberHandlerName(following: string): string | undefined {
+  const match = following.match(/(?:(?:public|protected|private|internal)\s+[^(=;{]*?(\w+)|\bfun\s+(\w+))\s*\(/);
+  return match?.[1] || match?.[2];
+}
+
+/**
+ * Handler of a Go route registration: the last argument (`h.GetUser` -> GetUser),
+ * middlewares come before it
+ */
+function goRouteHandler(args: string, following: string): string {
+  // Inline func literal
+  if (/^\s*,\s*func\b/.test(following)) return 'handler';
+  const last = (args.split(',').pop() || '').trim().replace(/\(.*$/, '');
+  return last.split('.').pop() || 'handler';
+}
+
+interface ResourceAction {
+  action: string;
+  method: HttpMethod;
+  /** Path appended to the resource path */
+  suffix: string;
+}
+
+/**
+ * Expand a resource declaration (Laravel Route::resource, Rails resources)
+ * into its routes, honoring only/except lists
+ */
+function expandResourceRoutes(
+  basePath: string,
+  actions: ResourceAction[],
+  handlerFor: (action: string) => string,
+  filter?: { mode: string; list: string }
+): RouteInfo[] {
+  const listed = filter ? (filter.list.match(/\w+/g) || []) : [];
+  return actions
+    .filter(a => !filter || (filter.mode === 'only' ? listed.includes(a.action) : !listed.includes(a.action)))
+    .map(a => ({
+      method: a.method,
+      path: withLeadingSlash(basePath) + a.suffix,
+      handlerName: handlerFor(a.action),
+    }));
+}
+
+const LARAVEL_RESOURCE_ACTIONS: ResourceAction[] = [
+  { action: 'index', method: 'GET', suffix: '' },
+  { action: 'create', method: 'GET', suffix: '/create' },
+  { action: 'store', method: 'POST', suffix: '' },
+  { action: 'show', method: 'GET', suffix: '/{id}' },
+  { action: 'edit', method: 'GET', suffix: '/{id}/edit' },
+  { action: 'update', method: 'PUT', suffix: '/{id}' },
+  { action: 'destroy', method: 'DELETE', suffix: '/{id}' },
+];
+
+const RAILS_RESOURCE_ACTIONS: ResourceAction[] = [
+  { action: 'index', method: 'GET', suffix: '' },
+  { action: 'new', method: 'GET', suffix: '/new' },
+  { action: 'create', method: 'POST', suffix: '' },
+  { action: 'show', method: 'GET', suffix: '/:id' },
+  { action: 'edit', method: 'GET', suffix: '/:id/edit' },
+  { action: 'update', method: 'PATCH', suffix: '/:id' },
+  { action: 'destroy', method: 'DELETE', suffix: '/:id' },
+];
+
+// Go patterns (gin, echo, chi)
+const GO_HANDLER_STRUCT: ComponentPattern = {
+  pattern: /type\s+(\w+(?:Handler|Controller))\s+struct\b/g,
+  type: 'controller',
+  nameExtractor: (m) => m[1],
+};
+
+const GO_ENTITY: ComponentPattern = {
+  pattern: /type\s+(\w+)\s+struct\s*\{[^}]*(?:gorm\.Model|gorm:"|bun\.BaseModel)/g,
+  type: 'entity',
+  nameExtractor: (m) => m[1],
+};
+
+const GO_ROUTE_GROUP: ComponentPattern = {
+  pattern: /(\w+)\s*:?=\s*\w+\.Group\s*\(\s*"([^"]*)"/g,
+  type: 'route',
+  nameExtractor: (m) => m[1],
+  metadataExtractor: (m) => ({ basePath: m[2] }),
+};
+
+// gin/echo: r.GET("/users/:id", auth(), h.GetUser)
+const GO_UPPERCASE_ENDPOINT: EndpointPattern = {
+  pattern: /\b\w+\.(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\s*\(\s*"(\/[^"]*)"((?:\s*,\s*(?!func\b)[\w.]+(?:\([^()]*\))?)*)/g,
+  methodExtractor: (m) => toHttpMethod(m[1]),
+  pathExtractor: (m) => m[2],
+  handlerExtractor: (m, following) => goRouteHandler(m[3], following),
+};
+
+const GIN_PATTERNS: FrameworkPatterns = {
+  components: [
+    GO_HANDLER_STRUCT,
+    {
+      pattern: /^func\s+(\w+)\s*\(\s*\w+\s+\*gin\.Context\s*\)/gm,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /(\w+)\s*:?=\s*gin\.(?:Default|New)\s*\(\s*\)/,
+      type: 'route',
+      nameExtractor: (m) => m[1],
+    },
+    GO_ROUTE_GROUP,
+    {
+      pattern: /^func\s+(\w+)\s*\([^)]*\)\s*gin\.HandlerFunc\b/gm,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+    GO_ENTITY,
+  ],
+  endpoints: [GO_UPPERCASE_ENDPOINT],
+};
+
+const ECHO_PATTERNS: FrameworkPatterns = {
+  components: [
+    GO_HANDLER_STRUCT,
+    {
+      pattern: /^func\s+(\w+)\s*\(\s*\w+\s+echo\.Context\s*\)\s*error\b/gm,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /(\w+)\s*:?=\s*echo\.New\s*\(\s*\)/,
+      type: 'route',
+      nameExtractor: (m) => m[1],
+    },
+    GO_ROUTE_GROUP,
+    {
+      pattern: /^func\s+(\w+)\s*\([^)]*\)\s*echo\.(?:MiddlewareFunc|HandlerFunc)\b/gm,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+    GO_ENTITY,
+  ],
+  endpoints: [GO_UPPERCASE_ENDPOINT],
+};
+
+const CHI_PATTERNS: FrameworkPatterns = {
+  components: [
+    GO_HANDLER_STRUCT,
+    {
+      pattern: /^func\s+(\w+)\s*\(\s*\w+\s+http\.ResponseWriter\s*,\s*\w+\s+\*http\.Request\s*\)/gm,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /(\w+)\s*:?=\s*chi\.NewRouter\s*\(\s*\)/,
+      type: 'route',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /^func\s+(\w+)\s*\(\s*next\s+http\.Handler\s*\)\s*http\.Handler\b/gm,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+    GO_ENTITY,
+  ],
+  endpoints: [
+    {
+      // r.Get("/users/{id}", h.GetUser)
+      pattern: /\b\w+\.(Get|Post|Put|Delete|Patch|Head|Options)\s*\(\s*"(\/[^"]*)"((?:\s*,\s*(?!func\b)[\w.]+(?:\([^()]*\))?)*)/g,
+      methodExtractor: (m) => toHttpMethod(m[1]),
+      pathExtractor: (m) => m[2],
+      handlerExtractor: (m, following) => goRouteHandler(m[3], following),
+    },
+  ],
+};
+
+// Rust patterns (axum, actix-web)
+const RUST_ENTITY: ComponentPattern = {
+  pattern: /#\[derive\([^\]]*\b(?:FromRow|Queryable|Insertable|DeriveEntityModel)\b[^\]]*\]\s*(?:#\[[^\]]*\]\s*)*(?:pub\s+)?struct\s+(\w+)/g,
+  type: 'entity',
+  nameExtractor: (m) => m[1],
+};
+
+const AXUM_PATTERNS: FrameworkPatterns = {
+  components: [
+    {
+      pattern: /(?:pub(?:\([^)]*\))?\s+)?async\s+fn\s+(\w+)\s*(?:<[^>]*>)?\s*\([^)]*\b(?:State|Path|Json|Query|Form|Extension)\s*[<(]/g,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /async\s+fn\s+(\w+)[^{;]*->\s*impl\s+IntoResponse\b/g,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /Router::new\s*\(\s*\)/,
+      type: 'route',
+      nameExtractor: (_, __, filePath) => path.basename(filePath, '.rs'),
+    },
+    {
+      pattern: /async\s+fn\s+(\w+)\s*(?:<[^>]*>)?\s*\([^{]*\bNext\b/g,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /impl<[^>]*>\s*Layer<[^>]*>\s*for\s+(\w+)/g,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+    RUST_ENTITY,
+  ],
+  endpoints: [
+    {
+      // .route("/users/:id", get(show_user).delete(delete_user))
+      pattern: /\.route\s*\(\s*"([^"]+)"\s*,\s*((?:\s*\.?\s*(?:\w+::)*(?:get|post|put|delete|patch|head|options)\s*\(\s*[\w:]+\s*\))+)/g,
+      routesExtractor: (m) => {
+        const routes: RouteInfo[] = [];
+        const methodRegex = /\b(get|post|put|delete|patch|head|options)\s*\(\s*([\w:]+)\s*\)/g;
+        let methodMatch;
+        while ((methodMatch = methodRegex.exec(m[2])) !== null) {
+          routes.push({
+            method: toHttpMethod(methodMatch[1]),
+            path: m[1],
+            handlerName: methodMatch[2].split('::').pop() || 'handler',
+          });
+        }
+        return routes;
+      },
+    },
+  ],
+};
+
+const ACTIX_PATTERNS: FrameworkPatterns = {
+  components: [
+    {
+      pattern: /#\[(?:get|post|put|delete|patch|head|options)\s*\([^\]]*\]\s*(?:pub\s+)?async\s+fn\s+(\w+)/g,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /async\s+fn\s+(\w+)[^{;]*->\s*(?:impl\s+Responder|HttpResponse|Result<\s*HttpResponse)\b/g,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /pub\s+fn\s+(\w+)\s*\(\s*\w+\s*:\s*&mut\s+web::ServiceConfig/g,
+      type: 'route',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /App::new\s*\(\s*\)/,
+      type: 'route',
+      nameExtractor: (_, __, filePath) => path.basename(filePath, '.rs'),
+    },
+    {
+      pattern: /impl<[^>]*>\s*Transform<[^>]*>\s*for\s+(\w+)/g,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+    RUST_ENTITY,
+  ],
+  endpoints: [
+    {
+      // #[get("/users/{id}")]
+      pattern: /#\[(get|post|put|delete|patch|head|options)\s*\(\s*"([^"]+)"/g,
+      methodExtractor: (m) => toHttpMethod(m[1]),
+      pathExtractor: (m) => m[2],
+      handlerExtractor: (_, following) => following.match(/\bfn\s+(\w+)/)?.[1],
+    },
+    {
+      // .route("/users", web::get().to(list_users))
+      pattern: /\.route\s*\(\s*"([^"]+)"\s*,\s*web::(get|post|put|delete|patch|head)\s*\(\s*\)\s*\.to\s*\(\s*([\w:]+)\s*\)/g,
+      methodExtractor: (m) => toHttpMethod(m[2]),
+      pathExtractor: (m) => m[1],
+      handlerExtractor: (m) => m[3].split('::').pop(),
+    },
+  ],
+};
+
+// ASP.NET Core patterns
+const ASPNET_CORE_PATTERNS: FrameworkPatterns = {
+  components: [
+    {
+      pattern: /\[ApiController\][\s\S]*?class\s+(\w+)/,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+      metadataExtractor: (_, content) => {
+        const basePath = content.match(/\[Route\s*\(\s*"([^"]*)"\s*\)\]/);
+        return { basePath: basePath?.[1] || '', decorators: ['[ApiController]'] };
+      },
+    },
+    {
+      pattern: /class\s+(\w+Controller)\s*:\s*(?:Controller|ControllerBase)\b/,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /\.Map(?:Get|Post|Put|Delete|Patch|Group)\s*\(/,
+      type: 'route',
+      nameExtractor: (_, __, filePath) => path.basename(filePath, '.cs'),
+    },
+    {
+      pattern: /class\s+(\w+)\s*:\s*(?:Identity)?DbContext\b/,
+      type: 'repository',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      // Entities are listed where the DbContext registers them
+      pattern: /DbSet<(\w+)>/g,
+      type: 'entity',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /class\s+(\w+Middleware)\b/g,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /class\s+(\w+)\s*:\s*IMiddleware\b/g,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /class\s+(\w+)\s*:\s*(?:ActionFilterAttribute|ExceptionFilterAttribute|IActionFilter|IAsyncActionFilter|IExceptionFilter|IAsyncExceptionFilter|IAuthorizationFilter)\b/g,
+      type: 'filter',
+      nameExtractor: (m) => m[1],
+    },
+  ],
+  endpoints: [
+    {
+      // [HttpGet("{id}")]
+      pattern: /\[Http(Get|Post|Put|Delete|Patch|Head|Options)(?:\s*\(\s*"([^"]*)"[^)]*\))?\s*\]/g,
+      methodExtractor: (m) => toHttpMethod(m[1]),
+      pathExtractor: (m) => m[2] || '/',
+      handlerExtractor: (_, following) => memberHandlerName(following),
+    },
+    {
+      // Minimal APIs: app.MapGet("/users/{id}", GetUser)
+      pattern: /\.Map(Get|Post|Put|Delete|Patch)\s*\(\s*"([^"]*)"\s*,\s*(?:([A-Za-z_][\w.]*)\s*\))?/g,
+      methodExtractor: (m) => toHttpMethod(m[1]),
+      pathExtractor: (m) => m[2],
+      handlerExtractor: (m) => m[3] ? m[3].split('.').pop() : 'handler',
+    },
+  ],
+};
+
+// Laravel patterns
+function laravelHandler(action: string): string {
+  const arrayAction = action.match(/\[\s*(?:[\w\\]*\\)?(\w+)::class\s*,\s*['"](\w+)['"]\s*\]/);
+  if (arrayAction) return `${arrayAction[1]}@${arrayAction[2]}`;
+  const stringAction = action.match(/['"](?:[\w\\]*\\)?(\w+@\w+)['"]/);
+  if (stringAction) return stringAction[1];
+  const invokable = action.match(/^\s*(?:[\w\\]*\\)?(\w+)::class/);
+  return invokable ? invokable[1] : 'closure';
+}
+
+const LARAVEL_PATTERNS: FrameworkPatterns = {
+  components: [
+    {
+      pattern: /class\s+(\w+Controller)\s+extends\s+[\w\\]*Controller\b/,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /class\s+(\w+)\s+extends\s+[\w\\]*\b(?:Model|Authenticatable|Pivot)\b/,
+      type: 'entity',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /namespace\s+App\\Http\\Middleware\s*;[\s\S]*?class\s+(\w+)/,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /Route::(?:get|post|put|patch|delete|options|any|match|resource|apiResource|group|prefix|middleware|controller)\b/,
+      type: 'route',
+      nameExtractor: (_, __, filePath) => path.basename(filePath, '.php'),
+    },
+  ],
+  endpoints: [
+    {
+      // Route::get('/users/{id}', [UserController::class, 'show']);
+      pattern: /Route::(get|post|put|patch|delete|options)\s*\(\s*['"]([^'"]*)['"]\s*,\s*([^;]*?)\)\s*(?:->|;)/g,
+      methodExtractor: (m) => toHttpMethod(m[1]),
+      pathExtractor: (m) => withLeadingSlash(m[2]),
+      handlerExtractor: (m) => laravelHandler(m[3]),
+    },
+    {
+      // Route::resource('photos', PhotoController::class)->only(['index', 'show']);
+      pattern: /Route::(resource|apiResource)\s*\(\s*['"]([^'"]+)['"]\s*,\s*(?:[\w\\]*\\)?(\w+)::class\s*\)(?:\s*->\s*(only|except)\s*\(\s*\[([^\]]*)\]\s*\))?/g,
+      routesExtractor: (m) => expandResourceRoutes(
+        m[2],
+        m[1] === 'apiResource'
+          ? LARAVEL_RESOURCE_ACTIONS.filter(a => a.action !== 'create' && a.action !== 'edit')
+          : LARAVEL_RESOURCE_ACTIONS,
+        action => `${m[3]}@${action}`,
+        m[4] ? { mode: m[4], list: m[5] } : undefined
+      ),
+    },
+  ],
+};
+
+// Ruby on Rails patterns
+const RAILS_PATTERNS: FrameworkPatterns = {
+  components: [
+    {
+      pattern: /class\s+((?:\w+::)*\w+Controller)\s*<\s*[\w:]+/,
+      type: 'controller',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /class\s+((?:\w+::)*\w+)\s*<\s*(?:ApplicationRecord|ActiveRecord::Base)\b/,
+      type: 'entity',
+      // ApplicationRecord is the abstract base of all models
+      nameExtractor: (m) => m[1] === 'ApplicationRecord' ? '' : m[1],
+    },
+    {
+      // Rack middleware
+      pattern: /class\s+((?:\w+::)*\w+)\b[\s\S]*?\bdef\s+call\s*\(\s*env\s*\)/,
+      type: 'middleware',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /Rails\.application\.routes\.draw/,
+      type: 'route',
+      nameExtractor: (_, __, filePath) => path.basename(filePath, '.rb'),
     },
   ],
   endpoints: [
-    { pattern: /@(?:\w+\.)?route\s*\(\s*["']([^"']+)["']/g, methodExtractor: () => 'GET', pathExtractor: (m) => m[1] },
+    {
+      // get 'photos/:id', to: 'photos#show'
+      pattern: /^\s*(get|post|put|patch|delete)\s+['"]([^'"]+)['"](?:\s*,\s*(?:to:|=>)\s*['"]([\w\/]+#\w+)['"])?/gm,
+      methodExtractor: (m) => toHttpMethod(m[1]),
+      pathExtractor: (m) => withLeadingSlash(m[2]),
+      handlerExtractor: (m) => m[3] || 'handler',
+    },
+    {
+      // resources :photos, only: [:index, :show]
+      pattern: /^\s*resources\s+:(\w+)(?:\s*,\s*(only|except):\s*(?:%i)?\[([^\]]*)\])?/gm,
+      routesExtractor: (m) => expandResourceRoutes(
+        m[1],
+        RAILS_RESOURCE_ACTIONS,
+        action => `${m[1]}#${action}`,
+        m[2] ? { mode: m[2], list: m[3] } : undefined
+      ),
+    },
+    {
+      pattern: /^\s*root\s+(?:to:\s*)?['"]([\w\/]+#\w+)['"]/gm,
+      methodExtractor: () => 'GET',
+      pathExtractor: () => '/',
+      handlerExtractor: (m) => m[1],
+    },
   ],
 };
 
-// Express patterns
-const EXPRESS_PATTERNS: FrameworkPatterns = {
+// Quarkus patterns (JAX-RS resources, Panache, CDI)
+const QUARKUS_PATTERNS: FrameworkPatterns = {
   components: [
     {
-      pattern: /(?:const|let|var)\s+(\w+)\s*=\s*(?:express\.)?Router\s*\(\s*\)/,
-      type: 'route',
+      pattern: /@Path\s*\(\s*"([^"]*)"\s*\)\s*(?:@\w+(?:\s*\([^)]*\))?\s*)*(?:public\s+)?(?:open\s+)?class\s+(\w+)/,
+      type: 'controller',
+      nameExtractor: (m) => m[2],
+      metadataExtractor: (m) => ({ basePath: m[1], decorators: ['@Path'] }),
+    },
+    {
+      pattern: /class\s+(\w+)\s*(?:implements|:)\s*PanacheRepository(?:Base)?\s*</,
+      type: 'repository',
       nameExtractor: (m) => m[1],
     },
     {
-      pattern: /(?:export\s+)?(?:const|function)\s+(\w+[Mm]iddleware)\s*[=:]/,
+      pattern: /@ApplicationScoped[\s\S]*?(?:public\s+)?(?:open\s+)?class\s+(\w+)/,
+      type: 'service',
+      // Panache repositories are application scoped too
+      nameExtractor: (m) => m[1].endsWith('Repository') ? '' : m[1],
+      metadataExtractor: () => ({ decorators: ['@ApplicationScoped'] }),
+    },
+    {
+      pattern: /@Entity[\s\S]*?(?:public\s+)?(?:open\s+)?class\s+(\w+)/,
+      type: 'entity',
+      nameExtractor: (m) => m[1],
+      metadataExtractor: () => ({ decorators: ['@Entity'] }),
+    },
+    {
+      pattern: /class\s+(\w+)\s*(?:extends|:)\s*PanacheEntity(?:Base)?\b/,
+      type: 'entity',
+      nameExtractor: (m) => m[1],
+    },
+    {
+      pattern: /class\s+(\w+)[^{]*\b(?:ContainerRequestFilter|ContainerResponseFilter)\b/,
       type: 'middleware',
       nameExtractor: (m) => m[1],
     },
+    {
+      pattern: /class\s+(\w+)[^{]*\bExceptionMapper\s*</,
+      type: 'exception-handler',
+      nameExtractor: (m) => m[1],
+    },
+  ],
+  endpoints: [
+    {
+      // @GET @Path("{id}") in any order, other annotations in between
+      pattern: /(?:@Path\s*\(\s*"([^"]*)"\s*\)\s*)?@(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\b((?:\s*@\w+(?:\s*\([^)]*\))?)*)/g,
+      methodExtractor: (m) => toHttpMethod(m[2]),
+      pathExtractor: (m) => m[1] || m[3]?.match(/@Path\s*\(\s*"([^"]*)"/)?.[1] || '/',
+      handlerExtractor: (_, following) => memberHandlerName(following),
+    },
   ],
-  endpoints: [],
 };
 
 // Pattern registry
@@ -418,6 +1045,15 @@ const FRAMEWORK_PATTERNS: Record<FrameworkType, FrameworkPatterns> = {
   'fastapi': FASTAPI_PATTERNS,
   'flask': FLASK_PATTERNS,
   'express': EXPRESS_PATTERNS,
+  'gin': GIN_PATTERNS,
+  'echo': ECHO_PATTERNS,
+  'chi': CHI_PATTERNS,
+  'axum': AXUM_PATTERNS,
+  'actix': ACTIX_PATTERNS,
+  'aspnet-core': ASPNET_CORE_PATTERNS,
+  'laravel': LARAVEL_PATTERNS,
+  'rails': RAILS_PATTERNS,
+  'quarkus': QUARKUS_PATTERNS,
   'svelte': { components: [], endpoints: [] },
 };
 
@@ -433,73 +1069,96 @@ function generateComponentId(filePath: string, name: string, type: string): stri
 }
 
 /**
- * Detect framework from file contents
+ * Detect the frameworks a single file points to
+ * Config files (matched by name) give strong evidence; source files give evidence
+ * through imports, annotations and decorators.
  */
-function detectFrameworkFromFiles(fileContents: Map<string, string>): FrameworkType[] {
-  const detectedFrameworks: FrameworkType[] = [];
-  const sortedRules = [...FRAMEWORK_DETECTION_RULES].sort((a, b) => b.priority - a.priority);
-  
-  // Check config files first
-  for (const rule of sortedRules) {
-    for (const configFile of rule.configFiles) {
-      const content = fileContents.get(configFile.toLowerCase());
-      if (content) {
-        for (const pattern of rule.contentPatterns) {
-          if (pattern.test(content)) {
-            if (!detectedFrameworks.includes(rule.framework)) {
-              detectedFrameworks.push(rule.framework);
-              log(`[FrameworkDetector] Detected ${rule.framework} via ${configFile}`);
-            }
-            break;
-          }
-        }
-      }
+function detectFileFrameworks(filePath: string, content: string): FileFrameworkEvidence | null {
+  const fileName = path.basename(filePath).toLowerCase();
+  const config: FrameworkType[] = [];
+  const code: FrameworkType[] = [];
+
+  // Config files
+  for (const rule of FRAMEWORK_DETECTION_RULES) {
+    if (config.includes(rule.framework)) continue;
+    const configFile = rule.configFiles.find(cf => matchesConfigFile(fileName, cf));
+    if (configFile && rule.contentPatterns.some(pattern => pattern.test(content))) {
+      config.push(rule.framework);
+      log(`[FrameworkDetector] Detected ${rule.framework} via ${configFile}`);
     }
   }
-  
-  // Also detect from code patterns
-  for (const [filePath, content] of fileContents) {
-    // Spring Boot from annotations
-    if (/@RestController|@Service|@Repository|@Entity|@Component|@Configuration/.test(content)) {
-      if (!detectedFrameworks.includes('spring-boot')) {
-        detectedFrameworks.push('spring-boot');
-        log(`[FrameworkDetector] Detected spring-boot from annotations in ${filePath}`);
-      }
-    }
-    
-    // Angular from decorators
-    if (/@Component\s*\(\s*\{[\s\S]*?selector/.test(content) || /@NgModule\s*\(/.test(content)) {
-      if (!detectedFrameworks.includes('angular')) {
-        detectedFrameworks.push('angular');
-        log(`[FrameworkDetector] Detected angular from decorators in ${filePath}`);
-      }
-    }
-    
-    // NestJS from decorators
-    if (/@Controller\s*\(/.test(content) && (/@Injectable\s*\(/.test(content) || /@Module\s*\(/.test(content))) {
-      if (!detectedFrameworks.includes('nestjs')) {
-        detectedFrameworks.push('nestjs');
-        log(`[FrameworkDetector] Detected nestjs from decorators in ${filePath}`);
-      }
-    }
-    
-    // Vue from SFC or composition API
-    if (/<script\s+setup|defineComponent|defineStore/.test(content) || filePath.endsWith('.vue')) {
-      if (!detectedFrameworks.includes('vue') && !detectedFrameworks.includes('nuxt')) {
-        detectedFrameworks.push('vue');
-        log(`[FrameworkDetector] Detected vue from patterns in ${filePath}`);
-      }
-    }
-    
-    // Django from Python patterns
-    if (/class\s+\w+\s*\(\s*(?:models\.Model|APIView|ViewSet)/.test(content)) {
-      if (!detectedFrameworks.includes('django')) {
-        detectedFrameworks.push('django');
-        log(`[FrameworkDetector] Detected django from patterns in ${filePath}`);
-      }
+
+  // Imports (Go, Rust, C#, PHP, Ruby, Quarkus)
+  for (const rule of CODE_DETECTION_RULES) {
+    if (rule.pattern.test(content)) {
+      code.push(rule.framework);
+      log(`[FrameworkDetector] Detected ${rule.framework} from imports in ${filePath}`);
     }
   }
-  
+
+  // Spring Boot from annotations (dropped when Quarkus is detected: it shares the JPA/CDI ones)
+  if (/@RestController|@Service|@Repository|@Entity|@Component|@Configuration/.test(content)) {
+    code.push('spring-boot');
+  }
+
+  // Angular from decorators
+  if (/@Component\s*\(\s*\{[\s\S]*?selector/.test(content) || /@NgModule\s*\(/.test(content)) {
+    code.push('angular');
+  }
+
+  // NestJS from decorators
+  if (/@Controller\s*\(/.test(content) && (/@Injectable\s*\(/.test(content) || /@Module\s*\(/.test(content))) {
+    code.push('nestjs');
+  }
+
+  // Vue from SFC or composition API
+  if (/<script\s+setup|defineComponent|defineStore/.test(content) || filePath.endsWith('.vue')) {
+    code.push('vue');
+  }
+
+  // Django from Python patterns
+  if (/class\s+\w+\s*\(\s*(?:models\.Model|APIView|ViewSet)/.test(content)) {
+    code.push('django');
+  }
+
+  if (config.length === 0 && code.length === 0) return null;
+  const evidence: FileFrameworkEvidence = {};
+  if (config.length > 0) evidence.config = config;
+  if (code.length > 0) evidence.code = code;
+  return evidence;
+}
+
+/**
+ * Combine the evidence of every project file into the detected frameworks:
+ * config files first (highest priority rule first), then imports, then
+ * annotations and decorators
+ */
+function combineFrameworkEvidence(fileFrameworks: Record<string, FileFrameworkEvidence>): FrameworkType[] {
+  const configured = new Set<FrameworkType>();
+  const coded = new Set<FrameworkType>();
+  for (const evidence of Object.values(fileFrameworks)) {
+    (evidence.config || []).forEach(framework => configured.add(framework));
+    (evidence.code || []).forEach(framework => coded.add(framework));
+  }
+
+  const detectedFrameworks: FrameworkType[] = [];
+  const add = (framework: FrameworkType) => {
+    if (!detectedFrameworks.includes(framework)) {
+      detectedFrameworks.push(framework);
+    }
+  };
+
+  [...FRAMEWORK_DETECTION_RULES]
+    .sort((a, b) => b.priority - a.priority)
+    .forEach(rule => configured.has(rule.framework) && add(rule.framework));
+  CODE_DETECTION_RULES.forEach(rule => coded.has(rule.framework) && add(rule.framework));
+
+  if (coded.has('spring-boot') && !detectedFrameworks.includes('quarkus')) add('spring-boot');
+  if (coded.has('angular')) add('angular');
+  if (coded.has('nestjs')) add('nestjs');
+  if (coded.has('vue') && !detectedFrameworks.includes('nuxt')) add('vue');
+  if (coded.has('django')) add('django');
+
   return detectedFrameworks;
 }
 
@@ -522,8 +1181,19 @@ function extractComponents(
   for (const [filePath, content] of fileContents) {
     // Extract components
     for (const pattern of patterns.components) {
-      const match = content.match(pattern.pattern);
-      if (match) {
+      const matches: RegExpMatchArray[] = [];
+      if (pattern.pattern.global) {
+        const regex = new RegExp(pattern.pattern.source, pattern.pattern.flags);
+        let globalMatch;
+        while ((globalMatch = regex.exec(content)) !== null) {
+          matches.push(globalMatch);
+        }
+      } else {
+        const firstMatch = content.match(pattern.pattern);
+        if (firstMatch) matches.push(firstMatch);
+      }
+
+      for (const match of matches) {
         const name = pattern.nameExtractor(match, content, filePath);
         if (!name) continue;
         
@@ -554,30 +1224,43 @@ function extractComponents(
     
     // Extract endpoints
     for (const endpointPattern of patterns.endpoints) {
-      const regex = new RegExp(endpointPattern.pattern.source, 'g');
+      const flags = endpointPattern.pattern.flags.includes('g') ? endpointPattern.pattern.flags : `${endpointPattern.pattern.flags}g`;
+      const regex = new RegExp(endpointPattern.pattern.source, flags);
       let match;
       while ((match = regex.exec(content)) !== null) {
-        const method = endpointPattern.methodExtractor(match);
-        const endpointPath = endpointPattern.pathExtractor(match);
-        
         const afterMatch = content.substring(match.index + match[0].length);
-        const handlerMatch = afterMatch.match(/(?:public\s+)?(?:\w+\s+)?(\w+)\s*\(/);
-        const handlerName = handlerMatch?.[1] || 'handler';
-        
-        const key = `${method}:${endpointPath}:${filePath}`;
-        if (processedKeys.has(key)) continue;
-        processedKeys.add(key);
+        let routes: RouteInfo[];
+        if (endpointPattern.routesExtractor) {
+          routes = endpointPattern.routesExtractor(match);
+        } else {
+          let handlerName = endpointPattern.handlerExtractor?.(match, afterMatch);
+          if (!handlerName) {
+            const handlerMatch = afterMatch.match(/(?:public\s+)?(?:\w+\s+)?(\w+)\s*\(/);
+            handlerName = handlerMatch?.[1] || 'handler';
+          }
+          routes = [{
+            method: endpointPattern.methodExtractor!(match),
+            path: endpointPattern.pathExtractor!(match),
+            handlerName,
+          }];
+        }
         
         const beforeMatch = content.substring(0, match.index);
         const line = (beforeMatch.match(/\n/g) || []).length + 1;
         
-        endpoints.push({
-          method,
-          path: endpointPath,
-          handlerName,
-          filePath,
-          line,
-        });
+        for (const route of routes) {
+          const key = `${route.method}:${route.path}:${filePath}`;
+          if (processedKeys.has(key)) continue;
+          processedKeys.add(key);
+          
+          endpoints.push({
+            method: route.method,
+            path: route.path,
+            handlerName: route.handlerName,
+            filePath,
+            line,
+          });
+        }
       }
     }
   }
@@ -655,12 +1338,211 @@ async function loadProjectConfig(projectId: string): Promise<{ sourcePath?: stri
 }
 
 /**
- * Main analysis function - follows same pattern as relationsAnalyzerService
+ * Source folder of a project, as registered in its Memory Bank config
  */
-export async function analyzeFrameworks(projectId: string): Promise<FrameworkAnalysis> {
-  log(`[FrameworkDetector] ========================================`);
-  log(`[FrameworkDetector] Analyzing project: ${projectId}`);
-  
+export async function getProjectSourcePath(projectId: string): Promise<string | null> {
+  const config = await loadProjectConfig(projectId);
+  return config?.sourcePath || null;
+}
+
+// ============================================================================
+// Persistent Analysis (projects/<id>/frameworks.json)
+// ============================================================================
+
+// Current schema version (bump when patterns change the stored results)
+const FRAMEWORKS_VERSION = '1.1.0';
+
+/**
+ * Get the path to the frameworks.json file for a project
+ */
+function getFrameworksPath(projectId: string): string | null {
+  const mbPath = getMemoryBankService().getMemoryBankPath();
+  if (!mbPath) return null;
+  return path.join(mbPath, 'projects', projectId, 'frameworks.json');
+}
+
+/**
+ * Load the stored analysis of a project (null when missing or unreadable)
+ */
+export async function loadStoredAnalysis(projectId: string): Promise<StoredFrameworkAnalysis | null> {
+  const frameworksPath = getFrameworksPath(projectId);
+  if (!frameworksPath) return null;
+
+  try {
+    if (!fs.existsSync(frameworksPath)) {
+      return null;
+    }
+    const content = fs.readFileSync(frameworksPath, 'utf-8');
+    return JSON.parse(content) as StoredFrameworkAnalysis;
+  } catch (error) {
+    log(`[FrameworkDetector] ERROR loading frameworks.json: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Save an analysis to frameworks.json
+ */
+async function saveStoredAnalysis(stored: StoredFrameworkAnalysis): Promise<boolean> {
+  const frameworksPath = getFrameworksPath(stored.projectId);
+  if (!frameworksPath) return false;
+
+  try {
+    const dir = path.dirname(frameworksPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    fs.writeFileSync(frameworksPath, JSON.stringify(stored, null, 2), 'utf-8');
+    return true;
+  } catch (error) {
+    log(`[FrameworkDetector] ERROR saving frameworks.json: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Per-file hashes of the project files (from index-metadata.json)
+ */
+function getFileHashes(projectFiles: [string, any][]): Record<string, string> {
+  const fileHashes: Record<string, string> = {};
+  for (const [filePath, entry] of projectFiles) {
+    fileHashes[filePath] = entry?.hash || '';
+  }
+  return fileHashes;
+}
+
+/**
+ * Hash of the per-file hashes, to detect changes in the project files
+ */
+function calculateSourceHash(fileHashes: Record<string, string>): string {
+  const entries = Object.keys(fileHashes).sort().map(filePath => [filePath, fileHashes[filePath]]);
+  return crypto.createHash('md5').update(JSON.stringify(entries)).digest('hex');
+}
+
+/**
+ * Rebuild the runtime analysis from its stored form
+ */
+function toFrameworkAnalysis(stored: StoredFrameworkAnalysis, reusedFiles?: number): FrameworkAnalysis {
+  const componentsByType = new Map<FrameworkComponentType, FrameworkComponent[]>();
+  for (const comp of stored.components) {
+    if (!componentsByType.has(comp.type)) {
+      componentsByType.set(comp.type, []);
+    }
+    componentsByType.get(comp.type)!.push(comp);
+  }
+
+  // Injected types of each component (DI consumers are matched by class name and file)
+  for (const comp of stored.components) {
+    const dependencies = stored.injections
+      .filter(injection => injection.consumer === comp.name && injection.filePath === comp.filePath)
+      .map(injection => injection.type);
+    if (dependencies.length > 0) {
+      comp.metadata = { ...comp.metadata, dependencies: Array.from(new Set(dependencies)) };
+    }
+  }
+
+  return {
+    projectId: stored.projectId,
+    frameworks: stored.frameworks,
+    components: stored.components,
+    componentsByType,
+    endpoints: stored.endpoints,
+    providers: stored.providers,
+    injections: stored.injections,
+    analyzedAt: stored.analyzedAt,
+    fileCount: stored.fileCount,
+    sourceHash: stored.sourceHash,
+    reusedFiles,
+  };
+}
+
+/**
+ * Files that changed since the stored analysis.
+ * Returns null when the stored analysis cannot be patched incrementally.
+ */
+function diffFileHashes(
+  previous: StoredFrameworkAnalysis | null,
+  currentHashes: Record<string, string>
+): { changed: Set<string>; removed: Set<string> } | null {
+  if (!previous || previous.version !== FRAMEWORKS_VERSION || !previous.fileHashes) {
+    return null;
+  }
+
+  const changed = new Set<string>();
+  const removed = new Set<string>();
+
+  for (const [filePath, hash] of Object.entries(currentHashes)) {
+    if (!hash || previous.fileHashes[filePath] !== hash) {
+      changed.add(filePath);
+    }
+  }
+  for (const filePath of Object.keys(previous.fileHashes)) {
+    if (!(filePath in currentHashes)) {
+      removed.add(filePath);
+    }
+  }
+
+  return { changed, removed };
+}
+
+/**
+ * Check if the stored framework analysis is outdated
+ */
+export async function isOutdated(projectId: string): Promise<OutdatedCheckResult> {
+  const stored = await loadStoredAnalysis(projectId);
+
+  if (!stored) {
+    return {
+      isOutdated: true,
+      reason: 'No analysis found'
+    };
+  }
+
+  if (stored.version !== FRAMEWORKS_VERSION) {
+    return {
+      isOutdated: true,
+      reason: `Analysis schema ${stored.version} is older than ${FRAMEWORKS_VERSION}`,
+      storedHash: stored.sourceHash
+    };
+  }
+
+  let currentHash: string;
+  try {
+    currentHash = await getCurrentSourceHash(projectId);
+  } catch (error: any) {
+    return {
+      isOutdated: true,
+      reason: error.message,
+      storedHash: stored.sourceHash
+    };
+  }
+
+  if (stored.sourceHash !== currentHash) {
+    return {
+      isOutdated: true,
+      reason: 'Source files have changed since last analysis',
+      currentHash,
+      storedHash: stored.sourceHash
+    };
+  }
+
+  return {
+    isOutdated: false,
+    currentHash,
+    storedHash: stored.sourceHash
+  };
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Indexed files of a project and the directory their paths are relative to
+ * @throws If the Memory Bank or its index is not available
+ */
+async function getProjectFiles(projectId: string): Promise<{ projectFiles: [string, any][]; baseDir: string }> {
   const mbService = getMemoryBankService();
   const mbPath = mbService.getMemoryBankPath();
   
@@ -683,10 +1565,6 @@ export async function analyzeFrameworks(projectId: string): Promise<FrameworkAna
     throw new Error('Index metadata contains no files.');
   }
   
-  // Log sample of indexed files for debugging
-  log(`[FrameworkDetector] Sample of indexed files (first 5):`);
-  allFiles.slice(0, 5).forEach(([f]) => log(`[FrameworkDetector]   - ${f}`));
-  
   // First, try to get sourcePath from project config (SAME AS relationsAnalyzerService)
   const projectConfig = await loadProjectConfig(projectId);
   
@@ -696,7 +1574,6 @@ export async function analyzeFrameworks(projectId: string): Promise<FrameworkAna
     // Use sourcePath from config - filter files that contain this path
     const sourcePath = projectConfig.sourcePath.replace(/\\/g, '/').toLowerCase();
     log(`[FrameworkDetector] Using sourcePath from config: "${projectConfig.sourcePath}"`);
-    log(`[FrameworkDetector] Normalized sourcePath: "${sourcePath}"`);
     
     // Collect all config files from rules to ensure they are included
     const configFiles = new Set<string>();
@@ -708,7 +1585,8 @@ export async function analyzeFrameworks(projectId: string): Promise<FrameworkAna
       const normalizedPath = filePath.replace(/\\/g, '/').toLowerCase();
       const fileName = path.basename(filePath).toLowerCase();
       // Include if matches sourcePath OR is a framework config file
-      return normalizedPath.includes(sourcePath) || configFiles.has(fileName);
+      return normalizedPath.includes(sourcePath) ||
+        Array.from(configFiles).some(cf => matchesConfigFile(fileName, cf));
     });
     log(`[FrameworkDetector] Files matching sourcePath (inc. config files): ${projectFiles.length}`);
   } else {
@@ -717,6 +1595,36 @@ export async function analyzeFrameworks(projectId: string): Promise<FrameworkAna
     projectFiles = filterFilesByProject(allFiles, projectId);
   }
   
+  // Determine base directory for resolving file paths (SAME AS relationsAnalyzerService)
+  const sampleFilePath = projectFiles[0]?.[0] || '';
+  const isRelativePath = sampleFilePath.startsWith('.') || !path.isAbsolute(sampleFilePath);
+  const baseDir = isRelativePath ? mbPath : '';
+  
+  return { projectFiles, baseDir };
+}
+
+/**
+ * Hash of the current per-file hashes of a project
+ */
+async function getCurrentSourceHash(projectId: string): Promise<string> {
+  const { projectFiles } = await getProjectFiles(projectId);
+  return calculateSourceHash(getFileHashes(projectFiles));
+}
+
+/**
+ * Main analysis function - follows same pattern as relationsAnalyzerService
+ *
+ * The result is stored in projects/<id>/frameworks.json with the hash of every
+ * file: when nothing changed the stored analysis is returned without reading
+ * the sources, otherwise only added and modified files are re-read (everything
+ * is re-read when the set of detected frameworks changes or `force` is set).
+ */
+export async function analyzeFrameworks(projectId: string, options: { force?: boolean } = {}): Promise<FrameworkAnalysis> {
+  log(`[FrameworkDetector] ========================================`);
+  log(`[FrameworkDetector] Analyzing project: ${projectId}`);
+  
+  const { projectFiles, baseDir } = await getProjectFiles(projectId);
+  
   log(`[FrameworkDetector] Project files: ${projectFiles.length}`);
   
   if (projectFiles.length === 0) {
@@ -732,12 +1640,27 @@ export async function analyzeFrameworks(projectId: string): Promise<FrameworkAna
     };
   }
   
-  // Determine base directory for resolving file paths (SAME AS relationsAnalyzerService)
-  const sampleFilePath = projectFiles[0]?.[0] || '';
-  const isRelativePath = sampleFilePath.startsWith('.') || !path.isAbsolute(sampleFilePath);
-  const baseDir = isRelativePath ? mbPath : '';
+  const fileHashes = getFileHashes(projectFiles);
+  const sourceHash = calculateSourceHash(fileHashes);
+  const previous = options.force ? null : await loadStoredAnalysis(projectId);
   
-  log(`[FrameworkDetector] File paths are ${isRelativePath ? 'relative' : 'absolute'}`);
+  if (previous && previous.version === FRAMEWORKS_VERSION && previous.sourceHash === sourceHash) {
+    log(`[FrameworkDetector] frameworks.json is up to date, reusing ${projectFiles.length} files`);
+    const analysis = toFrameworkAnalysis(previous, projectFiles.length);
+    analysisCache.set(projectId, analysis);
+    return analysis;
+  }
+  
+  const changes = diffFileHashes(previous, fileHashes);
+  const filesToRead = changes
+    ? projectFiles.filter(([filePath]) => changes.changed.has(filePath))
+    : projectFiles;
+  
+  if (changes) {
+    log(`[FrameworkDetector] Incremental analysis: ${changes.changed.size} changed/added, ${changes.removed.size} removed, ${projectFiles.length - changes.changed.size} unchanged`);
+  } else {
+    log(`[FrameworkDetector] Full analysis${options.force ? ' (forced)' : ''}`);
+  }
   log(`[FrameworkDetector] Base directory: ${baseDir || '(absolute paths)'}`);
   
   // Read file contents from disk
@@ -745,20 +1668,12 @@ export async function analyzeFrameworks(projectId: string): Promise<FrameworkAna
   let filesRead = 0;
   let filesSkipped = 0;
   
-  for (const [filePath] of projectFiles) {
+  for (const [filePath] of filesToRead) {
     try {
       const resolvedPath = path.resolve(baseDir, filePath);
       
       if (fs.existsSync(resolvedPath)) {
-        const content = fs.readFileSync(resolvedPath, 'utf-8');
-        fileContents.set(filePath, content);
-        
-        // Also store by filename for config file detection
-        const fileName = path.basename(filePath).toLowerCase();
-        if (!fileContents.has(fileName)) {
-          fileContents.set(fileName, content);
-        }
-        
+        fileContents.set(filePath, fs.readFileSync(resolvedPath, 'utf-8'));
         filesRead++;
       } else {
         filesSkipped++;
@@ -770,7 +1685,7 @@ export async function analyzeFrameworks(projectId: string): Promise<FrameworkAna
   
   log(`[FrameworkDetector] Files read: ${filesRead}, skipped: ${filesSkipped}`);
   
-  if (filesRead === 0) {
+  if (!changes && filesRead === 0) {
     log(`[FrameworkDetector] No files could be read from disk`);
     return {
       projectId,
@@ -783,13 +1698,39 @@ export async function analyzeFrameworks(projectId: string): Promise<FrameworkAna
     };
   }
   
-  // Step 1: Detect framework(s)
-  const detectedFrameworks = detectFrameworkFromFiles(fileContents);
+  // Step 1: Detect framework(s), keeping the evidence of unchanged files
+  const isKept = (filePath: string) => !!changes && !changes.changed.has(filePath) && !changes.removed.has(filePath);
+  const fileFrameworks: Record<string, FileFrameworkEvidence> = {};
+  if (changes) {
+    for (const [filePath, evidence] of Object.entries(previous!.fileFrameworks || {})) {
+      if (isKept(filePath)) {
+        fileFrameworks[filePath] = evidence;
+      }
+    }
+  }
+  for (const [filePath, content] of fileContents) {
+    const evidence = detectFileFrameworks(filePath, content);
+    if (evidence) {
+      fileFrameworks[filePath] = evidence;
+    }
+  }
+  
+  const detectedFrameworks = combineFrameworkEvidence(fileFrameworks);
   log(`[FrameworkDetector] Detected frameworks: ${detectedFrameworks.join(', ') || 'None'}`);
   
+  // Unchanged files were only extracted for the previous frameworks
+  if (changes) {
+    const previousFrameworks = previous!.frameworks;
+    if (detectedFrameworks.length !== previousFrameworks.length ||
+        detectedFrameworks.some(framework => !previousFrameworks.includes(framework))) {
+      log(`[FrameworkDetector] Detected frameworks changed (was: ${previousFrameworks.join(', ') || 'None'}), re-analyzing all files`);
+      return analyzeFrameworks(projectId, { force: true });
+    }
+  }
+  
   // Step 2: Extract components for each detected framework
-  const allComponents: FrameworkComponent[] = [];
-  const allEndpoints: EndpointInfo[] = [];
+  const allComponents: FrameworkComponent[] = changes ? previous!.components.filter(comp => isKept(comp.filePath)) : [];
+  const allEndpoints: EndpointInfo[] = changes ? previous!.endpoints.filter(endpoint => isKept(endpoint.filePath)) : [];
   
   for (const framework of detectedFrameworks) {
     const { components, endpoints } = extractComponents(fileContents, framework);
@@ -797,46 +1738,72 @@ export async function analyzeFrameworks(projectId: string): Promise<FrameworkAna
     allEndpoints.push(...endpoints);
   }
   
-  // Group by type
-  const componentsByType = new Map<FrameworkComponentType, FrameworkComponent[]>();
-  for (const comp of allComponents) {
-    if (!componentsByType.has(comp.type)) {
-      componentsByType.set(comp.type, []);
+  // Step 3: Extract DI providers and injection sites (Spring, NestJS)
+  const allProviders: DiProvider[] = changes ? (previous!.providers || []).filter(provider => isKept(provider.filePath)) : [];
+  const allInjections: DiInjection[] = changes ? (previous!.injections || []).filter(injection => isKept(injection.filePath)) : [];
+  
+  for (const [filePath, content] of fileContents) {
+    const { providers, injections } = extractInjectionFacts(filePath, content, detectedFrameworks);
+    allProviders.push(...providers);
+    allInjections.push(...injections);
+  }
+  
+  // Files that could not be read are left out, so the next analysis reads them again
+  const storedHashes: Record<string, string> = {};
+  for (const [filePath, hash] of Object.entries(fileHashes)) {
+    if (fileContents.has(filePath) || isKept(filePath)) {
+      storedHashes[filePath] = hash;
     }
-    componentsByType.get(comp.type)!.push(comp);
   }
   
-  const analysis: FrameworkAnalysis = {
+  const stored: StoredFrameworkAnalysis = {
+    version: FRAMEWORKS_VERSION,
     projectId,
+    sourceHash: calculateSourceHash(storedHashes),
+    fileHashes: storedHashes,
+    fileFrameworks,
     frameworks: detectedFrameworks,
     components: allComponents,
-    componentsByType,
     endpoints: allEndpoints,
+    providers: allProviders,
+    injections: allInjections,
     analyzedAt: Date.now(),
     fileCount: projectFiles.length,
   };
+  await saveStoredAnalysis(stored);
   
+  const analysis = toFrameworkAnalysis(stored, changes ? projectFiles.length - changes.changed.size : 0);
   analysisCache.set(projectId, analysis);
   
   log(`[FrameworkDetector] Analysis complete:`);
   log(`[FrameworkDetector]   - Frameworks: ${analysis.frameworks.join(', ') || 'None'}`);
   log(`[FrameworkDetector]   - Components: ${allComponents.length}`);
   log(`[FrameworkDetector]   - Endpoints: ${allEndpoints.length}`);
+  log(`[FrameworkDetector]   - DI providers: ${allProviders.length}, injections: ${allInjections.length}`);
+  log(`[FrameworkDetector]   - Files reused: ${analysis.reusedFiles}`);
   log(`[FrameworkDetector] ========================================`);
   
   return analysis;
 }
 
 /**
- * Get cached analysis or perform new analysis
+ * Get the analysis of a project: from memory while the index has not changed,
+ * otherwise refreshed from frameworks.json (incrementally)
+ *
+ * @param forceRefresh - Re-analyze every file, ignoring the stored analysis
  */
 export async function getFrameworkAnalysis(projectId: string, forceRefresh: boolean = false): Promise<FrameworkAnalysis | null> {
-  if (!forceRefresh && analysisCache.has(projectId)) {
-    return analysisCache.get(projectId)!;
-  }
-
   try {
-    return await analyzeFrameworks(projectId);
+    const cached = analysisCache.get(projectId);
+    if (cached && !forceRefresh) {
+      // The index may have changed since (re-indexing, another window)
+      if (cached.sourceHash === await getCurrentSourceHash(projectId)) {
+        return cached;
+      }
+      log(`[FrameworkDetector] Analysis of ${projectId} is outdated: source files have changed`);
+    }
+
+    return await analyzeFrameworks(projectId, { force: forceRefresh });
   } catch (error) {
     log(`[FrameworkDetector] ERROR: Error analyzing project ${projectId}: ${error}`);
     return null;
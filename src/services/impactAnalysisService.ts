@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Impact Analysis Service
+ * Answers "what breaks if I change this node" by walking incoming edges of
+ * the relations graph transitively, ranking impacted nodes by distance
+ */
+
+import * as path from 'path';
+import { getMemoryBankService } from './memoryBankService';
+import {
+  ProjectRelations,
+  RelationNode,
+  RelationEdge,
+  ImpactAnalysis,
+  ImpactCategory,
+  ImpactedNode,
+  NODE_TYPE_LABELS,
+} from '../types/relations';
+
+/** Order used to rank categories at the same distance */
+const CATEGORY_ORDER: Record<ImpactCategory, number> = {
+  'controller': 0,
+  'service': 1,
+  'test': 2,
+  'other': 3,
+};
+
+/** Section titles for the Markdown report */
+const CATEGORY_TITLES: Record<ImpactCategory, string> = {
+  'controller': 'Controllers',
+  'service': 'Services',
+  'test': 'Tests',
+  'other': 'Otros',
+};
+
+/** Path patterns that identify test files */
+const TEST_FILE_PATTERNS = [
+  /(^|\/)(__tests__|tests?|spec|specs)\//,
+  /\.(test|spec|e2e)\.[jt]sx?$/,
+  /(^|\/)test_[^/]+\.py$/,
+  /_test\.(py|go)$/,
+  /Tests?\.(java|kt|cs)$/,
+  /IT\.java$/,
+];
+
+/**
+ * Classify a node for the impact report
+ */
+export function getImpactCategory(node: RelationNode): ImpactCategory {
+  const normalizedPath = node.filePath.replace(/\\/g, '/');
+  if (TEST_FILE_PATTERNS.some(pattern => pattern.test(normalizedPath))) {
+    return 'test';
+  }
+  if (node.type === 'controller' || node.type === 'handler') {
+    return 'controller';
+  }
+  if (node.type === 'service') {
+    return 'service';
+  }
+  return 'other';
+}
+
+/**
+ * Walk incoming edges from a node (breadth-first) and collect every node
+ * that depends on it directly or transitively
+ *
+ * @param relations - Project relations graph
+ * @param nodeId - ID of the node being changed
+ * @param maxDepth - Optional maximum number of hops
+ */
+export function analyzeImpact(
+  relations: ProjectRelations,
+  nodeId: string,
+  maxDepth?: number
+): ImpactAnalysis {
+  const nodesById = new Map(relations.nodes.map(n => [n.id, n] as [string, RelationNode]));
+  const root = nodesById.get(nodeId);
+  if (!root) {
+    throw new Error(`Node ${nodeId} not found in relations of ${relations.projectId}`);
+  }
+
+  // Reverse adjacency: target -> incoming edges
+  const incoming = new Map<string, RelationEdge[]>();
+  for (const edge of relations.edges) {
+    if (!incoming.has(edge.target)) {
+      incoming.set(edge.target, []);
+    }
+    incoming.get(edge.target)!.push(edge);
+  }
+
+  const visited = new Map<string, ImpactedNode>();
+  let frontier: { id: string; path: string[]; edgeIds: string[] }[] = [{ id: root.id, path: [root.id], edgeIds: [] }];
+  let distance = 0;
+
+  while (frontier.length > 0 && (maxDepth === undefined || distance < maxDepth)) {
+    distance++;
+    const next: typeof frontier = [];
+
+    for (const current of frontier) {
+      for (const edge of incoming.get(current.id) || []) {
+        if (edge.source === root.id || visited.has(edge.source)) continue;
+
+        const node = nodesById.get(edge.source);
+        if (!node) continue;
+
+        const entry: ImpactedNode = {
+          node,
+          distance,
+          category: getImpactCategory(node),
+          path: [node.id, ...current.path],
+          edgeIds: [edge.id, ...current.edgeIds],
+        };
+        visited.set(node.id, entry);
+        next.push({ id: node.id, path: entry.path, edgeIds: entry.edgeIds });
+      }
+    }
+
+    frontier = next;
+  }
+
+  const impacted = Array.from(visited.values()).sort((a, b) =>
+    a.distance - b.distance ||
+    CATEGORY_ORDER[a.category] - CATEGORY_ORDER[b.category] ||
+    a.node.name.localeCompare(b.node.name)
+  );
+
+  return {
+    projectId: relations.projectId,
+    root,
+    impacted,
+    maxDepth,
+    generatedAt: Date.now()
+  };
+}
+
+/**
+ * Count impacted nodes per category
+ */
+export function countByCategory(analysis: ImpactAnalysis): Record<ImpactCategory, number> {
+  const counts: Record<ImpactCategory, number> = { controller: 0, service: 0, test: 0, other: 0 };
+  for (const entry of analysis.impacted) {
+    counts[entry.category]++;
+  }
+  return counts;
+}
+
+/**
+ * Resolve a node file path (as stored in the index) to an absolute path
+ */
+export function resolveNodeFilePath(filePath: string): string {
+  if (path.isAbsolute(filePath)) return filePath;
+  const mbPath = getMemoryBankService().getMemoryBankPath();
+  return mbPath ? path.resolve(path.dirname(mbPath), filePath) : filePath;
+}
+
+/**
+ * Find the node that represents a file opened in the editor
+ */
+export function findNodeByFile(relations: ProjectRelations, absolutePath: string): RelationNode | null {
+  const normalize = (p: string) => path.resolve(p).replace(/\\/g, '/').toLowerCase();
+  const target = normalize(absolutePath);
+
+  const exact = relations.nodes.find(node => normalize(resolveNodeFilePath(node.filePath)) === target);
+  if (exact) return exact;
+
+  // Fallback: longest matching path suffix (index paths may use a different base)
+  const targetParts = target.split('/');
+  let best: RelationNode | null = null;
+  let bestScore = 1;
+  for (const node of relations.nodes) {
+    const parts = node.filePath.replace(/\\/g, '/').toLowerCase().split('/');
+    let score = 0;
+    while (score < parts.length && score < targetParts.length &&
+           parts[parts.length - 1 - score] === targetParts[targetParts.length - 1 - score]) {
+      score++;
+    }
+    if (score > bestScore) {
+      best = node;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Build a Markdown report of an impact analysis (to attach to PRs)
+ */
+export function generateImpactMarkdown(analysis: ImpactAnalysis): string {
+  const names = new Map<string, string>();
+  names.set(analysis.root.id, analysis.root.name);
+  analysis.impacted.forEach(entry => names.set(entry.node.id, entry.node.name));
+
+  const counts = countByCategory(analysis);
+  const lines: string[] = [];
+
+  lines.push(`# Análisis de impacto: \`${analysis.root.name}\``);
+  lines.push('');
+  lines.push(`- **Proyecto:** ${analysis.projectId}`);
+  lines.push(`- **Nodo modificado:** ${analysis.root.name} (${NODE_TYPE_LABELS[analysis.root.type] || analysis.root.type})`);
+  lines.push(`- **Archivo:** \`${analysis.root.filePath.replace(/\\/g, '/')}\``);
+  lines.push(`- **Generado:** ${new Date(analysis.generatedAt).toISOString()}`);
+  if (analysis.maxDepth !== undefined) {
+    lines.push(`- **Profundidad máxima:** ${analysis.maxDepth}`);
+  }
+  lines.push(`- **Nodos impactados:** ${analysis.impacted.length} ` +
+    `(${counts.controller} controllers, ${counts.service} services, ${counts.test} tests, ${counts.other} otros)`);
+  lines.push('');
+
+  if (analysis.impacted.length === 0) {
+    lines.push('_Ningún nodo depende de este elemento._');
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  for (const category of Object.keys(CATEGORY_ORDER) as ImpactCategory[]) {
+    const entries = analysis.impacted.filter(entry => entry.category === category);
+    if (entries.length === 0) continue;
+
+    lines.push(`## ${CATEGORY_TITLES[category]} (${entries.length})`);
+    lines.push('');
+    lines.push('| Distancia | Nodo | Tipo | Archivo | Cadena |');
+    lines.push('|---:|---|---|---|---|');
+    for (const entry of entries) {
+      const chain = entry.path.map(id => names.get(id) || id).join(' → ');
+      lines.push(`| ${entry.distance} | ${entry.node.name} | ${NODE_TYPE_LABELS[entry.node.type] || entry.node.type} | ` +
+        `\`${entry.node.filePath.replace(/\\/g, '/')}\` | ${chain} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview LLM Provider Service
+ * Backends behind openaiService: each provider exposes a Chat Completions
+ * compatible `chat` call and `embed`, so the rest of the extension keeps
+ * speaking the OpenAI message format whatever model answers.
+ *
+ * Supported providers:
+ * - openai:    OpenAI API (also exposes the Responses API used by GPT-5.x)
+ * - azure:     Azure OpenAI (the model name is the deployment name)
+ * - anthropic: Anthropic Messages API (no embeddings)
+ * - local:     any OpenAI-compatible server (Ollama, llama.cpp server, vLLM, LM Studio...)
+ */
+
+import * as configManager from '../utils/configManager';
+import type {
+  ChatMessage,
+  ChatCompletionParams,
+  ChatCompletionResponse,
+  ToolCall,
+} from '../types/openai';
+
+export interface LLMProvider {
+  id: configManager.LLMProviderId;
+  /** Chat Completions request (tools use the Chat Completions format) */
+  chat(params: ChatCompletionParams): Promise<ChatCompletionResponse>;
+  /** Embedding vector of a text */
+  embed(text: string, model: string): Promise<number[]>;
+  /** OpenAI Responses API, only available on the OpenAI provider */
+  responses?: { create(params: any): Promise<any> };
+}
+
+/** Anthropic API version sent in every request */
+const ANTHROPIC_VERSION = '2023-06-01';
+/** Anthropic requires max_tokens; used when the caller does not set it */
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 8192;
+
+// Providers already built (reset when the configuration changes)
+const providers = new Map<configManager.LLMProviderId, LLMProvider>();
+
+let openaiModule: any = null;
+
+/**
+ * Load the "openai" SDK (used by the openai, azure and local providers)
+ */
+async function loadOpenAIModule(): Promise<any> {
+  if (!openaiModule) {
+    try {
+      openaiModule = await import('openai');
+    } catch (error) {
+      throw new Error('The "openai" module is missing. Please run "npm install" in the extension directory.');
+    }
+  }
+  return openaiModule;
+}
+
+/**
+ * Get the provider with the given id, creating its client on first use
+ * @throws If the provider is not configured
+ */
+export async function getProvider(id: configManager.LLMProviderId): Promise<LLMProvider> {
+  const cached = providers.get(id);
+  if (cached) {
+    return cached;
+  }
+
+  const config = configManager.getProviderConfig(id);
+  const missing = configManager.getMissingProviderSettings(id);
+  if (missing.length > 0) {
+    throw new Error(`LLM provider "${id}" is not configured (missing ${missing.join(', ')})`);
+  }
+
+  let provider: LLMProvider;
+  switch (id) {
+    case 'openai':
+    case 'azure':
+    case 'local':
+      provider = await createOpenAICompatibleProvider(config);
+      break;
+    case 'anthropic':
+      provider = createAnthropicProvider(config);
+      break;
+    default:
+      throw new Error(`Unknown LLM provider: ${id}`);
+  }
+
+  providers.set(id, provider);
+  console.log(`[LLM] Provider ${id} ready${config.baseUrl ? ` (${config.baseUrl})` : ''}`);
+  return provider;
+}
+
+/**
+ * Get the provider assigned to a task type (planning, analysis, codegen, embeddings...)
+ */
+export function getProviderForTask(taskType?: string): Promise<LLMProvider> {
+  return getProvider(configManager.getProviderForTask(taskType));
+}
+
+/**
+ * Drop the cached clients so the next call picks up new settings
+ */
+export function resetProviders(): void {
+  providers.clear();
+}
+
+// ============================================
+// OpenAI / Azure OpenAI / OpenAI-compatible
+// ============================================
+
+async function createOpenAICompatibleProvider(config: configManager.LLMProviderConfig): Promise<LLMProvider> {
+  const sdk = await loadOpenAIModule();
+
+  let client: any;
+  if (config.id === 'azure') {
+    client = new sdk.AzureOpenAI({
+      endpoint: config.baseUrl,
+      apiKey: config.apiKey,
+      apiVersion: config.apiVersion
+    });
+  } else {
+    const OpenAI = sdk.default || sdk.OpenAI;
+    client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseUrl || undefined
+    });
+  }
+
+  return {
+    id: config.id,
+    chat: params => client.chat.completions.create(params),
+    embed: async (text, model) => {
+      // Explicit float: the SDK defaults to base64, which local servers may ignore
+      const response = await client.embeddings.create({ model, input: text, encoding_format: 'float' });
+      return response.data[0].embedding;
+    },
+    responses: config.id === 'openai' ? client.responses : undefined
+  };
+}
+
+// ============================================
+// Anthropic
+// ============================================
+
+/**
+ * Convert OpenAI chat messages to Anthropic messages: system prompts go to
+ * the top-level `system` field, tool calls and results become content blocks
+ */
+function toAnthropicMessages(messages: ChatMessage[]): { system: string; messages: any[] } {
+  const system: string[] = [];
+  const converted: any[] = [];
+
+  const push = (role: 'user' | 'assistant', blocks: any[]) => {
+    const last = converted[converted.length - 1];
+    // Anthropic expects alternating turns: merge consecutive messages of the same role
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === 'system' || message.role === 'developer') {
+      system.push(message.content);
+    } else if (message.role === 'tool') {
+      push('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: message.content || '' }]);
+    } else if (message.role === 'assistant') {
+      const blocks: any[] = message.content ? [{ type: 'text', text: message.content }] : [];
+      for (const toolCall of message.tool_calls || []) {
+        let input: any = {};
+        try {
+          input = JSON.parse(toolCall.function.arguments || '{}');
+        } catch (error) {
+          input = {};
+        }
+        blocks.push({ type: 'tool_use', id: toolCall.id, name: toolCall.function.name, input });
+      }
+      if (blocks.length > 0) {
+        push('assistant', blocks);
+      }
+    } else if (message.content) {
+      // Empty text blocks are rejected by the API
+      push('user', [{ type: 'text', text: message.content }]);
+    }
+  }
+
+  return { system: system.join('\n\n'), messages: converted };
+}
+
+function toAnthropicTools(tools: any[]): any[] {
+  return tools.map(tool => {
+    // Accept both Chat Completions ({ function: {...} }) and Responses ({ name, ... }) tool formats
+    const fn = tool.function || tool;
+    return {
+      name: fn.name,
+      description: fn.description,
+      input_schema: fn.parameters || { type: 'object', properties: {} }
+    };
+  });
+}
+
+function toAnthropicToolChoice(toolChoice: any): any {
+  if (!toolChoice || toolChoice === 'auto') return { type: 'auto' };
+  if (toolChoice === 'none') return { type: 'none' };
+  if (toolChoice === 'required') return { type: 'any' };
+  if (toolChoice.function?.name) return { type: 'tool', name: toolChoice.function.name };
+  return { type: 'auto' };
+}
+
+function createAnthropicProvider(config: configManager.LLMProviderConfig): LLMProvider {
+  const baseUrl = (config.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+
+  return {
+    id: 'anthropic',
+    chat: async params => {
+      const { system, messages } = toAnthropicMessages(params.messages);
+      const body: any = {
+        model: params.model,
+        messages,
+        max_tokens: params.max_tokens || ANTHROPIC_DEFAULT_MAX_TOKENS
+      };
+      if (system) body.system = system;
+      if (params.temperature !== undefined) body.temperature = params.temperature;
+      if (params.top_p !== undefined) body.top_p = params.top_p;
+      if (params.stop !== undefined) body.stop_sequences = Array.isArray(params.stop) ? params.stop : [params.stop];
+      if (params.tools && params.tools.length > 0) {
+        body.tools = toAnthropicTools(params.tools);
+        body.tool_choice = toAnthropicToolChoice(params.tool_choice);
+      }
+
+      const response = await fetch(`${baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': config.apiKey || '',
+          'anthropic-version': ANTHROPIC_VERSION
+        },
+        body: JSON.stringify(body)
+      });
+      if (!response.ok) {
+        // Error bodies are not always JSON (e.g. a proxy error page)
+        const text = await response.text();
+        let detail = text.slice(0, 500) || response.statusText;
+        try {
+          detail = JSON.parse(text)?.error?.message || detail;
+        } catch (error) {
+          // Keep the raw body
+        }
+        throw new Error(`Anthropic API error ${response.status}: ${detail}`);
+      }
+      const data: any = await response.json();
+
+      let content = '';
+      const toolCalls: ToolCall[] = [];
+      for (const block of data.content || []) {
+        if (block.type === 'text') {
+          content += block.text;
+        } else if (block.type === 'tool_use') {
+          toolCalls.push({
+            id: block.id,
+            type: 'function',
+            function: { name: block.name, arguments: JSON.stringify(block.input || {}) }
+          });
+        }
+      }
+
+      return {
+        id: data.id,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: data.model || params.model,
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content,
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+          },
+          finish_reason: data.stop_reason === 'tool_use' ? 'tool_calls' : data.stop_reason === 'max_tokens' ? 'length' : 'stop',
+          logprobs: null
+        }],
+        usage: {
+          prompt_tokens: data.usage?.input_tokens || 0,
+          completion_tokens: data.usage?.output_tokens || 0,
+          total_tokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0)
+        },
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+      };
+    },
+    embed: async () => {
+      throw new Error('Anthropic does not provide embeddings; assign another provider to the "embeddings" task');
+    }
+  };
+}
@@ -0,0 +1,811 @@
+/**
+ * @fileoverview MCP Client Service
+ * Connects to the MCP servers configured in `memorybank.mcpServers`, lists their tools
+ * and keeps connection state (status, latency, tools) live for the dashboard and the agent.
+ *
+ * Supported transports:
+ * - stdio: spawns `command args` and speaks newline-delimited JSON-RPC over stdin/stdout
+ * - http:  Streamable HTTP (POST per message, JSON or SSE response)
+ * - sse:   legacy HTTP+SSE (GET event stream + POST to the announced endpoint)
+ */
+
+import * as vscode from 'vscode';
+import * as childProcess from 'child_process';
+import * as http from 'http';
+import * as https from 'https';
+import { URL } from 'url';
+import {
+  MCPServerConfig,
+  MCPConnection,
+  MCPTool,
+  MCPToolCallResult,
+  MCPTransportType,
+} from '../types/mcp';
+
+// ============================================================================
+// Configurable Logger (allows OutputChannel logging)
+// ============================================================================
+
+let logger: (msg: string) => void = console.log;
+
+/**
+ * Set the logger function for the MCP client
+ * Call this from the extension to route logs to OutputChannel
+ */
+export function setLogger(logFn: (msg: string) => void): void {
+  logger = logFn;
+}
+
+function log(msg: string): void {
+  logger(msg);
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MCP_PROTOCOL_VERSION = '2025-03-26';
+const CLIENT_INFO = { name: 'memory-bank-vscode', version: '1.0.0' };
+/** Default timeout for a JSON-RPC request */
+const REQUEST_TIMEOUT_MS = 30000;
+/** Handshake timeout (npx may need to download the server first) */
+const CONNECT_TIMEOUT_MS = 60000;
+/** Interval between latency/health checks of connected servers */
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+
+// ============================================================================
+// JSON-RPC Transports
+// ============================================================================
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+interface MCPTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+  start(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): void;
+}
+
+/**
+ * Open an HTTP(S) request and resolve with the response headers received
+ */
+function openHttpRequest(
+  target: URL,
+  method: string,
+  headers: Record<string, string>,
+  body?: string
+): Promise<{ req: http.ClientRequest; res: http.IncomingMessage }> {
+  return new Promise((resolve, reject) => {
+    const client = target.protocol === 'https:' ? https : http;
+    const req = client.request(target, { method, headers }, (res) => resolve({ req, res }));
+    req.on('error', reject);
+    if (body !== undefined) {
+      req.write(body);
+    }
+    req.end();
+  });
+}
+
+function readBody(res: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    res.setEncoding('utf8');
+    res.on('data', (chunk: string) => (data += chunk));
+    res.on('end', () => resolve(data));
+    res.on('error', reject);
+  });
+}
+
+/**
+ * Parse a text/event-stream response, calling onEvent for every complete event
+ */
+function consumeEventStream(
+  res: http.IncomingMessage,
+  onEvent: (event: string, data: string) => void,
+  onEnd?: (error?: Error) => void
+): void {
+  let buffer = '';
+  res.setEncoding('utf8');
+  res.on('data', (chunk: string) => {
+    buffer += chunk;
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() || '';
+    for (const block of blocks) {
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+      if (dataLines.length > 0) {
+        onEvent(event, dataLines.join('\n'));
+      }
+    }
+  });
+  res.on('end', () => onEnd?.());
+  res.on('error', (error) => onEnd?.(error));
+}
+
+function dispatchJson(raw: string, transport: MCPTransport): void {
+  const parsed = JSON.parse(raw);
+  const messages: JsonRpcMessage[] = Array.isArray(parsed) ? parsed : [parsed];
+  messages.forEach((msg) => transport.onmessage?.(msg));
+}
+
+/**
+ * stdio transport: one JSON-RPC message per line
+ */
+class StdioTransport implements MCPTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+  private process: childProcess.ChildProcess | null = null;
+  private buffer = '';
+
+  constructor(private serverId: string, private config: MCPServerConfig) {}
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cwd = this.config.cwd || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || process.cwd();
+      const proc = childProcess.spawn(this.config.command!, this.config.args || [], {
+        cwd,
+        env: { ...process.env, ...(this.config.env || {}) },
+        stdio: ['pipe', 'pipe', 'pipe'],
+        // npx/npm are .cmd shims on Windows
+        shell: process.platform === 'win32',
+      });
+      this.process = proc;
+
+      proc.stdout!.setEncoding('utf8');
+      proc.stdout!.on('data', (chunk: string) => {
+        this.buffer += chunk;
+        let newline: number;
+        while ((newline = this.buffer.indexOf('\n')) >= 0) {
+          const line = this.buffer.slice(0, newline).trim();
+          this.buffer = this.buffer.slice(newline + 1);
+          if (!line) continue;
+          try {
+            dispatchJson(line, this);
+          } catch {
+            log(`[MCP:${this.serverId}] Ignoring non JSON-RPC output: ${line.substring(0, 200)}`);
+          }
+        }
+      });
+
+      proc.stderr!.setEncoding('utf8');
+      proc.stderr!.on('data', (chunk: string) => {
+        log(`[MCP:${this.serverId}] stderr: ${chunk.trim()}`);
+      });
+
+      proc.once('error', (error) => {
+        reject(error);
+        this.finish(proc, error);
+      });
+      proc.once('exit', (code) => {
+        this.finish(proc, code ? new Error(`Process exited with code ${code}`) : undefined);
+      });
+      // EPIPE when the server exits or closes its stdin while a message is written
+      proc.stdin!.on('error', (error) => {
+        log(`[MCP:${this.serverId}] stdin error: ${error.message}`);
+        this.finish(proc, error);
+      });
+      // @types/node 10 does not declare the 'spawn' event of ChildProcess
+      (proc as NodeJS.EventEmitter).once('spawn', () => resolve());
+      // Older Node versions don't emit 'spawn'; a pid means the process started
+      if (proc.pid) {
+        resolve();
+      }
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const stdin = this.process && this.process.stdin;
+    if (!stdin || !stdin.writable) {
+      throw new Error('MCP server process is not running');
+    }
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(JSON.stringify(message) + '\n', (error?: Error | null) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  close(): void {
+    if (this.process) {
+      this.process.kill();
+      this.process = null;
+    }
+  }
+
+  /**
+   * Report the end of the process once (error, exit and stdin errors can all fire)
+   */
+  private finish(proc: childProcess.ChildProcess, error?: Error): void {
+    if (this.process !== proc) {
+      return;
+    }
+    this.process = null;
+    this.onclose?.(error);
+  }
+}
+
+/**
+ * Streamable HTTP transport: every message is a POST; responses come back
+ * as a JSON body or as an SSE stream on the same request
+ */
+class HttpTransport implements MCPTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+  private sessionId: string | undefined;
+  private endpoint: URL;
+
+  constructor(private config: MCPServerConfig) {
+    this.endpoint = new URL(config.url!);
+  }
+
+  async start(): Promise<void> {
+    // Stateless until the first POST (initialize) returns a session id
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(this.config.headers || {}),
+    };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+
+    const { res } = await openHttpRequest(this.endpoint, 'POST', headers, JSON.stringify(message));
+    const sessionHeader = res.headers['mcp-session-id'];
+    if (typeof sessionHeader === 'string') {
+      this.sessionId = sessionHeader;
+    }
+
+    const status = res.statusCode || 0;
+    if (status >= 400) {
+      const body = await readBody(res);
+      throw new Error(`HTTP ${status}: ${body.substring(0, 200)}`);
+    }
+    if (status === 202) {
+      res.resume();
+      return;
+    }
+
+    const contentType = String(res.headers['content-type'] || '');
+    if (contentType.includes('text/event-stream')) {
+      consumeEventStream(res, (event, data) => {
+        if (event === 'message') {
+          try {
+            dispatchJson(data, this);
+          } catch (error) {
+            log(`[MCP] Invalid SSE payload: ${error}`);
+          }
+        }
+      });
+    } else {
+      const body = await readBody(res);
+      if (body.trim()) {
+        dispatchJson(body, this);
+      }
+    }
+  }
+
+  close(): void {
+    if (this.sessionId) {
+      const headers = { 'Mcp-Session-Id': this.sessionId, ...(this.config.headers || {}) };
+      openHttpRequest(this.endpoint, 'DELETE', headers)
+        .then(({ res }) => res.resume())
+        .catch(() => undefined);
+      this.sessionId = undefined;
+    }
+    this.onclose?.();
+  }
+}
+
+/**
+ * Legacy HTTP+SSE transport: a long-lived GET stream announces the POST
+ * endpoint through an `endpoint` event and then carries every response
+ */
+class SseTransport implements MCPTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+  private streamRequest: http.ClientRequest | null = null;
+  private postEndpoint: URL | null = null;
+
+  constructor(private config: MCPServerConfig) {}
+
+  async start(): Promise<void> {
+    const streamUrl = new URL(this.config.url!);
+    const { req, res } = await openHttpRequest(streamUrl, 'GET', {
+      Accept: 'text/event-stream',
+      ...(this.config.headers || {}),
+    });
+    this.streamRequest = req;
+
+    if ((res.statusCode || 0) >= 400) {
+      res.resume();
+      throw new Error(`HTTP ${res.statusCode} opening SSE stream`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      consumeEventStream(
+        res,
+        (event, data) => {
+          if (event === 'endpoint') {
+            this.postEndpoint = new URL(data.trim(), streamUrl);
+            resolve();
+          } else if (event === 'message') {
+            try {
+              dispatchJson(data, this);
+            } catch (error) {
+              log(`[MCP] Invalid SSE payload: ${error}`);
+            }
+          }
+        },
+        (error) => {
+          this.streamRequest = null;
+          reject(error || new Error('SSE stream closed before endpoint event'));
+          this.onclose?.(error);
+        }
+      );
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.postEndpoint) {
+      throw new Error('SSE endpoint not established');
+    }
+    const { res } = await openHttpRequest(
+      this.postEndpoint,
+      'POST',
+      { 'Content-Type': 'application/json', ...(this.config.headers || {}) },
+      JSON.stringify(message)
+    );
+    const body = await readBody(res);
+    if ((res.statusCode || 0) >= 400) {
+      throw new Error(`HTTP ${res.statusCode}: ${body.substring(0, 200)}`);
+    }
+  }
+
+  close(): void {
+    if (this.streamRequest) {
+      this.streamRequest.abort();
+      this.streamRequest = null;
+    }
+  }
+}
+
+/**
+ * Infer the transport from an mcpServers entry
+ */
+export function getTransportType(config: MCPServerConfig): MCPTransportType {
+  if (config.transport) {
+    return config.transport;
+  }
+  if (config.url) {
+    return /\/sse\/?$/.test(config.url) ? 'sse' : 'http';
+  }
+  return 'stdio';
+}
+
+function createTransport(serverId: string, config: MCPServerConfig): MCPTransport {
+  switch (getTransportType(config)) {
+    case 'http':
+      return new HttpTransport(config);
+    case 'sse':
+      return new SseTransport(config);
+    default:
+      if (!config.command) {
+        throw new Error(`Server "${serverId}" has neither "command" nor "url"`);
+      }
+      return new StdioTransport(serverId, config);
+  }
+}
+
+// ============================================================================
+// MCP Client
+// ============================================================================
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timer;
+}
+
+/**
+ * A JSON-RPC session with a single MCP server
+ */
+export class MCPClient {
+  private transport: MCPTransport | null = null;
+  private nextId = 1;
+  private pending = new Map<number | string, PendingRequest>();
+  public serverInfo: { name?: string; version?: string } = {};
+  public onToolsChanged?: () => void;
+  public onClose?: (error?: Error) => void;
+
+  constructor(public readonly serverId: string, private config: MCPServerConfig) {}
+
+  /**
+   * Start the transport and perform the initialize handshake
+   */
+  async connect(): Promise<void> {
+    const transport = createTransport(this.serverId, this.config);
+    transport.onmessage = (message) => this.handleMessage(message);
+    transport.onclose = (error) => {
+      this.rejectAll(error || new Error('Connection closed'));
+      this.transport = null;
+      this.onClose?.(error);
+    };
+    this.transport = transport;
+
+    await transport.start();
+    const result = await this.request(
+      'initialize',
+      {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: CLIENT_INFO,
+      },
+      CONNECT_TIMEOUT_MS
+    );
+    this.serverInfo = result?.serverInfo || {};
+    await this.notify('notifications/initialized');
+  }
+
+  /**
+   * Send a request and wait for its response
+   */
+  request(method: string, params?: any, timeoutMs: number = REQUEST_TIMEOUT_MS): Promise<any> {
+    if (!this.transport) {
+      return Promise.reject(new Error(`MCP server "${this.serverId}" is not connected`));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Request "${method}" timed out after ${timeoutMs} ms`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.transport!.send({ jsonrpc: '2.0', id, method, params }).catch((error) => {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error);
+      });
+    });
+  }
+
+  async notify(method: string, params?: any): Promise<void> {
+    await this.transport?.send({ jsonrpc: '2.0', method, params });
+  }
+
+  /**
+   * List every tool exposed by the server (follows pagination cursors)
+   */
+  async listTools(): Promise<MCPTool[]> {
+    const tools: MCPTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : {});
+      for (const tool of result?.tools || []) {
+        tools.push({
+          name: tool.name,
+          description: tool.description || '',
+          inputSchema: tool.inputSchema,
+          server: this.serverId,
+        });
+      }
+      cursor = result?.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, any>): Promise<MCPToolCallResult> {
+    return this.request('tools/call', { name, arguments: args || {} }, CONNECT_TIMEOUT_MS);
+  }
+
+  /**
+   * Measure round-trip latency with a `ping` request
+   */
+  async ping(): Promise<number> {
+    const start = Date.now();
+    await this.request('ping', {}, REQUEST_TIMEOUT_MS);
+    return Date.now() - start;
+  }
+
+  isConnected(): boolean {
+    return this.transport !== null;
+  }
+
+  close(): void {
+    const transport = this.transport;
+    this.transport = null;
+    this.rejectAll(new Error('Connection closed'));
+    if (transport) {
+      // Intentional close: don't report it as a failure
+      transport.onclose = undefined;
+      transport.close();
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (message.id !== undefined && message.method === undefined) {
+      const pending = this.pending.get(message.id);
+      if (!pending) return;
+      clearTimeout(pending.timer);
+      this.pending.delete(message.id);
+      if (message.error) {
+        pending.reject(new Error(`${message.error.message} (code ${message.error.code})`));
+      } else {
+        pending.resolve(message.result);
+      }
+      return;
+    }
+
+    // Request from the server
+    if (message.id !== undefined && message.method) {
+      const reply: JsonRpcMessage = message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not supported: ${message.method}` } };
+      this.transport?.send(reply).catch(() => undefined);
+      return;
+    }
+
+    // Notification
+    if (message.method === 'notifications/tools/list_changed') {
+      this.onToolsChanged?.();
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    });
+    this.pending.clear();
+  }
+}
+
+// ============================================================================
+// MCP Client Service
+// ============================================================================
+
+/**
+ * MCP Client Service
+ * Singleton that owns one MCPClient per configured server
+ */
+export class MCPClientService {
+  private static instance: MCPClientService;
+  private clients: Map<string, MCPClient> = new Map();
+  private connections: Map<string, MCPConnection> = new Map();
+  private initPromise: Promise<void> | null = null;
+  private healthTimer: NodeJS.Timer | undefined;
+  private configListener: vscode.Disposable | undefined;
+  private changeEmitter = new vscode.EventEmitter<MCPConnection[]>();
+  public readonly onDidChangeConnections: vscode.Event<MCPConnection[]> = this.changeEmitter.event;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): MCPClientService {
+    if (!MCPClientService.instance) {
+      MCPClientService.instance = new MCPClientService();
+    }
+    return MCPClientService.instance;
+  }
+
+  /**
+   * Read `memorybank.mcpServers`
+   */
+  public getServerConfigs(): Record<string, MCPServerConfig> {
+    const config = vscode.workspace.getConfiguration('memorybank');
+    return config.get<Record<string, MCPServerConfig>>('mcpServers') || {};
+  }
+
+  /**
+   * Connect to every configured server once; later calls reuse the same promise
+   */
+  public initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('memorybank.mcpServers')) {
+          log('[MCP] mcpServers configuration changed, reconnecting...');
+          this.refresh();
+        }
+      });
+      this.healthTimer = setInterval(() => this.checkHealth(), HEALTH_CHECK_INTERVAL_MS);
+      this.initPromise = this.connectAll();
+    }
+    return this.initPromise;
+  }
+
+  public isInitialized(): boolean {
+    return this.initPromise !== null;
+  }
+
+  /**
+   * Drop all connections and connect again with the current configuration
+   */
+  public async refresh(): Promise<void> {
+    this.disconnectAll();
+    this.initPromise = this.connectAll();
+    if (!this.healthTimer) {
+      this.healthTimer = setInterval(() => this.checkHealth(), HEALTH_CHECK_INTERVAL_MS);
+    }
+    return this.initPromise;
+  }
+
+  private async connectAll(): Promise<void> {
+    const configs = this.getServerConfigs();
+    const entries = Object.entries(configs).filter(([, config]) => !config.disabled);
+    log(`[MCP] Connecting to ${entries.length} configured server(s)`);
+    await Promise.all(entries.map(([id, config]) => this.connectServer(id, config)));
+  }
+
+  /**
+   * Connect a single server, list its tools and measure latency
+   */
+  public async connectServer(id: string, config: MCPServerConfig): Promise<MCPConnection> {
+    this.clients.get(id)?.close();
+
+    const transport = getTransportType(config);
+    const connection: MCPConnection = {
+      id,
+      name: id,
+      status: 'connecting',
+      transport,
+      url: config.url || `stdio://${[config.command, ...(config.args || [])].join(' ')}`,
+      tools: [],
+    };
+    this.setConnection(connection);
+
+    const client = new MCPClient(id, config);
+    this.clients.set(id, client);
+    client.onToolsChanged = () => this.reloadTools(id);
+    client.onClose = (error) => {
+      if (this.clients.get(id) !== client) return;
+      this.updateConnection(id, {
+        status: 'failed',
+        error: error ? error.message : 'Connection closed',
+        lastChecked: Date.now(),
+      });
+    };
+
+    try {
+      const start = Date.now();
+      await client.connect();
+      const tools = await client.listTools();
+      const latency = Date.now() - start;
+
+      this.updateConnection(id, {
+        name: client.serverInfo.name || id,
+        version: client.serverInfo.version,
+        status: 'connected',
+        error: undefined,
+        tools,
+        latency,
+        connectedAt: Date.now(),
+        lastChecked: Date.now(),
+      });
+      log(`[MCP] Connected to "${id}" (${transport}) with ${tools.length} tools in ${latency} ms`);
+    } catch (error: any) {
+      log(`[MCP] ERROR: Failed to connect to "${id}": ${error.message}`);
+      client.close();
+      this.updateConnection(id, { status: 'failed', error: error.message, lastChecked: Date.now() });
+    }
+
+    return this.connections.get(id)!;
+  }
+
+  /**
+   * Ping every connected server and update latency/status
+   */
+  public async checkHealth(): Promise<void> {
+    const checks = Array.from(this.clients.entries()).map(async ([id, client]) => {
+      if (!client.isConnected()) return;
+      try {
+        const latency = await client.ping();
+        this.updateConnection(id, { status: 'connected', latency, error: undefined, lastChecked: Date.now() });
+      } catch (error: any) {
+        this.updateConnection(id, { status: 'failed', error: error.message, lastChecked: Date.now() });
+      }
+    });
+    await Promise.all(checks);
+  }
+
+  private async reloadTools(id: string): Promise<void> {
+    const client = this.clients.get(id);
+    if (!client) return;
+    try {
+      const tools = await client.listTools();
+      this.updateConnection(id, { tools, lastChecked: Date.now() });
+      log(`[MCP] Tools of "${id}" changed, now ${tools.length}`);
+    } catch (error: any) {
+      log(`[MCP] ERROR: Failed to reload tools of "${id}": ${error.message}`);
+    }
+  }
+
+  /**
+   * Call a tool on a connected server
+   */
+  public async callTool(serverId: string, toolName: string, args: Record<string, any>): Promise<MCPToolCallResult> {
+    const client = this.clients.get(serverId);
+    if (!client || !client.isConnected()) {
+      throw new Error(`MCP server "${serverId}" is not connected`);
+    }
+    return client.callTool(toolName, args);
+  }
+
+  public getConnections(): MCPConnection[] {
+    return Array.from(this.connections.values());
+  }
+
+  /**
+   * All tools of connected servers
+   */
+  public getTools(): MCPTool[] {
+    return this.getConnections()
+      .filter((c) => c.status === 'connected')
+      .reduce((all, c) => all.concat(c.tools), [] as MCPTool[]);
+  }
+
+  /**
+   * Latest latency per server id
+   */
+  public getLatency(): Record<string, number> {
+    const latency: Record<string, number> = {};
+    this.connections.forEach((c) => {
+      if (c.latency !== undefined) latency[c.id] = c.latency;
+    });
+    return latency;
+  }
+
+  private setConnection(connection: MCPConnection): void {
+    this.connections.set(connection.id, connection);
+    this.changeEmitter.fire(this.getConnections());
+  }
+
+  private updateConnection(id: string, patch: Partial<MCPConnection>): void {
+    const current = this.connections.get(id);
+    if (!current) return;
+    this.setConnection({ ...current, ...patch });
+  }
+
+  private disconnectAll(): void {
+    this.clients.forEach((client) => client.close());
+    this.clients.clear();
+    this.connections.clear();
+    this.changeEmitter.fire([]);
+  }
+
+  /**
+   * Close all connections and stop background checks
+   */
+  public dispose(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+    this.configListener?.dispose();
+    this.configListener = undefined;
+    this.disconnectAll();
+    this.initPromise = null;
+  }
+}
+
+// Export singleton instance getter
+export function getMCPClientService(): MCPClientService {
+  return MCPClientService.getInstance();
+}
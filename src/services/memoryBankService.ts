@@ -15,6 +15,8 @@ import {
   KNOWN_DOC_TYPES
 } from '../types/memoryBank';
 import { SqliteService } from './SqliteService';
+import { acquireFileLock, toLockPath } from './fileLockService';
+import { FileLockResult } from '../types/db';
 
 /**
  * Memory Bank Service
@@ -27,6 +29,7 @@ export class MemoryBankService {
   private lastCacheTime: number = 0;
   private readonly CACHE_TTL = 5000; // 5 seconds cache
   private sqliteService: SqliteService | null = null;
+  private agentBoardListeners: Array<() => void> = [];
   private outputChannel: vscode.OutputChannel | null = null;
 
   private constructor() {}
@@ -37,6 +40,9 @@ export class MemoryBankService {
   public setOutputChannel(channel: vscode.OutputChannel): void {
     this.outputChannel = channel;
     // Reset SqliteService so it gets recreated with the proper logger
+    if (this.sqliteService) {
+      this.sqliteService.close();
+    }
     this.sqliteService = null;
     this.log('[MemoryBank] OutputChannel configured, SqliteService reset');
   }
@@ -81,7 +87,10 @@ export class MemoryBankService {
   }
 
   public getSqliteService(): SqliteService | null {
-    // NO CACHE - always create fresh to see logs and pick up DB changes
+    // Cached: the service reloads agentboard.db itself when another process writes it
+    if (this.sqliteService) {
+      return this.sqliteService;
+    }
     
     // CRITICAL: agentboard.db is ALWAYS at ~/.memorybank/ (global, not per-workspace)
     // This is where the MCP server writes it (see memory-bank-mcp/common/database.ts)
@@ -102,13 +111,26 @@ export class MemoryBankService {
     try {
         this.log(`[MemoryBank] Initializing SqliteService with path: ${globalPath}`);
         const logFn = (msg: string) => this.log(msg);
-        return new SqliteService(globalPath, logFn);
+        this.sqliteService = new SqliteService(globalPath, logFn);
+        this.sqliteService.onDidChange(() => this.agentBoardListeners.forEach(listener => listener()));
+        return this.sqliteService;
     } catch (e) {
         this.log(`[MemoryBank] Failed to initialize SqliteService: ${e}`);
         return null;
     }
   }
 
+  /**
+   * Listen for changes written to agentboard.db by other processes
+   * (MCP server, agents of other windows)
+   */
+  public onDidChangeAgentBoard(listener: () => void): vscode.Disposable {
+    this.agentBoardListeners.push(listener);
+    return new vscode.Disposable(() => {
+      this.agentBoardListeners = this.agentBoardListeners.filter(l => l !== listener);
+    });
+  }
+
   /**
    * Check if Memory Bank exists and is accessible
    */
@@ -529,7 +551,7 @@ export class MemoryBankService {
     try {
         const sqlite = this.getSqliteService();
         if (sqlite) {
-            sqlite.updateAgent({
+            await sqlite.updateAgent({
                 id: agentId,
                 projectId,
                 status,
@@ -601,52 +623,22 @@ export class MemoryBankService {
   }
 
   /**
-   * Check if a file is locked by another agent
+   * Lock a file for an agent before writing it (locks table of agentboard.db)
+   * @returns The lock result, or null if the board is not available
    */
-  public async checkFileLock(projectId: string, filePath: string, requestingAgentId: string): Promise<boolean> {
-      const mbPath = this.getMemoryBankPath();
-      if (!mbPath) return false;
-      
-      const boardPath = path.join(mbPath, 'projects', projectId, 'docs', 'agentBoard.md');
-      if (!fs.existsSync(boardPath)) return false;
-
-      try {
-          const content = await fs.promises.readFile(boardPath, 'utf8');
-          // Parse File Locks section
-          const lines = content.split('\n');
-          let inLocksSection = false;
-          
-          for (const line of lines) {
-              if (line.trim().startsWith('## File Locks')) {
-                  inLocksSection = true;
-                  continue;
-              }
-              if (inLocksSection && line.startsWith('## ')) break;
-              
-              if (inLocksSection && line.trim().startsWith('|') && !line.includes('---')) {
-                  const parts = line.split('|').map(p => p.trim());
-                  // | File Pattern | Claimed By | Since |
-                  if (parts.length >= 4) { // part[0] is empty if line starts with |
-                      const pattern = parts[1];
-                      const claimedBy = parts[2];
-                      
-                      if (claimedBy !== requestingAgentId && this.isFileLocked(filePath, pattern)) {
-                          return true;
-                      }
-                  }
-              }
-          }
-          return false;
-      } catch {
-          return false;
-      }
+  public async acquireFileLock(projectId: string, filePath: string, agentId: string): Promise<FileLockResult | null> {
+      const sqlite = this.getSqliteService();
+      if (!sqlite || !(await sqlite.ensureInitialized())) return null;
+      return acquireFileLock(sqlite, projectId, toLockPath(filePath), agentId);
   }
 
-  private isFileLocked(filePath: string, pattern: string): boolean {
-      // Normalize both paths to use forward slashes
-      const normFilePath = filePath.replace(/\\/g, '/');
-      const normPattern = pattern.replace(/\\/g, '/');
-      return normFilePath.includes(normPattern);
+  /**
+   * Release the locks an agent took, unless another agent took them over
+   */
+  public async releaseFileLocks(projectId: string, patterns: string[], agentId: string): Promise<boolean> {
+      const sqlite = this.getSqliteService();
+      if (!sqlite || patterns.length === 0 || !(await sqlite.ensureInitialized())) return false;
+      return sqlite.releaseAgentFileLocks(patterns, projectId, agentId);
   }
 
   /**
@@ -0,0 +1,365 @@
+/**
+ * @fileoverview OpenAPI Service
+ * Generates an OpenAPI 3.1 document from the endpoints detected by the
+ * framework detector, and compares them with the OpenAPI/Swagger document
+ * kept in the repository (drift check)
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+  FrameworkAnalysis,
+  FrameworkComponent,
+  EndpointInfo,
+  HttpMethod,
+  ApiSpecOperation,
+  ApiDriftItem,
+  ApiDriftReport,
+  FRAMEWORK_INFO,
+} from '../types/framework';
+
+// js-yaml has no typings installed
+const yaml = require('js-yaml');
+
+/** Folders never searched for OpenAPI documents */
+const SKIPPED_DIRS = new Set([
+  'node_modules', '.git', 'vendor', 'target', 'bin', 'obj', 'dist', 'build', 'out', '.venv', 'venv', '__pycache__',
+]);
+
+/** Depth limit when searching the repository for OpenAPI documents */
+const MAX_SEARCH_DEPTH = 6;
+
+const SPEC_FILE_PATTERN = /^(openapi|swagger)([.\-_][\w.-]*)?\.(ya?ml|json)$/i;
+
+const OPENAPI_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+
+export type OpenApiFormat = 'yaml' | 'json';
+
+// ============================================
+// Path normalization
+// ============================================
+
+/**
+ * Convert a framework route to an OpenAPI path template:
+ * `:id`, `<int:id>`, `{id:int}`, `{id?}`, `*rest` and `{*rest}` all become `{id}`/`{rest}`
+ */
+export function normalizeOpenApiPath(routePath: string): string {
+  let result = routePath.trim()
+    .replace(/^~\//, '/')
+    .replace(/<(?:\w+:)?(\w+)>/g, '{$1}')
+    .replace(/\{\*?(\w+)[^}]*\}/g, '{$1}')
+    .replace(/(^|\/):(\w+)\??/g, '$1{$2}')
+    .replace(/(^|\/)\*(\w+)/g, '$1{$2}')
+    .replace(/\/{2,}/g, '/');
+
+  if (!result.startsWith('/')) {
+    result = `/${result}`;
+  }
+  if (result.length > 1 && result.endsWith('/')) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+/**
+ * Path template with the parameter names removed, used to match routes
+ * that only differ in how parameters are called
+ */
+function pathShape(openApiPath: string): string {
+  return openApiPath.replace(/\{[^}]+\}/g, '{}');
+}
+
+function pathParameters(openApiPath: string): string[] {
+  return (openApiPath.match(/\{([^}]+)\}/g) || []).map(p => p.slice(1, -1));
+}
+
+/**
+ * Controller declaring an endpoint (the one in the same file)
+ */
+function findController(endpoint: EndpointInfo, analysis: FrameworkAnalysis): FrameworkComponent | undefined {
+  return analysis.components.find(c => c.filePath === endpoint.filePath && c.type === 'controller');
+}
+
+/**
+ * Full OpenAPI path of an endpoint: controller base path + route, with
+ * ASP.NET `[controller]`/`[action]` tokens replaced
+ */
+export function resolveEndpointPath(endpoint: EndpointInfo, analysis: FrameworkAnalysis): string {
+  const controller = findController(endpoint, analysis);
+  let basePath = controller?.metadata?.basePath || '';
+  let routePath = endpoint.path;
+
+  if (controller) {
+    const controllerToken = controller.name.replace(/Controller$/, '');
+    basePath = basePath.replace(/\[controller\]/gi, controllerToken);
+    routePath = routePath.replace(/\[controller\]/gi, controllerToken);
+  }
+  basePath = basePath.replace(/\[action\]/gi, endpoint.handlerName);
+  routePath = routePath.replace(/\[action\]/gi, endpoint.handlerName);
+
+  // ASP.NET routes starting with "~/" ignore the controller route
+  if (routePath.startsWith('~/')) {
+    return normalizeOpenApiPath(routePath);
+  }
+  return normalizeOpenApiPath(`${basePath}/${routePath}`);
+}
+
+// ============================================
+// Generation
+// ============================================
+
+/**
+ * Build an OpenAPI 3.1 document with one operation per detected endpoint
+ */
+export function generateOpenApiDocument(analysis: FrameworkAnalysis, title?: string, version: string = '1.0.0'): any {
+  const paths: Record<string, Record<string, any>> = {};
+  const tags = new Map<string, string>();
+  const operationIds = new Set<string>();
+
+  const endpoints = [...analysis.endpoints].sort((a, b) =>
+    resolveEndpointPath(a, analysis).localeCompare(resolveEndpointPath(b, analysis)) || a.method.localeCompare(b.method)
+  );
+
+  for (const endpoint of endpoints) {
+    const openApiPath = resolveEndpointPath(endpoint, analysis);
+    const method = endpoint.method.toLowerCase();
+    if (paths[openApiPath]?.[method]) continue;
+
+    const controller = findController(endpoint, analysis);
+    const tag = controller?.name || path.basename(endpoint.filePath, path.extname(endpoint.filePath));
+    if (!tags.has(tag)) {
+      tags.set(tag, controller ? `${FRAMEWORK_INFO[controller.framework].name} controller` : endpoint.filePath);
+    }
+
+    // operationId must be unique in the document
+    const baseId = endpoint.handlerName.replace(/[^\w]/g, '_') || 'handler';
+    let operationId = baseId;
+    for (let i = 2; operationIds.has(operationId); i++) {
+      operationId = `${baseId}_${i}`;
+    }
+    operationIds.add(operationId);
+
+    const parameters = pathParameters(openApiPath).map(name => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string' },
+    }));
+
+    paths[openApiPath] = paths[openApiPath] || {};
+    paths[openApiPath][method] = {
+      operationId,
+      summary: endpoint.handlerName,
+      tags: [tag],
+      ...(parameters.length > 0 ? { parameters } : {}),
+      responses: {
+        '200': { description: 'Successful response' },
+      },
+      'x-source': `${endpoint.filePath}:${endpoint.line}`,
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: title || analysis.projectId,
+      version,
+      description: `Generated by Memory Bank from the endpoints detected in ${analysis.frameworks.map(f => FRAMEWORK_INFO[f].name).join(', ') || 'the project'}`,
+    },
+    tags: Array.from(tags.entries()).map(([name, description]) => ({ name, description })),
+    paths,
+  };
+}
+
+/**
+ * Serialize an OpenAPI document
+ */
+export function serializeOpenApiDocument(document: any, format: OpenApiFormat): string {
+  return format === 'json'
+    ? JSON.stringify(document, null, 2)
+    : yaml.dump(document, { noRefs: true, lineWidth: -1 });
+}
+
+// ============================================
+// Existing documents
+// ============================================
+
+/**
+ * Find OpenAPI/Swagger documents (openapi.yaml, swagger.json, openapi.v2.yml...) in a folder
+ */
+export function findSpecFiles(rootDir: string): string[] {
+  const found: string[] = [];
+
+  const walk = (dir: string, depth: number) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        if (depth < MAX_SEARCH_DEPTH && !SKIPPED_DIRS.has(entry.name) && !entry.name.startsWith('.')) {
+          walk(path.join(dir, entry.name), depth + 1);
+        }
+      } else if (SPEC_FILE_PATTERN.test(entry.name)) {
+        found.push(path.join(dir, entry.name));
+      }
+    }
+  };
+
+  walk(rootDir, 0);
+  return found.sort((a, b) => a.length - b.length || a.localeCompare(b));
+}
+
+/**
+ * Read the operations of an OpenAPI 3.x or Swagger 2.0 document
+ * Paths include the Swagger `basePath` or the path of the first OpenAPI server.
+ */
+export function loadSpecOperations(specFile: string): ApiSpecOperation[] {
+  const text = fs.readFileSync(specFile, 'utf-8');
+  const document = specFile.toLowerCase().endsWith('.json') ? JSON.parse(text) : yaml.load(text);
+  if (!document || typeof document !== 'object' || !document.paths) {
+    throw new Error(`${path.basename(specFile)} is not an OpenAPI/Swagger document (no "paths")`);
+  }
+
+  let prefix = '';
+  if (typeof document.basePath === 'string') {
+    prefix = document.basePath;
+  } else if (typeof document.servers?.[0]?.url === 'string') {
+    // Absolute URLs keep only their path; server variables are not resolved
+    prefix = document.servers[0].url.replace(/^[a-z]+:\/\/[^/]+/i, '');
+    if (prefix.includes('{')) prefix = '';
+  }
+
+  const lines = text.split('\n');
+  const findLine = (specPath: string) => {
+    const index = lines.findIndex(line => line.includes(`${specPath}"`) || line.includes(`${specPath}'`) || line.includes(`${specPath}:`));
+    return index >= 0 ? index + 1 : 1;
+  };
+
+  const operations: ApiSpecOperation[] = [];
+  for (const [specPath, item] of Object.entries<any>(document.paths)) {
+    if (!item || typeof item !== 'object') continue;
+    for (const method of OPENAPI_METHODS) {
+      const operation = item[method.toLowerCase()];
+      if (!operation) continue;
+      operations.push({
+        method,
+        path: normalizeOpenApiPath(`${prefix}/${specPath}`),
+        operationId: operation.operationId,
+        file: specFile,
+        line: findLine(specPath),
+      });
+    }
+  }
+  return operations;
+}
+
+// ============================================
+// Drift check
+// ============================================
+
+/**
+ * Compare the detected endpoints with the operations of an OpenAPI document
+ */
+export function checkApiDrift(analysis: FrameworkAnalysis, specFile: string): ApiDriftReport {
+  const operations = loadSpecOperations(specFile);
+  const items: ApiDriftItem[] = [];
+
+  // Group both sides by path shape ("/users/{}")
+  const detectedByShape = new Map<string, { path: string; endpoint: EndpointInfo }[]>();
+  for (const endpoint of analysis.endpoints) {
+    const resolved = resolveEndpointPath(endpoint, analysis);
+    const shape = pathShape(resolved);
+    if (!detectedByShape.has(shape)) detectedByShape.set(shape, []);
+    const routes = detectedByShape.get(shape)!;
+    if (!routes.some(r => r.endpoint.method === endpoint.method)) {
+      routes.push({ path: resolved, endpoint });
+    }
+  }
+  const documentedByShape = new Map<string, ApiSpecOperation[]>();
+  for (const operation of operations) {
+    const shape = pathShape(operation.path);
+    if (!documentedByShape.has(shape)) documentedByShape.set(shape, []);
+    documentedByShape.get(shape)!.push(operation);
+  }
+
+  for (const [shape, routes] of detectedByShape) {
+    const documented = documentedByShape.get(shape) || [];
+    const codeOnly = routes.filter(r => !documented.some(o => o.method === r.endpoint.method));
+    const specOnly = documented.filter(o => !routes.some(r => r.endpoint.method === o.method));
+
+    // Same path and method, different parameter names
+    for (const route of routes) {
+      const operation = documented.find(o => o.method === route.endpoint.method);
+      if (operation && operation.path !== route.path) {
+        items.push({
+          kind: 'mismatched',
+          method: route.endpoint.method,
+          path: route.path,
+          detail: `Parámetros distintos: código ${route.path}, documento ${operation.path}`,
+          endpoint: route.endpoint,
+          operation,
+        });
+      }
+    }
+
+    // Same path, methods changed on one side
+    if (codeOnly.length > 0 && specOnly.length > 0) {
+      codeOnly.forEach((route, i) => {
+        const operation = specOnly[Math.min(i, specOnly.length - 1)];
+        items.push({
+          kind: 'mismatched',
+          method: route.endpoint.method,
+          path: route.path,
+          detail: `Método distinto: código ${codeOnly.map(r => r.endpoint.method).join('/')}, documento ${specOnly.map(o => o.method).join('/')}`,
+          endpoint: route.endpoint,
+          operation,
+        });
+      });
+      // Document methods beyond the pairs above are still reported as removed
+      specOnly.slice(codeOnly.length).forEach(operation => items.push(removedItem(operation)));
+      continue;
+    }
+
+    for (const route of codeOnly) {
+      items.push({
+        kind: 'undocumented',
+        method: route.endpoint.method,
+        path: route.path,
+        detail: `No documentado (${route.endpoint.handlerName})`,
+        endpoint: route.endpoint,
+      });
+    }
+    specOnly.forEach(operation => items.push(removedItem(operation)));
+  }
+
+  for (const [shape, documented] of documentedByShape) {
+    if (!detectedByShape.has(shape)) {
+      documented.forEach(operation => items.push(removedItem(operation)));
+    }
+  }
+
+  const order: Record<string, number> = { mismatched: 0, undocumented: 1, removed: 2 };
+  items.sort((a, b) => order[a.kind] - order[b.kind] || a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+
+  return {
+    projectId: analysis.projectId,
+    specFile,
+    checkedAt: Date.now(),
+    documentedCount: operations.length,
+    detectedCount: Array.from(detectedByShape.values()).reduce((sum, routes) => sum + routes.length, 0),
+    items,
+  };
+}
+
+function removedItem(operation: ApiSpecOperation): ApiDriftItem {
+  return {
+    kind: 'removed',
+    method: operation.method,
+    path: operation.path,
+    detail: `Documentado pero no encontrado en el código${operation.operationId ? ` (${operation.operationId})` : ''}`,
+    operation,
+  };
+}
@@ -1,20 +1,16 @@
 import * as vscode from 'vscode';
 import * as configManager from '../utils/configManager';
+import * as llmProviderService from './llmProviderService';
 import type {
-  OpenAIClient,
   ChatMessage,
   ChatCompletionParams,
   ChatCompletionResponse,
   EmbeddingResponse,
-  OpenAIClientOptions,
   CompletionResult,
   ModelInfo,
   TokenCount
 } from '../types/openai';
 
-// Importar OpenAI de manera dinámica
-let OpenAI: any;
-let client: OpenAIClient | null = null;
 let initialized = false;
 
 // Legacy o-series reasoning models are fully deprecated
@@ -43,59 +39,40 @@ interface TestGeneratorOptions {
 }
 
 /**
- * Carga el módulo OpenAI de manera dinámica
- */
-async function loadOpenAIModule(): Promise<any> {
-  try {
-    const openaiModule = await import('openai');
-    return openaiModule.default;
-  } catch (error) {
-    console.error('The "openai" module is missing. Please run "npm install" in the extension directory.');
-    return undefined;
-  }
-}
-
-/**
- * Inicializa el servicio de OpenAI
+ * Inicializa el servicio con el proveedor LLM por defecto
+ * (OpenAI, Azure OpenAI, Anthropic o un servidor local compatible con OpenAI)
  * @returns true si la inicialización fue exitosa
  */
 export async function initialize(): Promise<boolean> {
-  try {
-    // Cargar módulo si aún no se ha cargado
-    if (!OpenAI) {
-      OpenAI = await loadOpenAIModule();
-      // Si no se pudo cargar, mostrar error
-      if (!OpenAI) {
-        vscode.window.showErrorMessage('El módulo OpenAI no está instalado. Por favor, ejecute "npm install" en el directorio de la extensión.');
-        return false;
-      }
-    }
+  const providerId = configManager.getProviderForTask();
+  const missing = configManager.getMissingProviderSettings(providerId);
 
-    // Obtener la clave API de la configuración de VS Code
-    const config = vscode.workspace.getConfiguration('memorybank');
-    const apiKey = config.get<string>('openai.apiKey');
-    
-    if (!apiKey) {
-      vscode.window.showErrorMessage('La clave API de OpenAI no está configurada. Por favor, configúrela en las preferencias de Memory Bank.');
-      return false;
-    }
+  if (missing.length > 0) {
+    vscode.window.showErrorMessage(`El proveedor LLM "${providerId}" no está configurado. Falta: ${missing.join(', ')}. Configúrelo en las preferencias de Memory Bank.`);
+    return false;
+  }
 
-    // Configurar el cliente de OpenAI
-    client = new OpenAI({
-      apiKey: apiKey
-    });
-    
+  try {
+    await llmProviderService.getProvider(providerId);
     initialized = true;
-    console.log('OpenAI service initialized');
+    console.log(`LLM service initialized (provider: ${providerId})`);
     return true;
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error('Error al inicializar OpenAI:', error);
-    vscode.window.showErrorMessage(`Error al inicializar OpenAI: ${errorMessage}`);
+    console.error('Error al inicializar el proveedor LLM:', error);
+    vscode.window.showErrorMessage(`Error al inicializar el proveedor LLM: ${errorMessage}`);
     return false;
   }
 }
 
+/**
+ * Descarta los clientes creados para que se vuelva a leer la configuración
+ */
+export function reset(): void {
+  initialized = false;
+  llmProviderService.resetProviders();
+}
+
 /**
  * Asegura que el servicio esté inicializado
  * @returns true si el servicio está inicializado o se inicializó correctamente
@@ -175,24 +152,24 @@ export async function generateText(
  */
 export async function chatCompletion(
   messages: ChatMessage[], 
-  model: string = 'gpt-5-mini', 
+  model: string = '', 
   options: CompletionOptions = {}
 ): Promise<ChatCompletionResponse> {
   if (!await ensureInitialized()) {
     throw new Error('Cliente OpenAI no inicializado');
   }
 
-  if (!client) {
-    throw new Error('Cliente OpenAI no disponible');
-  }
-
   try {
-    // GPT-5.x models require Responses API
-    if (supportsResponsesAPI(model)) {
-      return await chatCompletionViaResponsesAPI(messages, model, options);
+    // El proveedor y el modelo se eligen según el tipo de tarea
+    const provider = await llmProviderService.getProviderForTask(options.taskType);
+    model = model || configManager.getModelForTask(options.taskType);
+
+    // GPT-5.x models require Responses API (OpenAI only)
+    if (provider.responses && supportsResponsesAPI(model)) {
+      return await chatCompletionViaResponsesAPI(provider, messages, model, options);
     }
     
-    // Fallback for non-GPT-5.x models (should not happen in practice)
+    // Chat Completions: Azure, Anthropic, local servers and non-GPT-5.x models
     const requestParams: ChatCompletionParams = {
       model: model,
       messages: messages,
@@ -215,7 +192,7 @@ export async function chatCompletion(
       }
     }
 
-    const completion = await client.chat.completions.create(requestParams);
+    const completion = await provider.chat(requestParams);
 
     return completion;
   } catch (error: unknown) {
@@ -229,12 +206,13 @@ export async function chatCompletion(
  * Adapter: Call Responses API and convert response to ChatCompletionResponse format
  */
 async function chatCompletionViaResponsesAPI(
+  provider: llmProviderService.LLMProvider,
   messages: ChatMessage[],
   model: string,
   options: CompletionOptions
 ): Promise<ChatCompletionResponse> {
-  if (!client) {
-    throw new Error('Cliente OpenAI no disponible');
+  if (!provider.responses) {
+    throw new Error(`El proveedor ${provider.id} no soporta el Responses API`);
   }
 
   // Convert ChatMessage[] to Responses API input format
@@ -266,7 +244,7 @@ async function chatCompletionViaResponsesAPI(
   }
 
   // Call Responses API
-  const response = await (client as any).responses.create(requestParams);
+  const response = await provider.responses.create(requestParams);
 
   // Extract content and tool_calls from Responses API format
   let content = '';
@@ -325,16 +303,20 @@ async function chatCompletionViaResponsesAPI(
  * @param options Opciones de completado
  * @returns Resultado del completado
  */
-async function callResponsesAPI(prompt: string, options: CompletionOptions = {}): Promise<CompletionResult> {
-  if (!client) {
-    throw new Error('Cliente OpenAI no disponible');
+async function callResponsesAPI(
+  provider: llmProviderService.LLMProvider,
+  prompt: string,
+  options: CompletionOptions = {}
+): Promise<CompletionResult> {
+  if (!provider.responses) {
+    throw new Error(`El proveedor ${provider.id} no soporta el Responses API`);
   }
 
   const model = options.model || getOpenAIModel();
   
   try {
     // Usar el nuevo Responses API con soporte de reasoning
-    const response = await (client as any).responses.create({
+    const response = await provider.responses.create({
       model: model,
       reasoning: {
         effort: options.reasoning_effort || 'medium',
@@ -489,17 +471,12 @@ export async function generateEmbeddings(text: string, model: string = 'text-emb
     throw new Error('Cliente OpenAI no inicializado');
   }
 
-  if (!client) {
-    throw new Error('Cliente OpenAI no disponible');
-  }
-
   try {
-    const response = await client.embeddings.create({
-      model: model,
-      input: text,
-    });
+    // El modelo indicado es de OpenAI; otros proveedores usan su modelo de embeddings configurado
+    const provider = await llmProviderService.getProviderForTask('embeddings');
+    const embeddingModel = provider.id === 'openai' ? model : configManager.getModelForTask('embeddings');
 
-    return response.data[0].embedding;
+    return await provider.embed(text, embeddingModel);
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error('Error al generar embeddings con OpenAI:', error);
@@ -519,14 +496,15 @@ export async function generateCompletion(prompt: string, options: CompletionOpti
   }
 
   try {
-    // Determinar modelo a usar
-    const model = options.model || getOpenAIModel();
+    // Determinar proveedor y modelo según el tipo de tarea
+    const provider = await llmProviderService.getProviderForTask(options.taskType);
+    const model = options.model || configManager.getModelForTask(options.taskType);
     
-    // Intentar usar Responses API si el modelo lo soporta
-    if (supportsResponsesAPI(model)) {
+    // Intentar usar Responses API si el proveedor y el modelo lo soportan
+    if (provider.responses && supportsResponsesAPI(model)) {
       try {
         console.log(`[OpenAI] Using Responses API for model: ${model}`);
-        return await callResponsesAPI(prompt, { ...options, model });
+        return await callResponsesAPI(provider, prompt, { ...options, model });
       } catch (error: any) {
         // Si el Responses API no está disponible, usar fallback
         if (error.message === 'RESPONSES_API_NOT_AVAILABLE') {
@@ -649,7 +627,7 @@ export async function callWithTools(
   messages: ChatMessage[],
   tools: any[],
   toolCallHandler: (toolCall: any) => Promise<any>,
-  model: string = 'gpt-5-mini',
+  model: string = '',
   options: CompletionOptions = {}
 ): Promise<ChatCompletionResponse> {
   if (!await ensureInitialized()) {
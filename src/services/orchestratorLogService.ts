@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Orchestrator Log Service
+ * Filtering and analytics of the routing decisions recorded by the
+ * orchestrator (orchestrator_logs table): success rate, delegation rate per
+ * project, models used and failure reasons
+ */
+
+import { OrchestratorLog, OrchestratorLogFilters, OrchestratorLogStats } from '../types/db';
+
+/** Reason reported for failed logs without a warning */
+const UNKNOWN_FAILURE_REASON = 'Sin detalle';
+
+/** Failure reasons listed (most frequent first) */
+const MAX_FAILURE_REASONS = 10;
+
+/**
+ * Model of a log, as shown in filters and stats
+ */
+export function getLogModel(log: OrchestratorLog): string {
+  return (log.modelUsed || '').trim() || 'unknown';
+}
+
+/**
+ * Whether the orchestrator handed (part of) the task to other projects
+ */
+export function isDelegation(log: OrchestratorLog): boolean {
+  return log.action === 'delegate' || log.action === 'mixed';
+}
+
+export function filterOrchestratorLogs(logs: OrchestratorLog[], filters: OrchestratorLogFilters): OrchestratorLog[] {
+  return logs.filter(log =>
+    (!filters.projectId || log.projectId === filters.projectId) &&
+    (!filters.action || log.action === filters.action) &&
+    (filters.success === undefined || log.success === filters.success) &&
+    (!filters.modelUsed || getLogModel(log) === filters.modelUsed)
+  );
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(k, [item]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Aggregate statistics of a set of logs
+ */
+export function getOrchestratorLogStats(logs: OrchestratorLog[]): OrchestratorLogStats {
+  const failures = logs.filter(log => !log.success);
+
+  const byAction = { proceed: 0, delegate: 0, mixed: 0 };
+  for (const log of logs) {
+    if (log.action in byAction) {
+      byAction[log.action]++;
+    }
+  }
+
+  const byModel = Array.from(countBy(logs, getLogModel).entries())
+    .map(([model, group]) => ({ model, total: group.length, failures: group.filter(log => !log.success).length }))
+    .sort((a, b) => b.total - a.total);
+
+  const byProject = Array.from(countBy(logs, log => log.projectId).entries())
+    .map(([projectId, group]) => {
+      const delegated = group.filter(isDelegation).length;
+      return { projectId, total: group.length, delegated, delegationRate: delegated / group.length };
+    })
+    .sort((a, b) => b.delegationRate - a.delegationRate || b.total - a.total);
+
+  const targets = new Map<string, number>();
+  for (const log of logs) {
+    for (const delegation of log.delegations || []) {
+      targets.set(delegation.targetProject, (targets.get(delegation.targetProject) || 0) + 1);
+    }
+  }
+  const delegationTargets = Array.from(targets.entries())
+    .map(([projectId, count]) => ({ projectId, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const failureReasons = Array.from(countBy(failures, log => (log.warning || '').trim() || UNKNOWN_FAILURE_REASON).entries())
+    .map(([reason, group]) => ({ reason, count: group.length }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_FAILURE_REASONS);
+
+  return {
+    total: logs.length,
+    successRate: logs.length > 0 ? (logs.length - failures.length) / logs.length : 0,
+    byAction,
+    byModel,
+    byProject,
+    delegationTargets,
+    failureReasons
+  };
+}
@@ -7,7 +7,10 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as openaiService from './openaiService';
+import * as embeddingService from './embeddingService';
+import { getMemoryBankService } from './memoryBankService';
 import * as configManager from '../utils/configManager';
+import { globToRegex } from '../utils/utils';
 
 // LanceDB import - cargado dinámicamente
 let lancedb: any = null;
@@ -18,6 +21,8 @@ let db: any = null;
 let table: any = null;
 let memoryBankPath: string = '';
 let defaultProjectId: string = '';
+// Dimensión y modelo de los vectores del índice (por versión de la tabla)
+let indexEmbeddingInfo: { version: number; dimension: number; model?: string } | null = null;
 
 // Interfaz para resultados de búsqueda
 export interface SearchResult {
@@ -30,6 +35,26 @@ export interface SearchResult {
   language: string;
   score: number;
   projectId: string;
+  /** Búsquedas que encontraron el fragmento (solo en búsqueda híbrida) */
+  matchedBy?: ('vector' | 'lexical')[];
+}
+
+// Modo de recuperación de la búsqueda híbrida
+export type SearchMode = 'hybrid' | 'vector' | 'lexical';
+
+// Opciones de búsqueda híbrida
+export interface HybridSearchOptions {
+  topK?: number;
+  projectId?: string;
+  /** Solo fragmentos de estos lenguajes (p. ej. "typescript") */
+  languages?: string[];
+  /** Solo fragmentos de estos tipos (p. ej. "class", "function") */
+  chunkTypes?: string[];
+  /** Glob sobre la ruta del archivo (p. ej. "src/services/**") */
+  pathGlob?: string;
+  mode?: SearchMode;
+  /** Similitud mínima de los candidatos vectoriales (por defecto 0.4) */
+  minScore?: number;
 }
 
 // Interfaz para resultado de análisis/generación
@@ -186,6 +211,43 @@ export function setProjectId(projectId: string): void {
   defaultProjectId = projectId;
 }
 
+/**
+ * Obtiene la dimensión de la columna vector de code_chunks y el modelo
+ * con el que se indexó (si el indexador lo registró en index-metadata.json)
+ */
+async function getIndexEmbeddingInfo(): Promise<{ dimension: number; model?: string } | null> {
+  const version = await table.version();
+  if (indexEmbeddingInfo && indexEmbeddingInfo.version === version) {
+    return indexEmbeddingInfo;
+  }
+
+  const schema = await table.schema();
+  const vectorField = schema.fields.find((field: any) => field.name === 'vector');
+  const dimension = vectorField?.type?.listSize;
+  if (!dimension) {
+    return null;
+  }
+
+  const metadata = await getMemoryBankService().loadIndexMetadata();
+  indexEmbeddingInfo = { version, dimension, model: metadata?.embeddingModel };
+  return indexEmbeddingInfo;
+}
+
+/**
+ * Genera el embedding de una consulta y comprueba que sea comparable con el índice
+ * @returns El vector, o null si su dimensión no coincide con la del índice
+ */
+async function embedQueryForIndex(query: string): Promise<number[] | null> {
+  const embedding = await embeddingService.embedQuery(query);
+  const indexInfo = await getIndexEmbeddingInfo();
+  if (!indexInfo) {
+    return embedding.vector;
+  }
+
+  const compatibility = embeddingService.checkCompatibility(embedding, indexInfo.dimension, indexInfo.model);
+  return compatibility.status === 'dimension-mismatch' ? null : embedding.vector;
+}
+
 /**
  * Busca código similar usando embeddings
  * @param query Consulta de búsqueda
@@ -205,7 +267,11 @@ export async function searchSimilarCode(
   
   try {
     // Generar embedding para la query
-    const queryVector = await openaiService.generateEmbeddings(query, 'text-embedding-3-small');
+    const queryVector = await embedQueryForIndex(query);
+    if (!queryVector) {
+      // El índice se construyó con otro modelo de embeddings: solo búsqueda léxica
+      return hybridSearch(query, { topK: options.topK, projectId: options.projectId, mode: 'lexical' });
+    }
     
     // Configurar búsqueda
     const topK = options.topK || 10;
@@ -257,6 +323,309 @@ export async function searchSimilarCode(
   }
 }
 
+// ============================================
+// Búsqueda híbrida (BM25 + vectores)
+// ============================================
+
+// Constante de Reciprocal Rank Fusion
+const RRF_K = 60;
+
+// Parámetros de BM25
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Peso de los tokens del nombre del fragmento frente a los del contenido
+const NAME_WEIGHT = 3;
+
+// Columnas necesarias para la búsqueda léxica (sin el vector)
+const LEXICAL_COLUMNS = ['file_path', 'content', 'start_line', 'end_line', 'chunk_type', 'name', 'language', 'project_id'];
+
+interface LexicalDocument {
+  row: any;
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface LexicalIndex {
+  version: number;
+  documents: LexicalDocument[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+// Índices léxicos en memoria por proyecto, invalidados con la versión de la tabla
+const lexicalIndexes = new Map<string, LexicalIndex>();
+
+/**
+ * Tokeniza texto de código: conserva el identificador completo y además sus
+ * partes camelCase / snake_case ("getUserById" -> getuserbyid, get, user, by, id)
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const identifiers = (text || '').match(/[A-Za-z0-9_$]+/g) || [];
+
+  for (const identifier of identifiers) {
+    const lower = identifier.toLowerCase();
+    tokens.push(lower);
+
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .filter(part => part.length > 1);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        tokens.push(part.toLowerCase());
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Escapa un valor para un filtro SQL de LanceDB
+ */
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Construye el filtro SQL de proyecto, lenguaje y tipo de fragmento
+ */
+function buildWhereClause(projectId: string, options: HybridSearchOptions): string {
+  const clauses: string[] = [];
+  if (projectId) {
+    clauses.push(`project_id = ${sqlString(projectId)}`);
+  }
+  if (options.languages && options.languages.length > 0) {
+    clauses.push(`language IN (${options.languages.map(sqlString).join(', ')})`);
+  }
+  if (options.chunkTypes && options.chunkTypes.length > 0) {
+    clauses.push(`chunk_type IN (${options.chunkTypes.map(sqlString).join(', ')})`);
+  }
+  return clauses.join(' AND ');
+}
+
+/**
+ * Identificador estable de un fragmento para fusionar las dos búsquedas
+ */
+function chunkKey(row: any): string {
+  return `${row.project_id}:${row.file_path}:${row.start_line}:${row.end_line}`;
+}
+
+function toSearchResult(row: any, score: number): SearchResult {
+  return {
+    filePath: row.file_path,
+    content: row.content,
+    startLine: row.start_line,
+    endLine: row.end_line,
+    chunkType: row.chunk_type,
+    name: row.name,
+    language: row.language,
+    score,
+    projectId: row.project_id
+  };
+}
+
+/**
+ * Obtiene (o reconstruye si la tabla cambió) el índice léxico de un proyecto
+ */
+async function getLexicalIndex(projectId: string): Promise<LexicalIndex> {
+  const version = await table.version();
+  const cached = lexicalIndexes.get(projectId);
+  if (cached && cached.version === version) {
+    return cached;
+  }
+
+  let query = table.query().select(LEXICAL_COLUMNS);
+  if (projectId) {
+    query = query.where(`project_id = ${sqlString(projectId)}`);
+  }
+  const rows: any[] = await query.toArray();
+
+  const documents: LexicalDocument[] = [];
+  const documentFrequency = new Map<string, number>();
+  let totalLength = 0;
+
+  for (const row of rows) {
+    const terms = new Map<string, number>();
+    for (const term of tokenize(row.content)) {
+      terms.set(term, (terms.get(term) || 0) + 1);
+    }
+    for (const term of tokenize(row.name)) {
+      terms.set(term, (terms.get(term) || 0) + NAME_WEIGHT);
+    }
+
+    let length = 0;
+    terms.forEach((count, term) => {
+      length += count;
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    });
+    totalLength += length;
+    documents.push({ row, terms, length });
+  }
+
+  const index: LexicalIndex = {
+    version,
+    documents,
+    documentFrequency,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0
+  };
+  lexicalIndexes.set(projectId, index);
+  console.log(`RAG Service: Lexical index built for ${projectId || 'all projects'} (${documents.length} chunks)`);
+  return index;
+}
+
+/**
+ * Búsqueda léxica BM25 sobre el contenido y el nombre de los fragmentos
+ */
+async function lexicalSearch(
+  query: string,
+  projectId: string,
+  accept: (row: any) => boolean,
+  limit: number
+): Promise<any[]> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const index = await getLexicalIndex(projectId);
+  const total = index.documents.length;
+  const scored: { row: any; score: number }[] = [];
+
+  for (const document of index.documents) {
+    if (!accept(document.row)) {
+      continue;
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = document.terms.get(term);
+      if (!frequency) continue;
+      const df = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * document.length / (index.averageLength || 1));
+      score += idf * (frequency * (BM25_K1 + 1)) / (frequency + norm);
+    }
+    if (score > 0) {
+      scored.push({ row: document.row, score });
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(entry => entry.row);
+}
+
+/**
+ * Búsqueda vectorial con los mismos filtros que la léxica
+ */
+async function vectorSearch(
+  query: string,
+  projectId: string,
+  options: HybridSearchOptions,
+  accept: (row: any) => boolean,
+  limit: number
+): Promise<any[]> {
+  const queryVector = await embedQueryForIndex(query);
+  if (!queryVector) {
+    return [];
+  }
+
+  // Con glob de ruta el filtro se aplica después, así que se piden más candidatos
+  let searchQuery = table.search(queryVector).limit(options.pathGlob ? limit * 4 : limit);
+  const where = buildWhereClause(projectId, options);
+  if (where) {
+    searchQuery = searchQuery.where(where);
+  }
+
+  // LanceDB devuelve distancia, se convierte a similaridad igual que en searchSimilarCode
+  const minScore = options.minScore !== undefined ? options.minScore : 0.4;
+  const results: any[] = await searchQuery.toArray();
+  return results
+    .filter(row => 1 / (1 + (row._distance || 0)) >= minScore && accept(row))
+    .slice(0, limit);
+}
+
+/**
+ * Búsqueda híbrida: combina BM25 sobre contenido y nombre con similitud
+ * vectorial mediante Reciprocal Rank Fusion, de modo que identificadores
+ * exactos (clases, códigos de error) no se pierdan
+ *
+ * Si no se pueden generar embeddings, la búsqueda continúa solo con BM25.
+ * El score devuelto es el RRF normalizado a [0,1].
+ *
+ * @param query Consulta de búsqueda
+ * @param options Opciones de búsqueda y filtros
+ */
+export async function hybridSearch(
+  query: string,
+  options: HybridSearchOptions = {}
+): Promise<SearchResult[]> {
+  if (!initialized || !table) {
+    const initOk = await initialize();
+    if (!initOk) {
+      console.log('RAG Service: Not initialized, returning empty results');
+      return [];
+    }
+  }
+
+  const topK = options.topK || 10;
+  const projectId = options.projectId || defaultProjectId;
+  const mode = options.mode || 'hybrid';
+  const candidates = topK * 4;
+
+  const languages = options.languages && options.languages.length > 0 ? new Set(options.languages) : null;
+  const chunkTypes = options.chunkTypes && options.chunkTypes.length > 0 ? new Set(options.chunkTypes) : null;
+  const pathRegex = options.pathGlob ? globToRegex(options.pathGlob) : null;
+  const accept = (row: any) =>
+    (!languages || languages.has(row.language)) &&
+    (!chunkTypes || chunkTypes.has(row.chunk_type)) &&
+    (!pathRegex || pathRegex.test(String(row.file_path).replace(/\\/g, '/')));
+
+  const rankings: { source: 'vector' | 'lexical'; rows: any[] }[] = [];
+
+  if (mode !== 'lexical') {
+    try {
+      rankings.push({ source: 'vector', rows: await vectorSearch(query, projectId, options, accept, candidates) });
+    } catch (error) {
+      console.error('RAG Service: Vector search failed, using lexical results only:', error);
+    }
+  }
+
+  if (mode !== 'vector') {
+    try {
+      rankings.push({ source: 'lexical', rows: await lexicalSearch(query, projectId, accept, candidates) });
+    } catch (error) {
+      console.error('RAG Service: Lexical search error:', error);
+    }
+  }
+
+  // Reciprocal Rank Fusion
+  const fused = new Map<string, { row: any; score: number; matchedBy: ('vector' | 'lexical')[] }>();
+  for (const ranking of rankings) {
+    ranking.rows.forEach((row, rank) => {
+      const key = chunkKey(row);
+      const entry = fused.get(key) || { row, score: 0, matchedBy: [] };
+      entry.score += 1 / (RRF_K + rank + 1);
+      entry.matchedBy.push(ranking.source);
+      fused.set(key, entry);
+    });
+  }
+
+  const maxScore = rankings.length / (RRF_K + 1);
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(entry => ({
+      ...toSearchResult(entry.row, maxScore > 0 ? entry.score / maxScore : 0),
+      matchedBy: entry.matchedBy
+    }));
+}
+
 /**
  * Construye el contexto de búsqueda para el prompt
  */
@@ -345,7 +714,7 @@ export async function fixError(
 ): Promise<RAGResult> {
   // Buscar código similar que pueda ayudar a resolver el error
   const contextQuery = `Error ${language} ${errorMessage}: solución corrección`;
-  const similarCode = await searchSimilarCode(contextQuery, { topK: 5 });
+  const similarCode = await hybridSearch(contextQuery, { topK: 5 });
   const context = buildContextFromResults(similarCode);
   
   // Construir prompt con contexto
@@ -496,7 +865,7 @@ export async function enrichContext(
   codeContext: SearchResult[];
   projectDocs: { type: string; content: string }[];
 }> {
-  const codeContext = await searchSimilarCode(query, {
+  const codeContext = await hybridSearch(query, {
     topK: options.topK || 5,
     projectId: options.projectId
   });
@@ -516,6 +885,8 @@ export function dispose(): void {
   initialized = false;
   db = null;
   table = null;
+  lexicalIndexes.clear();
+  indexEmbeddingInfo = null;
   memoryBankPath = '';
   defaultProjectId = '';
 }
@@ -13,6 +13,9 @@ import * as crypto from 'crypto';
 const fsAsync = fs.promises;
 import { getMemoryBankService } from './memoryBankService';
 import * as openaiService from './openaiService';
+import { buildTypeScriptEdgesInWorker, extractDeclarationNames, isTypeScriptFile, isTypeScriptLanguage } from './typescriptRelationsService';
+import { computeRelationsMetrics } from './relationsMetricsService';
+import { saveSnapshot } from './relationsHistoryService';
 import {
   ProjectRelations,
   RelationNode,
@@ -37,7 +40,7 @@ const PROGRESS_UPDATE_INTERVAL = 10;
 const PARALLEL_AI_CALLS = 5;
 
 // Current schema version
-const RELATIONS_VERSION = '1.0.0';
+const RELATIONS_VERSION = '1.2.0';
 
 // Progress callback type
 type ProgressCallback = (progress: AnalysisProgress) => void;
@@ -810,7 +813,23 @@ function shouldSkipFile(filePath: string): boolean {
 }
 
 /**
- * Analyze a single file and create a node (sync version - only regex, no I/O)
+ * Extract names with the TypeScript parser, falling back to regex on parse errors
+ */
+function extractNamesWithCompiler(
+  filePath: string,
+  content: string,
+  language: string
+): { classes: string[]; functions: string[] } {
+  try {
+    return extractDeclarationNames(content, filePath);
+  } catch (error) {
+    console.error(`[Relations] TypeScript parser failed for ${filePath}, using regex:`, error);
+    return extractNames(content, language);
+  }
+}
+
+/**
+ * Analyze a single file and create a node (sync version - no I/O)
  */
 function analyzeFileSync(
   filePath: string, 
@@ -823,7 +842,10 @@ function analyzeFileSync(
       return null;
     }
     
-    const { classes, functions } = extractNames(content, language);
+    // TS/JS files are parsed with the TypeScript compiler, other languages with regex
+    const { classes, functions } = isTypeScriptLanguage(language)
+      ? extractNamesWithCompiler(filePath, content, language)
+      : extractNames(content, language);
     
     // Skip files with no classes or functions
     if (classes.length === 0 && functions.length === 0) {
@@ -920,7 +942,8 @@ function findReferencesInCode(
  */
 function buildEdgesMapReduce(
   nodes: RelationNode[],
-  fileContents: Map<string, { content: string; language: string }>
+  fileContents: Map<string, { content: string; language: string }>,
+  isSource: (node: RelationNode) => boolean = () => true
 ): RelationEdge[] {
   console.log(`[Relations] Building edges with Map-Reduce for ${nodes.length} nodes`);
   
@@ -934,7 +957,7 @@ function buildEdgesMapReduce(
   
   for (const node of nodes) {
     const fileData = fileContents.get(node.filePath);
-    if (!fileData) {
+    if (!fileData || !isSource(node)) {
       continue;
     }
     
@@ -969,6 +992,244 @@ function buildEdgesMapReduce(
   return edges;
 }
 
+// ============================================
+// Incremental Analysis
+// ============================================
+
+/**
+ * Files that changed between two analyses, keyed by index path
+ */
+interface FileChanges {
+  /** Added or modified files (need to be re-parsed) */
+  changed: Set<string>;
+  /** Files no longer in the index */
+  removed: Set<string>;
+}
+
+/**
+ * Compare stored per-file hashes with the current ones.
+ * Returns null when the previous analysis cannot be patched incrementally.
+ */
+function diffFileHashes(
+  previous: ProjectRelations | null,
+  currentHashes: Record<string, string>
+): FileChanges | null {
+  if (!previous || previous.version !== RELATIONS_VERSION || !previous.fileHashes) {
+    return null;
+  }
+
+  const changed = new Set<string>();
+  const removed = new Set<string>();
+
+  for (const [filePath, hash] of Object.entries(currentHashes)) {
+    if (!hash || previous.fileHashes[filePath] !== hash) {
+      changed.add(filePath);
+    }
+  }
+  for (const filePath of Object.keys(previous.fileHashes)) {
+    if (!(filePath in currentHashes)) {
+      removed.add(filePath);
+    }
+  }
+
+  return { changed, removed };
+}
+
+/**
+ * Nodes of the previous analysis whose files did not change
+ */
+function getKeptNodes(previous: ProjectRelations, changes: FileChanges): RelationNode[] {
+  return previous.nodes.filter(node =>
+    !changes.changed.has(node.filePath) && !changes.removed.has(node.filePath)
+  );
+}
+
+/**
+ * Patch the previous graph with the re-parsed files.
+ *
+ * - Nodes of unchanged files are reused as-is
+ * - Edges from re-parsed files are rebuilt against the full name index
+ * - Edges from unchanged files are kept unless their target's names moved
+ *   (renamed, added, removed or shadowed); those files are re-scanned only
+ *   for the affected names
+ *
+ * Only sources accepted by `isRegexSource` are handled here; edges of
+ * TS/JS sources come from the TypeScript backend.
+ */
+async function patchRelationsIncremental(
+  previous: ProjectRelations,
+  parsedNodes: RelationNode[],
+  parsedContents: Map<string, { content: string; language: string }>,
+  changes: FileChanges,
+  baseDir: string,
+  isRegexSource: (node: RelationNode) => boolean = () => true
+): Promise<{ nodes: RelationNode[]; edges: RelationEdge[]; reusedFiles: number }> {
+  const keptNodes = getKeptNodes(previous, changes);
+  const nodes = [...keptNodes, ...parsedNodes];
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const keptIds = new Set(keptNodes.filter(isRegexSource).map(n => n.id));
+
+  const oldIndex = buildNameIndex(previous.nodes);
+  const newIndex = buildNameIndex(nodes);
+
+  // Targets whose name lookup changed: edges pointing to them can't be trusted
+  const affectedTargets = new Set<string>();
+  for (const name of new Set([...oldIndex.keys(), ...newIndex.keys()])) {
+    const oldId = oldIndex.get(name)?.id;
+    const newId = newIndex.get(name)?.id;
+    if (oldId !== newId) {
+      if (oldId) affectedTargets.add(oldId);
+      if (newId) affectedTargets.add(newId);
+    }
+  }
+
+  const edges: RelationEdge[] = [];
+  const edgeSet = new Set<string>();
+  const addEdge = (source: RelationNode, target: RelationNode) => {
+    const edgeId = `${source.id}-${target.id}`;
+    if (edgeSet.has(edgeId)) return;
+    edgeSet.add(edgeId);
+    edges.push({
+      id: edgeId,
+      source: source.id,
+      target: target.id,
+      type: 'uses',
+      label: `uses ${target.name}`
+    });
+  };
+
+  // 1. Reuse edges from unchanged files
+  for (const edge of previous.edges) {
+    if (!keptIds.has(edge.source) || !nodeIds.has(edge.target) || affectedTargets.has(edge.target)) {
+      continue;
+    }
+    if (!edgeSet.has(edge.id)) {
+      edgeSet.add(edge.id);
+      edges.push(edge);
+    }
+  }
+
+  // 2. Rebuild edges from re-parsed files
+  for (const node of parsedNodes.filter(isRegexSource)) {
+    const fileData = parsedContents.get(node.filePath);
+    if (!fileData) continue;
+    for (const target of findReferencesInCode(fileData.content, newIndex, node)) {
+      addEdge(node, target);
+    }
+  }
+
+  // 3. Re-scan unchanged files only for names whose target moved
+  const affectedIndex = new Map<string, RelationNode>();
+  for (const [name, node] of newIndex) {
+    if (affectedTargets.has(node.id)) {
+      affectedIndex.set(name, node);
+    }
+  }
+
+  const regexKeptNodes = keptNodes.filter(isRegexSource);
+  if (affectedIndex.size > 0 && regexKeptNodes.length > 0) {
+    console.log(`[Relations] Re-scanning ${regexKeptNodes.length} unchanged files for ${affectedIndex.size} affected names`);
+    for (let i = 0; i < regexKeptNodes.length; i += PARALLEL_FILE_READS) {
+      const batch = regexKeptNodes.slice(i, i + PARALLEL_FILE_READS);
+      const contents = await Promise.all(batch.map(async node => {
+        try {
+          return await fsAsync.readFile(path.resolve(baseDir, node.filePath), 'utf-8') as string;
+        } catch {
+          return null;
+        }
+      }));
+
+      batch.forEach((node, idx) => {
+        const content = contents[idx];
+        if (content === null) return;
+        for (const target of findReferencesInCode(content, affectedIndex, node)) {
+          addEdge(node, target);
+        }
+      });
+
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
+  const reusedFiles = Object.keys(previous.fileHashes!).filter(f =>
+    !changes.changed.has(f) && !changes.removed.has(f)
+  ).length;
+
+  console.log(`[Relations] Incremental patch: ${keptNodes.length} nodes reused, ${parsedNodes.length} re-parsed, ${edges.length} edges`);
+  return { nodes, edges, reusedFiles };
+}
+
+// ============================================
+// TypeScript Backend
+// ============================================
+
+/**
+ * Build edges for TS/JS sources with the TypeScript compiler (in a worker thread).
+ * Returns null when the backend fails so callers fall back to regex scanning.
+ */
+async function buildCompilerEdges(
+  nodes: RelationNode[],
+  tsFiles: string[],
+  baseDir: string,
+  rootDir?: string,
+  sourceNodeIds?: Set<string>
+): Promise<RelationEdge[] | null> {
+  try {
+    return await buildTypeScriptEdgesInWorker({
+      nodes,
+      files: tsFiles.map(filePath => path.resolve(baseDir, filePath)),
+      baseDir,
+      rootDir,
+      sourceNodeIds: sourceNodeIds ? [...sourceNodeIds] : undefined
+    });
+  } catch (error) {
+    console.error(`[Relations] TypeScript backend failed, falling back to regex scanning:`, error);
+    return null;
+  }
+}
+
+/**
+ * TS/JS sources whose edges must be recomputed in an incremental run:
+ * re-parsed files plus unchanged files that pointed into changed/removed ones.
+ * Added files or changed files without a node (barrels, type-only modules)
+ * can alter how any import resolves, so every TS/JS source is walked then.
+ */
+function getTypeScriptWalkSet(
+  previous: ProjectRelations,
+  keptNodes: RelationNode[],
+  parsedNodes: RelationNode[],
+  changes: FileChanges
+): Set<string> {
+  const walkSet = new Set(parsedNodes.filter(n => isTypeScriptLanguage(n.language)).map(n => n.id));
+  const keptTsNodes = keptNodes.filter(n => isTypeScriptLanguage(n.language));
+
+  const previousNodeFiles = new Set(previous.nodes.map(n => n.filePath));
+  const parsedNodeFiles = new Set(parsedNodes.map(n => n.filePath));
+  const touchedTsFiles = [...changes.changed, ...changes.removed].filter(isTypeScriptFile);
+  const resolutionChanged = touchedTsFiles.some(filePath =>
+    !(filePath in previous.fileHashes!) ||
+    !previousNodeFiles.has(filePath) ||
+    (changes.changed.has(filePath) && !parsedNodeFiles.has(filePath))
+  );
+
+  if (resolutionChanged) {
+    keptTsNodes.forEach(n => walkSet.add(n.id));
+    return walkSet;
+  }
+
+  const staleIds = new Set(previous.nodes
+    .filter(n => changes.changed.has(n.filePath) || changes.removed.has(n.filePath))
+    .map(n => n.id));
+  const keptTsIds = new Set(keptTsNodes.map(n => n.id));
+  for (const edge of previous.edges) {
+    if (keptTsIds.has(edge.source) && staleIds.has(edge.target)) {
+      walkSet.add(edge.source);
+    }
+  }
+
+  return walkSet;
+}
+
 /**
  * Build edges from imports and calls (LEGACY - kept for reference)
  */
@@ -1296,8 +1557,26 @@ export async function analyzeProject(
   }
 
   const files = projectFiles;
-  const totalFiles = Math.min(files.length, options.maxFiles || Infinity);
-  const filesToProcess = files.slice(0, totalFiles);
+  const filesToProcess = files.slice(0, Math.min(files.length, options.maxFiles || Infinity));
+  
+  // Per-file hashes from the index drive incremental re-analysis
+  const fileHashes: Record<string, string> = {};
+  for (const [filePath, entry] of filesToProcess) {
+    fileHashes[filePath] = entry?.hash || '';
+  }
+  
+  const previous = options.force ? null : await loadRelations(projectId);
+  const changes = diffFileHashes(previous, fileHashes);
+  const filesToParse = changes
+    ? filesToProcess.filter(([filePath]) => changes.changed.has(filePath))
+    : filesToProcess;
+  const totalFiles = filesToParse.length;
+  
+  if (changes) {
+    console.log(`[Relations] Incremental analysis: ${changes.changed.size} changed/added, ${changes.removed.size} removed, ${filesToProcess.length - changes.changed.size} unchanged`);
+  } else {
+    console.log(`[Relations] Full analysis${options.force ? ' (forced)' : ''}`);
+  }
   
   console.log(`[Relations] Phase 1: Parsing ${totalFiles} files (parallel: ${PARALLEL_FILE_READS})...`);
   
@@ -1350,13 +1629,13 @@ export async function analyzeProject(
   let processedFiles = 0;
   
   // Process files in parallel batches
-  for (let i = 0; i < filesToProcess.length; i += PARALLEL_FILE_READS) {
-    const batch = filesToProcess.slice(i, i + PARALLEL_FILE_READS);
+  for (let i = 0; i < filesToParse.length; i += PARALLEL_FILE_READS) {
+    const batch = filesToParse.slice(i, i + PARALLEL_FILE_READS);
     
     // Update progress at batch start
     onProgress?.({
       phase: 'parsing',
-      currentFile: `Batch ${Math.floor(i / PARALLEL_FILE_READS) + 1}/${Math.ceil(filesToProcess.length / PARALLEL_FILE_READS)}`,
+      currentFile: `Batch ${Math.floor(i / PARALLEL_FILE_READS) + 1}/${Math.ceil(filesToParse.length / PARALLEL_FILE_READS)}`,
       processedFiles,
       totalFiles,
       processedNodes: nodes.length
@@ -1429,7 +1708,7 @@ export async function analyzeProject(
   console.log(`[Relations]   - Skipped (unknown language): ${skippedUnknownLang}`);
   console.log(`[Relations]   - Skipped (no classes/functions): ${skippedNoContent}`);
   
-  if (nodes.length === 0) {
+  if (nodes.length === 0 && !changes) {
     console.warn(`[Relations] WARNING: No nodes created! Check if files exist on disk and contain analyzable code.`);
     if (skippedNotExists > 0) {
       console.warn(`[Relations] HINT: ${skippedNotExists} files not found. BaseDir: ${baseDir}`);
@@ -1447,7 +1726,41 @@ export async function analyzeProject(
     processedNodes: nodes.length
   });
 
-  const edges = buildEdgesMapReduce(nodes, fileContents);
+  let allNodes = nodes;
+  let edges: RelationEdge[];
+  let reusedFiles = 0;
+  
+  // TS/JS sources get their edges from the TypeScript compiler; other languages use regex scanning
+  const tsFiles = Object.keys(fileHashes).filter(isTypeScriptFile);
+  const keptNodes = changes && previous ? getKeptNodes(previous, changes) : [];
+  const walkSet = changes && previous ? getTypeScriptWalkSet(previous, keptNodes, nodes, changes) : undefined;
+  let compilerEdges: RelationEdge[] | null = null;
+  if (tsFiles.length > 0) {
+    compilerEdges = walkSet && walkSet.size === 0
+      ? []
+      : await buildCompilerEdges([...keptNodes, ...nodes], tsFiles, baseDir, projectConfig?.sourcePath, walkSet);
+  }
+  const isRegexSource = (node: RelationNode) => compilerEdges === null || !isTypeScriptLanguage(node.language);
+  
+  if (changes && previous) {
+    // Patch the previous graph: only re-parsed files and the names they touch are re-scanned
+    const patched = await patchRelationsIncremental(previous, nodes, fileContents, changes, baseDir, isRegexSource);
+    allNodes = patched.nodes;
+    edges = patched.edges;
+    reusedFiles = patched.reusedFiles;
+    
+    if (compilerEdges) {
+      // Keep compiler edges of unchanged TS/JS sources that were not walked again
+      const nodeIds = new Set(allNodes.map(n => n.id));
+      const keptTsIds = new Set(keptNodes.filter(n => isTypeScriptLanguage(n.language)).map(n => n.id));
+      const reusedTsEdges = previous.edges.filter(edge =>
+        keptTsIds.has(edge.source) && !walkSet!.has(edge.source) && nodeIds.has(edge.target)
+      );
+      edges = [...edges, ...reusedTsEdges, ...compilerEdges];
+    }
+  } else {
+    edges = [...buildEdgesMapReduce(nodes, fileContents, isRegexSource), ...(compilerEdges || [])];
+  }
   console.log(`[Relations] Phase 2 complete: ${edges.length} edges created`);
 
   // Phase 3: Enrich with AI descriptions
@@ -1506,15 +1819,20 @@ export async function analyzeProject(
 
   // Calculate stats
   const nodesByType: Record<RelationNodeType, number> = {} as Record<RelationNodeType, number>;
-  for (const node of nodes) {
+  for (const node of allNodes) {
     nodesByType[node.type] = (nodesByType[node.type] || 0) + 1;
   }
 
+  // Coupling metrics and dependency cycles over the whole graph
+  const metrics = computeRelationsMetrics(allNodes, edges);
+
   const stats: RelationsStats = {
-    totalNodes: nodes.length,
+    totalNodes: allNodes.length,
     totalEdges: edges.length,
     nodesByType,
     analyzedFiles: processedFiles,
+    reusedFiles,
+    cycleCount: metrics.cycles.length,
     analysisTimeMs: Date.now() - startTime
   };
 
@@ -1526,9 +1844,11 @@ export async function analyzeProject(
     projectId,
     lastAnalyzed: Date.now(),
     sourceHash,
-    nodes,
+    fileHashes,
+    nodes: allNodes,
     edges,
-    stats
+    stats,
+    metrics
   };
 
   // Phase 4: Save
@@ -1537,10 +1857,17 @@ export async function analyzeProject(
     phase: 'saving',
     processedFiles: totalFiles,
     totalFiles,
-    processedNodes: nodes.length
+    processedNodes: allNodes.length
   });
 
   await saveRelations(relations);
+
+  // Keep this analysis in the history so it can be diffed later
+  try {
+    await saveSnapshot(relations);
+  } catch (error) {
+    console.error('[Relations] Error saving snapshot:', error);
+  }
   
   // Final summary
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
@@ -1548,9 +1875,11 @@ export async function analyzeProject(
   console.log(`[Relations] ANALYSIS COMPLETE for "${projectId}"`);
   console.log(`${'='.repeat(60)}`);
   console.log(`[Relations] Results:`);
-  console.log(`[Relations]   - Nodes: ${nodes.length}`);
+  console.log(`[Relations]   - Nodes: ${allNodes.length}`);
   console.log(`[Relations]   - Edges: ${edges.length}`);
   console.log(`[Relations]   - Files analyzed: ${processedFiles}`);
+  console.log(`[Relations]   - Files reused: ${reusedFiles}`);
+  console.log(`[Relations]   - Cycles: ${metrics.cycles.length}`);
   console.log(`[Relations]   - Time: ${elapsed}s`);
   console.log(`[Relations] Node types: ${JSON.stringify(nodesByType)}`);
   console.log(`${'='.repeat(60)}\n`);
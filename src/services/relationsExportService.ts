@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Relations Export Service
+ * Renders a relations graph (or the subgraph around a node) to Graphviz DOT,
+ * Mermaid flowchart, GraphML and CSV node/edge lists
+ */
+
+import {
+  ProjectRelations,
+  RelationsExportFormat,
+  RelationsExportFile,
+  RelationsSubgraphOptions,
+  NODE_TYPE_LABELS,
+  NODE_TYPE_COLORS,
+} from '../types/relations';
+
+/** Default file extension of each format */
+export const EXPORT_FORMAT_EXTENSIONS: Record<RelationsExportFormat, string> = {
+  'dot': 'dot',
+  'mermaid': 'mmd',
+  'graphml': 'graphml',
+  'csv': 'csv',
+};
+
+/**
+ * Keep only the nodes reachable from a root node (breadth-first, up to a
+ * number of hops) and the edges between them
+ */
+export function extractSubgraph(relations: ProjectRelations, options: RelationsSubgraphOptions): ProjectRelations {
+  const direction = options.direction || 'both';
+  if (!relations.nodes.some(n => n.id === options.rootNodeId)) {
+    throw new Error(`Node ${options.rootNodeId} not found in relations of ${relations.projectId}`);
+  }
+
+  const neighbors = new Map<string, string[]>();
+  const link = (from: string, to: string) => {
+    if (!neighbors.has(from)) neighbors.set(from, []);
+    neighbors.get(from)!.push(to);
+  };
+  for (const edge of relations.edges) {
+    if (direction !== 'incoming') link(edge.source, edge.target);
+    if (direction !== 'outgoing') link(edge.target, edge.source);
+  }
+
+  const included = new Set<string>([options.rootNodeId]);
+  let frontier = [options.rootNodeId];
+  let depth = 0;
+  while (frontier.length > 0 && (options.depth === undefined || depth < options.depth)) {
+    depth++;
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbor of neighbors.get(id) || []) {
+        if (included.has(neighbor)) continue;
+        included.add(neighbor);
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+
+  const nodes = relations.nodes.filter(n => included.has(n.id));
+  const edges = relations.edges.filter(e => included.has(e.source) && included.has(e.target));
+  const metrics = relations.metrics && {
+    ...relations.metrics,
+    nodes: nodes.reduce<typeof relations.metrics.nodes>((acc, n) => {
+      if (relations.metrics!.nodes[n.id]) acc[n.id] = relations.metrics!.nodes[n.id];
+      return acc;
+    }, {})
+  };
+
+  return { ...relations, nodes, edges, metrics };
+}
+
+/**
+ * Render a graph in the given format
+ * @returns One file per output (CSV produces separate node and edge lists)
+ */
+export function exportRelations(relations: ProjectRelations, format: RelationsExportFormat): RelationsExportFile[] {
+  const extension = EXPORT_FORMAT_EXTENSIONS[format];
+  switch (format) {
+    case 'dot':
+      return [{ suffix: `.${extension}`, content: toDot(relations) }];
+    case 'mermaid':
+      return [{ suffix: `.${extension}`, content: toMermaid(relations) }];
+    case 'graphml':
+      return [{ suffix: `.${extension}`, content: toGraphML(relations) }];
+    case 'csv':
+      return [
+        { suffix: `.nodes.${extension}`, content: toNodesCsv(relations) },
+        { suffix: `.edges.${extension}`, content: toEdgesCsv(relations) },
+      ];
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+// ============================================
+// Graphviz DOT
+// ============================================
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function toDot(relations: ProjectRelations): string {
+  const lines: string[] = [];
+  lines.push(`digraph ${dotString(relations.projectId)} {`);
+  lines.push('  rankdir=LR;');
+  lines.push('  node [shape=box, style="rounded,filled", fontname="Helvetica", fontcolor="white"];');
+  lines.push('  edge [fontname="Helvetica", fontsize=10];');
+  lines.push('');
+
+  for (const node of relations.nodes) {
+    const label = `${node.name}\n${NODE_TYPE_LABELS[node.type] || node.type}`;
+    const color = NODE_TYPE_COLORS[node.type] || NODE_TYPE_COLORS.unknown;
+    lines.push(`  ${dotString(node.id)} [label=${dotString(label)}, fillcolor="${color}", tooltip=${dotString(node.filePath)}];`);
+  }
+  lines.push('');
+
+  for (const edge of relations.edges) {
+    lines.push(`  ${dotString(edge.source)} -> ${dotString(edge.target)} [label=${dotString(edge.label || edge.type)}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+// ============================================
+// Mermaid
+// ============================================
+
+function mermaidText(value: string): string {
+  return value.replace(/"/g, '#quot;').replace(/[\r\n]+/g, ' ');
+}
+
+function toMermaid(relations: ProjectRelations): string {
+  // Mermaid IDs must be simple identifiers
+  const ids = new Map<string, string>();
+  relations.nodes.forEach((node, i) => ids.set(node.id, `n${i}`));
+
+  const lines: string[] = ['flowchart LR'];
+  const byType = new Map<string, string[]>();
+
+  for (const node of relations.nodes) {
+    const id = ids.get(node.id)!;
+    lines.push(`  ${id}["${mermaidText(node.name)}"]`);
+    if (!byType.has(node.type)) byType.set(node.type, []);
+    byType.get(node.type)!.push(id);
+  }
+
+  for (const edge of relations.edges) {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) continue;
+    lines.push(`  ${source} -->|${mermaidText(edge.label || edge.type)}| ${target}`);
+  }
+
+  byType.forEach((nodeIds, type) => {
+    const color = NODE_TYPE_COLORS[type as keyof typeof NODE_TYPE_COLORS] || NODE_TYPE_COLORS.unknown;
+    // Prefixed: some type names ("class", "function") are Mermaid keywords
+    lines.push(`  classDef type_${type} fill:${color},color:#fff,stroke:${color}`);
+    lines.push(`  class ${nodeIds.join(',')} type_${type}`);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================
+// GraphML
+// ============================================
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toGraphML(relations: ProjectRelations): string {
+  const metrics = relations.metrics?.nodes || {};
+  const data = (key: string, value: string | number | undefined) =>
+    value === undefined ? [] : [`      <data key="${key}">${xmlEscape(String(value))}</data>`];
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push('<graphml xmlns="http://graphml.graphdrawing.org/xmlns">');
+  lines.push('  <key id="name" for="node" attr.name="name" attr.type="string"/>');
+  lines.push('  <key id="type" for="node" attr.name="type" attr.type="string"/>');
+  lines.push('  <key id="filePath" for="node" attr.name="filePath" attr.type="string"/>');
+  lines.push('  <key id="description" for="node" attr.name="description" attr.type="string"/>');
+  lines.push('  <key id="fanIn" for="node" attr.name="fanIn" attr.type="int"/>');
+  lines.push('  <key id="fanOut" for="node" attr.name="fanOut" attr.type="int"/>');
+  lines.push('  <key id="instability" for="node" attr.name="instability" attr.type="double"/>');
+  lines.push('  <key id="centrality" for="node" attr.name="centrality" attr.type="double"/>');
+  lines.push('  <key id="relation" for="edge" attr.name="type" attr.type="string"/>');
+  lines.push('  <key id="label" for="edge" attr.name="label" attr.type="string"/>');
+  lines.push(`  <graph id="${xmlEscape(relations.projectId)}" edgedefault="directed">`);
+
+  for (const node of relations.nodes) {
+    const nodeMetrics = metrics[node.id];
+    lines.push(`    <node id="${xmlEscape(node.id)}">`);
+    lines.push(
+      ...data('name', node.name),
+      ...data('type', node.type),
+      ...data('filePath', node.filePath),
+      ...data('description', node.description || undefined),
+      ...data('fanIn', nodeMetrics?.fanIn),
+      ...data('fanOut', nodeMetrics?.fanOut),
+      ...data('instability', nodeMetrics?.instability),
+      ...data('centrality', nodeMetrics?.centrality)
+    );
+    lines.push('    </node>');
+  }
+
+  for (const edge of relations.edges) {
+    lines.push(`    <edge id="${xmlEscape(edge.id)}" source="${xmlEscape(edge.source)}" target="${xmlEscape(edge.target)}">`);
+    lines.push(...data('relation', edge.type), ...data('label', edge.label));
+    lines.push('    </edge>');
+  }
+
+  lines.push('  </graph>');
+  lines.push('</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+// ============================================
+// CSV
+// ============================================
+
+function csvRow(values: (string | number | undefined)[]): string {
+  return values.map(value => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',');
+}
+
+function toNodesCsv(relations: ProjectRelations): string {
+  const metrics = relations.metrics?.nodes || {};
+  const rows = [csvRow(['id', 'name', 'type', 'filePath', 'language', 'functions', 'fanIn', 'fanOut', 'instability', 'centrality', 'cycle'])];
+  for (const node of relations.nodes) {
+    const m = metrics[node.id];
+    rows.push(csvRow([
+      node.id, node.name, node.type, node.filePath, node.language, node.functions.length,
+      m?.fanIn, m?.fanOut, m?.instability, m?.centrality,
+      m?.cycleId !== undefined ? m.cycleId + 1 : undefined
+    ]));
+  }
+  return rows.join('\n') + '\n';
+}
+
+function toEdgesCsv(relations: ProjectRelations): string {
+  const names = new Map(relations.nodes.map(n => [n.id, n.name] as [string, string]));
+  const rows = [csvRow(['id', 'source', 'target', 'type', 'sourceName', 'targetName', 'label'])];
+  for (const edge of relations.edges) {
+    rows.push(csvRow([edge.id, edge.source, edge.target, edge.type, names.get(edge.source), names.get(edge.target), edge.label]));
+  }
+  return rows.join('\n') + '\n';
+}
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Relations History Service
+ * Keeps a snapshot of every relations analysis (tagged with timestamp and git
+ * commit) and computes structural diffs between two analyses
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as childProcess from 'child_process';
+import { getMemoryBankService } from './memoryBankService';
+import {
+  ProjectRelations,
+  RelationNode,
+  RelationEdge,
+  RelationsSnapshotInfo,
+  RelationsDiff,
+} from '../types/relations';
+
+/** Snapshots kept per project (oldest are pruned) */
+const MAX_SNAPSHOTS = 30;
+
+const HISTORY_DIR_NAME = 'relations-history';
+const INDEX_FILE_NAME = 'index.json';
+
+/**
+ * Get the directory holding the snapshots of a project
+ */
+function getHistoryDir(projectId: string): string | null {
+  const mbPath = getMemoryBankService().getMemoryBankPath();
+  if (!mbPath) return null;
+  return path.join(mbPath, 'projects', projectId, HISTORY_DIR_NAME);
+}
+
+/**
+ * List the snapshots of a project, newest first
+ */
+export function listSnapshots(projectId: string): RelationsSnapshotInfo[] {
+  const historyDir = getHistoryDir(projectId);
+  if (!historyDir) return [];
+
+  try {
+    const indexPath = path.join(historyDir, INDEX_FILE_NAME);
+    if (!fs.existsSync(indexPath)) return [];
+    const index = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as RelationsSnapshotInfo[];
+    return index.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('[Relations] Error loading snapshot index:', error);
+    return [];
+  }
+}
+
+/**
+ * Load the relations stored in a snapshot
+ */
+export function loadSnapshot(projectId: string, snapshotId: string): ProjectRelations | null {
+  const historyDir = getHistoryDir(projectId);
+  if (!historyDir) return null;
+
+  try {
+    const snapshotPath = path.join(historyDir, `${snapshotId}.json`);
+    if (!fs.existsSync(snapshotPath)) return null;
+    return JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as ProjectRelations;
+  } catch (error) {
+    console.error(`[Relations] Error loading snapshot ${snapshotId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Read HEAD commit and branch of the workspace (if it is a git repository)
+ */
+function getGitInfo(cwd: string): Promise<{ commit?: string; branch?: string }> {
+  const git = (args: string[]) => new Promise<string | undefined>(resolve => {
+    childProcess.execFile('git', args, { cwd, timeout: 5000 }, (error, stdout) => {
+      resolve(error ? undefined : stdout.toString().trim() || undefined);
+    });
+  });
+
+  return Promise.all([
+    git(['rev-parse', 'HEAD']),
+    git(['rev-parse', '--abbrev-ref', 'HEAD'])
+  ]).then(([commit, branch]) => ({ commit, branch: branch === 'HEAD' ? undefined : branch }));
+}
+
+/**
+ * Store a snapshot of an analysis
+ *
+ * Automatic snapshots are skipped when nothing changed since the latest one
+ * (same source hash and commit); labelled snapshots are always stored.
+ *
+ * @returns The new snapshot, or null if it was skipped
+ */
+export async function saveSnapshot(relations: ProjectRelations, label?: string): Promise<RelationsSnapshotInfo | null> {
+  const historyDir = getHistoryDir(relations.projectId);
+  const mbPath = getMemoryBankService().getMemoryBankPath();
+  if (!historyDir || !mbPath) return null;
+
+  const { commit, branch } = await getGitInfo(path.dirname(mbPath));
+  const snapshots = listSnapshots(relations.projectId);
+  const latest = snapshots[0];
+  if (!label && latest && latest.sourceHash === relations.sourceHash && latest.commit === commit &&
+      latest.nodeCount === relations.nodes.length && latest.edgeCount === relations.edges.length) {
+    return null;
+  }
+
+  const createdAt = Date.now();
+  const stamp = new Date(createdAt).toISOString().replace(/[:.]/g, '-');
+  const info: RelationsSnapshotInfo = {
+    id: commit ? `${stamp}-${commit.substring(0, 7)}` : stamp,
+    projectId: relations.projectId,
+    createdAt,
+    commit,
+    branch,
+    label,
+    sourceHash: relations.sourceHash,
+    nodeCount: relations.nodes.length,
+    edgeCount: relations.edges.length
+  };
+
+  if (!fs.existsSync(historyDir)) {
+    fs.mkdirSync(historyDir, { recursive: true });
+  }
+  fs.writeFileSync(path.join(historyDir, `${info.id}.json`), JSON.stringify(relations), 'utf-8');
+
+  // Prune the oldest snapshots
+  const kept = [info, ...snapshots];
+  for (const old of kept.splice(MAX_SNAPSHOTS)) {
+    const oldPath = path.join(historyDir, `${old.id}.json`);
+    if (fs.existsSync(oldPath)) {
+      fs.unlinkSync(oldPath);
+    }
+  }
+  fs.writeFileSync(path.join(historyDir, INDEX_FILE_NAME), JSON.stringify(kept, null, 2), 'utf-8');
+
+  console.log(`[Relations] Snapshot ${info.id} saved (${kept.length} in history)`);
+  return info;
+}
+
+/**
+ * Human readable name of a snapshot ("18/10/2026 12:30 · abc1234 (main) · label")
+ */
+export function describeSnapshot(info: RelationsSnapshotInfo): string {
+  const parts = [new Date(info.createdAt).toLocaleString()];
+  if (info.commit) {
+    parts.push(info.branch ? `${info.commit.substring(0, 7)} (${info.branch})` : info.commit.substring(0, 7));
+  }
+  if (info.label) {
+    parts.push(info.label);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Compare two analyses: added/removed nodes and edges, and type changes
+ */
+export function diffRelations(
+  base: ProjectRelations,
+  head: ProjectRelations,
+  baseLabel: string,
+  headLabel: string
+): RelationsDiff {
+  const baseNodes = new Map(base.nodes.map(n => [n.id, n] as [string, RelationNode]));
+  const headNodes = new Map(head.nodes.map(n => [n.id, n] as [string, RelationNode]));
+  const baseEdges = new Map(base.edges.map(e => [e.id, e] as [string, RelationEdge]));
+  const headEdges = new Map(head.edges.map(e => [e.id, e] as [string, RelationEdge]));
+
+  const diff: RelationsDiff = {
+    projectId: head.projectId,
+    baseLabel,
+    headLabel,
+    addedNodes: head.nodes.filter(n => !baseNodes.has(n.id)),
+    removedNodes: base.nodes.filter(n => !headNodes.has(n.id)),
+    changedNodes: [],
+    addedEdges: head.edges.filter(e => !baseEdges.has(e.id)),
+    removedEdges: base.edges.filter(e => !headEdges.has(e.id)),
+    changedEdges: [],
+    merged: head
+  };
+
+  for (const node of head.nodes) {
+    const previous = baseNodes.get(node.id);
+    if (previous && previous.type !== node.type) {
+      diff.changedNodes.push({ node, previousType: previous.type });
+    }
+  }
+  for (const edge of head.edges) {
+    const previous = baseEdges.get(edge.id);
+    if (previous && previous.type !== edge.type) {
+      diff.changedEdges.push({ edge, previousType: previous.type });
+    }
+  }
+
+  diff.merged = {
+    ...head,
+    nodes: head.nodes.concat(diff.removedNodes),
+    edges: head.edges.concat(diff.removedEdges),
+    metrics: undefined
+  };
+
+  return diff;
+}
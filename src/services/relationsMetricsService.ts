@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Relations Metrics Service
+ * Computes coupling metrics for the relations graph: dependency cycles
+ * (strongly connected components), fan-in/fan-out, instability and
+ * betweenness centrality per node
+ */
+
+import {
+  ProjectRelations,
+  RelationNode,
+  RelationEdge,
+  NodeMetrics,
+  RelationsMetrics,
+} from '../types/relations';
+
+/** Above this many nodes, centrality is estimated from a sample of sources */
+const CENTRALITY_SAMPLE_THRESHOLD = 2000;
+/** Number of source nodes sampled for large graphs */
+const CENTRALITY_SAMPLE_SIZE = 500;
+
+/**
+ * Tarjan's strongly connected components (iterative, safe for deep graphs)
+ * @returns Components in reverse topological order
+ */
+export function findStronglyConnectedComponents(
+  nodeIds: string[],
+  adjacency: Map<string, string[]>
+): string[][] {
+  const indices = new Map<string, number>();
+  const lowlinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let index = 0;
+
+  const visit = (id: string) => {
+    indices.set(id, index);
+    lowlinks.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+  };
+
+  for (const start of nodeIds) {
+    if (indices.has(start)) continue;
+
+    visit(start);
+    const work: { id: string; next: number }[] = [{ id: start, next: 0 }];
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const neighbors = adjacency.get(frame.id) || [];
+
+      if (frame.next < neighbors.length) {
+        const neighbor = neighbors[frame.next++];
+        if (!indices.has(neighbor)) {
+          visit(neighbor);
+          work.push({ id: neighbor, next: 0 });
+        } else if (onStack.has(neighbor)) {
+          lowlinks.set(frame.id, Math.min(lowlinks.get(frame.id)!, indices.get(neighbor)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].id;
+        lowlinks.set(parent, Math.min(lowlinks.get(parent)!, lowlinks.get(frame.id)!));
+      }
+
+      if (lowlinks.get(frame.id) === indices.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Betweenness centrality (Brandes) on the directed graph, normalized to 0-1
+ */
+function computeBetweenness(count: number, adjacency: number[][]): { values: Float64Array; sampled: boolean } {
+  const centrality = new Float64Array(count);
+  if (count < 3) {
+    return { values: centrality, sampled: false };
+  }
+
+  // Large graphs: evenly spaced sources, scaled back to the full graph
+  const sampled = count > CENTRALITY_SAMPLE_THRESHOLD;
+  const step = sampled ? count / CENTRALITY_SAMPLE_SIZE : 1;
+  const sourceCount = sampled ? CENTRALITY_SAMPLE_SIZE : count;
+
+  const sigma = new Float64Array(count);
+  const delta = new Float64Array(count);
+  const distance = new Int32Array(count);
+  const predecessors: number[][] = new Array(count);
+  const order = new Int32Array(count);
+  const queue = new Int32Array(count);
+
+  for (let i = 0; i < sourceCount; i++) {
+    const source = Math.floor(i * step);
+
+    sigma.fill(0);
+    delta.fill(0);
+    distance.fill(-1);
+    for (let v = 0; v < count; v++) predecessors[v] = [];
+
+    sigma[source] = 1;
+    distance[source] = 0;
+    let head = 0;
+    let tail = 0;
+    let visited = 0;
+    queue[tail++] = source;
+
+    while (head < tail) {
+      const v = queue[head++];
+      order[visited++] = v;
+      for (const w of adjacency[v]) {
+        if (distance[w] < 0) {
+          distance[w] = distance[v] + 1;
+          queue[tail++] = w;
+        }
+        if (distance[w] === distance[v] + 1) {
+          sigma[w] += sigma[v];
+          predecessors[w].push(v);
+        }
+      }
+    }
+
+    for (let k = visited - 1; k >= 0; k--) {
+      const w = order[k];
+      for (const v of predecessors[w]) {
+        delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+      }
+      if (w !== source) {
+        centrality[w] += delta[w];
+      }
+    }
+  }
+
+  const scale = (count / sourceCount) / ((count - 1) * (count - 2));
+  for (let v = 0; v < count; v++) {
+    centrality[v] = Math.min(1, centrality[v] * scale);
+  }
+
+  return { values: centrality, sampled };
+}
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Compute cycles and per-node metrics of a relations graph
+ */
+export function computeRelationsMetrics(nodes: RelationNode[], edges: RelationEdge[]): RelationsMetrics {
+  const startTime = Date.now();
+  const indexById = new Map<string, number>();
+  nodes.forEach((node, i) => indexById.set(node.id, i));
+
+  // Distinct neighbors (several edges between the same pair count once)
+  const outgoing: Set<number>[] = nodes.map(() => new Set<number>());
+  const incoming: Set<number>[] = nodes.map(() => new Set<number>());
+  for (const edge of edges) {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    if (source === undefined || target === undefined || source === target) continue;
+    outgoing[source].add(target);
+    incoming[target].add(source);
+  }
+  const adjacency = outgoing.map(targets => Array.from(targets));
+
+  // Cycles: strongly connected components with more than one node
+  const adjacencyById = new Map<string, string[]>();
+  nodes.forEach((node, i) => adjacencyById.set(node.id, adjacency[i].map(t => nodes[t].id)));
+  const cycles = findStronglyConnectedComponents(nodes.map(n => n.id), adjacencyById)
+    .filter(component => component.length > 1)
+    .sort((a, b) => b.length - a.length);
+
+  const cycleOf = new Map<string, number>();
+  cycles.forEach((cycle, cycleId) => cycle.forEach(id => cycleOf.set(id, cycleId)));
+
+  const betweenness = computeBetweenness(nodes.length, adjacency);
+
+  const metrics: Record<string, NodeMetrics> = {};
+  nodes.forEach((node, i) => {
+    const fanIn = incoming[i].size;
+    const fanOut = outgoing[i].size;
+    metrics[node.id] = {
+      fanIn,
+      fanOut,
+      instability: fanIn + fanOut > 0 ? round(fanOut / (fanIn + fanOut), 3) : 0,
+      centrality: round(betweenness.values[i], 4),
+      cycleId: cycleOf.get(node.id)
+    };
+  });
+
+  console.log(`[Relations] Metrics: ${cycles.length} cycles, centrality${betweenness.sampled ? ' (sampled)' : ''} in ${Date.now() - startTime}ms`);
+
+  return {
+    nodes: metrics,
+    cycles,
+    sampledCentrality: betweenness.sampled || undefined
+  };
+}
+
+/**
+ * Return the relations with metrics, computing them for files analyzed
+ * before metrics were stored
+ */
+export function withMetrics(relations: ProjectRelations | null): ProjectRelations | null {
+  if (!relations || relations.metrics) return relations;
+  return { ...relations, metrics: computeRelationsMetrics(relations.nodes, relations.edges) };
+}
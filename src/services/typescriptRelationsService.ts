@@ -0,0 +1,613 @@
+/**
+ * @fileoverview TypeScript Relations Backend
+ * Builds relation edges for TS/JS projects with the TypeScript compiler API.
+ * Symbols are resolved through re-exports, barrel files, aliased imports and
+ * tsconfig path mappings, producing imports/calls/extends/implements edges
+ * with the functions involved on each side.
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import { Worker } from 'worker_threads';
+import { RelationNode, RelationEdge, RelationEdgeType } from '../types/relations';
+
+/** Languages handled by this backend */
+const TS_JS_LANGUAGES = ['typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'ts', 'tsx', 'js', 'jsx'];
+
+/** File extensions handled by this backend */
+const TS_JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs'];
+
+/**
+ * When several relations exist between two nodes, the edge keeps the strongest one
+ */
+const EDGE_PRIORITY: Partial<Record<RelationEdgeType, number>> = {
+  'extends': 5,
+  'implements': 4,
+  'calls': 3,
+  'uses': 2,
+  'imports': 1,
+};
+
+/** Name used for code that runs at module level */
+const MODULE_SCOPE = '(module)';
+
+/** Bundle of the worker thread that builds the edges (webpack entry next to extension.js) */
+const WORKER_FILE = 'relations-worker.js';
+
+/** The worker (and the program it keeps for the next run) is dropped after this idle time */
+const WORKER_IDLE_MS = 10 * 60 * 1000;
+
+/**
+ * Options for building TypeScript edges
+ */
+export interface TypeScriptEdgeOptions {
+  /** Project root, used to locate tsconfig.json / jsconfig.json */
+  rootDir?: string;
+  /** Only walk these source nodes (incremental analysis). All TS/JS nodes when omitted */
+  sourceNodeIds?: Set<string>;
+}
+
+/**
+ * Edges request sent to the worker thread (paths are resolved against baseDir)
+ */
+export interface TypeScriptEdgeRequest {
+  nodes: RelationNode[];
+  files: string[];
+  baseDir: string;
+  rootDir?: string;
+  sourceNodeIds?: string[];
+}
+
+/**
+ * Response of the worker thread to a request
+ */
+export interface TypeScriptEdgeResponse {
+  id: number;
+  edges?: RelationEdge[];
+  error?: string;
+}
+
+/**
+ * Accumulated relation between a pair of nodes
+ */
+interface EdgeAccumulator {
+  source: RelationNode;
+  target: RelationNode;
+  type: RelationEdgeType;
+  sourceFunctions: Set<string>;
+  targetFunctions: Set<string>;
+  importedNames: Set<string>;
+}
+
+/**
+ * Check if a language is handled by the TypeScript backend
+ */
+export function isTypeScriptLanguage(language?: string): boolean {
+  return !!language && TS_JS_LANGUAGES.includes(language);
+}
+
+/**
+ * Check if a file path is handled by the TypeScript backend
+ */
+export function isTypeScriptFile(filePath: string): boolean {
+  return TS_JS_EXTENSIONS.includes(path.extname(filePath).toLowerCase()) && !filePath.endsWith('.d.ts');
+}
+
+/**
+ * Get the script kind for a file based on its extension
+ */
+function getScriptKind(filePath: string): ts.ScriptKind {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.tsx': return ts.ScriptKind.TSX;
+    case '.jsx': return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs': return ts.ScriptKind.JS;
+    default: return ts.ScriptKind.TS;
+  }
+}
+
+/**
+ * Extract class and function names from a single file using the TS parser
+ * (no type checking, so it is as cheap as the regex path but understands the syntax)
+ */
+export function extractDeclarationNames(content: string, filePath: string): { classes: string[]; functions: string[] } {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, false, getScriptKind(filePath));
+  const classes: string[] = [];
+  const functions: string[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isClassDeclaration(node) && node.name) {
+      classes.push(node.name.text);
+    } else if (ts.isFunctionDeclaration(node) && node.name) {
+      functions.push(node.name.text);
+    } else if ((ts.isMethodDeclaration(node) || ts.isGetAccessor(node) || ts.isSetAccessor(node)) && ts.isIdentifier(node.name)) {
+      functions.push(node.name.text);
+    } else if (ts.isPropertyDeclaration(node) && ts.isIdentifier(node.name) && node.initializer && isFunctionLike(node.initializer)) {
+      functions.push(node.name.text);
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer && isFunctionLike(node.initializer)) {
+      functions.push(node.name.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return {
+    classes: [...new Set(classes)],
+    functions: [...new Set(functions)]
+  };
+}
+
+/**
+ * Check if an expression is an arrow function or function expression
+ */
+function isFunctionLike(node: ts.Node): boolean {
+  return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+}
+
+/**
+ * Normalize an absolute path so it can be compared with compiler file names
+ */
+function toFileKey(filePath: string): string {
+  const normalized = path.resolve(filePath).replace(/\\/g, '/');
+  return ts.sys.useCaseSensitiveFileNames ? normalized : normalized.toLowerCase();
+}
+
+/**
+ * Find the longest common directory of a list of absolute paths
+ */
+function getCommonDir(filePaths: string[]): string {
+  if (filePaths.length === 0) return process.cwd();
+
+  let common = path.dirname(filePaths[0]).replace(/\\/g, '/').split('/');
+  for (const filePath of filePaths.slice(1)) {
+    const parts = path.dirname(filePath).replace(/\\/g, '/').split('/');
+    let i = 0;
+    while (i < common.length && i < parts.length && common[i] === parts[i]) i++;
+    common = common.slice(0, i);
+  }
+  return common.join('/') || '/';
+}
+
+/**
+ * Load compiler options from the project tsconfig.json / jsconfig.json
+ * (baseUrl and paths are what matter for resolution)
+ */
+function loadCompilerOptions(rootDir: string): ts.CompilerOptions {
+  const configPath = ts.findConfigFile(rootDir, ts.sys.fileExists, 'tsconfig.json')
+    || ts.findConfigFile(rootDir, ts.sys.fileExists, 'jsconfig.json');
+
+  let options: ts.CompilerOptions = {};
+  if (configPath) {
+    const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (!configFile.error) {
+      const parsed = ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(configPath));
+      options = parsed.options;
+      console.log(`[Relations] Using compiler options from ${configPath}`);
+    }
+  }
+
+  return {
+    ...options,
+    allowJs: true,
+    checkJs: false,
+    noEmit: true,
+    // Only project files matter: skip lib.d.ts and @types to keep the program small
+    noLib: true,
+    types: [],
+    skipLibCheck: true,
+    jsx: options.jsx ?? ts.JsxEmit.Preserve,
+  };
+}
+
+// Program of the previous build and the source files it parsed: the next build
+// passes it as oldProgram and only parses the files modified since
+let previousProgram: ts.Program | undefined;
+const sourceFileCache = new Map<string, { modified: number; sourceFile: ts.SourceFile }>();
+
+/**
+ * Compiler host that reuses the parsed source files of unchanged files
+ */
+function createCachingCompilerHost(options: ts.CompilerOptions): ts.CompilerHost {
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+    const modifiedTime = ts.sys.getModifiedTime ? ts.sys.getModifiedTime(fileName) : undefined;
+    const modified = modifiedTime ? modifiedTime.getTime() : NaN;
+    const cached = sourceFileCache.get(fileName);
+    if (cached && cached.modified === modified && !shouldCreateNewSourceFile) {
+      return cached.sourceFile;
+    }
+
+    const sourceFile = getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+    if (sourceFile && !isNaN(modified)) {
+      sourceFileCache.set(fileName, { modified, sourceFile });
+    }
+    return sourceFile;
+  };
+
+  return host;
+}
+
+/**
+ * Create the program of a build, reusing the previous one, and forget the
+ * cached source files it no longer contains
+ */
+function createIncrementalProgram(rootNames: string[], options: ts.CompilerOptions): ts.Program {
+  const program = ts.createProgram({
+    rootNames,
+    options,
+    host: createCachingCompilerHost(options),
+    oldProgram: previousProgram
+  });
+
+  const fileNames = new Set(program.getSourceFiles().map(sourceFile => sourceFile.fileName));
+  for (const fileName of [...sourceFileCache.keys()]) {
+    if (!fileNames.has(fileName)) {
+      sourceFileCache.delete(fileName);
+    }
+  }
+
+  previousProgram = program;
+  return program;
+}
+
+/**
+ * Follow aliases (imports, re-exports) to the symbol that declares the value
+ */
+function resolveSymbol(checker: ts.TypeChecker, symbol: ts.Symbol | undefined): ts.Symbol | undefined {
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    try {
+      return checker.getAliasedSymbol(symbol);
+    } catch {
+      return symbol;
+    }
+  }
+  return symbol;
+}
+
+/**
+ * Get a qualified display name for a declaration (Class.method, function, Class)
+ */
+function getDeclarationName(declaration: ts.Declaration, fallback: string): string {
+  const name = ts.getNameOfDeclaration(declaration);
+  const text = name && (ts.isIdentifier(name) || ts.isPrivateIdentifier(name)) ? name.text : fallback;
+
+  if (ts.isConstructorDeclaration(declaration)) {
+    const owner = declaration.parent;
+    return ts.isClassLike(owner) && owner.name ? `${owner.name.text}.constructor` : 'constructor';
+  }
+
+  const owner = declaration.parent;
+  if (owner && (ts.isClassLike(owner) || ts.isInterfaceDeclaration(owner)) && owner.name) {
+    return `${owner.name.text}.${text}`;
+  }
+  return text;
+}
+
+/**
+ * Get the name of the function/method that encloses a node
+ */
+function getScopeName(node: ts.Node, current: string): string {
+  if ((ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isGetAccessor(node) ||
+       ts.isSetAccessor(node) || ts.isConstructorDeclaration(node)) && (node.name || ts.isConstructorDeclaration(node))) {
+    return getDeclarationName(node, current);
+  }
+  if ((ts.isVariableDeclaration(node) || ts.isPropertyDeclaration(node)) && node.initializer && isFunctionLike(node.initializer)) {
+    return getDeclarationName(node, current);
+  }
+  if (ts.isClassDeclaration(node) && node.name) {
+    return node.name.text;
+  }
+  return current;
+}
+
+/**
+ * Build edges for the TS/JS nodes of a project using the compiler API
+ *
+ * @param nodes - All nodes of the project (non TS/JS nodes are ignored)
+ * @param files - Absolute paths of every TS/JS file in the project (barrels without nodes included)
+ * @param resolvePath - Maps a node filePath (as stored in the index) to an absolute path
+ * @param options - Root directory and optional subset of sources to walk
+ */
+export function buildTypeScriptEdges(
+  nodes: RelationNode[],
+  files: string[],
+  resolvePath: (filePath: string) => string,
+  options: TypeScriptEdgeOptions = {}
+): RelationEdge[] {
+  const startTime = Date.now();
+  const tsNodes = nodes.filter(node => isTypeScriptLanguage(node.language));
+  if (tsNodes.length === 0) return [];
+
+  const nodesByFile = new Map<string, RelationNode>();
+  for (const node of tsNodes) {
+    nodesByFile.set(toFileKey(resolvePath(node.filePath)), node);
+  }
+
+  // Incremental runs only need the walked sources: the compiler adds the files they import
+  const allFiles = [...new Set([...files, ...tsNodes.map(node => resolvePath(node.filePath))])];
+  const rootNames = options.sourceNodeIds
+    ? [...new Set(tsNodes.filter(node => options.sourceNodeIds!.has(node.id)).map(node => resolvePath(node.filePath)))]
+    : allFiles;
+  const compilerOptions = loadCompilerOptions(options.rootDir || getCommonDir(allFiles));
+
+  console.log(`[Relations] Building TypeScript program from ${rootNames.length} root files...`);
+  const program = createIncrementalProgram(rootNames, compilerOptions);
+  const checker = program.getTypeChecker();
+
+  const accumulators = new Map<string, EdgeAccumulator>();
+
+  const nodeForFile = (sourceFile: ts.SourceFile | undefined): RelationNode | undefined => {
+    if (!sourceFile || sourceFile.isDeclarationFile) return undefined;
+    return nodesByFile.get(toFileKey(sourceFile.fileName));
+  };
+
+  const addRelation = (
+    source: RelationNode,
+    target: RelationNode | undefined,
+    type: RelationEdgeType,
+    sourceFunction?: string,
+    targetFunction?: string
+  ) => {
+    if (!target || target.id === source.id) return;
+
+    const key = `${source.id}-${target.id}`;
+    let acc = accumulators.get(key);
+    if (!acc) {
+      acc = { source, target, type, sourceFunctions: new Set(), targetFunctions: new Set(), importedNames: new Set() };
+      accumulators.set(key, acc);
+    } else if ((EDGE_PRIORITY[type] || 0) > (EDGE_PRIORITY[acc.type] || 0)) {
+      acc.type = type;
+    }
+
+    if (type === 'imports') {
+      if (targetFunction) acc.importedNames.add(targetFunction);
+    } else {
+      if (sourceFunction) acc.sourceFunctions.add(sourceFunction);
+      if (targetFunction) acc.targetFunctions.add(targetFunction);
+    }
+  };
+
+  const resolveModuleNode = (specifier: string, containingFile: string): RelationNode | undefined => {
+    const resolved = ts.resolveModuleName(specifier, containingFile, compilerOptions, ts.sys).resolvedModule;
+    if (!resolved || resolved.isExternalLibraryImport) return undefined;
+    return nodesByFile.get(toFileKey(resolved.resolvedFileName));
+  };
+
+  /**
+   * Resolve the symbol at a location to the node that declares it
+   */
+  const resolveTarget = (location: ts.Node): { node: RelationNode; name: string } | undefined => {
+    const symbol = resolveSymbol(checker, checker.getSymbolAtLocation(location));
+    const declaration = symbol?.declarations?.[0];
+    if (!symbol || !declaration) return undefined;
+
+    const node = nodeForFile(declaration.getSourceFile());
+    if (!node) return undefined;
+    return { node, name: getDeclarationName(declaration, symbol.getName()) };
+  };
+
+  const walkFile = (sourceFile: ts.SourceFile, source: RelationNode) => {
+    const visit = (node: ts.Node, scope: string) => {
+      // import ... from '...'
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        const moduleNode = resolveModuleNode(node.moduleSpecifier.text, sourceFile.fileName);
+        const clause = node.importClause;
+        let resolvedNamed = false;
+
+        if (clause?.name) {
+          const target = resolveTarget(clause.name);
+          if (target) {
+            addRelation(source, target.node, 'imports', undefined, target.name);
+            resolvedNamed = true;
+          }
+        }
+        if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+          for (const element of clause.namedBindings.elements) {
+            // Aliased/barrel imports resolve to the file that actually declares the symbol
+            const target = resolveTarget(element.name);
+            if (target) {
+              addRelation(source, target.node, 'imports', undefined, target.name);
+              resolvedNamed = true;
+            }
+          }
+        }
+        if (!resolvedNamed) {
+          addRelation(source, moduleNode, 'imports');
+        }
+        return;
+      }
+
+      // export ... from '...' (re-exports / barrels)
+      if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        addRelation(source, resolveModuleNode(node.moduleSpecifier.text, sourceFile.fileName), 'imports');
+        return;
+      }
+
+      // import x = require('...')
+      if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference) &&
+          ts.isStringLiteral(node.moduleReference.expression)) {
+        addRelation(source, resolveModuleNode(node.moduleReference.expression.text, sourceFile.fileName), 'imports');
+        return;
+      }
+
+      // class A extends B implements C / interface A extends B
+      if ((ts.isClassLike(node) || ts.isInterfaceDeclaration(node)) && node.heritageClauses) {
+        const ownerName = node.name ? node.name.text : scope;
+        for (const clause of node.heritageClauses) {
+          const type: RelationEdgeType = clause.token === ts.SyntaxKind.ExtendsKeyword ? 'extends' : 'implements';
+          for (const heritageType of clause.types) {
+            const target = resolveTarget(heritageType.expression);
+            if (target) {
+              addRelation(source, target.node, type, ownerName, target.name);
+            }
+          }
+        }
+      }
+
+      if (ts.isCallExpression(node)) {
+        const [firstArg] = node.arguments;
+        const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+        const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+
+        if ((isRequire || isDynamicImport) && firstArg && ts.isStringLiteralLike(firstArg)) {
+          addRelation(source, resolveModuleNode(firstArg.text, sourceFile.fileName), 'imports');
+        } else {
+          const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node.expression;
+          const target = resolveTarget(callee);
+          if (target) {
+            addRelation(source, target.node, 'calls', scope, target.name);
+          }
+        }
+      }
+
+      if (ts.isNewExpression(node)) {
+        const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node.expression;
+        const target = resolveTarget(callee);
+        if (target) {
+          addRelation(source, target.node, 'calls', scope, `${target.name}.constructor`);
+        }
+      }
+
+      // <Component /> usages in JSX
+      if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        const target = resolveTarget(node.tagName);
+        if (target) {
+          addRelation(source, target.node, 'uses', scope, target.name);
+        }
+      }
+
+      const childScope = getScopeName(node, scope);
+      ts.forEachChild(node, child => visit(child, childScope));
+    };
+
+    visit(sourceFile, MODULE_SCOPE);
+  };
+
+  let walkedFiles = 0;
+  for (const sourceFile of program.getSourceFiles()) {
+    const source = nodeForFile(sourceFile);
+    if (!source) continue;
+    if (options.sourceNodeIds && !options.sourceNodeIds.has(source.id)) continue;
+
+    try {
+      walkFile(sourceFile, source);
+      walkedFiles++;
+    } catch (error) {
+      console.error(`[Relations] Error walking ${source.filePath}:`, error);
+    }
+  }
+
+  const edges: RelationEdge[] = [];
+  for (const acc of accumulators.values()) {
+    const targetFunctions = acc.type === 'imports' ? acc.importedNames : acc.targetFunctions;
+    edges.push({
+      id: `${acc.source.id}-${acc.target.id}`,
+      source: acc.source.id,
+      target: acc.target.id,
+      type: acc.type,
+      label: `${acc.type} ${acc.target.name}`,
+      ...(acc.sourceFunctions.size > 0 && acc.type !== 'imports' ? { sourceFunctions: [...acc.sourceFunctions] } : {}),
+      ...(targetFunctions.size > 0 ? { targetFunctions: [...targetFunctions] } : {})
+    });
+  }
+
+  console.log(`[Relations] TypeScript backend: ${walkedFiles} files walked, ${edges.length} edges in ${Date.now() - startTime}ms`);
+  return edges;
+}
+
+// ============================================
+// Worker thread
+// ============================================
+
+let worker: Worker | undefined;
+let idleTimer: NodeJS.Timeout | undefined;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (edges: RelationEdge[]) => void; reject: (error: Error) => void }>();
+
+function rejectPendingRequests(error: Error): void {
+  for (const request of pendingRequests.values()) {
+    request.reject(error);
+  }
+  pendingRequests.clear();
+}
+
+/**
+ * Start the worker thread, or return the running one
+ */
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  const instance = new Worker(path.join(__dirname, WORKER_FILE));
+  instance.on('message', (response: TypeScriptEdgeResponse) => {
+    const request = pendingRequests.get(response.id);
+    if (!request) return;
+    pendingRequests.delete(response.id);
+    if (response.error !== undefined) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.edges || []);
+    }
+  });
+  instance.on('error', error => {
+    console.error('[Relations] TypeScript worker failed:', error);
+    rejectPendingRequests(error);
+  });
+  instance.on('exit', code => {
+    if (worker === instance) {
+      worker = undefined;
+    }
+    rejectPendingRequests(new Error(`TypeScript worker exited with code ${code}`));
+  });
+  // The worker must never keep the extension host alive
+  instance.unref();
+
+  worker = instance;
+  return instance;
+}
+
+/**
+ * Stop the worker once no analysis has used it for WORKER_IDLE_MS
+ */
+function scheduleWorkerShutdown(): void {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = setTimeout(() => {
+    idleTimer = undefined;
+    if (worker && pendingRequests.size === 0) {
+      worker.terminate();
+      worker = undefined;
+    }
+  }, WORKER_IDLE_MS);
+}
+
+/**
+ * Build the edges in the worker thread, so type checking never blocks the
+ * extension host. The worker keeps the program between runs
+ */
+export function buildTypeScriptEdgesInWorker(request: TypeScriptEdgeRequest): Promise<RelationEdge[]> {
+  if (idleTimer) clearTimeout(idleTimer);
+
+  const result = new Promise<RelationEdge[]>((resolve, reject) => {
+    const id = ++nextRequestId;
+    pendingRequests.set(id, { resolve, reject });
+    try {
+      getWorker().postMessage({ id, ...request });
+    } catch (error) {
+      pendingRequests.delete(id);
+      reject(error);
+    }
+  });
+
+  return result.then(
+    edges => {
+      scheduleWorkerShutdown();
+      return edges;
+    },
+    error => {
+      scheduleWorkerShutdown();
+      throw error;
+    }
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview TypeScript Relations Worker
+ * Worker thread entry (bundled as dist/relations-worker.js) that builds the
+ * TypeScript edges off the extension host. The module state of the backend
+ * (previous program, parsed source files) lives as long as the worker, so
+ * incremental runs reuse it.
+ */
+
+import * as path from 'path';
+import { parentPort } from 'worker_threads';
+import { buildTypeScriptEdges, TypeScriptEdgeRequest, TypeScriptEdgeResponse } from './typescriptRelationsService';
+
+if (parentPort) {
+  const port = parentPort;
+  port.on('message', (message: TypeScriptEdgeRequest & { id: number }) => {
+    let response: TypeScriptEdgeResponse;
+    try {
+      const edges = buildTypeScriptEdges(
+        message.nodes,
+        message.files,
+        filePath => path.resolve(message.baseDir, filePath),
+        {
+          rootDir: message.rootDir,
+          sourceNodeIds: message.sourceNodeIds ? new Set(message.sourceNodeIds) : undefined
+        }
+      );
+      response = { id: message.id, edges };
+    } catch (error) {
+      response = { id: message.id, error: error instanceof Error ? error.message : String(error) };
+    }
+    port.postMessage(response);
+  });
+}
@@ -30,6 +30,26 @@ export interface OrchestratorLog {
     timestamp: string;
 }
 
+export interface OrchestratorLogFilters {
+    projectId?: string;
+    action?: OrchestratorLog['action'];
+    success?: boolean;
+    modelUsed?: string;
+}
+
+/**
+ * Aggregated statistics of a set of orchestrator logs
+ */
+export interface OrchestratorLogStats {
+    total: number;
+    successRate: number; // 0-1
+    byAction: Record<OrchestratorLog['action'], number>;
+    byModel: Array<{ model: string; total: number; failures: number }>;
+    byProject: Array<{ projectId: string; total: number; delegated: number; delegationRate: number }>;
+    delegationTargets: Array<{ projectId: string; count: number }>;
+    failureReasons: Array<{ reason: string; count: number }>;
+}
+
 export interface PendingTask {
     id: string;
     projectId: string;
@@ -51,6 +71,22 @@ export interface ExternalRequest {
     receivedAt: string;
 }
 
+export type DelegationStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'IN_PROGRESS' | 'COMPLETED';
+
+/**
+ * Entry of the timeline of an external request (delegation_events table)
+ */
+export interface DelegationEvent {
+    id?: number;
+    requestId: string;
+    projectId: string; // Project the request was delegated to
+    fromProject: string; // Project that created the request
+    status: DelegationStatus;
+    actor: string;
+    note?: string; // Rejection reason, result summary on completion...
+    timestamp: string;
+}
+
 export interface FileLock {
     pattern: string;
     projectId: string;
@@ -58,6 +94,26 @@ export interface FileLock {
     since: string;
 }
 
+export interface FileLockStatus extends FileLock {
+    expired: boolean; // Neither the lock nor its agent's heartbeat were refreshed within the TTL
+    expiresAt: string | null; // null if no valid timestamp was found
+}
+
+export interface FileLockResult {
+    acquired: boolean;
+    pattern?: string; // Lock taken for the request (unset when a lock the agent already held covers it)
+    blockedBy?: FileLockStatus; // Active lock of another agent overlapping the requested pattern
+    released: FileLockStatus[]; // Expired locks of other agents released to grant the lock
+}
+
+export interface FileLockPlan {
+    lock: FileLock; // Lock to take, or the agent's own lock to refresh
+    refresh: boolean; // The agent already holds a lock covering the request
+    blockedBy?: FileLockStatus; // Nothing is written
+    release: FileLockStatus[]; // Expired locks of other agents to remove
+    replace: string[]; // Patterns of the agent's locks covered by the new lock
+}
+
 export interface AgentMessage {
     id?: number;
     projectId: string;
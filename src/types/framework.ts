@@ -14,6 +14,15 @@ export type FrameworkType =
   | 'flask'
   | 'express'
   | 'fastapi'
+  | 'gin'
+  | 'echo'
+  | 'chi'
+  | 'axum'
+  | 'actix'
+  | 'aspnet-core'
+  | 'laravel'
+  | 'rails'
+  | 'quarkus'
   // Frontend frameworks
   | 'angular'
   | 'react'
@@ -124,6 +133,47 @@ export interface FrameworkAnalysis {
   analyzedAt: number;
   /** Source file count */
   fileCount: number;
+  /** Classes and beans the DI container can inject (Spring, NestJS) */
+  providers?: DiProvider[];
+  /** Dependencies requested by the providers */
+  injections?: DiInjection[];
+  /** Hash of the analyzed files (see StoredFrameworkAnalysis.sourceHash) */
+  sourceHash?: string;
+  /** Files whose results were reused from frameworks.json (incremental refresh) */
+  reusedFiles?: number;
+}
+
+/**
+ * Frameworks a single file points to (kept per file for incremental refresh)
+ */
+export interface FileFrameworkEvidence {
+  /** Detected from a config file (package.json, pom.xml, go.mod...) */
+  config?: FrameworkType[];
+  /** Detected from imports, annotations or decorators */
+  code?: FrameworkType[];
+}
+
+/**
+ * Framework analysis persisted in projects/<id>/frameworks.json
+ * (componentsByType is rebuilt on load)
+ */
+export interface StoredFrameworkAnalysis {
+  /** Schema version */
+  version: string;
+  projectId: string;
+  /** Hash of the per-file hashes, to detect changes */
+  sourceHash: string;
+  /** Per-file hashes (from index-metadata.json) used for incremental refresh */
+  fileHashes: Record<string, string>;
+  /** Framework evidence of the files that have any */
+  fileFrameworks: Record<string, FileFrameworkEvidence>;
+  frameworks: FrameworkType[];
+  components: FrameworkComponent[];
+  endpoints: EndpointInfo[];
+  providers: DiProvider[];
+  injections: DiInjection[];
+  analyzedAt: number;
+  fileCount: number;
 }
 
 /**
@@ -183,6 +233,69 @@ export const FRAMEWORK_INFO: Record<FrameworkType, FrameworkInfo> = {
     color: '#000000',
     languages: ['javascript', 'typescript'],
   },
+  'gin': {
+    type: 'gin',
+    name: 'Gin',
+    icon: 'gin',
+    color: '#00ADD8',
+    languages: ['go'],
+  },
+  'echo': {
+    type: 'echo',
+    name: 'Echo',
+    icon: 'echo',
+    color: '#00ADD8',
+    languages: ['go'],
+  },
+  'chi': {
+    type: 'chi',
+    name: 'chi',
+    icon: 'chi',
+    color: '#00ADD8',
+    languages: ['go'],
+  },
+  'axum': {
+    type: 'axum',
+    name: 'Axum',
+    icon: 'axum',
+    color: '#DEA584',
+    languages: ['rust'],
+  },
+  'actix': {
+    type: 'actix',
+    name: 'Actix Web',
+    icon: 'actix',
+    color: '#DEA584',
+    languages: ['rust'],
+  },
+  'aspnet-core': {
+    type: 'aspnet-core',
+    name: 'ASP.NET Core',
+    icon: 'dotnet',
+    color: '#512BD4',
+    languages: ['csharp'],
+  },
+  'laravel': {
+    type: 'laravel',
+    name: 'Laravel',
+    icon: 'laravel',
+    color: '#FF2D20',
+    languages: ['php'],
+  },
+  'rails': {
+    type: 'rails',
+    name: 'Ruby on Rails',
+    icon: 'rails',
+    color: '#CC0000',
+    languages: ['ruby'],
+  },
+  'quarkus': {
+    type: 'quarkus',
+    name: 'Quarkus',
+    icon: 'quarkus',
+    color: '#4695EB',
+    languages: ['java', 'kotlin'],
+  },
   'angular': {
     type: 'angular',
     name: 'Angular',
@@ -278,3 +391,130 @@ export const COMPONENT_TYPE_INFO: Record<FrameworkComponentType, ComponentTypeIn
  * Status of framework analysis
  */
 export type FrameworkAnalysisStatus = 'none' | 'analyzing' | 'ready' | 'error' | 'no-framework';
+
+/**
+ * Kind of difference between the detected endpoints and an OpenAPI document
+ * - undocumented: route in code, missing in the document
+ * - removed: route in the document, not found in code
+ * - mismatched: same path in both, with different methods or parameter names
+ */
+export type ApiDriftKind = 'undocumented' | 'removed' | 'mismatched';
+
+/**
+ * An operation declared in an OpenAPI/Swagger document
+ */
+export interface ApiSpecOperation {
+  method: HttpMethod;
+  /** Full path (server/base path included) */
+  path: string;
+  operationId?: string;
+  /** Document declaring the operation */
+  file: string;
+  /** Line of the path in the document */
+  line: number;
+}
+
+/**
+ * A difference between the code and the OpenAPI document
+ */
+export interface ApiDriftItem {
+  kind: ApiDriftKind;
+  method: HttpMethod;
+  path: string;
+  /** Human readable explanation */
+  detail: string;
+  /** Endpoint in code (undocumented, mismatched) */
+  endpoint?: EndpointInfo;
+  /** Operation in the document (removed, mismatched) */
+  operation?: ApiSpecOperation;
+}
+
+/**
+ * Result of comparing the detected endpoints with an OpenAPI document
+ */
+export interface ApiDriftReport {
+  projectId: string;
+  /** Absolute path of the OpenAPI/Swagger document */
+  specFile: string;
+  checkedAt: number;
+  /** Operations declared in the document */
+  documentedCount: number;
+  /** Routes detected in code */
+  detectedCount: number;
+  items: ApiDriftItem[];
+}
+
+/**
+ * Lifetime of an injectable provider
+ */
+export type DiScope = 'singleton' | 'prototype' | 'request' | 'session' | 'application' | 'transient';
+
+/**
+ * A class, bean or token the DI container can inject
+ */
+export interface DiProvider {
+  /** Class name, @Bean method name or NestJS token */
+  name: string;
+  /** Types it can be injected as (its class, implemented interfaces, bean return type, token) */
+  providesTypes: string[];
+  /** Decorator/annotation that registers it (@Service, @Bean, @Injectable, provide:...) */
+  registeredBy: string;
+  /** Created by the framework as an entry point, not meant to be injected (controllers, configuration) */
+  entryPoint: boolean;
+  scope?: DiScope;
+  framework: FrameworkType;
+  filePath: string;
+  line: number;
+}
+
+/**
+ * A dependency requested by a provider
+ */
+export interface DiInjection {
+  /** Provider receiving the dependency */
+  consumer: string;
+  /** Requested type or token */
+  type: string;
+  /** Field or parameter name */
+  name?: string;
+  via: 'constructor' | 'field' | 'setter' | 'bean-parameter' | 'token';
+  /** Type declared outside the project (framework or library class) */
+  external: boolean;
+  framework: FrameworkType;
+  filePath: string;
+  line: number;
+}
+
+/**
+ * A resolved injection: `injection.consumer` receives `provider`
+ */
+export interface DiEdge {
+  injection: DiInjection;
+  provider: DiProvider;
+}
+
+/**
+ * A circular injection chain between providers
+ */
+export interface DiCycle {
+  /** Provider names along the chain (the first one closes it) */
+  chain: string[];
+  /** Injections that form the chain */
+  injections: DiInjection[];
+}
+
+/**
+ * Dependency injection graph of a project
+ */
+export interface DiGraph {
+  projectId: string;
+  providers: DiProvider[];
+  edges: DiEdge[];
+  /** Project types requested but not provided by any registered provider */
+  unresolved: DiInjection[];
+  /** Providers registered but never injected (entry points excluded) */
+  unused: DiProvider[];
+  cycles: DiCycle[];
+  /** Injections of framework/library types, not checked */
+  externalCount: number;
+}
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview MCP client types
+ * Types for Model Context Protocol server configuration and live connection state
+ */
+
+/**
+ * Transport used to talk to an MCP server
+ */
+export type MCPTransportType = 'stdio' | 'http' | 'sse';
+
+/**
+ * Connection status of an MCP server
+ */
+export type MCPConnectionStatus = 'connected' | 'failed' | 'idle' | 'connecting';
+
+/**
+ * A server entry from the `memorybank.mcpServers` setting
+ * (same shape the CLI agents receive via `-c mcp_servers.<id>.*`)
+ */
+export interface MCPServerConfig {
+  /** Executable for stdio servers (e.g. "npx") */
+  command?: string;
+  /** Arguments for stdio servers */
+  args?: string[];
+  /** Extra environment variables for stdio servers */
+  env?: Record<string, string>;
+  /** Working directory for stdio servers (defaults to the workspace root) */
+  cwd?: string;
+  /** Endpoint for HTTP/SSE servers */
+  url?: string;
+  /** Explicit transport, inferred from command/url when omitted */
+  transport?: MCPTransportType;
+  /** Extra HTTP headers for HTTP/SSE servers */
+  headers?: Record<string, string>;
+  /** Human readable description */
+  description?: string;
+  /** Skip this server when connecting */
+  disabled?: boolean;
+}
+
+/**
+ * A tool exposed by an MCP server (result of `tools/list`)
+ */
+export interface MCPTool {
+  /** Tool name as reported by the server */
+  name: string;
+  /** Tool description */
+  description: string;
+  /** JSON Schema of the tool arguments */
+  inputSchema?: Record<string, any>;
+  /** Id of the server that exposes this tool */
+  server: string;
+}
+
+/**
+ * Live state of a configured MCP server
+ */
+export interface MCPConnection {
+  /** Server id (key in `memorybank.mcpServers`) */
+  id: string;
+  /** Display name (serverInfo.name when available) */
+  name: string;
+  /** Connection status */
+  status: MCPConnectionStatus;
+  /** Transport in use */
+  transport: MCPTransportType;
+  /** Command line or URL, for display */
+  url: string;
+  /** Server version from serverInfo */
+  version?: string;
+  /** Last connection or request error */
+  error?: string;
+  /** Last measured round-trip latency in ms */
+  latency?: number;
+  /** Tools exposed by this server */
+  tools: MCPTool[];
+  /** Timestamp of the successful handshake */
+  connectedAt?: number;
+  /** Timestamp of the last health check */
+  lastChecked?: number;
+}
+
+/**
+ * Result of a `tools/call` request
+ */
+export interface MCPToolCallResult {
+  content: Array<{ type: string; text?: string; [key: string]: any }>;
+  isError?: boolean;
+  structuredContent?: any;
+}
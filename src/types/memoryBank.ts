@@ -25,6 +25,8 @@ export interface IndexMetadata {
   lastIndexed: number;
   /** Map of file paths to their metadata */
   files: Record<string, FileEntry>;
+  /** Embedding model used to build code_chunks (recorded by newer indexer versions) */
+  embeddingModel?: string;
 }
 
 /**
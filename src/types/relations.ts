@@ -3,6 +3,8 @@
  * Defines structures for analyzing and visualizing code relationships
  */
 
+import type { EndpointInfo } from './framework';
+
 /**
  * Types of relation nodes based on architectural role
  */
@@ -94,12 +96,16 @@ export interface ProjectRelations {
   lastAnalyzed: number;
   /** Hash of index-metadata.json to detect changes */
   sourceHash: string;
+  /** Per-file hashes (from index-metadata.json) used for incremental re-analysis */
+  fileHashes?: Record<string, string>;
   /** All nodes in the graph */
   nodes: RelationNode[];
   /** All edges connecting nodes */
   edges: RelationEdge[];
   /** Analysis statistics */
   stats?: RelationsStats;
+  /** Per-node coupling metrics and dependency cycles */
+  metrics?: RelationsMetrics;
 }
 
 /**
@@ -110,9 +116,40 @@ export interface RelationsStats {
   totalEdges: number;
   nodesByType: Record<RelationNodeType, number>;
   analyzedFiles: number;
+  /** Files whose nodes and edges were reused from the previous analysis */
+  reusedFiles?: number;
+  /** Number of dependency cycles (see RelationsMetrics.cycles) */
+  cycleCount?: number;
   analysisTimeMs: number;
 }
 
+/**
+ * Coupling metrics of a single node
+ */
+export interface NodeMetrics {
+  /** Distinct nodes that depend on this node (afferent coupling) */
+  fanIn: number;
+  /** Distinct nodes this node depends on (efferent coupling) */
+  fanOut: number;
+  /** fanOut / (fanIn + fanOut): 0 = stable, 1 = unstable */
+  instability: number;
+  /** Normalized betweenness centrality (0-1) */
+  centrality: number;
+  /** Index in RelationsMetrics.cycles when the node is part of a cycle */
+  cycleId?: number;
+}
+
+/**
+ * Graph metrics stored in relations.json
+ */
+export interface RelationsMetrics {
+  nodes: Record<string, NodeMetrics>;
+  /** Dependency cycles (strongly connected components of 2+ nodes), largest first */
+  cycles: string[][];
+  /** Whether centrality was estimated from a sample of source nodes (large graphs) */
+  sampledCentrality?: boolean;
+}
+
 /**
  * Status of the relations analysis
  */
@@ -156,6 +193,207 @@ export interface AnalysisOptions {
   force?: boolean;
 }
 
+/**
+ * Category used to rank nodes affected by a change
+ */
+export type ImpactCategory = 'controller' | 'service' | 'test' | 'other';
+
+/**
+ * A node reached by walking incoming edges from the changed node
+ */
+export interface ImpactedNode {
+  node: RelationNode;
+  /** Number of hops from the changed node */
+  distance: number;
+  category: ImpactCategory;
+  /** Node IDs from this node down to the changed node */
+  path: string[];
+  /** Edge IDs along the path */
+  edgeIds: string[];
+}
+
+/**
+ * Result of an impact analysis ("what breaks if I change this node")
+ */
+export interface ImpactAnalysis {
+  projectId: string;
+  /** The node being changed */
+  root: RelationNode;
+  /** Impacted nodes ranked by distance */
+  impacted: ImpactedNode[];
+  /** Maximum distance walked (undefined = unlimited) */
+  maxDepth?: number;
+  generatedAt: number;
+}
+
+/**
+ * Architectural layer of a node reached by an endpoint trace
+ */
+export type EndpointTraceLayer = 'controller' | 'service' | 'repository' | 'entity' | 'other';
+
+/**
+ * A node reached by walking outgoing edges from an endpoint handler
+ */
+export interface EndpointTraceStep {
+  node: RelationNode;
+  layer: EndpointTraceLayer;
+  /** Number of hops from the handler node */
+  depth: number;
+  /** Node that reaches this one (undefined for the handler) */
+  parentId?: string;
+  /** Edge from the parent node */
+  edgeId?: string;
+  edgeType?: RelationEdgeType;
+  /** Functions of this node invoked along the edge */
+  calledFunctions?: string[];
+}
+
+/**
+ * Downstream trace of an endpoint: handler, services, repositories and entities
+ */
+export interface EndpointTrace {
+  projectId: string;
+  endpoint: EndpointInfo;
+  /** Steps ordered by depth, the handler node first */
+  steps: EndpointTraceStep[];
+  /** Edge IDs walked by the trace */
+  edgeIds: string[];
+  /** Maximum number of hops walked */
+  maxDepth: number;
+  generatedAt: number;
+}
+
+/**
+ * Severity of an architecture rule violation
+ */
+export type ArchitectureRuleSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Selects the nodes a rule applies to (all given criteria must match)
+ */
+export interface ArchitectureNodeSelector {
+  /** Node types, as classified by NODE_TYPE_PATTERNS */
+  types?: RelationNodeType[];
+  /** Glob matched against the node file path (e.g. "src/domain/**") */
+  path?: string;
+  /** Regular expression matched against the node name */
+  name?: string;
+}
+
+/**
+ * A declarative layering rule from architecture-rules.json
+ */
+export interface ArchitectureRule {
+  id: string;
+  description?: string;
+  /**
+   * - forbidden: nodes matching `from` must not depend on nodes matching `to`
+   * - allowed: nodes matching `from` may only depend on nodes matching `to`
+   * - no-cycles: no circular dependencies between nodes or modules
+   */
+  kind: 'forbidden' | 'allowed' | 'no-cycles';
+  from?: ArchitectureNodeSelector;
+  to?: ArchitectureNodeSelector;
+  /** Edge types checked by the rule (all by default) */
+  edgeTypes?: RelationEdgeType[];
+  /** Granularity of no-cycles rules: single nodes or modules (directories) */
+  scope?: 'node' | 'module';
+  severity?: ArchitectureRuleSeverity;
+  enabled?: boolean;
+}
+
+/**
+ * Contents of the architecture-rules.json file of a project
+ */
+export interface ArchitectureRuleSet {
+  version: string;
+  rules: ArchitectureRule[];
+}
+
+/**
+ * A dependency that breaks an architecture rule
+ */
+export interface ArchitectureViolation {
+  ruleId: string;
+  severity: ArchitectureRuleSeverity;
+  message: string;
+  /** Node that owns the offending dependency */
+  source: RelationNode;
+  target?: RelationNode;
+  edge?: RelationEdge;
+  /** Names along the cycle, for no-cycles rules */
+  cycle?: string[];
+  /** Where the violation is reported (0-based line), set when the rules are checked */
+  location?: { filePath: string; line: number };
+}
+
+/**
+ * Metadata of a stored relations analysis (relations-history/index.json)
+ */
+export interface RelationsSnapshotInfo {
+  /** File name (without extension) inside relations-history/ */
+  id: string;
+  projectId: string;
+  createdAt: number;
+  /** Git commit (HEAD) of the workspace when the analysis ran */
+  commit?: string;
+  branch?: string;
+  /** Optional label given when the snapshot was taken manually */
+  label?: string;
+  sourceHash: string;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+/**
+ * Change status of a node or edge between two analyses
+ */
+export type RelationsDiffStatus = 'added' | 'removed' | 'changed';
+
+/**
+ * Structural differences between two analyses of the same project
+ */
+export interface RelationsDiff {
+  projectId: string;
+  baseLabel: string;
+  headLabel: string;
+  addedNodes: RelationNode[];
+  removedNodes: RelationNode[];
+  /** Nodes whose architectural type changed */
+  changedNodes: { node: RelationNode; previousType: RelationNodeType }[];
+  addedEdges: RelationEdge[];
+  removedEdges: RelationEdge[];
+  /** Edges whose relationship type changed */
+  changedEdges: { edge: RelationEdge; previousType: RelationEdgeType }[];
+  /** Head graph plus removed nodes and edges, for rendering */
+  merged: ProjectRelations;
+}
+
+/**
+ * Formats supported by the relations graph export
+ */
+export type RelationsExportFormat = 'dot' | 'mermaid' | 'graphml' | 'csv';
+
+/**
+ * Restricts an export to the neighbourhood of a node
+ */
+export interface RelationsSubgraphOptions {
+  rootNodeId: string;
+  /** Maximum number of hops from the root (undefined = unlimited) */
+  depth?: number;
+  /** Follow dependencies (outgoing), dependents (incoming) or both */
+  direction?: 'incoming' | 'outgoing' | 'both';
+}
+
+/**
+ * A file produced by the relations graph export
+ */
+export interface RelationsExportFile {
+  /** Suffix appended to the chosen base name (e.g. ".nodes.csv") */
+  suffix: string;
+  content: string;
+}
+
 /**
  * Mapping of file path patterns to node types
  */
@@ -235,3 +473,25 @@ export const NODE_TYPE_LABELS: Record<RelationNodeType, string> = {
   'factory': 'Factory',
   'unknown': 'Unknown',
 };
+
+/**
+ * Colors for node types (same palette as the relations webview)
+ */
+export const NODE_TYPE_COLORS: Record<RelationNodeType, string> = {
+  'controller': '#4CAF50',
+  'service': '#2196F3',
+  'repository': '#9C27B0',
+  'dao': '#9C27B0',
+  'util': '#FF9800',
+  'model': '#607D8B',
+  'component': '#E91E63',
+  'function': '#00BCD4',
+  'class': '#795548',
+  'module': '#3F51B5',
+  'config': '#FFC107',
+  'middleware': '#009688',
+  'handler': '#FF5722',
+  'adapter': '#8BC34A',
+  'factory': '#673AB7',
+  'unknown': '#9E9E9E',
+};
@@ -36,13 +36,125 @@ export function getOpenAIModel(): string | undefined {
     return config.get('openai.model');
 }
 
+/** LLM backends the extension can talk to */
+export type LLMProviderId = 'openai' | 'azure' | 'anthropic' | 'local';
+
+export const LLM_PROVIDERS: LLMProviderId[] = ['openai', 'azure', 'anthropic', 'local'];
+
+export interface LLMProviderConfig {
+    id: LLMProviderId;
+    apiKey?: string;
+    /** API base URL (Azure: resource endpoint) */
+    baseUrl?: string;
+    /** Azure OpenAI API version */
+    apiVersion?: string;
+    /** Default chat model (Azure: deployment name) */
+    model?: string;
+    /** Default embedding model (Azure: deployment name) */
+    embeddingModel?: string;
+}
+
+/**
+ * Get the provider assigned to a task type
+ * `memorybank.llm.taskProviders` overrides the default `memorybank.llm.provider`
+ * @param taskType - Type of task: 'planning', 'analysis', 'codegen', 'embeddings'...
+ */
+export function getProviderForTask(taskType?: string): LLMProviderId {
+    const config = vscode.workspace.getConfiguration('memorybank');
+    const taskProviders = config.get<Record<string, string>>('llm.taskProviders') || {};
+    const provider = (taskType && taskProviders[taskType]) || config.get<string>('llm.provider') || 'openai';
+    return LLM_PROVIDERS.includes(provider as LLMProviderId) ? provider as LLMProviderId : 'openai';
+}
+
+/**
+ * Get the connection settings of a provider
+ */
+export function getProviderConfig(id: LLMProviderId): LLMProviderConfig {
+    const config = vscode.workspace.getConfiguration('memorybank');
+    switch (id) {
+        case 'azure':
+            return {
+                id,
+                apiKey: config.get<string>('llm.azure.apiKey'),
+                baseUrl: config.get<string>('llm.azure.endpoint'),
+                apiVersion: config.get<string>('llm.azure.apiVersion') || '2024-10-21',
+                model: config.get<string>('llm.azure.deployment'),
+                embeddingModel: config.get<string>('llm.azure.embeddingDeployment')
+            };
+        case 'anthropic':
+            return {
+                id,
+                apiKey: config.get<string>('llm.anthropic.apiKey'),
+                baseUrl: config.get<string>('llm.anthropic.baseUrl') || 'https://api.anthropic.com',
+                model: config.get<string>('llm.anthropic.model') || 'claude-sonnet-4-5'
+            };
+        case 'local':
+            return {
+                id,
+                apiKey: config.get<string>('llm.local.apiKey'),
+                baseUrl: config.get<string>('llm.local.baseUrl') || 'http://localhost:11434/v1',
+                model: config.get<string>('llm.local.model'),
+                embeddingModel: config.get<string>('llm.local.embeddingModel')
+            };
+        default:
+            return {
+                id: 'openai',
+                apiKey: getOpenAIApiKey(),
+                model: config.get<string>('openai.model') || 'gpt-5-mini',
+                embeddingModel: 'text-embedding-3-small'
+            };
+    }
+}
+
+/**
+ * List the settings a provider still needs before it can be used
+ * @returns Setting keys (empty when the provider is ready)
+ */
+export function getMissingProviderSettings(id: LLMProviderId): string[] {
+    const providerConfig = getProviderConfig(id);
+    const missing: string[] = [];
+    switch (id) {
+        case 'openai':
+            if (!providerConfig.apiKey) missing.push('memorybank.openai.apiKey');
+            break;
+        case 'azure':
+            if (!providerConfig.baseUrl) missing.push('memorybank.llm.azure.endpoint');
+            if (!providerConfig.apiKey) missing.push('memorybank.llm.azure.apiKey');
+            if (!providerConfig.model) missing.push('memorybank.llm.azure.deployment');
+            break;
+        case 'anthropic':
+            if (!providerConfig.apiKey) missing.push('memorybank.llm.anthropic.apiKey');
+            break;
+        case 'local':
+            if (!providerConfig.baseUrl) missing.push('memorybank.llm.local.baseUrl');
+            if (!providerConfig.model) missing.push('memorybank.llm.local.model');
+            break;
+    }
+    return missing;
+}
+
 /**
  * Get the appropriate LLM model based on task type
- * @param taskType - Type of task: 'planning', 'analysis', 'codegen'
+ * `memorybank.llm.taskModels` overrides the model of any task; otherwise
+ * OpenAI uses the `openai.models.*` settings and other providers their
+ * default model
+ * @param taskType - Type of task: 'planning', 'analysis', 'codegen', 'embeddings'
  * @returns The model name to use for the specified task
  */
 export function getModelForTask(taskType?: string): string {
     const config = vscode.workspace.getConfiguration('memorybank');
+    const taskModels = config.get<Record<string, string>>('llm.taskModels') || {};
+    if (taskType && taskModels[taskType]) {
+        return taskModels[taskType];
+    }
+
+    const provider = getProviderForTask(taskType);
+    if (provider !== 'openai') {
+        const providerConfig = getProviderConfig(provider);
+        const model = taskType === 'embeddings' ? providerConfig.embeddingModel : providerConfig.model;
+        return model || taskModels.general || '';
+    }
+
     const defaultModel = config.get<string>('openai.model') || 'gpt-5-mini';
     
     // Si no se especifica tipo de tarea, usar el modelo por defecto
@@ -64,6 +176,8 @@ export function getModelForTask(taskType?: string): string {
             return analysisModel;
         case 'codegen':
             return codegenModel;
+        case 'embeddings':
+            return 'text-embedding-3-small';
         default:
             return defaultModel;
     }
@@ -125,9 +239,7 @@ export async function initializeDefaults(): Promise<void> {
 }
 
 export function isConfigComplete(): boolean {
-  const config = vscode.workspace.getConfiguration('memorybank');
-  const apiKey = config.get('openai.apiKey', '');
-  return apiKey !== '';
+  return getMissingProviderSettings(getProviderForTask()).length === 0;
 }
 
 export function getConfig(key: string, defaultValue: any = undefined): any {
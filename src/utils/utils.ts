@@ -35,4 +35,20 @@ export function getAllFiles(dir: string, fileList: string[] = []): string[] {
   });
 
   return fileList;
-} 
\ No newline at end of file
+}
+
+/**
+ * Convert a glob ("src/domain/**", "*.repository.ts") to a regex matching
+ * the end of a file path
+ */
+export function globToRegex(glob: string): RegExp {
+  const source = glob
+    .replace(/\\/g, '/')
+    .replace(/[.+^${}()|[\]]/g, '\\$&')
+    .replace(/\*\*\//g, '\u0000')
+    .replace(/\*\*/g, '.*')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '(?:.*/)?');
+  return new RegExp(`(^|/)${source}$`);
+}
@@ -11,17 +11,21 @@ const extensionConfig = {
   target: 'node', // VS Code extensions run in a Node.js-context
   mode: 'none', // this leaves the source code as close as possible to the original (when packaging we set this to 'production')
 
-  entry: './src/extension.ts', // the entry point of this extension
+  entry: {
+    extension: './src/extension.ts', // the entry point of this extension
+    'relations-worker': './src/services/typescriptRelationsWorker.ts', // TypeScript relations backend (worker thread)
+  },
   output: {
     // the bundle is stored in the 'dist' folder (check package.json), 
     path: path.resolve(__dirname, 'dist'),
-    filename: 'extension.js',
+    filename: '[name].js',
     libraryTarget: 'commonjs2'
   },
   devtool: 'nosources-source-map',
   externals: {
     vscode: 'commonjs vscode', // the vscode-module is created on-the-fly and must be excluded
     '@lancedb/lancedb': 'commonjs @lancedb/lancedb', // LanceDB has native modules that can't be bundled
+    '@huggingface/transformers': 'commonjs @huggingface/transformers', // ONNX Runtime native binaries, same as LanceDB
     // sql.js is NOT external - we bundle it but load WASM separately
   },
   plugins: [
@@ -32,6 +36,10 @@ const extensionConfig = {
       ],
     }),
   ],
+  // typescript (relations backend) loads optional plugins with a dynamic require we never use
+  ignoreWarnings: [
+    { module: /node_modules[\\/]typescript[\\/]/, message: /Critical dependency/ },
+  ],
   resolve: {
     // support reading TypeScript and JavaScript files
     extensions: ['.ts', '.js']
@@ -60,7 +68,8 @@ const webviewConfig = {
     'flow-webview': './src/agent/ui/react-flow/index.tsx',
     'config-webview': './src/agent/ui/react-config/index.tsx',
     'dashboard': './src/agent/ui/react-agent-dashboard/index.tsx',
-    'relations-webview': './src/agent/ui/react-relations/index.tsx'
+    'relations-webview': './src/agent/ui/react-relations/index.tsx',
+    'orchestrator-webview': './src/agent/ui/react-orchestrator/index.tsx'
   },
   output: {
     path: path.resolve(__dirname, 'dist'),